@@ -17,7 +17,10 @@ import {
   ServicePage,
 } from './components';
 import { POWER_ITEMS, SETTINGS_ITEMS } from './config/navigation';
+import { useLiveUpdates } from './hooks/useLiveUpdates';
+import { useAppConfigData } from './hooks/useSWRData';
 import { NotFoundPage } from './pages';
+import type { ServiceState } from './types/service';
 
 // Lazy load page components for better code splitting
 const QRCodePage = lazy(() => import('./pages/QRCodePage').then(m => ({ default: m.QRCodePage })));
@@ -48,6 +51,10 @@ const StarlinkSettingsPage = lazy(() =>
 const DeviceSettingsPage = lazy(() =>
   import('./pages/DeviceSettingsPage').then(m => ({ default: m.DeviceSettingsPage }))
 );
+const SyncDashboardPage = lazy(() =>
+  import('./pages/SyncDashboardPage').then(m => ({ default: m.SyncDashboardPage }))
+);
+const LoginPage = lazy(() => import('./pages/LoginPage').then(m => ({ default: m.LoginPage })));
 
 // Service configuration type
 export interface Service {
@@ -57,6 +64,10 @@ export interface Service {
   description: string;
   type?: 'public' | 'private' | 'maintenance';
   status?: 'healthy' | 'warning' | 'error';
+  state?: ServiceState;
+  health?: 'healthy' | 'unhealthy' | 'starting';
+  restartCount?: number;
+  startedAt?: string;
   version?: string;
 }
 
@@ -104,7 +115,8 @@ function AppLoadingFallback() {
 
 // Idle timeout configuration
 // The timer automatically resets on EACH user interaction, so this is
-// 5 minutes from the LAST interaction, not from page load
+// measured from the LAST interaction, not from page load
+// Overridden by the kiosk idle timeout in device settings once loaded
 const IDLE_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
 
 /**
@@ -114,12 +126,17 @@ const IDLE_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
 function AppContent() {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
+  const { data: appConfig } = useAppConfigData({ suspense: false });
+  const idleTimeoutMinutes = appConfig?.device.kiosk.idleTimeoutMinutes;
+
+  // Live network/Tailscale/kiosk status pushed from the server (replaces polling while connected)
+  useLiveUpdates();
 
-  // Auto-reset to homepage after 5 minutes of inactivity
+  // Auto-reset to homepage after the configured period of inactivity
   // IMPORTANT: The timer automatically resets on each user interaction
-  // This means the user will be redirected 5 minutes after their LAST interaction
+  // This means the user will be redirected that long after their LAST interaction
   useIdleTimer({
-    timeout: IDLE_TIMEOUT_MS,
+    timeout: idleTimeoutMinutes ? idleTimeoutMinutes * 60 * 1000 : IDLE_TIMEOUT_MS,
     onIdle: () => {
       // Preserve search params (including kiosk mode)
       const queryString = searchParams.toString();
@@ -188,6 +205,7 @@ function AppContent() {
                         />
                       }
                     />
+                    <Route path='/sync' element={<SyncDashboardPage />} />
                     <Route path='/power' element={<CardPage title='Power' items={POWER_ITEMS} />} />
                     <Route path='/network' element={<NetworkStatusPage />} />
                     <Route path='/network/clients' element={<ConnectedClientsPage />} />
@@ -202,6 +220,7 @@ function AppContent() {
                     <Route path='/settings/internet' element={<InternetSettingsPage />} />
                     <Route path='/settings/starlink' element={<StarlinkSettingsPage />} />
                     <Route path='/settings/device' element={<DeviceSettingsPage />} />
+                    <Route path='/login' element={<LoginPage />} />
                     {/* 404 catch-all route */}
                     <Route path='*' element={<NotFoundPage />} />
                   </Routes>
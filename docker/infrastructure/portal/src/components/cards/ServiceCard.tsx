@@ -2,14 +2,29 @@ import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import React from 'react';
 
 import type { Service } from '../../App';
+import type { ServiceState } from '../../types/service';
 import { getIcon } from '../../utils/iconCache';
 import { COLORS, createIconStyle } from '../../utils/iconStyles';
+import { formatUptime } from '../../utils/networkFormatting';
 
 interface ServiceCardProps {
   service: Service;
   pageType?: 'services' | 'maintenance';
 }
 
+/**
+ * Label and tag variant for container states worth calling out (running is not shown)
+ */
+const STATE_TAGS: Partial<
+  Record<ServiceState, { label: string; variant: 'warning' | 'danger' | 'neutral' }>
+> = {
+  starting: { label: 'Starting', variant: 'warning' },
+  unhealthy: { label: 'Unhealthy', variant: 'danger' },
+  restarting: { label: 'Restarting', variant: 'warning' },
+  paused: { label: 'Paused', variant: 'neutral' },
+  stopped: { label: 'Stopped', variant: 'danger' },
+};
+
 export const ServiceCard: React.FC<ServiceCardProps> = ({ service, pageType = 'services' }) => {
   const handleClick = () => {
     if (service.url) {
@@ -30,6 +45,15 @@ export const ServiceCard: React.FC<ServiceCardProps> = ({ service, pageType = 's
   // Get icon color based on page type (matching navigation colors)
   const iconColor = pageType === 'maintenance' ? COLORS.semantic.warning : COLORS.semantic.info;
 
+  // Container state, uptime and restarts
+  const stateTag = service.state ? STATE_TAGS[service.state] : undefined;
+  const details = [
+    service.startedAt &&
+      `Up ${formatUptime(Math.max(0, Math.floor((Date.now() - Date.parse(service.startedAt)) / 1000)))}`,
+    service.restartCount &&
+      `${service.restartCount} restart${service.restartCount === 1 ? '' : 's'}`,
+  ].filter(Boolean);
+
   return (
     <wa-card appearance='outlined'>
       <div
@@ -60,6 +84,16 @@ export const ServiceCard: React.FC<ServiceCardProps> = ({ service, pageType = 's
               {service.name}
             </span>
             <span className='wa-caption-s'>{service.description}</span>
+            {(stateTag || details.length > 0) && (
+              <div className='wa-cluster wa-gap-xs wa-align-items-center'>
+                {stateTag && (
+                  <wa-tag size='small' variant={stateTag.variant}>
+                    {stateTag.label}
+                  </wa-tag>
+                )}
+                {details.length > 0 && <span className='wa-caption-s'>{details.join(' · ')}</span>}
+              </div>
+            )}
           </div>
         </div>
 
@@ -1,10 +1,12 @@
 import React from 'react';
 import { Navigate, useSearchParams } from 'react-router-dom';
 
+import { useAppConfigData } from '../../hooks/useSWRData';
+
 /**
  * DefaultRoute component that intelligently redirects based on kiosk mode
  *
- * - In kiosk mode (?kiosk): redirects to /qr (QR code display)
+ * - In kiosk mode (?kiosk): redirects to the kiosk home page from device settings (default /qr)
  * - In non-kiosk mode: redirects to /services (service listing)
  *
  * Preserves all search parameters in the redirect to maintain kiosk mode state
@@ -12,13 +14,22 @@ import { Navigate, useSearchParams } from 'react-router-dom';
 export const DefaultRoute: React.FC = () => {
   const [searchParams] = useSearchParams();
   const isKioskMode = searchParams.has('kiosk');
+  const { data: appConfig, error } = useAppConfigData({ suspense: false });
+
+  // Wait for device settings before redirecting a kiosk (fall back to /qr if they fail to load)
+  if (isKioskMode && !appConfig && !error) {
+    return null;
+  }
 
   // Preserve search params in redirect
   const queryString = searchParams.toString();
   const searchParamString = queryString ? `?${queryString}` : '';
 
   // Redirect based on kiosk mode
-  const redirectPath = isKioskMode ? `/qr${searchParamString}` : `/services${searchParamString}`;
+  const kioskHomePage = appConfig?.device.kiosk.homePage ?? 'qr';
+  const redirectPath = isKioskMode
+    ? `/${kioskHomePage}${searchParamString}`
+    : `/services${searchParamString}`;
 
   return <Navigate to={redirectPath} replace />;
 };
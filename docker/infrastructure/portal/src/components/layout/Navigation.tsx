@@ -3,8 +3,9 @@ import {
   faWindowRestore,
   faQrcode,
   faNetworkWired,
+  faArrowsRotate,
 } from '@awesome.me/kit-a765fc5647/icons/duotone/solid';
-import { faGear, faWrench } from '@awesome.me/kit-a765fc5647/icons/utility-duo/semibold';
+import { faGear, faKey, faWrench } from '@awesome.me/kit-a765fc5647/icons/utility-duo/semibold';
 import type { IconDefinition } from '@fortawesome/fontawesome-svg-core';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import React, { useMemo } from 'react';
@@ -37,7 +38,15 @@ interface NavigationContext {
 /**
  * List of management pages
  */
-const MANAGEMENT_PAGES = ['/network', '/maintenance', '/settings', '/tailscale', '/power'];
+const MANAGEMENT_PAGES = [
+  '/network',
+  '/maintenance',
+  '/sync',
+  '/settings',
+  '/tailscale',
+  '/power',
+  '/login',
+];
 
 /**
  * Navigation items configuration
@@ -60,6 +69,14 @@ const NAV_ITEMS: NavItem[] = [
     // Kiosk-only, visible only when on management pages
     isVisible: ({ isKioskMode, isOnManagePage }) => isKioskMode && isOnManagePage,
   },
+  {
+    path: '/sync',
+    icon: faArrowsRotate,
+    label: 'Sync',
+    position: 'top',
+    // Kiosk-only, visible only when on management pages
+    isVisible: ({ isKioskMode, isOnManagePage }) => isKioskMode && isOnManagePage,
+  },
   {
     path: '/qr',
     icon: faQrcode,
@@ -92,6 +109,14 @@ const NAV_ITEMS: NavItem[] = [
     // Kiosk-only, visible only when on management pages
     isVisible: ({ isKioskMode, isOnManagePage }) => isKioskMode && isOnManagePage,
   },
+  {
+    path: '/login',
+    icon: faKey,
+    label: 'Admin Login',
+    position: 'bottom',
+    // Visible on management pages in any mode, since settings and power need an admin login
+    isVisible: ({ isOnManagePage }) => isOnManagePage,
+  },
 ];
 
 export const Navigation: React.FC = () => {
@@ -151,6 +176,8 @@ export const Navigation: React.FC = () => {
         return createIconStyle(ICON_STYLES.settings);
       case 'power':
         return createIconStyle(ICON_STYLES.danger);
+      case 'login':
+        return createIconStyle(ICON_STYLES.security);
       default:
         return undefined;
     }
@@ -1,6 +1,6 @@
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import React, { useMemo, useState } from 'react';
-import { NavLink, useLocation, useSearchParams } from 'react-router-dom';
+import { NavLink, useLocation, useNavigate, useSearchParams } from 'react-router-dom';
 
 import { NETWORK_STATUS_ITEMS, POWER_ITEMS, SETTINGS_ITEMS } from '../../config/navigation';
 import type { NavigationItem } from '../../types/navigation';
@@ -31,6 +31,7 @@ function getCurrentCategory(pathname: string): 'status' | 'settings' | 'power' |
  */
 export const SecondaryNavigation: React.FC = () => {
   const location = useLocation();
+  const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const [loading, setLoading] = useState<string | null>(null);
 
@@ -81,6 +82,14 @@ export const SecondaryNavigation: React.FC = () => {
 
       const data = await response.json();
 
+      // Power actions need an admin session - send viewers to the login page
+      if (response.status === 401) {
+        const params = new URLSearchParams(searchParams);
+        params.set('redirect', location.pathname);
+        navigate(`/login?${params.toString()}`);
+        return;
+      }
+
       if (!data.success) {
         alert(data.message || 'Action failed');
       }
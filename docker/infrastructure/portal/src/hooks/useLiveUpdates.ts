@@ -0,0 +1,81 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { useSWRConfig } from 'swr';
+
+import type { LiveEvent } from '../server/services/LiveStatusService';
+
+/**
+ * SWR cache keys filled by snapshot events from /api/events
+ */
+const SNAPSHOT_KEYS: Partial<Record<LiveEvent['type'], string>> = {
+  network: '/api/networks',
+  'tailscale-peers': '/api/tailscale/peers',
+  kiosk: '/api/power/kiosk/status',
+};
+
+// Connection state shared by every hook using live data
+let connected = false;
+const connectionListeners = new Set<() => void>();
+
+function setConnected(value: boolean) {
+  if (connected === value) return;
+  connected = value;
+  connectionListeners.forEach(listener => listener());
+}
+
+function subscribeConnection(listener: () => void) {
+  connectionListeners.add(listener);
+  return () => {
+    connectionListeners.delete(listener);
+  };
+}
+
+/**
+ * Whether the live event stream is connected
+ * Hooks use this to stop polling endpoints the stream keeps up to date.
+ *
+ * @example
+ * const live = useLiveConnected();
+ * useSWR(key, fetcher, { refreshInterval: live ? 0 : 5000 });
+ */
+export function useLiveConnected(): boolean {
+  return useSyncExternalStore(subscribeConnection, () => connected);
+}
+
+/**
+ * Open the live event stream and write snapshots straight into the SWR cache
+ * Mount once near the app root. If the stream drops, the browser reconnects on its own
+ * and hooks fall back to polling in the meantime.
+ */
+export function useLiveUpdates(): void {
+  const { mutate } = useSWRConfig();
+
+  useEffect(() => {
+    if (typeof EventSource === 'undefined') return;
+
+    const source = new EventSource('/api/events');
+
+    source.onopen = () => setConnected(true);
+    source.onerror = () => setConnected(false);
+
+    const listeners = Object.entries(SNAPSHOT_KEYS).map(([type, key]) => {
+      const listener = (event: MessageEvent<string>) => {
+        void mutate(key, JSON.parse(event.data), { revalidate: false });
+      };
+      source.addEventListener(type, listener);
+      return [type, listener] as const;
+    });
+
+    // Service changes only carry a notice - re-fetch every service list in use
+    const servicesListener = () => {
+      void mutate(key => typeof key === 'string' && key.startsWith('/api/services'));
+    };
+    source.addEventListener('services', servicesListener);
+    listeners.push(['services', servicesListener]);
+
+    return () => {
+      listeners.forEach(([type, listener]) => source.removeEventListener(type, listener));
+      source.close();
+      setConnected(false);
+    };
+  }, [mutate]);
+}
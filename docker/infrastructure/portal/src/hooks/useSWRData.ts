@@ -1,7 +1,19 @@
 import { useSearchParams } from 'react-router-dom';
 import useSWR, { type SWRConfiguration } from 'swr';
 
+import type { SessionInfo } from '../server/services/AuthService';
+import type { ManagedClient } from '../server/services/ClientManagementService';
+import type {
+  ClientUsage,
+  ClientUsageSummary,
+  UsageRange,
+} from '../server/services/ClientUsageService';
 import type { AppConfig } from '../server/services/ConfigService';
+import type { HotspotConfig, HotspotLease } from '../server/services/HotspotConfigService';
+import type { StarlinkObstructionMap, StarlinkStatus } from '../server/services/StarlinkService';
+import type { SyncServiceSummary } from '../server/services/SyncDashboardService';
+import type { WanCandidate, WanConfig, WanStatus } from '../server/services/WanService';
+import type { WifiBand, WifiConfigWithMetadata } from '../server/services/WifiConfigService';
 import type {
   NetworkSummary,
   NetworkInterface,
@@ -12,6 +24,8 @@ import type {
 } from '../types/network';
 import type { ServiceMetadata } from '../types/service';
 
+import { useLiveConnected } from './useLiveUpdates';
+
 /**
  * Hostapd status response type
  */
@@ -30,6 +44,20 @@ export interface HostapdStatus {
   hidden?: boolean;
 }
 
+/**
+ * WiFi settings response type
+ */
+export interface WifiSettings extends WifiConfigWithMetadata {
+  availableChannels: Record<WifiBand, number[]>;
+}
+
+/**
+ * WAN settings response type
+ */
+export interface WanSettings extends WanConfig {
+  candidates: WanCandidate[];
+}
+
 /**
  * Extended error type for SWR with status code and error info
  */
@@ -112,15 +140,18 @@ const defaultConfig: SWRConfiguration = {
 // =============================================================================
 
 /**
- * Hook for fetching network summary with polling
+ * Hook for fetching network summary
+ * Kept up to date by the live event stream, polls only while it is disconnected
  * Replaces useNetworkWorker
  *
  * @example
  * const { data, error, isLoading, mutate } = useNetworkSummary();
  */
 export function useNetworkSummary(config?: SWRConfiguration) {
+  const live = useLiveConnected();
   return useSWR<NetworkSummary>('/api/networks', fetcher, {
     ...defaultConfig,
+    ...(live && { refreshInterval: 0 }),
     ...config,
   });
 }
@@ -161,7 +192,9 @@ export function useHostapdStatus(config?: SWRConfiguration) {
 // =============================================================================
 
 /**
- * Hook for fetching services with polling
+ * Hook for fetching services
+ * Re-fetched when the live event stream reports a service change, polls only while it is
+ * disconnected (and once a minute for uptimes)
  * Replaces useServices
  *
  * @example
@@ -180,9 +213,11 @@ export function useServicesData(
   if (domainOverride) params.append('domain', domainOverride);
 
   const url = `/api/services${params.toString() ? `?${params.toString()}` : ''}`;
+  const live = useLiveConnected();
 
   return useSWR<{ services: ServiceMetadata[] }>(url, fetcher, {
     ...defaultConfig,
+    ...(live && { refreshInterval: 60000 }),
     ...config,
   });
 }
@@ -208,6 +243,210 @@ export function useAppConfigData(config?: SWRConfiguration) {
   });
 }
 
+/**
+ * Hook for fetching the current login session and role
+ *
+ * @example
+ * const { data: session, mutate } = useAuthSession();
+ * const isAdmin = session?.role === 'admin';
+ */
+export function useAuthSession(config?: SWRConfiguration) {
+  return useSWR<SessionInfo>('/api/auth/session', fetcher, {
+    ...defaultConfig,
+    refreshInterval: 60000, // Notice session expiry within a minute
+    ...config,
+  });
+}
+
+/**
+ * Hook for fetching hotspot WiFi configuration
+ *
+ * @example
+ * const { data, error, isLoading, mutate } = useWifiSettings();
+ */
+export function useWifiSettings(config?: SWRConfiguration) {
+  return useSWR<WifiSettings>('/api/config/wifi', fetcher, {
+    ...defaultConfig,
+    refreshInterval: 0, // Don't poll (only changes through the settings form)
+    revalidateOnFocus: false, // Don't clobber in-progress edits
+    ...config,
+  });
+}
+
+/**
+ * Hook for fetching hotspot DHCP and access point settings
+ *
+ * @example
+ * const { data, error, isLoading, mutate } = useHotspotSettings();
+ */
+export function useHotspotSettings(config?: SWRConfiguration) {
+  return useSWR<HotspotConfig>('/api/config/hotspot', fetcher, {
+    ...defaultConfig,
+    refreshInterval: 0, // Don't poll (only changes through the settings form)
+    revalidateOnFocus: false, // Don't clobber in-progress edits
+    ...config,
+  });
+}
+
+/**
+ * Hook for fetching active DHCP leases on the hotspot
+ *
+ * @example
+ * const { data: leases } = useHotspotLeases();
+ */
+export function useHotspotLeases(config?: SWRConfiguration) {
+  return useSWR<HotspotLease[]>('/api/config/hotspot/leases', fetcher, {
+    ...defaultConfig,
+    refreshInterval: 30000, // Leases change as clients come and go
+    ...config,
+  });
+}
+
+/**
+ * Hook for fetching portal-managed client settings (names, blocks, bandwidth caps)
+ *
+ * @example
+ * const { data: managedClients, mutate } = useManagedClients();
+ */
+export function useManagedClients(config?: SWRConfiguration) {
+  return useSWR<ManagedClient[]>('/api/clients', fetcher, {
+    ...defaultConfig,
+    refreshInterval: 0, // Don't poll (only changes through client actions)
+    revalidateOnFocus: false,
+    ...config,
+  });
+}
+
+/**
+ * Hook for fetching data used by each hotspot client over a range
+ *
+ * @example
+ * const { data: usage } = useClientUsageSummary('24h');
+ */
+export function useClientUsageSummary(range: UsageRange, config?: SWRConfiguration) {
+  return useSWR<ClientUsageSummary[]>(`/api/networks/clients/usage?range=${range}`, fetcher, {
+    ...defaultConfig,
+    refreshInterval: 60000, // Usage is sampled once a minute
+    ...config,
+  });
+}
+
+/**
+ * Hook for fetching one client's usage time series
+ * Pass null as macAddress to skip fetching
+ *
+ * @example
+ * const { data: usage } = useClientUsage(client.macAddress, '1h');
+ */
+export function useClientUsage(
+  macAddress: string | null,
+  range: UsageRange,
+  config?: SWRConfiguration
+) {
+  return useSWR<ClientUsage>(
+    macAddress
+      ? `/api/networks/clients/${encodeURIComponent(macAddress)}/usage?range=${range}`
+      : null,
+    fetcher,
+    {
+      ...defaultConfig,
+      refreshInterval: 60000, // Usage is sampled once a minute
+      ...config,
+    }
+  );
+}
+
+// =============================================================================
+// WAN Hooks
+// =============================================================================
+
+/**
+ * Hook for fetching WAN uplink status (active uplink, probe results, failover history)
+ *
+ * @example
+ * const { data: status } = useWanStatus();
+ */
+export function useWanStatus(config?: SWRConfiguration) {
+  return useSWR<WanStatus>('/api/wan', fetcher, {
+    ...defaultConfig,
+    ...config,
+  });
+}
+
+/**
+ * Hook for fetching WAN uplink priority and failover configuration
+ *
+ * @example
+ * const { data: settings, mutate } = useWanSettings();
+ */
+export function useWanSettings(config?: SWRConfiguration) {
+  return useSWR<WanSettings>('/api/wan/config', fetcher, {
+    ...defaultConfig,
+    refreshInterval: 0, // Don't poll (only changes through the settings form)
+    revalidateOnFocus: false, // Don't clobber in-progress edits
+    ...config,
+  });
+}
+
+// =============================================================================
+// Sync Hooks
+// =============================================================================
+
+/**
+ * Hook for fetching the Sync dashboard (schedules, operations, failures, storage per service)
+ * Polls quickly while any operation or card eject is running so progress stays live
+ *
+ * @example
+ * const { data: services, mutate } = useSyncDashboard();
+ */
+export function useSyncDashboard(config?: SWRConfiguration) {
+  return useSWR<SyncServiceSummary[]>('/api/sync', fetcher, {
+    ...defaultConfig,
+    refreshInterval: (services?: SyncServiceSummary[]) =>
+      services?.some(
+        service =>
+          service.operations.length > 0 ||
+          service.cards.some(card => !['mounted', 'safe_to_remove', 'failed'].includes(card.stage))
+      )
+        ? 2000
+        : 15000,
+    ...config,
+  });
+}
+
+// =============================================================================
+// Starlink Hooks
+// =============================================================================
+
+/**
+ * Hook for fetching Starlink dish status
+ *
+ * @example
+ * const { data: status } = useStarlinkStatus();
+ */
+export function useStarlinkStatus(config?: SWRConfiguration) {
+  return useSWR<StarlinkStatus>('/api/starlink/status', fetcher, {
+    ...defaultConfig,
+    ...config,
+  });
+}
+
+/**
+ * Hook for fetching the Starlink obstruction map
+ * Not suspense-based so a missing map doesn't block the rest of the page
+ *
+ * @example
+ * const { data: map, error } = useStarlinkObstructionMap();
+ */
+export function useStarlinkObstructionMap(config?: SWRConfiguration) {
+  return useSWR<StarlinkObstructionMap>('/api/starlink/obstruction-map', fetcher, {
+    ...defaultConfig,
+    refreshInterval: 60000, // The map only changes slowly
+    suspense: false,
+    ...config,
+  });
+}
+
 // =============================================================================
 // Helper Hooks (for backward compatibility)
 // =============================================================================
@@ -286,13 +525,16 @@ export function useTailscaleExitNodes(config?: SWRConfiguration) {
 
 /**
  * Hook for fetching Tailscale peers
+ * Kept up to date by the live event stream, polls only while it is disconnected
  *
  * @example
  * const { data, error, isLoading } = useTailscalePeers();
  */
 export function useTailscalePeers(config?: SWRConfiguration) {
+  const live = useLiveConnected();
   return useSWR<TailscalePeer[]>('/api/tailscale/peers', fetcher, {
     ...defaultConfig,
+    ...(live && { refreshInterval: 0 }),
     ...config,
   });
 }
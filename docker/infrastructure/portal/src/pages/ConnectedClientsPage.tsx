@@ -1,3 +1,4 @@
+import { faGaugeHigh } from '@awesome.me/kit-a765fc5647/icons/duotone/solid';
 import {
   faComputerClassic,
   faKey,
@@ -7,13 +8,30 @@ import {
   faCircleInfo,
 } from '@awesome.me/kit-a765fc5647/icons/utility-duo/semibold';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
-import React, { useMemo, Suspense } from 'react';
+import React, { useMemo, useState, Suspense } from 'react';
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { useSWRConfig } from 'swr';
 
 import { StatusCard } from '../components/cards/StatusCard';
 import type { StatusCardTag } from '../components/cards/StatusCard';
-import { useHotspotInterface } from '../hooks/useSWRData';
+import {
+  useAuthSession,
+  useClientUsage,
+  useClientUsageSummary,
+  useHotspotInterface,
+  useManagedClients,
+} from '../hooks/useSWRData';
+import type { ManagedClient } from '../server/services/ClientManagementService';
+import type { UsagePoint, UsageRange } from '../server/services/ClientUsageService';
 import type { WiFiInterface, ConnectedClient } from '../types/network';
 import { createIconStyle, ICON_STYLES } from '../utils/iconStyles';
+import { formatBytes } from '../utils/networkFormatting';
+
+const RANGE_LABELS: Record<UsageRange, string> = {
+  '1h': 'Last hour',
+  '24h': 'Last 24 hours',
+  '7d': 'Last 7 days',
+};
 
 /**
  * Loading skeleton for connected clients page
@@ -59,12 +77,413 @@ function ConnectedClientsSkeleton() {
   );
 }
 
+/**
+ * Sparkline of downloaded (orange) and uploaded (blue) bytes per bucket
+ */
+function UsageSparkline({ points }: { points: UsagePoint[] }) {
+  const width = 120;
+  const height = 32;
+  const max = Math.max(1, ...points.map(point => Math.max(point.rxBytes, point.txBytes)));
+  const toPath = (values: number[]) =>
+    values
+      .map((value, index) => {
+        const x = points.length > 1 ? (index / (points.length - 1)) * width : 0;
+        const y = height - 1 - (value / max) * (height - 2);
+        return `${x.toFixed(1)},${y.toFixed(1)}`;
+      })
+      .join(' ');
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      role='img'
+      aria-label='Data usage over time'
+    >
+      <polyline
+        points={toPath(points.map(point => point.rxBytes))}
+        fill='none'
+        stroke={ICON_STYLES.download.primaryColor}
+        strokeWidth={1.5}
+      />
+      <polyline
+        points={toPath(points.map(point => point.txBytes))}
+        fill='none'
+        stroke={ICON_STYLES.upload.primaryColor}
+        strokeWidth={1.5}
+      />
+    </svg>
+  );
+}
+
+/**
+ * Usage sparkline and totals shown in a client card footer
+ * Fetched per client without suspense so the client list never waits on it
+ */
+function ClientUsageFooter({ macAddress, range }: { macAddress: string; range: UsageRange }) {
+  const { data: usage } = useClientUsage(macAddress, range, { suspense: false });
+
+  if (!usage) {
+    return <span className='wa-caption-s'>No usage recorded yet</span>;
+  }
+
+  return (
+    <>
+      <UsageSparkline points={usage.points} />
+      <div className='wa-stack wa-gap-3xs' style={{ alignItems: 'flex-end' }}>
+        <span className='wa-caption-s'>
+          <FontAwesomeIcon icon={faCloudArrowDown} style={createIconStyle(ICON_STYLES.download)} />{' '}
+          {formatBytes(usage.rxBytes)}
+        </span>
+        <span className='wa-caption-s'>
+          <FontAwesomeIcon icon={faCloudArrowUp} style={createIconStyle(ICON_STYLES.upload)} />{' '}
+          {formatBytes(usage.txBytes)}
+        </span>
+      </div>
+    </>
+  );
+}
+
+/**
+ * Data used per client over the selected range, heaviest first
+ * Includes clients that have since disconnected
+ */
+function UsageSummary({ range }: { range: UsageRange }) {
+  const { data: usage } = useClientUsageSummary(range, { suspense: false });
+
+  if (!usage || usage.length === 0) {
+    return null;
+  }
+
+  const heaviest = Math.max(1, ...usage.map(client => client.rxBytes + client.txBytes));
+
+  return (
+    <div className='wa-stack wa-gap-s'>
+      <h3>Data Usage</h3>
+      <wa-card appearance='outlined'>
+        <div className='wa-stack wa-gap-m'>
+          {usage.map(client => {
+            const total = client.rxBytes + client.txBytes;
+            return (
+              <div key={client.macAddress} className='wa-stack wa-gap-2xs'>
+                <div className='wa-split wa-gap-s'>
+                  <span className='wa-body-s' style={{ fontWeight: 600 }}>
+                    {client.hostname || client.ipAddress || client.macAddress}
+                    {!client.connected && <span className='wa-caption-s'> (disconnected)</span>}
+                  </span>
+                  <span className='wa-caption-s'>
+                    {formatBytes(total)} ({formatBytes(client.rxBytes)} down,{' '}
+                    {formatBytes(client.txBytes)} up)
+                  </span>
+                </div>
+                <wa-progress-bar value={(total / heaviest) * 100}></wa-progress-bar>
+              </div>
+            );
+          })}
+        </div>
+      </wa-card>
+    </div>
+  );
+}
+
+type ClientActionHandler = (
+  key: string,
+  url: string,
+  method: string,
+  body?: unknown
+) => Promise<boolean>;
+
+/**
+ * Format a kbit/s limit as Mbit/s for inputs
+ */
+function formatLimit(kbps: number | undefined): string {
+  return kbps === undefined ? '' : String(kbps / 1000);
+}
+
+/**
+ * Parse a Mbit/s input into kbit/s (undefined when empty)
+ */
+function parseLimit(value: string): number | undefined {
+  return value.trim() ? Math.round(parseFloat(value) * 1000) : undefined;
+}
+
+/**
+ * Admin actions for one client: rename, bandwidth limit, disconnect and block
+ */
+function ClientActions({
+  client,
+  managed,
+  busy,
+  onAction,
+}: {
+  client: ConnectedClient;
+  managed: ManagedClient | undefined;
+  busy: string | null;
+  onAction: ClientActionHandler;
+}) {
+  const mac = client.macAddress;
+  const url = `/api/clients/${encodeURIComponent(mac)}`;
+  const [name, setName] = useState(managed?.name ?? '');
+  const [download, setDownload] = useState(formatLimit(managed?.cap?.downloadKbps));
+  const [upload, setUpload] = useState(formatLimit(managed?.cap?.uploadKbps));
+  const disabled = busy !== null;
+
+  return (
+    <wa-details summary='Manage'>
+      <div className='wa-stack wa-gap-s'>
+        <div className='wa-flank:end wa-gap-xs'>
+          <wa-input
+            size='small'
+            value={name}
+            placeholder='Friendly name'
+            {...({
+              disabled,
+              oninput: (e: Event) => setName((e.target as HTMLInputElement).value),
+            } as Record<string, unknown>)}
+          ></wa-input>
+          <wa-button
+            size='small'
+            {...({
+              onclick: () => onAction(`${mac}-name`, `${url}/name`, 'PUT', { name }),
+            } as Record<string, unknown>)}
+            disabled={disabled}
+            loading={busy === `${mac}-name`}
+          >
+            Rename
+          </wa-button>
+        </div>
+
+        <div className='wa-cluster wa-gap-xs'>
+          <wa-input
+            size='small'
+            type='number'
+            label='Download limit (Mbit/s)'
+            value={download}
+            style={{ width: '10rem' }}
+            {...({
+              disabled,
+              min: 0.064,
+              step: 0.1,
+              oninput: (e: Event) => setDownload((e.target as HTMLInputElement).value),
+            } as Record<string, unknown>)}
+          ></wa-input>
+          <wa-input
+            size='small'
+            type='number'
+            label='Upload limit (Mbit/s)'
+            value={upload}
+            style={{ width: '10rem' }}
+            {...({
+              disabled,
+              min: 0.064,
+              step: 0.1,
+              oninput: (e: Event) => setUpload((e.target as HTMLInputElement).value),
+            } as Record<string, unknown>)}
+          ></wa-input>
+        </div>
+        <div className='wa-cluster wa-gap-xs'>
+          <wa-button
+            size='small'
+            {...({
+              onclick: () =>
+                onAction(`${mac}-cap`, `${url}/cap`, 'PUT', {
+                  downloadKbps: parseLimit(download),
+                  uploadKbps: parseLimit(upload),
+                }),
+            } as Record<string, unknown>)}
+            disabled={disabled || (!download.trim() && !upload.trim())}
+            loading={busy === `${mac}-cap`}
+          >
+            Apply Limit
+          </wa-button>
+          {managed?.cap && (
+            <wa-button
+              size='small'
+              appearance='outlined'
+              {...({
+                onclick: async () => {
+                  if (await onAction(`${mac}-uncap`, `${url}/cap`, 'DELETE')) {
+                    setDownload('');
+                    setUpload('');
+                  }
+                },
+              } as Record<string, unknown>)}
+              disabled={disabled}
+              loading={busy === `${mac}-uncap`}
+            >
+              Remove Limit
+            </wa-button>
+          )}
+        </div>
+
+        <div className='wa-cluster wa-gap-xs'>
+          <wa-button
+            size='small'
+            variant='warning'
+            appearance='outlined'
+            {...({
+              onclick: () => onAction(`${mac}-kick`, `${url}/kick`, 'POST'),
+            } as Record<string, unknown>)}
+            disabled={disabled}
+            loading={busy === `${mac}-kick`}
+          >
+            Disconnect
+          </wa-button>
+          <wa-button
+            size='small'
+            variant='danger'
+            {...({
+              onclick: () => {
+                if (window.confirm(`Block ${client.hostname || mac} from the hotspot?`)) {
+                  void onAction(`${mac}-block`, `${url}/block`, 'POST');
+                }
+              },
+            } as Record<string, unknown>)}
+            disabled={disabled}
+            loading={busy === `${mac}-block`}
+          >
+            Block
+          </wa-button>
+        </div>
+      </div>
+    </wa-details>
+  );
+}
+
+/**
+ * Clients blocked from the hotspot, with an unblock action for admins
+ */
+function BlockedClients({
+  clients,
+  isAdmin,
+  busy,
+  onAction,
+}: {
+  clients: ManagedClient[];
+  isAdmin: boolean;
+  busy: string | null;
+  onAction: ClientActionHandler;
+}) {
+  if (clients.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className='wa-stack wa-gap-s'>
+      <h3>Blocked Clients</h3>
+      <div className='wa-grid'>
+        {clients.map(client => (
+          <StatusCard
+            key={client.macAddress}
+            variant='danger'
+            layout='horizontal'
+            icon={
+              <FontAwesomeIcon
+                icon={faComputerClassic}
+                size='lg'
+                style={{ ...createIconStyle(ICON_STYLES.danger), maxWidth: '2rem' }}
+              />
+            }
+            title={client.name || client.macAddress}
+            subtitle={
+              client.blockedAt
+                ? `Blocked ${new Date(client.blockedAt).toLocaleString()}`
+                : undefined
+            }
+            actionButton={
+              isAdmin && (
+                <wa-button
+                  size='small'
+                  appearance='outlined'
+                  {...({
+                    onclick: () =>
+                      onAction(
+                        `${client.macAddress}-unblock`,
+                        `/api/clients/${encodeURIComponent(client.macAddress)}/block`,
+                        'DELETE'
+                      ),
+                  } as Record<string, unknown>)}
+                  disabled={busy !== null}
+                  loading={busy === `${client.macAddress}-unblock`}
+                >
+                  Unblock
+                </wa-button>
+              )
+            }
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
 /**
  * Connected Clients Content Component
  * This component calls SWR hooks and must be wrapped in Suspense
  */
 const ConnectedClientsContent: React.FC = () => {
   const { data: hotspot } = useHotspotInterface();
+  const { data: session } = useAuthSession({ suspense: false });
+  const { data: managedClients, mutate: mutateManagedClients } = useManagedClients({
+    suspense: false,
+  });
+  const { mutate } = useSWRConfig();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const [range, setRange] = useState<UsageRange>('24h');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const isAdmin = session?.role === 'admin';
+
+  const managedByMac = useMemo(
+    () => new Map((managedClients ?? []).map(client => [client.macAddress, client])),
+    [managedClients]
+  );
+  const blockedClients = useMemo(
+    () => (managedClients ?? []).filter(client => client.blocked),
+    [managedClients]
+  );
+
+  const runAction: ClientActionHandler = async (key, url, method, body) => {
+    setBusy(key);
+    setMessage(null);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        ...(body !== undefined && { body: JSON.stringify(body) }),
+      });
+
+      // Client actions need an admin session - send viewers to the login page
+      if (response.status === 401) {
+        const params = new URLSearchParams(searchParams);
+        params.set('redirect', location.pathname);
+        navigate(`/login?${params.toString()}`);
+        return false;
+      }
+
+      const result = await response.json();
+      setMessage({
+        type: result.success ? 'success' : 'error',
+        text: result.message || (result.success ? 'Done' : 'Action failed'),
+      });
+
+      // Names and connections show up in the network summary
+      await Promise.all([mutateManagedClients(), mutate('/api/networks')]);
+      return Boolean(result.success);
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Action failed',
+      });
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  };
 
   // Get connected clients from hotspot interface
   const connectedClients = useMemo(() => {
@@ -74,7 +493,14 @@ const ConnectedClientsContent: React.FC = () => {
   }, [hotspot]);
 
   const content = (
-    <>
+    <div className='wa-stack wa-gap-xl'>
+      {/* Status message */}
+      {message && (
+        <wa-callout variant={message.type === 'success' ? 'success' : 'danger'}>
+          {message.text}
+        </wa-callout>
+      )}
+
       {connectedClients.length === 0 ? (
         <wa-callout variant='neutral' className='wa-gap-s'>
           <div slot='icon' style={{ display: 'contents' }}>
@@ -84,7 +510,20 @@ const ConnectedClientsContent: React.FC = () => {
         </wa-callout>
       ) : (
         <div className='wa-stack wa-gap-s'>
-          <h2>Connected Clients</h2>
+          <div className='wa-split wa-gap-s'>
+            <h2>Connected Clients</h2>
+            <wa-select
+              value={range}
+              size='small'
+              onchange={(e: Event) => setRange((e.target as HTMLSelectElement).value as UsageRange)}
+            >
+              {(Object.keys(RANGE_LABELS) as UsageRange[]).map(option => (
+                <wa-option key={option} value={option}>
+                  {RANGE_LABELS[option]}
+                </wa-option>
+              ))}
+            </wa-select>
+          </div>
           <div className='wa-grid'>
             {connectedClients.map((client: ConnectedClient, index: number) => {
               const tags: StatusCardTag[] = [];
@@ -141,6 +580,27 @@ const ConnectedClientsContent: React.FC = () => {
                 });
               }
 
+              // Bandwidth limit tag
+              const cap = managedByMac.get(client.macAddress)?.cap;
+              if (cap) {
+                tags.push({
+                  label: 'Limited',
+                  value: [
+                    cap.downloadKbps !== undefined && `${cap.downloadKbps / 1000} Mbit/s down`,
+                    cap.uploadKbps !== undefined && `${cap.uploadKbps / 1000} Mbit/s up`,
+                  ]
+                    .filter(Boolean)
+                    .join(', '),
+                  icon: (
+                    <FontAwesomeIcon
+                      icon={faGaugeHigh}
+                      style={createIconStyle(ICON_STYLES.speed)}
+                    />
+                  ),
+                  variant: 'warning',
+                });
+              }
+
               return (
                 <StatusCard
                   key={client.macAddress || index}
@@ -156,13 +616,30 @@ const ConnectedClientsContent: React.FC = () => {
                   subtitle={client.ipAddress && client.hostname ? client.ipAddress : undefined}
                   tags={tags}
                   className='connected-client'
+                  footerContent={<ClientUsageFooter macAddress={client.macAddress} range={range} />}
+                  actionButton={
+                    isAdmin && (
+                      <ClientActions
+                        // Remount when saved settings load or change so the inputs show them
+                        key={JSON.stringify(managedByMac.get(client.macAddress) ?? {})}
+                        client={client}
+                        managed={managedByMac.get(client.macAddress)}
+                        busy={busy}
+                        onAction={runAction}
+                      />
+                    )
+                  }
                 />
               );
             })}
           </div>
         </div>
       )}
-    </>
+
+      <BlockedClients clients={blockedClients} isAdmin={isAdmin} busy={busy} onAction={runAction} />
+
+      <UsageSummary range={range} />
+    </div>
   );
 
   return content;
@@ -1,13 +1,324 @@
-import React from 'react';
+import { faArrowsRotate, faDesktop } from '@awesome.me/kit-a765fc5647/icons/duotone/solid';
+import {
+  faComputerClassic,
+  faGlobe,
+  faHouse,
+  faLocationDot,
+} from '@awesome.me/kit-a765fc5647/icons/utility-duo/semibold';
+import React, { useMemo, useState, Suspense } from 'react';
+
+import { SettingsCard } from '../components/cards';
+import { useAppConfigData } from '../hooks/useSWRData';
+import type { DeviceSettingsUpdate, KioskSettings } from '../server/services/DeviceSettingsService';
+import { ICON_STYLES } from '../utils/iconStyles';
 
 /**
- * Device Settings Page
+ * Loading skeleton for device settings page
+ * Matches the SettingsCard layout with icon, title, description, and footer
  */
-export const DeviceSettingsPage: React.FC = () => {
+function DeviceSettingsSkeleton() {
+  return (
+    <div className='wa-stack wa-gap-xl'>
+      <h2>Device Settings</h2>
+      <div
+        className='wa-grid wa-gap-m'
+        style={{ '--min-column-size': '250px', '--max-columns': '2' } as React.CSSProperties}
+      >
+        {Array.from({ length: 6 }, (_, index) => (
+          <wa-card key={index} appearance='outlined' className='card settings-card'>
+            <div
+              className='wa-stack wa-gap-s wa-align-items-center'
+              style={{ justifyContent: 'center', padding: 'var(--wa-space-m)' }}
+            >
+              <wa-skeleton
+                effect='sheen'
+                style={{ width: '64px', height: '64px', borderRadius: '6px' }}
+              ></wa-skeleton>
+              <wa-skeleton
+                effect='sheen'
+                style={{ width: `${120 + index * 15}px`, height: '20px' }}
+              ></wa-skeleton>
+            </div>
+            <div slot='footer' style={{ width: '100%' }}>
+              <wa-skeleton
+                effect='sheen'
+                style={{ width: '100%', height: '36px', borderRadius: '4px' }}
+              ></wa-skeleton>
+            </div>
+          </wa-card>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Split a comma or whitespace separated server list
+ */
+function parseServerList(value: string): string[] {
+  return value
+    .split(/[\s,]+/)
+    .map(server => server.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Device Settings Page Content
+ */
+function DeviceSettingsContent() {
+  const { data: config, mutate } = useAppConfigData();
+  const device = config?.device;
+  const [hostname, setHostname] = useState(device?.hostname ?? '');
+  const [timezone, setTimezone] = useState(device?.timezone ?? 'UTC');
+  const [ntpServers, setNtpServers] = useState(device?.ntpServers.join(', ') ?? '');
+  const [baseDomain, setBaseDomain] = useState(device?.baseDomain ?? '');
+  const [kioskEnabled, setKioskEnabled] = useState(device?.kiosk.enabled ?? false);
+  const [idleTimeout, setIdleTimeout] = useState(String(device?.kiosk.idleTimeoutMinutes ?? 5));
+  const [homePage, setHomePage] = useState<KioskSettings['homePage']>(
+    device?.kiosk.homePage ?? 'qr'
+  );
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  // Time zones known to the browser, with the current one kept even if the browser lacks it
+  const timezones = useMemo(() => {
+    const zones = Intl.supportedValuesOf('timeZone');
+    return device && !zones.includes(device.timezone) ? [device.timezone, ...zones] : zones;
+  }, [device]);
+
+  if (!device) {
+    return (
+      <div className='wa-stack wa-gap-xl'>
+        <h2>Device Settings</h2>
+        <wa-callout variant='warning'>Device settings could not be loaded.</wa-callout>
+      </div>
+    );
+  }
+
+  const ntpChanged = parseServerList(ntpServers).join(' ') !== device.ntpServers.join(' ');
+  const kioskChanged =
+    kioskEnabled !== device.kiosk.enabled ||
+    idleTimeout !== String(device.kiosk.idleTimeoutMinutes) ||
+    homePage !== device.kiosk.homePage;
+  const hasChanges =
+    hostname !== device.hostname ||
+    timezone !== device.timezone ||
+    ntpChanged ||
+    baseDomain !== device.baseDomain ||
+    kioskChanged;
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+
+    // Only send fields that actually changed
+    const update: DeviceSettingsUpdate = {};
+    if (hostname !== device.hostname) update.hostname = hostname.trim();
+    if (timezone !== device.timezone) update.timezone = timezone;
+    if (ntpChanged) update.ntpServers = parseServerList(ntpServers);
+    if (baseDomain !== device.baseDomain) update.baseDomain = baseDomain.trim().toLowerCase();
+    if (kioskChanged) {
+      update.kiosk = { enabled: kioskEnabled, idleTimeoutMinutes: Number(idleTimeout), homePage };
+    }
+
+    try {
+      const response = await fetch('/api/config/app', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update),
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        setMessage({ type: 'success', text: result.message });
+        await mutate();
+      } else {
+        setMessage({ type: 'error', text: result.message || 'Failed to update device settings' });
+        // Some settings may have been saved even when others failed to apply
+        await mutate();
+      }
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to update device settings',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
   return (
     <div className='wa-stack wa-gap-xl'>
       <h2>Device Settings</h2>
-      <wa-callout variant='neutral'>Device settings configuration coming soon.</wa-callout>
+
+      {/* Status message */}
+      {message && (
+        <wa-callout variant={message.type === 'success' ? 'success' : 'danger'}>
+          {message.text}
+        </wa-callout>
+      )}
+
+      <div
+        className='wa-grid wa-gap-m'
+        style={
+          {
+            '--min-column-size': '250px',
+            '--max-columns': '2',
+          } as React.CSSProperties
+        }
+      >
+        {/* Hostname Card */}
+        <SettingsCard
+          icon={faComputerClassic}
+          iconStyle={ICON_STYLES.device}
+          title='Hostname'
+          description='Name of this device on the network'
+          footerSlot={
+            <wa-input
+              value={hostname}
+              placeholder='dangerprep'
+              {...({
+                disabled: saving,
+                oninput: (e: Event) => setHostname((e.target as HTMLInputElement).value),
+              } as Record<string, unknown>)}
+            ></wa-input>
+          }
+        />
+
+        {/* Base Domain Card */}
+        <SettingsCard
+          icon={faGlobe}
+          iconStyle={ICON_STYLES.dns}
+          title='Base Domain'
+          description='Domain service links are built on, e.g. danger or danger.diy'
+          footerSlot={
+            <wa-input
+              value={baseDomain}
+              placeholder='danger'
+              {...({
+                disabled: saving,
+                oninput: (e: Event) => setBaseDomain((e.target as HTMLInputElement).value),
+              } as Record<string, unknown>)}
+            ></wa-input>
+          }
+        />
+
+        {/* Timezone Card */}
+        <SettingsCard
+          icon={faLocationDot}
+          iconStyle={ICON_STYLES.info}
+          title='Time Zone'
+          description='Local time zone used for clocks and logs'
+          footerSlot={
+            <wa-select
+              value={timezone}
+              onchange={(e: Event) => setTimezone((e.target as HTMLSelectElement).value)}
+              disabled={saving}
+            >
+              {timezones.map(zone => (
+                <wa-option key={zone} value={zone}>
+                  {zone.replace(/_/g, ' ')}
+                </wa-option>
+              ))}
+            </wa-select>
+          }
+        />
+
+        {/* NTP Servers Card */}
+        <SettingsCard
+          icon={faArrowsRotate}
+          iconStyle={ICON_STYLES.network}
+          title='Time Servers'
+          description='NTP servers to sync the clock with, leave empty for the system defaults'
+          footerSlot={
+            <wa-input
+              value={ntpServers}
+              placeholder='pool.ntp.org, time.cloudflare.com'
+              {...({
+                disabled: saving,
+                oninput: (e: Event) => setNtpServers((e.target as HTMLInputElement).value),
+              } as Record<string, unknown>)}
+            ></wa-input>
+          }
+        />
+
+        {/* Kiosk Display Card */}
+        <SettingsCard
+          icon={faDesktop}
+          iconStyle={ICON_STYLES.deviceSettings}
+          title='Kiosk Display'
+          description='This device drives an attached kiosk screen'
+          headerSlot={
+            <wa-switch
+              defaultChecked={device.kiosk.enabled}
+              onchange={(e: Event) => setKioskEnabled((e.target as HTMLInputElement).checked)}
+              disabled={saving}
+            ></wa-switch>
+          }
+          footerSlot={
+            <wa-input
+              type='number'
+              value={idleTimeout}
+              label='Return home after (minutes idle)'
+              {...({
+                min: 1,
+                max: 120,
+                disabled: saving,
+                oninput: (e: Event) => setIdleTimeout((e.target as HTMLInputElement).value),
+              } as Record<string, unknown>)}
+            ></wa-input>
+          }
+        />
+
+        {/* Kiosk Home Page Card */}
+        <SettingsCard
+          icon={faHouse}
+          iconStyle={ICON_STYLES.brand}
+          title='Kiosk Home Page'
+          description='Page the kiosk shows on start and after going idle'
+          footerSlot={
+            <wa-select
+              value={homePage}
+              onchange={(e: Event) =>
+                setHomePage((e.target as HTMLSelectElement).value as KioskSettings['homePage'])
+              }
+              disabled={saving}
+            >
+              <wa-option value='qr'>WiFi QR Code</wa-option>
+              <wa-option value='services'>Services</wa-option>
+            </wa-select>
+          }
+        />
+      </div>
+
+      <wa-callout variant='neutral'>
+        Hostname, time zone and time server changes are applied to the device right away. A new base
+        domain is used for service links on the next page load; DNS and certificates for it must
+        already be set up.
+      </wa-callout>
+
+      <div className='wa-cluster wa-gap-s'>
+        <wa-button
+          variant='brand'
+          {...({ onclick: handleSave } as Record<string, unknown>)}
+          disabled={saving || !hasChanges}
+          loading={saving}
+        >
+          Save Device Settings
+        </wa-button>
+      </div>
     </div>
   );
+}
+
+/**
+ * Device Settings Page
+ */
+export const DeviceSettingsPage: React.FC = () => {
+  return (
+    <Suspense fallback={<DeviceSettingsSkeleton />}>
+      <DeviceSettingsContent />
+    </Suspense>
+  );
 };
@@ -1,13 +1,406 @@
-import React from 'react';
+import {
+  faArrowsRotate,
+  faNetworkWired,
+  faUsers,
+} from '@awesome.me/kit-a765fc5647/icons/duotone/solid';
+import { faShieldHalved, faTag } from '@awesome.me/kit-a765fc5647/icons/utility-duo/semibold';
+import React, { useState, Suspense } from 'react';
+
+import { SettingsCard } from '../components/cards';
+import { useHotspotLeases, useHotspotSettings } from '../hooks/useSWRData';
+import type { DhcpReservation, HotspotConfigUpdate } from '../server/services/HotspotConfigService';
+import { ICON_STYLES } from '../utils/iconStyles';
 
 /**
- * Hotspot Settings Page
+ * Loading skeleton for hotspot settings page
+ * Matches the SettingsCard layout with icon, title, description, and footer
  */
-export const HotspotSettingsPage: React.FC = () => {
+function HotspotSettingsSkeleton() {
+  return (
+    <div className='wa-stack wa-gap-xl'>
+      <h2>Hotspot Settings</h2>
+      <div
+        className='wa-grid wa-gap-m'
+        style={{ '--min-column-size': '250px', '--max-columns': '2' } as React.CSSProperties}
+      >
+        {Array.from({ length: 4 }, (_, index) => (
+          <wa-card key={index} appearance='outlined' className='card settings-card'>
+            <div
+              className='wa-stack wa-gap-s wa-align-items-center'
+              style={{ justifyContent: 'center', padding: 'var(--wa-space-m)' }}
+            >
+              <wa-skeleton
+                effect='sheen'
+                style={{ width: '64px', height: '64px', borderRadius: '6px' }}
+              ></wa-skeleton>
+              <wa-skeleton
+                effect='sheen'
+                style={{ width: `${120 + index * 15}px`, height: '20px' }}
+              ></wa-skeleton>
+            </div>
+            <div slot='footer' style={{ width: '100%' }}>
+              <wa-skeleton
+                effect='sheen'
+                style={{ width: '100%', height: '36px', borderRadius: '4px' }}
+              ></wa-skeleton>
+            </div>
+          </wa-card>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Compare two reservation lists ignoring order
+ */
+function sameReservations(a: DhcpReservation[], b: DhcpReservation[]): boolean {
+  const key = (r: DhcpReservation) =>
+    `${r.macAddress.toLowerCase()},${r.ipAddress},${r.hostname ?? ''}`;
+  const keysA = a.map(key).sort();
+  const keysB = b.map(key).sort();
+  return keysA.length === keysB.length && keysA.every((value, index) => value === keysB[index]);
+}
+
+/**
+ * Hotspot Settings Page Content
+ */
+function HotspotSettingsContent() {
+  const { data: settings, mutate } = useHotspotSettings();
+  const { data: leases, mutate: mutateLeases } = useHotspotLeases();
+  const [rangeStart, setRangeStart] = useState(settings?.dhcpRange?.start ?? '');
+  const [rangeEnd, setRangeEnd] = useState(settings?.dhcpRange?.end ?? '');
+  const [leaseTime, setLeaseTime] = useState(settings?.leaseTime ?? '24h');
+  const [maxClients, setMaxClients] = useState(
+    settings?.maxClients !== undefined ? String(settings.maxClients) : ''
+  );
+  const [apIsolation, setApIsolation] = useState(settings?.apIsolation ?? false);
+  const [reservations, setReservations] = useState<DhcpReservation[]>(settings?.reservations ?? []);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  if (!settings) {
+    return (
+      <div className='wa-stack wa-gap-xl'>
+        <h2>Hotspot Settings</h2>
+        <wa-callout variant='warning'>Hotspot configuration could not be loaded.</wa-callout>
+      </div>
+    );
+  }
+
+  const currentMaxClients = settings.maxClients !== undefined ? String(settings.maxClients) : '';
+  const rangeChanged =
+    rangeStart !== (settings.dhcpRange?.start ?? '') ||
+    rangeEnd !== (settings.dhcpRange?.end ?? '');
+  const hasChanges =
+    rangeChanged ||
+    leaseTime !== (settings.leaseTime ?? '24h') ||
+    maxClients !== currentMaxClients ||
+    apIsolation !== settings.apIsolation ||
+    !sameReservations(reservations, settings.reservations);
+
+  const reservedMacs = new Set(reservations.map(r => r.macAddress.toLowerCase()));
+  const unreservedLeases = (leases ?? []).filter(
+    lease => !reservedMacs.has(lease.macAddress.toLowerCase())
+  );
+
+  const updateReservation = (index: number, changes: Partial<DhcpReservation>) => {
+    setReservations(current =>
+      current.map((reservation, i) => (i === index ? { ...reservation, ...changes } : reservation))
+    );
+  };
+
+  const removeReservation = (index: number) => {
+    setReservations(current => current.filter((_, i) => i !== index));
+  };
+
+  const addReservation = (reservation?: DhcpReservation) => {
+    setReservations(current => [...current, reservation ?? { macAddress: '', ipAddress: '' }]);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+
+    // Only send fields that actually changed
+    const update: HotspotConfigUpdate = {};
+    if (rangeChanged) update.dhcpRange = { start: rangeStart, end: rangeEnd };
+    if (leaseTime !== (settings.leaseTime ?? '24h')) update.leaseTime = leaseTime;
+    if (maxClients !== currentMaxClients) update.maxClients = Number(maxClients);
+    if (apIsolation !== settings.apIsolation) update.apIsolation = apIsolation;
+    if (!sameReservations(reservations, settings.reservations)) {
+      update.reservations = reservations.map(({ macAddress, ipAddress, hostname }) => ({
+        macAddress: macAddress.trim(),
+        ipAddress: ipAddress.trim(),
+        ...(hostname?.trim() && { hostname: hostname.trim() }),
+      }));
+    }
+
+    try {
+      const response = await fetch('/api/config/hotspot', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update),
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        setMessage({ type: 'success', text: result.message });
+        await Promise.all([mutate(), mutateLeases()]);
+      } else {
+        setMessage({
+          type: 'error',
+          text: result.message || 'Failed to update hotspot configuration',
+        });
+      }
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to update hotspot configuration',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
   return (
     <div className='wa-stack wa-gap-xl'>
       <h2>Hotspot Settings</h2>
-      <wa-callout variant='neutral'>Hotspot settings configuration coming soon.</wa-callout>
+
+      {/* Status message */}
+      {message && (
+        <wa-callout variant={message.type === 'success' ? 'success' : 'danger'}>
+          {message.text}
+        </wa-callout>
+      )}
+
+      <div
+        className='wa-grid wa-gap-m'
+        style={
+          {
+            '--min-column-size': '250px',
+            '--max-columns': '2',
+          } as React.CSSProperties
+        }
+      >
+        {/* DHCP Range Card */}
+        <SettingsCard
+          icon={faNetworkWired}
+          iconStyle={ICON_STYLES.network}
+          title='Address Pool'
+          description={
+            settings.gateway
+              ? `Addresses handed out to clients, gateway is ${settings.gateway}`
+              : 'Addresses handed out to clients'
+          }
+          footerSlot={
+            <div className='wa-cluster wa-gap-xs' style={{ flexWrap: 'nowrap' }}>
+              <wa-input
+                value={rangeStart}
+                placeholder='Start'
+                {...({
+                  disabled: saving,
+                  oninput: (e: Event) => setRangeStart((e.target as HTMLInputElement).value),
+                } as Record<string, unknown>)}
+              ></wa-input>
+              <wa-input
+                value={rangeEnd}
+                placeholder='End'
+                {...({
+                  disabled: saving,
+                  oninput: (e: Event) => setRangeEnd((e.target as HTMLInputElement).value),
+                } as Record<string, unknown>)}
+              ></wa-input>
+            </div>
+          }
+        />
+
+        {/* Lease Time Card */}
+        <SettingsCard
+          icon={faArrowsRotate}
+          iconStyle={ICON_STYLES.info}
+          title='Lease Time'
+          description='How long clients keep an address, e.g. 30m, 12h, 7d or infinite'
+          footerSlot={
+            <wa-input
+              value={leaseTime}
+              placeholder='24h'
+              {...({
+                disabled: saving,
+                oninput: (e: Event) => setLeaseTime((e.target as HTMLInputElement).value),
+              } as Record<string, unknown>)}
+            ></wa-input>
+          }
+        />
+
+        {/* Max Clients Card */}
+        <SettingsCard
+          icon={faUsers}
+          iconStyle={ICON_STYLES.clients}
+          title='Max Clients'
+          description='Maximum number of devices connected at once'
+          footerSlot={
+            <wa-input
+              type='number'
+              value={maxClients}
+              placeholder='Unlimited'
+              {...({
+                min: 1,
+                max: 2007,
+                disabled: saving,
+                oninput: (e: Event) => setMaxClients((e.target as HTMLInputElement).value),
+              } as Record<string, unknown>)}
+            ></wa-input>
+          }
+        />
+
+        {/* Client Isolation Card */}
+        <SettingsCard
+          icon={faShieldHalved}
+          iconStyle={ICON_STYLES.security}
+          title='Client Isolation'
+          description='Stop hotspot clients from reaching each other directly'
+          headerSlot={
+            <wa-switch
+              defaultChecked={settings.apIsolation}
+              onchange={(e: Event) => setApIsolation((e.target as HTMLInputElement).checked)}
+              disabled={saving}
+            ></wa-switch>
+          }
+        />
+      </div>
+
+      {/* Static Reservations */}
+      <SettingsCard
+        icon={faTag}
+        iconStyle={ICON_STYLES.tag}
+        title='Reserved Addresses'
+        description='Always give the same address to a device by its MAC address'
+        footerSlot={
+          <div className='wa-cluster wa-gap-s'>
+            <wa-button
+              appearance='outlined'
+              {...({ onclick: () => addReservation() } as Record<string, unknown>)}
+              disabled={saving}
+            >
+              Add Reservation
+            </wa-button>
+          </div>
+        }
+      >
+        <div className='wa-stack wa-gap-s' style={{ width: '100%' }}>
+          {reservations.length === 0 && (
+            <p className='wa-caption-m' style={{ textAlign: 'center' }}>
+              No reserved addresses
+            </p>
+          )}
+          {reservations.map((reservation, index) => (
+            <div key={index} className='wa-cluster wa-gap-xs' style={{ flexWrap: 'nowrap' }}>
+              <wa-input
+                value={reservation.macAddress}
+                placeholder='aa:bb:cc:dd:ee:ff'
+                {...({
+                  disabled: saving,
+                  oninput: (e: Event) =>
+                    updateReservation(index, {
+                      macAddress: (e.target as HTMLInputElement).value,
+                    }),
+                } as Record<string, unknown>)}
+              ></wa-input>
+              <wa-input
+                value={reservation.ipAddress}
+                placeholder='IP address'
+                {...({
+                  disabled: saving,
+                  oninput: (e: Event) =>
+                    updateReservation(index, { ipAddress: (e.target as HTMLInputElement).value }),
+                } as Record<string, unknown>)}
+              ></wa-input>
+              <wa-input
+                value={reservation.hostname ?? ''}
+                placeholder='Hostname (optional)'
+                {...({
+                  disabled: saving,
+                  oninput: (e: Event) =>
+                    updateReservation(index, { hostname: (e.target as HTMLInputElement).value }),
+                } as Record<string, unknown>)}
+              ></wa-input>
+              <wa-button
+                variant='danger'
+                appearance='plain'
+                {...({ onclick: () => removeReservation(index) } as Record<string, unknown>)}
+                disabled={saving}
+              >
+                Remove
+              </wa-button>
+            </div>
+          ))}
+
+          {unreservedLeases.length > 0 && (
+            <>
+              <h4 style={{ margin: 'var(--wa-space-s) 0 0 0' }}>Connected Devices</h4>
+              {unreservedLeases.map(lease => (
+                <div
+                  key={lease.macAddress}
+                  className='wa-split wa-gap-xs'
+                  style={{ alignItems: 'center' }}
+                >
+                  <span>
+                    {lease.hostname ?? 'Unknown device'}{' '}
+                    <span className='wa-caption-m'>
+                      {lease.ipAddress} ({lease.macAddress})
+                    </span>
+                  </span>
+                  <wa-button
+                    size='small'
+                    appearance='outlined'
+                    {...({
+                      onclick: () =>
+                        addReservation({
+                          macAddress: lease.macAddress,
+                          ipAddress: lease.ipAddress,
+                          ...(lease.hostname && { hostname: lease.hostname }),
+                        }),
+                    } as Record<string, unknown>)}
+                    disabled={saving}
+                  >
+                    Reserve
+                  </wa-button>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      </SettingsCard>
+
+      <wa-callout variant='neutral'>
+        Address pool, lease time and reservation changes restart the DHCP server. Max clients and
+        client isolation changes restart the hotspot, so connected devices will drop briefly. If a
+        service fails to start, its previous settings are restored.
+      </wa-callout>
+
+      <div className='wa-cluster wa-gap-s'>
+        <wa-button
+          variant='brand'
+          {...({ onclick: handleSave } as Record<string, unknown>)}
+          disabled={saving || !hasChanges}
+          loading={saving}
+        >
+          Save Hotspot Settings
+        </wa-button>
+      </div>
     </div>
   );
+}
+
+/**
+ * Hotspot Settings Page
+ */
+export const HotspotSettingsPage: React.FC = () => {
+  return (
+    <Suspense fallback={<HotspotSettingsSkeleton />}>
+      <HotspotSettingsContent />
+    </Suspense>
+  );
 };
@@ -1,13 +1,440 @@
-import React from 'react';
+import {
+  faArrowsRotate,
+  faChevronsDown,
+  faChevronsUp,
+  faEthernet,
+  faRainbowHalf,
+  faRoute,
+  faSatelliteDish,
+} from '@awesome.me/kit-a765fc5647/icons/duotone/solid';
+import { faGlobe, faSignal } from '@awesome.me/kit-a765fc5647/icons/utility-duo/semibold';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import React, { useState, Suspense } from 'react';
+
+import { SettingsCard } from '../components/cards';
+import { StatusCard } from '../components/cards/StatusCard';
+import type { StatusCardTag } from '../components/cards/StatusCard';
+import { useWanSettings, useWanStatus } from '../hooks/useSWRData';
+import type {
+  UplinkType,
+  WanFailoverEvent,
+  WanUplink,
+  WanUplinkStatus,
+} from '../server/services/WanService';
+import { createIconStyle, ICON_STYLES } from '../utils/iconStyles';
+
+const UPLINK_TYPE_LABELS: Record<UplinkType, string> = {
+  ethernet: 'Ethernet',
+  wifi: 'WiFi Client',
+  cellular: 'Cellular',
+  starlink: 'Starlink',
+};
+
+const EVENT_VARIANTS: Record<
+  WanFailoverEvent['reason'],
+  'success' | 'danger' | 'warning' | 'neutral'
+> = {
+  failover: 'warning',
+  recovery: 'success',
+  config: 'neutral',
+  startup: 'neutral',
+  'no-uplink': 'danger',
+};
 
 /**
- * Internet Settings Page
+ * Get icon and icon style for an uplink type
  */
-export const InternetSettingsPage: React.FC = () => {
+function getUplinkIcon(type: UplinkType) {
+  switch (type) {
+    case 'wifi':
+      return { icon: faRainbowHalf, style: ICON_STYLES.wifi, flip: 'horizontal' as const };
+    case 'cellular':
+      return { icon: faSignal, style: ICON_STYLES.signal };
+    case 'starlink':
+      return { icon: faSatelliteDish, style: ICON_STYLES.starlink };
+    default:
+      return { icon: faEthernet, style: ICON_STYLES.ethernet };
+  }
+}
+
+/**
+ * Loading skeleton for internet settings page
+ */
+function InternetSettingsSkeleton() {
   return (
     <div className='wa-stack wa-gap-xl'>
       <h2>Internet Settings</h2>
-      <wa-callout variant='neutral'>Internet settings configuration coming soon.</wa-callout>
+      <div
+        className='wa-grid wa-gap-m'
+        style={{ '--min-column-size': '18rem' } as React.CSSProperties}
+      >
+        {Array.from({ length: 3 }, (_, index) => (
+          <wa-card key={index} appearance='outlined'>
+            <div className='wa-stack wa-gap-m'>
+              <div className='wa-flank wa-gap-m wa-align-items-center'>
+                <wa-skeleton
+                  effect='sheen'
+                  style={{ width: '48px', height: '48px', borderRadius: '6px' }}
+                ></wa-skeleton>
+                <div className='wa-stack wa-gap-xs' style={{ flex: 1 }}>
+                  <wa-skeleton
+                    effect='sheen'
+                    style={{ width: `${150 + index * 30}px`, height: '20px' }}
+                  ></wa-skeleton>
+                  <wa-skeleton
+                    effect='sheen'
+                    style={{ width: '100px', height: '16px' }}
+                  ></wa-skeleton>
+                </div>
+              </div>
+            </div>
+          </wa-card>
+        ))}
+      </div>
     </div>
   );
+}
+
+/**
+ * Internet Settings Page Content
+ */
+function InternetSettingsContent() {
+  const { data: status, mutate: mutateStatus } = useWanStatus();
+  const { data: settings, mutate: mutateSettings } = useWanSettings();
+  const [uplinks, setUplinks] = useState<WanUplink[]>(settings?.uplinks ?? []);
+  const [autoFailover, setAutoFailover] = useState(settings?.autoFailover ?? true);
+  const [saving, setSaving] = useState(false);
+  const [probing, setProbing] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  if (!settings || !status) {
+    return (
+      <div className='wa-stack wa-gap-xl'>
+        <h2>Internet Settings</h2>
+        <wa-callout variant='warning'>Internet settings could not be loaded.</wa-callout>
+      </div>
+    );
+  }
+
+  const hasChanges =
+    autoFailover !== settings.autoFailover ||
+    JSON.stringify(uplinks) !== JSON.stringify(settings.uplinks);
+  const statusByInterface = new Map<string, WanUplinkStatus>(
+    status.uplinks.map(uplink => [uplink.interface, uplink])
+  );
+  const configured = new Set(uplinks.map(uplink => uplink.interface));
+  const unconfigured = settings.candidates.filter(
+    candidate => !configured.has(candidate.interface)
+  );
+
+  const moveUplink = (index: number, offset: number) => {
+    setUplinks(current => {
+      const next = [...current];
+      const [moved] = next.splice(index, 1);
+      if (moved) next.splice(index + offset, 0, moved);
+      return next;
+    });
+  };
+
+  const updateUplink = (index: number, changes: Partial<WanUplink>) => {
+    setUplinks(current =>
+      current.map((uplink, i) => (i === index ? { ...uplink, ...changes } : uplink))
+    );
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/wan/config', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ uplinks, autoFailover }),
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        setMessage({ type: 'success', text: result.message });
+        await Promise.all([mutateSettings(), mutateStatus()]);
+      } else {
+        setMessage({ type: 'error', text: result.message || 'Failed to save internet settings' });
+      }
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to save internet settings',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleProbe = async () => {
+    setProbing(true);
+    try {
+      await fetch('/api/wan/probe', { method: 'POST' });
+      await mutateStatus();
+    } finally {
+      setProbing(false);
+    }
+  };
+
+  const activeUplink = status.activeInterface
+    ? statusByInterface.get(status.activeInterface)
+    : undefined;
+
+  return (
+    <div className='wa-stack wa-gap-xl'>
+      <h2>Internet Settings</h2>
+
+      {/* Status message */}
+      {message && (
+        <wa-callout variant={message.type === 'success' ? 'success' : 'danger'}>
+          {message.text}
+        </wa-callout>
+      )}
+
+      {!activeUplink && (
+        <wa-callout variant='danger'>
+          No uplink is currently passing health checks. Devices on the hotspot can still reach local
+          services, but not the internet.
+        </wa-callout>
+      )}
+
+      {/* Uplinks in priority order */}
+      <div className='wa-stack wa-gap-m'>
+        <div className='wa-split'>
+          <h3 className='wa-heading-s'>Uplinks</h3>
+          <wa-button
+            size='small'
+            appearance='outlined'
+            {...({ onclick: handleProbe } as Record<string, unknown>)}
+            loading={probing}
+            disabled={probing}
+          >
+            Check Now
+          </wa-button>
+        </div>
+
+        {uplinks.length === 0 && (
+          <wa-callout variant='neutral'>No uplink interfaces were found.</wa-callout>
+        )}
+
+        {uplinks.map((uplink, index) => {
+          const live = statusByInterface.get(uplink.interface);
+          const { icon, style, flip } = getUplinkIcon(uplink.type);
+          const tags: StatusCardTag[] = [
+            {
+              label: 'Priority',
+              value: index + 1,
+              variant: 'neutral',
+            },
+          ];
+
+          if (live?.ipAddress) {
+            tags.push({
+              label: 'IP',
+              value: live.ipAddress,
+              icon: <FontAwesomeIcon icon={faGlobe} style={createIconStyle(ICON_STYLES.ipv4)} />,
+              variant: 'neutral',
+            });
+          }
+          if (live?.latencyMs !== undefined && live.healthy) {
+            tags.push({ label: 'Latency', value: `${live.latencyMs} ms`, variant: 'neutral' });
+          }
+
+          let subtitle = 'Disabled';
+          let variant: 'success' | 'danger' | 'neutral' | 'warning' = 'neutral';
+          if (uplink.enabled) {
+            if (live?.active) {
+              subtitle = 'Active';
+              variant = 'success';
+            } else if (!live?.present) {
+              subtitle = 'Not connected';
+              variant = 'danger';
+            } else if (live.healthy) {
+              subtitle = 'Standby';
+            } else {
+              subtitle = live.state === 'up' ? 'No internet' : 'Link down';
+              variant = 'danger';
+            }
+          }
+
+          return (
+            <StatusCard
+              key={uplink.interface}
+              variant={variant}
+              layout='horizontal'
+              icon={
+                <FontAwesomeIcon
+                  icon={icon}
+                  size='lg'
+                  flip={flip}
+                  style={{ ...createIconStyle(style), maxWidth: '2rem' }}
+                />
+              }
+              title={`${uplink.label || UPLINK_TYPE_LABELS[uplink.type]} (${uplink.interface})`}
+              subtitle={subtitle}
+              tags={tags}
+              actionButton={
+                <div className='wa-cluster wa-gap-xs'>
+                  <wa-select
+                    size='small'
+                    value={uplink.type}
+                    onchange={(e: Event) =>
+                      updateUplink(index, {
+                        type: (e.target as HTMLSelectElement).value as UplinkType,
+                      })
+                    }
+                    disabled={saving}
+                  >
+                    {Object.entries(UPLINK_TYPE_LABELS).map(([value, label]) => (
+                      <wa-option key={value} value={value}>
+                        {label}
+                      </wa-option>
+                    ))}
+                  </wa-select>
+                  <wa-button
+                    size='small'
+                    appearance='plain'
+                    {...({ onclick: () => moveUplink(index, -1) } as Record<string, unknown>)}
+                    disabled={saving || index === 0}
+                  >
+                    <FontAwesomeIcon icon={faChevronsUp} />
+                  </wa-button>
+                  <wa-button
+                    size='small'
+                    appearance='plain'
+                    {...({ onclick: () => moveUplink(index, 1) } as Record<string, unknown>)}
+                    disabled={saving || index === uplinks.length - 1}
+                  >
+                    <FontAwesomeIcon icon={faChevronsDown} />
+                  </wa-button>
+                  <wa-switch
+                    defaultChecked={uplink.enabled}
+                    onchange={(e: Event) =>
+                      updateUplink(index, { enabled: (e.target as HTMLInputElement).checked })
+                    }
+                    disabled={saving}
+                  ></wa-switch>
+                </div>
+              }
+            />
+          );
+        })}
+
+        {unconfigured.map(candidate => (
+          <div key={candidate.interface} className='wa-split wa-gap-xs'>
+            <span>
+              {candidate.interface}{' '}
+              <span className='wa-caption-m'>
+                {UPLINK_TYPE_LABELS[candidate.type]}, link {candidate.state}
+              </span>
+            </span>
+            <wa-button
+              size='small'
+              appearance='outlined'
+              {...({
+                onclick: () =>
+                  setUplinks(current => [
+                    ...current,
+                    { interface: candidate.interface, type: candidate.type, enabled: true },
+                  ]),
+              } as Record<string, unknown>)}
+              disabled={saving}
+            >
+              Add Uplink
+            </wa-button>
+          </div>
+        ))}
+      </div>
+
+      <div
+        className='wa-grid wa-gap-m'
+        style={
+          {
+            '--min-column-size': '250px',
+            '--max-columns': '2',
+          } as React.CSSProperties
+        }
+      >
+        {/* Automatic Failover Card */}
+        <SettingsCard
+          icon={faArrowsRotate}
+          iconStyle={ICON_STYLES.internet}
+          title='Automatic Failover'
+          description={`Switch to the next healthy uplink after ${settings.probe.failureThreshold} failed checks, and back once the preferred one recovers`}
+          headerSlot={
+            <wa-switch
+              defaultChecked={settings.autoFailover}
+              onchange={(e: Event) => setAutoFailover((e.target as HTMLInputElement).checked)}
+              disabled={saving}
+            ></wa-switch>
+          }
+        />
+
+        {/* Health Probe Card */}
+        <SettingsCard
+          icon={faRoute}
+          iconStyle={ICON_STYLES.routes}
+          title='Health Checks'
+          description={`Every ${settings.probe.intervalSeconds}s each uplink pings ${settings.probe.targets.join(', ')}`}
+        />
+      </div>
+
+      <div className='wa-cluster wa-gap-s'>
+        <wa-button
+          variant='brand'
+          {...({ onclick: handleSave } as Record<string, unknown>)}
+          disabled={saving || !hasChanges}
+          loading={saving}
+        >
+          Save Internet Settings
+        </wa-button>
+      </div>
+
+      {/* Failover History */}
+      <div className='wa-stack wa-gap-m'>
+        <h3 className='wa-heading-s'>Failover History</h3>
+        {status.history.length === 0 ? (
+          <wa-callout variant='neutral'>The active uplink has not changed yet.</wa-callout>
+        ) : (
+          <wa-card appearance='outlined'>
+            <div className='wa-stack wa-gap-s'>
+              {status.history.map(event => (
+                <div
+                  key={`${event.timestamp}-${event.reason}`}
+                  className='wa-split wa-gap-s'
+                  style={{ alignItems: 'center' }}
+                >
+                  <span>
+                    {event.message}{' '}
+                    <span className='wa-caption-m'>
+                      {new Date(event.timestamp).toLocaleString()}
+                    </span>
+                  </span>
+                  <wa-tag variant={EVENT_VARIANTS[event.reason]} size='small'>
+                    {event.reason}
+                  </wa-tag>
+                </div>
+              ))}
+            </div>
+          </wa-card>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Internet Settings Page
+ */
+export const InternetSettingsPage: React.FC = () => {
+  return (
+    <Suspense fallback={<InternetSettingsSkeleton />}>
+      <InternetSettingsContent />
+    </Suspense>
+  );
 };
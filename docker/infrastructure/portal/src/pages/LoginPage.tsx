@@ -0,0 +1,279 @@
+import { faKey, faShieldHalved } from '@awesome.me/kit-a765fc5647/icons/utility-duo/semibold';
+import React, { useState, Suspense } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+
+import { SettingsCard } from '../components/cards';
+import { useAuthSession } from '../hooks/useSWRData';
+import { ICON_STYLES } from '../utils/iconStyles';
+
+/**
+ * Loading skeleton for login page
+ */
+function LoginSkeleton() {
+  return (
+    <div className='wa-stack wa-gap-xl'>
+      <h2>Admin Login</h2>
+      <wa-card appearance='outlined' className='card settings-card' style={{ maxWidth: '28rem' }}>
+        <div
+          className='wa-stack wa-gap-s wa-align-items-center'
+          style={{ justifyContent: 'center', padding: 'var(--wa-space-m)' }}
+        >
+          <wa-skeleton
+            effect='sheen'
+            style={{ width: '64px', height: '64px', borderRadius: '6px' }}
+          ></wa-skeleton>
+          <wa-skeleton effect='sheen' style={{ width: '140px', height: '20px' }}></wa-skeleton>
+        </div>
+        <div slot='footer' style={{ width: '100%' }}>
+          <wa-skeleton
+            effect='sheen'
+            style={{ width: '100%', height: '36px', borderRadius: '4px' }}
+          ></wa-skeleton>
+        </div>
+      </wa-card>
+    </div>
+  );
+}
+
+/**
+ * Login Page Content
+ * Shows the login form for viewers, and logout plus PIN/password change for admins
+ */
+function LoginContent() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { data: session, mutate } = useAuthSession();
+  const [password, setPassword] = useState('');
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState<'login' | 'logout' | 'password' | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  // Keep kiosk and other params when returning to the page that asked for a login
+  const getReturnPath = () => {
+    const params = new URLSearchParams(searchParams);
+    const redirect = params.get('redirect');
+    params.delete('redirect');
+    const queryString = params.toString();
+    const path = redirect?.startsWith('/') ? redirect : '/settings';
+    return queryString ? `${path}?${queryString}` : path;
+  };
+
+  const submit = async (
+    action: 'login' | 'logout' | 'password',
+    url: string,
+    method: string,
+    body?: unknown
+  ) => {
+    setLoading(action);
+    setMessage(null);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        ...(body !== undefined && { body: JSON.stringify(body) }),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        setMessage({ type: 'error', text: result.message || 'Request failed' });
+        return false;
+      }
+
+      await mutate();
+      setMessage({ type: 'success', text: result.message });
+      return true;
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Request failed',
+      });
+      return false;
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const handleLogin = async () => {
+    if (await submit('login', '/api/auth/login', 'POST', { password })) {
+      setPassword('');
+      navigate(getReturnPath(), { replace: true });
+    }
+  };
+
+  const handleLogout = async () => {
+    await submit('logout', '/api/auth/logout', 'POST');
+  };
+
+  const handleChangePassword = async () => {
+    if (newPassword !== confirmPassword) {
+      setMessage({ type: 'error', text: 'New PIN/password entries do not match' });
+      return;
+    }
+    if (await submit('password', '/api/auth/password', 'PUT', { currentPassword, newPassword })) {
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+    }
+  };
+
+  if (!session?.adminConfigured) {
+    return (
+      <div className='wa-stack wa-gap-xl'>
+        <h2>Admin Login</h2>
+        <wa-callout variant='warning'>
+          Admin login is not set up. Set <code>PORTAL_ADMIN_PASSWORD</code> in the portal
+          environment and restart it to enable settings changes and power actions.
+        </wa-callout>
+      </div>
+    );
+  }
+
+  const isAdmin = session.role === 'admin';
+
+  return (
+    <div className='wa-stack wa-gap-xl'>
+      <h2>Admin Login</h2>
+
+      {/* Status message */}
+      {message && (
+        <wa-callout variant={message.type === 'success' ? 'success' : 'danger'}>
+          {message.text}
+        </wa-callout>
+      )}
+
+      <div
+        className='wa-grid wa-gap-m'
+        style={
+          {
+            '--min-column-size': '250px',
+            '--max-columns': '2',
+          } as React.CSSProperties
+        }
+      >
+        {isAdmin ? (
+          <SettingsCard
+            icon={faShieldHalved}
+            iconStyle={ICON_STYLES.success}
+            title='Logged In'
+            description={
+              session.expiresAt
+                ? `Admin session until ${new Date(session.expiresAt).toLocaleString()}`
+                : 'Admin session active'
+            }
+            footerSlot={
+              <wa-button
+                appearance='outlined'
+                {...({ onclick: handleLogout } as Record<string, unknown>)}
+                disabled={loading !== null}
+                loading={loading === 'logout'}
+              >
+                Log Out
+              </wa-button>
+            }
+          />
+        ) : (
+          <SettingsCard
+            icon={faKey}
+            iconStyle={ICON_STYLES.security}
+            title='Admin Login'
+            description='Enter the admin PIN or password to change settings and use power actions'
+            footerSlot={
+              <div className='wa-stack wa-gap-s' style={{ width: '100%' }}>
+                <wa-input
+                  type='password'
+                  value={password}
+                  placeholder='PIN or password'
+                  password-toggle
+                  {...({
+                    disabled: loading !== null,
+                    oninput: (e: Event) => setPassword((e.target as HTMLInputElement).value),
+                    onkeydown: (e: KeyboardEvent) => {
+                      if (e.key === 'Enter' && password) void handleLogin();
+                    },
+                  } as Record<string, unknown>)}
+                ></wa-input>
+                <wa-button
+                  variant='brand'
+                  {...({ onclick: handleLogin } as Record<string, unknown>)}
+                  disabled={loading !== null || !password}
+                  loading={loading === 'login'}
+                >
+                  Log In
+                </wa-button>
+              </div>
+            }
+          />
+        )}
+
+        {isAdmin && (
+          <SettingsCard
+            icon={faKey}
+            iconStyle={ICON_STYLES.security}
+            title='Change PIN/Password'
+            description='Other admin sessions are logged out after a change'
+            footerSlot={
+              <div className='wa-stack wa-gap-s' style={{ width: '100%' }}>
+                <wa-input
+                  type='password'
+                  value={currentPassword}
+                  placeholder='Current PIN/password'
+                  {...({
+                    disabled: loading !== null,
+                    oninput: (e: Event) => setCurrentPassword((e.target as HTMLInputElement).value),
+                  } as Record<string, unknown>)}
+                ></wa-input>
+                <wa-input
+                  type='password'
+                  value={newPassword}
+                  placeholder='New PIN/password'
+                  {...({
+                    disabled: loading !== null,
+                    oninput: (e: Event) => setNewPassword((e.target as HTMLInputElement).value),
+                  } as Record<string, unknown>)}
+                ></wa-input>
+                <wa-input
+                  type='password'
+                  value={confirmPassword}
+                  placeholder='Confirm new PIN/password'
+                  {...({
+                    disabled: loading !== null,
+                    oninput: (e: Event) => setConfirmPassword((e.target as HTMLInputElement).value),
+                  } as Record<string, unknown>)}
+                ></wa-input>
+                <wa-button
+                  variant='brand'
+                  {...({ onclick: handleChangePassword } as Record<string, unknown>)}
+                  disabled={loading !== null || !currentPassword || !newPassword}
+                  loading={loading === 'password'}
+                >
+                  Change PIN/Password
+                </wa-button>
+              </div>
+            }
+          />
+        )}
+      </div>
+
+      {!isAdmin && (
+        <wa-callout variant='neutral'>
+          Status pages are open to everyone on the network. Settings changes and power actions need
+          an admin login.
+        </wa-callout>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Login Page
+ */
+export const LoginPage: React.FC = () => {
+  return (
+    <Suspense fallback={<LoginSkeleton />}>
+      <LoginContent />
+    </Suspense>
+  );
+};
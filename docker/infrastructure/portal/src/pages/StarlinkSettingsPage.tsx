@@ -1,13 +1,364 @@
-import React from 'react';
+import {
+  faChevronsDown,
+  faChevronsUp,
+  faGaugeHigh,
+  faSatelliteDish,
+} from '@awesome.me/kit-a765fc5647/icons/duotone/solid';
+import { faCircleInfo, faSignal } from '@awesome.me/kit-a765fc5647/icons/utility-duo/semibold';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import React, { useEffect, useRef, useState, Suspense } from 'react';
+
+import { StatusCard } from '../components/cards/StatusCard';
+import type { StatusCardTag } from '../components/cards/StatusCard';
+import { useStarlinkObstructionMap, useStarlinkStatus } from '../hooks/useSWRData';
+import type { StarlinkObstructionMap } from '../server/services/StarlinkService';
+import { createIconStyle, ICON_STYLES } from '../utils/iconStyles';
+import {
+  formatBitrate,
+  formatLatency,
+  formatPacketLoss,
+  formatUptime,
+} from '../utils/networkFormatting';
 
 /**
- * Starlink Settings Page
+ * Human-readable descriptions of dish alerts
  */
-export const StarlinkSettingsPage: React.FC = () => {
+const ALERT_MESSAGES: Record<string, string> = {
+  motorsStuck: 'Motors are stuck - the dish cannot point itself',
+  thermalShutdown: 'Dish overheated and shut down',
+  thermalThrottle: 'Dish is hot and has reduced performance',
+  unexpectedLocation: 'Dish is in a location not covered by the service plan',
+  mastNotNearVertical: 'Dish mount is not vertical',
+  slowEthernetSpeeds: 'Ethernet link to the dish is slower than 1Gbps',
+  roaming: 'Dish is roaming',
+  installPending: 'A software update is waiting to be installed',
+  isHeating: 'Dish is heating to melt snow',
+  powerSupplyThermalThrottle: 'Power supply is hot and has reduced performance',
+  isPowerSaveIdle: 'Dish is idle in power save mode',
+  movingWhileNotMobile: 'Dish is moving but the service plan does not allow mobile use',
+  movingTooFastForPolicy: 'Dish is moving faster than the service plan allows',
+  lowMotorCurrent: 'Motor current is low',
+  lowerSignalThanPredicted: 'Signal is weaker than expected',
+};
+
+/**
+ * Loading skeleton for Starlink settings page
+ */
+function StarlinkSettingsSkeleton() {
+  return (
+    <div className='wa-stack wa-gap-xl'>
+      <h2>Starlink Settings</h2>
+      <div
+        className='wa-grid wa-gap-m'
+        style={{ '--min-column-size': '18rem' } as React.CSSProperties}
+      >
+        {Array.from({ length: 4 }, (_, index) => (
+          <wa-card key={index} appearance='outlined'>
+            <div className='wa-flank wa-gap-m wa-align-items-center'>
+              <wa-skeleton
+                effect='sheen'
+                style={{ width: '48px', height: '48px', borderRadius: '6px' }}
+              ></wa-skeleton>
+              <div className='wa-stack wa-gap-xs' style={{ flex: 1 }}>
+                <wa-skeleton
+                  effect='sheen'
+                  style={{ width: `${150 + index * 30}px`, height: '20px' }}
+                ></wa-skeleton>
+                <wa-skeleton
+                  effect='sheen'
+                  style={{ width: '100px', height: '16px' }}
+                ></wa-skeleton>
+              </div>
+            </div>
+          </wa-card>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Obstruction map drawn on a canvas
+ * Clear sky cells are green, obstructed cells red, cells without data are left empty
+ */
+function ObstructionMap({ map }: { map: StarlinkObstructionMap }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+
+    context.clearRect(0, 0, map.columns, map.rows);
+    map.data.forEach((value, index) => {
+      if (value < 0) return;
+      const hue = Math.round(Math.min(Math.max(value, 0), 1) * 120); // red -> green
+      context.fillStyle = `hsl(${hue}, 80%, 45%)`;
+      context.fillRect(index % map.columns, Math.floor(index / map.columns), 1, 1);
+    });
+  }, [map]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={map.columns}
+      height={map.rows}
+      style={{
+        width: '100%',
+        maxWidth: '320px',
+        aspectRatio: '1',
+        imageRendering: 'pixelated',
+        borderRadius: '50%',
+        background: 'var(--wa-color-surface-lowered)',
+      }}
+    />
+  );
+}
+
+/**
+ * Starlink Settings Page Content
+ */
+function StarlinkSettingsContent() {
+  const { data: status, mutate } = useStarlinkStatus();
+  const { data: obstructionMap } = useStarlinkObstructionMap();
+  const [loading, setLoading] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const handleAction = async (action: 'stow' | 'unstow' | 'reboot', confirmMessage?: string) => {
+    if (confirmMessage && !window.confirm(confirmMessage)) return;
+
+    setLoading(action);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/starlink/${action}`, { method: 'POST' });
+      const result = await response.json();
+
+      if (result.success) {
+        setMessage({ type: 'success', text: result.message });
+        await mutate();
+      } else {
+        setMessage({ type: 'error', text: result.message || `Failed to ${action} dish` });
+      }
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : `Failed to ${action} dish`,
+      });
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  if (!status?.reachable) {
+    return (
+      <div className='wa-stack wa-gap-xl'>
+        <h2>Starlink Settings</h2>
+        <wa-callout variant='warning'>
+          The Starlink dish could not be reached. Check that it is powered on and connected.
+          {status?.error && <div className='wa-caption-m'>{status.error}</div>}
+        </wa-callout>
+      </div>
+    );
+  }
+
+  const connectionTags: StatusCardTag[] = [
+    { label: 'Latency', value: formatLatency(status.popPingLatencyMs), variant: 'neutral' },
+    {
+      label: 'Drop Rate',
+      value: formatPacketLoss(
+        status.popPingDropRate !== undefined ? status.popPingDropRate * 100 : undefined
+      ),
+      variant: status.popPingDropRate && status.popPingDropRate > 0.05 ? 'warning' : 'neutral',
+    },
+  ];
+  const throughputTags: StatusCardTag[] = [
+    {
+      label: 'Down',
+      value: formatBitrate(status.downlinkThroughputBps),
+      icon: <FontAwesomeIcon icon={faChevronsDown} style={createIconStyle(ICON_STYLES.download)} />,
+      variant: 'neutral',
+    },
+    {
+      label: 'Up',
+      value: formatBitrate(status.uplinkThroughputBps),
+      icon: <FontAwesomeIcon icon={faChevronsUp} style={createIconStyle(ICON_STYLES.upload)} />,
+      variant: 'neutral',
+    },
+  ];
+  const signalTags: StatusCardTag[] = [];
+  if (status.snr !== undefined) {
+    signalTags.push({ label: 'SNR', value: status.snr.toFixed(1), variant: 'neutral' });
+  }
+  if (status.snrAboveNoiseFloor !== undefined) {
+    signalTags.push({
+      label: 'Above Noise Floor',
+      value: status.snrAboveNoiseFloor ? 'Yes' : 'No',
+      variant: status.snrAboveNoiseFloor ? 'success' : 'danger',
+    });
+  }
+  if (status.obstruction) {
+    signalTags.push({
+      label: 'Obstructed',
+      value: `${(status.obstruction.fractionObstructed * 100).toFixed(1)}%`,
+      variant: status.obstruction.currentlyObstructed ? 'danger' : 'neutral',
+    });
+  }
+  const deviceTags: StatusCardTag[] = [
+    { label: 'Uptime', value: formatUptime(status.uptimeSeconds), variant: 'neutral' },
+    { label: 'Software', value: status.softwareVersion ?? 'N/A', variant: 'neutral' },
+  ];
+  if (status.hardwareVersion) {
+    deviceTags.push({ label: 'Hardware', value: status.hardwareVersion, variant: 'neutral' });
+  }
+
+  const signalBad = status.snrPersistentlyLow || status.obstruction?.currentlyObstructed;
+
   return (
     <div className='wa-stack wa-gap-xl'>
       <h2>Starlink Settings</h2>
-      <wa-callout variant='neutral'>Starlink settings configuration coming soon.</wa-callout>
+
+      {/* Status message */}
+      {message && (
+        <wa-callout variant={message.type === 'success' ? 'success' : 'danger'}>
+          {message.text}
+        </wa-callout>
+      )}
+
+      {/* Active alerts */}
+      {status.alerts.map(alert => (
+        <wa-callout key={alert} variant='warning'>
+          {ALERT_MESSAGES[alert] ?? alert}
+        </wa-callout>
+      ))}
+
+      {status.stowRequested && (
+        <wa-callout variant='neutral'>The dish is stowed. Unstow it to reconnect.</wa-callout>
+      )}
+
+      <div
+        className='wa-grid wa-gap-m'
+        style={{ '--min-column-size': '18rem' } as React.CSSProperties}
+      >
+        <StatusCard
+          variant={status.stowRequested ? 'neutral' : 'success'}
+          icon={
+            <FontAwesomeIcon
+              icon={faSatelliteDish}
+              size='lg'
+              style={{ ...createIconStyle(ICON_STYLES.starlink), maxWidth: '2rem' }}
+            />
+          }
+          title='Connection'
+          subtitle={status.stowRequested ? 'Stowed' : 'Online'}
+          tags={connectionTags}
+        />
+        <StatusCard
+          icon={
+            <FontAwesomeIcon
+              icon={faGaugeHigh}
+              size='lg'
+              style={{ ...createIconStyle(ICON_STYLES.speed), maxWidth: '2rem' }}
+            />
+          }
+          title='Throughput'
+          tags={throughputTags}
+        />
+        <StatusCard
+          variant={signalBad ? 'warning' : 'neutral'}
+          icon={
+            <FontAwesomeIcon
+              icon={faSignal}
+              size='lg'
+              style={{ ...createIconStyle(ICON_STYLES.signal), maxWidth: '2rem' }}
+            />
+          }
+          title='Signal'
+          subtitle={status.snrPersistentlyLow ? 'Persistently low' : undefined}
+          tags={signalTags}
+        />
+        <StatusCard
+          icon={
+            <FontAwesomeIcon
+              icon={faCircleInfo}
+              size='lg'
+              style={{ ...createIconStyle(ICON_STYLES.info), maxWidth: '2rem' }}
+            />
+          }
+          title='Dish'
+          subtitle={status.deviceId}
+          tags={deviceTags}
+        />
+      </div>
+
+      {/* Obstruction Map */}
+      {obstructionMap && obstructionMap.rows > 0 && (
+        <div className='wa-stack wa-gap-m'>
+          <h3 className='wa-heading-s'>Obstruction Map</h3>
+          <wa-card appearance='outlined'>
+            <div className='wa-stack wa-gap-s wa-align-items-center'>
+              <ObstructionMap map={obstructionMap} />
+              <span className='wa-caption-m'>
+                Sky view from the dish. Red areas are blocked by trees, buildings or terrain.
+              </span>
+            </div>
+          </wa-card>
+        </div>
+      )}
+
+      {/* Dish Actions */}
+      <div className='wa-cluster wa-gap-s'>
+        {status.stowRequested ? (
+          <wa-button
+            variant='brand'
+            {...({ onclick: () => handleAction('unstow') } as Record<string, unknown>)}
+            disabled={loading !== null}
+            loading={loading === 'unstow'}
+          >
+            Unstow Dish
+          </wa-button>
+        ) : (
+          <wa-button
+            appearance='outlined'
+            {...({
+              onclick: () =>
+                handleAction(
+                  'stow',
+                  'Stow the dish? Internet via Starlink will stop until it is unstowed.'
+                ),
+            } as Record<string, unknown>)}
+            disabled={loading !== null}
+            loading={loading === 'stow'}
+          >
+            Stow Dish
+          </wa-button>
+        )}
+        <wa-button
+          variant='danger'
+          appearance='outlined'
+          {...({
+            onclick: () =>
+              handleAction(
+                'reboot',
+                'Reboot the dish? Internet via Starlink will drop for a few minutes.'
+              ),
+          } as Record<string, unknown>)}
+          disabled={loading !== null}
+          loading={loading === 'reboot'}
+        >
+          Reboot Dish
+        </wa-button>
+      </div>
     </div>
   );
+}
+
+/**
+ * Starlink Settings Page
+ */
+export const StarlinkSettingsPage: React.FC = () => {
+  return (
+    <Suspense fallback={<StarlinkSettingsSkeleton />}>
+      <StarlinkSettingsContent />
+    </Suspense>
+  );
 };
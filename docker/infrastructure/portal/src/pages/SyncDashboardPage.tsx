@@ -0,0 +1,622 @@
+import { faTriangleExclamation } from '@awesome.me/kit-a765fc5647/icons/duotone/solid';
+import { faCircleInfo } from '@awesome.me/kit-a765fc5647/icons/utility-duo/semibold';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import React, { useState, Suspense } from 'react';
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+
+import { useAuthSession, useSyncDashboard } from '../hooks/useSWRData';
+import type {
+  SyncCardEject,
+  SyncConflict,
+  SyncConflictResolution,
+  SyncOperation,
+  SyncPlanSummary,
+  SyncServiceSummary,
+} from '../server/services/SyncDashboardService';
+import { getIcon } from '../utils/iconCache';
+import { createIconStyle, ICON_STYLES } from '../utils/iconStyles';
+import { formatBytes, formatUptime } from '../utils/networkFormatting';
+
+/**
+ * What the optional trigger target means for each sync service (keyed by service icon)
+ */
+const TARGET_HINTS: Record<string, string> = {
+  'kiwix-sync': 'Package name (empty updates all)',
+  'nfs-sync': 'Content type (empty syncs all)',
+  'offline-sync': 'Device path, e.g. /dev/sdb1',
+};
+
+/**
+ * Choices offered for a sync conflict
+ */
+const CONFLICT_ACTIONS: Array<{ resolution: SyncConflictResolution; label: string }> = [
+  { resolution: 'keep_both', label: 'Keep both' },
+  { resolution: 'prefer_local', label: 'Keep local' },
+  { resolution: 'prefer_card', label: 'Keep card' },
+];
+
+/**
+ * Label for each stage of ejecting a card, in order
+ */
+const EJECT_STAGES: Array<{ stage: SyncCardEject['stage']; label: string }> = [
+  { stage: 'finishing', label: 'Finishing sync' },
+  { stage: 'flushing', label: 'Flushing writes' },
+  { stage: 'verifying', label: 'Verifying files' },
+  { stage: 'unmounting', label: 'Unmounting' },
+];
+
+type SyncActionHandler = (
+  key: string,
+  url: string,
+  method: string,
+  body?: unknown
+) => Promise<void>;
+
+/**
+ * Loading skeleton for the Sync dashboard
+ */
+function SyncDashboardSkeleton() {
+  return (
+    <div className='wa-stack wa-gap-s'>
+      <h2>Sync</h2>
+      <div className='wa-stack wa-gap-m'>
+        {Array.from({ length: 3 }, (_, index) => (
+          <wa-card key={index} appearance='outlined'>
+            <div className='wa-stack wa-gap-m'>
+              <div className='wa-flank wa-gap-m wa-align-items-center'>
+                <wa-skeleton
+                  effect='sheen'
+                  style={{ width: '48px', height: '48px', borderRadius: '6px' }}
+                ></wa-skeleton>
+                <div className='wa-stack wa-gap-xs' style={{ flex: 1 }}>
+                  <wa-skeleton
+                    effect='sheen'
+                    style={{ width: `${120 + index * 20}px`, height: '20px' }}
+                  ></wa-skeleton>
+                  <wa-skeleton
+                    effect='sheen'
+                    style={{ width: `${180 + index * 15}px`, height: '16px' }}
+                  ></wa-skeleton>
+                </div>
+              </div>
+              <wa-skeleton effect='sheen' style={{ width: '100%', height: '16px' }}></wa-skeleton>
+            </div>
+          </wa-card>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Format an ISO timestamp for display, or a fallback when missing
+ */
+function formatTime(time: string | null | undefined, fallback = 'Never'): string {
+  return time ? new Date(time).toLocaleString() : fallback;
+}
+
+/**
+ * Percentage complete of an operation, preferring bytes over items
+ * Returns undefined when the service does not report totals
+ */
+function getProgress(operation: SyncOperation): number | undefined {
+  if (operation.totalBytes) {
+    return ((operation.processedBytes ?? 0) / operation.totalBytes) * 100;
+  }
+  if (operation.totalItems) {
+    return ((operation.processedItems ?? 0) / operation.totalItems) * 100;
+  }
+  const progress = operation.metadata?.progress;
+  return typeof progress === 'number' && progress > 0 ? progress : undefined;
+}
+
+/**
+ * Skipped files listed under a plan before the rest are summarized
+ */
+const MAX_SKIPPED_SHOWN = 5;
+
+/**
+ * Transfer plan of a card sync: what will be copied and what will not fit
+ */
+function PlanSummary({ plan }: { plan: SyncPlanSummary }) {
+  const skippedBytes = plan.skipped.reduce((total, file) => total + file.size, 0);
+
+  return (
+    <div className='wa-stack wa-gap-3xs'>
+      <span className='wa-caption-s'>
+        Plan: {plan.toCard.files} files ({formatBytes(plan.toCard.bytes)}) to card,{' '}
+        {plan.fromCard.files} files ({formatBytes(plan.fromCard.bytes)}) from card
+        {plan.availableBytes !== null && ` · ${formatBytes(plan.availableBytes)} available`}
+        {plan.profile && ` · profile ${plan.profile}`}
+      </span>
+      {plan.skipped.length > 0 && (
+        <span className='wa-caption-s'>
+          <FontAwesomeIcon
+            icon={faTriangleExclamation}
+            style={createIconStyle(ICON_STYLES.warning)}
+          />{' '}
+          {plan.skipped.length} files ({formatBytes(skippedBytes)}) will not fit:{' '}
+          {plan.skipped
+            .slice(0, MAX_SKIPPED_SHOWN)
+            .map(file => `${file.contentType}/${file.relativePath}`)
+            .join(', ')}
+          {plan.skipped.length > MAX_SKIPPED_SHOWN &&
+            ` and ${plan.skipped.length - MAX_SKIPPED_SHOWN} more`}
+        </span>
+      )}
+    </div>
+  );
+}
+
+/**
+ * One in-flight operation with live progress and a cancel button
+ */
+function OperationRow({
+  service,
+  operation,
+  isAdmin,
+  busy,
+  onAction,
+}: {
+  service: string;
+  operation: SyncOperation;
+  isAdmin: boolean;
+  busy: string | null;
+  onAction: SyncActionHandler;
+}) {
+  const progress = getProgress(operation);
+  const plan = operation.metadata?.plan as SyncPlanSummary | undefined;
+  const key = `${service}-cancel-${operation.id}`;
+
+  return (
+    <div className='wa-stack wa-gap-2xs'>
+      <div className='wa-split wa-gap-s'>
+        <span className='wa-body-s' style={{ fontWeight: 600 }}>
+          {operation.type}
+          <span className='wa-caption-s'> (started {formatTime(operation.startTime)})</span>
+        </span>
+        {isAdmin && (
+          <wa-button
+            size='small'
+            variant='danger'
+            appearance='outlined'
+            {...({
+              onclick: () =>
+                onAction(
+                  key,
+                  `/api/sync/${encodeURIComponent(service)}/operations/${encodeURIComponent(operation.id)}`,
+                  'DELETE'
+                ),
+            } as Record<string, unknown>)}
+            disabled={busy !== null}
+            loading={busy === key}
+          >
+            Cancel
+          </wa-button>
+        )}
+      </div>
+      {progress === undefined ? (
+        <wa-progress-bar indeterminate></wa-progress-bar>
+      ) : (
+        <wa-progress-bar value={Math.min(100, progress)}></wa-progress-bar>
+      )}
+      <span className='wa-caption-s'>
+        {operation.totalItems !== undefined &&
+          `${operation.processedItems ?? 0} of ${operation.totalItems} items`}
+        {operation.totalBytes !== undefined &&
+          ` · ${formatBytes(operation.processedBytes ?? 0)} of ${formatBytes(operation.totalBytes)}`}
+        {operation.currentItem && ` · ${operation.currentItem}`}
+      </span>
+      {plan && <PlanSummary plan={plan} />}
+    </div>
+  );
+}
+
+/**
+ * A file changed on both a card and the box, with the choices to resolve it
+ */
+function ConflictRow({
+  service,
+  conflict,
+  isAdmin,
+  busy,
+  onAction,
+}: {
+  service: string;
+  conflict: SyncConflict;
+  isAdmin: boolean;
+  busy: string | null;
+  onAction: SyncActionHandler;
+}) {
+  return (
+    <div className='wa-stack wa-gap-2xs'>
+      <span className='wa-body-s' style={{ fontWeight: 600 }}>
+        {conflict.contentType}/{conflict.relativePath}
+      </span>
+      <span className='wa-caption-s'>
+        Local: {formatBytes(conflict.local.size)}, modified {formatTime(conflict.local.mtime)} ·
+        Card: {formatBytes(conflict.card.size)}, modified {formatTime(conflict.card.mtime)}
+      </span>
+      {conflict.resolution ? (
+        <span className='wa-caption-s'>
+          Decided: {conflict.resolution.replace('_', ' ')}, applied when the card is next synced
+        </span>
+      ) : (
+        isAdmin && (
+          <div className='wa-cluster wa-gap-xs'>
+            {CONFLICT_ACTIONS.map(({ resolution, label }) => {
+              const key = `${service}-conflict-${conflict.id}-${resolution}`;
+              return (
+                <wa-button
+                  key={resolution}
+                  size='small'
+                  appearance='outlined'
+                  {...({
+                    onclick: () =>
+                      onAction(
+                        key,
+                        `/api/sync/${encodeURIComponent(service)}/conflicts/${encodeURIComponent(conflict.id)}/resolve`,
+                        'POST',
+                        { resolution }
+                      ),
+                  } as Record<string, unknown>)}
+                  disabled={busy !== null}
+                  loading={busy === key}
+                >
+                  {label}
+                </wa-button>
+              );
+            })}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
+/**
+ * An inserted card with its eject progress, and a button to eject it
+ */
+function CardEjectRow({
+  service,
+  card,
+  busy,
+  onAction,
+}: {
+  service: string;
+  card: SyncCardEject;
+  busy: string | null;
+  onAction: SyncActionHandler;
+}) {
+  const key = `${service}-eject-${card.devicePath}`;
+  const stageIndex = EJECT_STAGES.findIndex(({ stage }) => stage === card.stage);
+
+  return (
+    <div className='wa-stack wa-gap-2xs'>
+      <div className='wa-split wa-gap-s'>
+        <span className='wa-body-s' style={{ fontWeight: 600 }}>
+          {card.devicePath}
+          <span className='wa-caption-s'> card {card.cardId}</span>
+        </span>
+        {(card.stage === 'mounted' || card.stage === 'failed') && (
+          <wa-button
+            size='small'
+            appearance='outlined'
+            {...({
+              onclick: () =>
+                onAction(
+                  key,
+                  `/api/sync/${encodeURIComponent(service)}/cards/${encodeURIComponent(card.devicePath)}/eject`,
+                  'POST'
+                ),
+            } as Record<string, unknown>)}
+            disabled={busy !== null}
+            loading={busy === key}
+          >
+            {card.stage === 'failed' ? 'Retry Eject' : 'Eject'}
+          </wa-button>
+        )}
+      </div>
+      {stageIndex >= 0 && (
+        <>
+          <wa-progress-bar value={(stageIndex / EJECT_STAGES.length) * 100}></wa-progress-bar>
+          <span className='wa-caption-s'>
+            {EJECT_STAGES[stageIndex]?.label}... Do not remove the card yet
+          </span>
+        </>
+      )}
+      {card.stage === 'safe_to_remove' && (
+        <wa-callout variant='success'>Safe to remove the card</wa-callout>
+      )}
+      {card.stage === 'failed' && (
+        <wa-callout variant='danger'>Not safe to remove: {card.error ?? 'eject failed'}</wa-callout>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Card for one sync service: schedule, operations, cards, failures, conflicts, storage and a
+ * sync trigger
+ */
+function SyncServiceCard({
+  service,
+  isAdmin,
+  busy,
+  onAction,
+}: {
+  service: SyncServiceSummary;
+  isAdmin: boolean;
+  busy: string | null;
+  onAction: SyncActionHandler;
+}) {
+  const [target, setTarget] = useState('');
+  const triggerKey = `${service.name}-trigger`;
+  const healthy = service.reachable && service.health === 'up';
+
+  return (
+    <wa-card appearance='outlined'>
+      <div className='wa-stack wa-gap-l'>
+        {/* Header */}
+        <div className='wa-split wa-gap-m'>
+          <div className='wa-flank wa-gap-m wa-align-items-center'>
+            <FontAwesomeIcon
+              icon={getIcon(service.icon)}
+              size='lg'
+              style={{ ...createIconStyle(ICON_STYLES.sync), maxWidth: '2rem' }}
+            />
+            <div className='wa-stack wa-gap-3xs'>
+              <span className='wa-body-s' style={{ fontWeight: 600 }}>
+                {service.name}
+              </span>
+              <span className='wa-caption-s'>
+                {service.description}
+                {service.version && ` · v${service.version}`}
+                {service.uptime !== undefined && ` · up ${formatUptime(service.uptime)}`}
+              </span>
+            </div>
+          </div>
+          <wa-badge variant={healthy ? 'success' : service.reachable ? 'warning' : 'danger'}>
+            {service.reachable ? (service.health ?? 'unknown') : (service.state ?? 'unreachable')}
+          </wa-badge>
+        </div>
+
+        {service.error && <wa-callout variant='danger'>{service.error}</wa-callout>}
+
+        {/* Schedule */}
+        {service.reachable && (
+          <div className='wa-stack wa-gap-xs'>
+            <div className='wa-cluster wa-gap-m'>
+              <span className='wa-caption-s'>Last run: {formatTime(service.lastRun)}</span>
+              <span className='wa-caption-s'>
+                Next run: {formatTime(service.nextRun, 'Not scheduled')}
+              </span>
+            </div>
+            {service.schedule.map(task => (
+              <span key={task.id} className='wa-caption-s'>
+                {task.name} ({task.schedule}): {task.executionCount} runs, {task.failureCount}{' '}
+                failed, next {formatTime(task.nextExecution, 'not scheduled')}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {/* In-progress operations */}
+        {service.operations.length > 0 && (
+          <div className='wa-stack wa-gap-s'>
+            <h4>In Progress</h4>
+            {service.operations.map(operation => (
+              <OperationRow
+                key={operation.id}
+                service={service.name}
+                operation={operation}
+                isAdmin={isAdmin}
+                busy={busy}
+                onAction={onAction}
+              />
+            ))}
+          </div>
+        )}
+
+        {/* Inserted cards and their eject progress */}
+        {service.cards.length > 0 && (
+          <div className='wa-stack wa-gap-s'>
+            <h4>Cards</h4>
+            {service.cards.map(card => (
+              <CardEjectRow
+                key={card.devicePath}
+                service={service.name}
+                card={card}
+                busy={busy}
+                onAction={onAction}
+              />
+            ))}
+          </div>
+        )}
+
+        {/* Recent failures */}
+        {service.failures.length > 0 && (
+          <div className='wa-stack wa-gap-xs'>
+            <h4>Recent Failures</h4>
+            {service.failures.map((failure, index) => (
+              <span key={`${failure.time}-${index}`} className='wa-caption-s'>
+                <FontAwesomeIcon
+                  icon={faTriangleExclamation}
+                  style={createIconStyle(ICON_STYLES.danger)}
+                />{' '}
+                {formatTime(failure.time)} · {failure.name}: {failure.error}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {/* Conflicts awaiting a decision */}
+        {service.conflicts.length > 0 && (
+          <div className='wa-stack wa-gap-s'>
+            <h4>Conflicts</h4>
+            {service.conflicts.map(conflict => (
+              <ConflictRow
+                key={conflict.id}
+                service={service.name}
+                conflict={conflict}
+                isAdmin={isAdmin}
+                busy={busy}
+                onAction={onAction}
+              />
+            ))}
+          </div>
+        )}
+
+        {/* Disk usage per content type */}
+        {service.storage.length > 0 && (
+          <div className='wa-stack wa-gap-xs'>
+            <h4>Storage</h4>
+            {service.storage.map(usage => (
+              <div key={usage.contentType} className='wa-split wa-gap-s'>
+                <span className='wa-body-s'>
+                  {usage.contentType}
+                  {usage.path && <span className='wa-caption-s'> {usage.path}</span>}
+                </span>
+                <span className='wa-caption-s'>
+                  {usage.size}
+                  {usage.maxSize && ` of ${usage.maxSize}`}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Manual sync */}
+        {isAdmin && service.reachable && (
+          <div className='wa-flank:end wa-gap-xs'>
+            <wa-input
+              size='small'
+              value={target}
+              placeholder={TARGET_HINTS[service.icon] ?? 'Target (optional)'}
+              {...({
+                disabled: busy !== null,
+                oninput: (e: Event) => setTarget((e.target as HTMLInputElement).value),
+              } as Record<string, unknown>)}
+            ></wa-input>
+            <wa-button
+              size='small'
+              variant='brand'
+              {...({
+                onclick: () =>
+                  onAction(
+                    triggerKey,
+                    `/api/sync/${encodeURIComponent(service.name)}/trigger`,
+                    'POST',
+                    {
+                      ...(target.trim() && { target: target.trim() }),
+                    }
+                  ),
+              } as Record<string, unknown>)}
+              disabled={busy !== null}
+              loading={busy === triggerKey}
+            >
+              Sync Now
+            </wa-button>
+          </div>
+        )}
+      </div>
+    </wa-card>
+  );
+}
+
+/**
+ * Sync dashboard content (uses Suspense for data loading)
+ */
+const SyncDashboardContent: React.FC = () => {
+  const { data: services, mutate } = useSyncDashboard();
+  const { data: session } = useAuthSession({ suspense: false });
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const isAdmin = session?.role === 'admin';
+
+  const runAction: SyncActionHandler = async (key, url, method, body) => {
+    setBusy(key);
+    setMessage(null);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        ...(body !== undefined && { body: JSON.stringify(body) }),
+      });
+
+      // Sync actions need an admin session - send viewers to the login page
+      if (response.status === 401) {
+        const params = new URLSearchParams(searchParams);
+        params.set('redirect', location.pathname);
+        navigate(`/login?${params.toString()}`);
+        return;
+      }
+
+      const result = await response.json();
+      setMessage({
+        type: result.success ? 'success' : 'error',
+        text: result.message || (result.success ? 'Done' : 'Action failed'),
+      });
+      await mutate();
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Action failed',
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className='wa-stack wa-gap-s'>
+      <h2>Sync</h2>
+
+      {message && (
+        <wa-callout variant={message.type === 'success' ? 'success' : 'danger'}>
+          {message.text}
+        </wa-callout>
+      )}
+
+      {!services || services.length === 0 ? (
+        <wa-callout variant='neutral' className='wa-gap-s'>
+          <div slot='icon' style={{ display: 'contents' }}>
+            <FontAwesomeIcon icon={faCircleInfo} style={createIconStyle(ICON_STYLES.info)} />
+          </div>
+          No sync services found. Sync services show up here once their containers carry the
+          sync.api.port label.
+        </wa-callout>
+      ) : (
+        <div className='wa-stack wa-gap-m'>
+          {services.map(service => (
+            <SyncServiceCard
+              key={service.name}
+              service={service}
+              isAdmin={isAdmin}
+              busy={busy}
+              onAction={runAction}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Sync Dashboard Page Component
+ * Wraps SyncDashboardContent in Suspense to show skeleton while loading
+ */
+export const SyncDashboardPage: React.FC = () => {
+  return (
+    <div className='sync-dashboard-page'>
+      <Suspense fallback={<SyncDashboardSkeleton />}>
+        <SyncDashboardContent />
+      </Suspense>
+    </div>
+  );
+};
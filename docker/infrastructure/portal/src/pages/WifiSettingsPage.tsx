@@ -1,13 +1,269 @@
-import React from 'react';
+import { faRainbowHalf, faSignal } from '@awesome.me/kit-a765fc5647/icons/duotone/solid';
+import { faKey, faRadio } from '@awesome.me/kit-a765fc5647/icons/utility-duo/semibold';
+import React, { useState, Suspense } from 'react';
+
+import { SettingsCard } from '../components/cards';
+import { useWifiSettings } from '../hooks/useSWRData';
+import type { WifiBand } from '../server/services/WifiConfigService';
+import { ICON_STYLES } from '../utils/iconStyles';
 
 /**
- * WiFi Settings Page
+ * Loading skeleton for WiFi settings page
+ * Matches the SettingsCard layout with icon, title, description, and footer
  */
-export const WifiSettingsPage: React.FC = () => {
+function WifiSettingsSkeleton() {
   return (
     <div className='wa-stack wa-gap-xl'>
       <h2>WiFi Settings</h2>
-      <wa-callout variant='neutral'>WiFi settings configuration coming soon.</wa-callout>
+      <div
+        className='wa-grid wa-gap-m'
+        style={{ '--min-column-size': '250px', '--max-columns': '2' } as React.CSSProperties}
+      >
+        {Array.from({ length: 4 }, (_, index) => (
+          <wa-card key={index} appearance='outlined' className='card settings-card'>
+            <div
+              className='wa-stack wa-gap-s wa-align-items-center'
+              style={{ justifyContent: 'center', padding: 'var(--wa-space-m)' }}
+            >
+              <wa-skeleton
+                effect='sheen'
+                style={{ width: '64px', height: '64px', borderRadius: '6px' }}
+              ></wa-skeleton>
+              <wa-skeleton
+                effect='sheen'
+                style={{ width: `${120 + index * 15}px`, height: '20px' }}
+              ></wa-skeleton>
+            </div>
+            <div slot='footer' style={{ width: '100%' }}>
+              <wa-skeleton
+                effect='sheen'
+                style={{ width: '100%', height: '36px', borderRadius: '4px' }}
+              ></wa-skeleton>
+            </div>
+          </wa-card>
+        ))}
+      </div>
     </div>
   );
+}
+
+/**
+ * WiFi Settings Page Content
+ */
+function WifiSettingsContent() {
+  const { data: settings, mutate } = useWifiSettings();
+  const [ssid, setSsid] = useState(settings?.ssid ?? '');
+  const [password, setPassword] = useState(settings?.password ?? '');
+  const [band, setBand] = useState<WifiBand>(settings?.band ?? '2.4GHz');
+  const [channel, setChannel] = useState<number | undefined>(settings?.channel);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  if (!settings) {
+    return (
+      <div className='wa-stack wa-gap-xl'>
+        <h2>WiFi Settings</h2>
+        <wa-callout variant='warning'>WiFi configuration could not be loaded.</wa-callout>
+      </div>
+    );
+  }
+
+  const channels = settings.availableChannels[band] ?? [];
+  const hasChanges =
+    ssid !== settings.ssid ||
+    password !== settings.password ||
+    band !== (settings.band ?? '2.4GHz') ||
+    channel !== settings.channel;
+
+  const handleBandChange = (newBand: WifiBand) => {
+    setBand(newBand);
+    // Reset the channel if it is not valid for the new band
+    if (channel === undefined || !settings.availableChannels[newBand]?.includes(channel)) {
+      setChannel(settings.availableChannels[newBand]?.[0]);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+
+    // Only send fields that actually changed
+    const update: Record<string, string | number> = {};
+    if (ssid !== settings.ssid) update.ssid = ssid;
+    if (password !== settings.password) update.password = password;
+    if (band !== settings.band) update.band = band;
+    if (channel !== undefined && channel !== settings.channel) update.channel = channel;
+
+    try {
+      const response = await fetch('/api/config/wifi', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update),
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        setMessage({ type: 'success', text: result.message });
+        await mutate();
+      } else {
+        setMessage({
+          type: 'error',
+          text: result.message || 'Failed to update WiFi configuration',
+        });
+      }
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to update WiFi configuration',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className='wa-stack wa-gap-xl'>
+      <h2>WiFi Settings</h2>
+
+      {/* Status message */}
+      {message && (
+        <wa-callout variant={message.type === 'success' ? 'success' : 'danger'}>
+          {message.text}
+        </wa-callout>
+      )}
+
+      {settings.source !== 'hostapd' && (
+        <wa-callout variant='warning'>
+          Showing {settings.source} values - the hotspot configuration could not be read.
+        </wa-callout>
+      )}
+
+      <div
+        className='wa-grid wa-gap-m'
+        style={
+          {
+            '--min-column-size': '250px',
+            '--max-columns': '2',
+          } as React.CSSProperties
+        }
+      >
+        {/* Network Name Card */}
+        <SettingsCard
+          icon={faRainbowHalf}
+          iconFlip='horizontal'
+          iconStyle={ICON_STYLES.wifi}
+          title='Network Name'
+          description='The SSID devices see when joining the hotspot'
+          footerSlot={
+            <wa-input
+              value={ssid}
+              placeholder='DangerPrep'
+              {...({
+                maxlength: 32,
+                disabled: saving,
+                oninput: (e: Event) => setSsid((e.target as HTMLInputElement).value),
+              } as Record<string, unknown>)}
+            ></wa-input>
+          }
+        />
+
+        {/* Password Card */}
+        <SettingsCard
+          icon={faKey}
+          iconStyle={ICON_STYLES.security}
+          title='Password'
+          description='WPA passphrase, 8-63 characters'
+          footerSlot={
+            <wa-input
+              type='password'
+              value={password}
+              {...({
+                passwordToggle: true,
+                minlength: 8,
+                maxlength: 63,
+                disabled: saving,
+                oninput: (e: Event) => setPassword((e.target as HTMLInputElement).value),
+              } as Record<string, unknown>)}
+            ></wa-input>
+          }
+        />
+
+        {/* Band Card */}
+        <SettingsCard
+          icon={faSignal}
+          iconStyle={ICON_STYLES.signal}
+          title='Band'
+          description='5GHz is faster, 2.4GHz reaches further'
+          footerSlot={
+            <wa-select
+              value={band}
+              onchange={(e: Event) => {
+                const target = e.target as HTMLSelectElement;
+                handleBandChange(target.value as WifiBand);
+              }}
+              disabled={saving}
+            >
+              {Object.keys(settings.availableChannels).map(option => (
+                <wa-option key={option} value={option}>
+                  {option}
+                </wa-option>
+              ))}
+            </wa-select>
+          }
+        />
+
+        {/* Channel Card */}
+        <SettingsCard
+          icon={faRadio}
+          iconStyle={ICON_STYLES.routes}
+          title='Channel'
+          description='Pick a less crowded channel if clients see interference'
+          footerSlot={
+            <wa-select
+              value={channel !== undefined ? String(channel) : ''}
+              onchange={(e: Event) => {
+                const target = e.target as HTMLSelectElement;
+                setChannel(parseInt(target.value, 10));
+              }}
+              disabled={saving}
+            >
+              {channels.map(option => (
+                <wa-option key={option} value={String(option)}>
+                  Channel {option}
+                </wa-option>
+              ))}
+            </wa-select>
+          }
+        />
+      </div>
+
+      <wa-callout variant='neutral'>
+        Saving restarts the hotspot. Connected devices will drop briefly and must reconnect with the
+        new details. If the hotspot fails to start, the previous settings are restored.
+      </wa-callout>
+
+      <div className='wa-cluster wa-gap-s'>
+        <wa-button
+          variant='brand'
+          {...({ onclick: handleSave } as Record<string, unknown>)}
+          disabled={saving || !hasChanges}
+          loading={saving}
+        >
+          Save WiFi Settings
+        </wa-button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * WiFi Settings Page
+ */
+export const WifiSettingsPage: React.FC = () => {
+  return (
+    <Suspense fallback={<WifiSettingsSkeleton />}>
+      <WifiSettingsContent />
+    </Suspense>
+  );
 };
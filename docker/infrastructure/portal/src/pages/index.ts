@@ -8,4 +8,5 @@ export { HotspotSettingsPage } from './HotspotSettingsPage';
 export { InternetSettingsPage } from './InternetSettingsPage';
 export { StarlinkSettingsPage } from './StarlinkSettingsPage';
 export { DeviceSettingsPage } from './DeviceSettingsPage';
+export { LoginPage } from './LoginPage';
 export { NotFoundPage } from './NotFoundPage';
@@ -5,24 +5,33 @@ import { requestId } from 'hono/request-id';
 import { secureHeaders } from 'hono/secure-headers';
 
 // Import routes
+import { authentication, type AuthVariables } from './middleware/auth';
 import { structuredLogging, type LoggerVariables } from './middleware/logging';
+import auth from './routes/auth';
+import clients from './routes/clients';
 import config from './routes/config';
+import events from './routes/events';
 import health from './routes/health';
-import networks from './routes/networks';
+import networks, { clientUsageService } from './routes/networks';
 import power from './routes/power';
 import services from './routes/services';
+import starlink from './routes/starlink';
+import sync from './routes/sync';
 import tailscale from './routes/tailscale';
+import wan from './routes/wan';
 
 // Import custom middleware
 
 // Create main app with typed variables
-const app = new Hono<{ Variables: LoggerVariables }>();
+const app = new Hono<{ Variables: LoggerVariables & AuthVariables }>();
 
 // Global middleware
 // Request ID must come first for proper request tracking
 app.use('*', requestId());
 // Structured logging middleware (uses requestId from context)
 app.use('*', structuredLogging());
+// Session + role-based access (uses logger from context)
+app.use('*', authentication());
 app.use(
   '*',
   secureHeaders({
@@ -62,11 +71,17 @@ app.use(
 
 // Mount routes
 app.route('/api/health', health);
+app.route('/api/auth', auth);
 app.route('/api/networks', networks);
+app.route('/api/clients', clients);
 app.route('/api/services', services);
 app.route('/api/config', config);
 app.route('/api/power', power);
 app.route('/api/tailscale', tailscale);
+app.route('/api/wan', wan);
+app.route('/api/starlink', starlink);
+app.route('/api/sync', sync);
+app.route('/api/events', events);
 
 // Note: Root endpoint removed - now handled by Vite dev server for frontend
 // API routes are mounted under /api prefix
@@ -107,4 +122,11 @@ app.onError((err, c) => {
   );
 });
 
+/**
+ * Save state kept in memory before the process exits (called by the production server)
+ */
+export async function shutdown(): Promise<void> {
+  await clientUsageService.stopCollecting();
+}
+
 export default app;
@@ -7,17 +7,24 @@ import { requestId } from 'hono/request-id';
 import { secureHeaders } from 'hono/secure-headers';
 
 // Import middleware
+import { authentication, type AuthVariables } from './middleware/auth';
 import { structuredLogging, type LoggerVariables } from './middleware/logging';
 // Import routes
+import auth from './routes/auth';
+import clients from './routes/clients';
 import config from './routes/config';
+import events from './routes/events';
 import health from './routes/health';
 import networks from './routes/networks';
 import power from './routes/power';
 import services from './routes/services';
+import starlink from './routes/starlink';
+import sync from './routes/sync';
 import tailscale from './routes/tailscale';
+import wan from './routes/wan';
 
 // Create main app with typed variables
-const app = new Hono<{ Variables: LoggerVariables }>();
+const app = new Hono<{ Variables: LoggerVariables & AuthVariables }>();
 
 // Environment-specific middleware
 const isDevelopment = process.env.NODE_ENV === 'development';
@@ -34,6 +41,9 @@ app.use('*', requestId());
 // Structured logging middleware
 app.use('*', structuredLogging());
 
+// Session + role-based access (writes require an admin session)
+app.use('*', authentication());
+
 app.use(
   '*',
   secureHeaders({
@@ -73,11 +83,17 @@ app.use(
 
 // Mount API routes
 app.route('/api/health', health);
+app.route('/api/auth', auth);
 app.route('/api/networks', networks);
+app.route('/api/clients', clients);
 app.route('/api/services', services);
 app.route('/api/config', config);
 app.route('/api/power', power);
 app.route('/api/tailscale', tailscale);
+app.route('/api/wan', wan);
+app.route('/api/starlink', starlink);
+app.route('/api/sync', sync);
+app.route('/api/events', events);
 
 // Serve static files in production
 if (process.env.NODE_ENV === 'production') {
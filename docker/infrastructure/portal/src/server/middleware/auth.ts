@@ -0,0 +1,133 @@
+import { getConnInfo } from '@hono/node-server/conninfo';
+import type { Context, Next } from 'hono';
+import { getCookie } from 'hono/cookie';
+
+import { AuthService, type Role, type Session } from '../services/AuthService';
+
+// Define typed context variables for the session
+export type AuthVariables = {
+  role: Role;
+  session: Session | undefined;
+};
+
+/**
+ * Name of the session cookie set on admin login
+ */
+export const SESSION_COOKIE = 'dangerprep_session';
+
+/**
+ * Shared auth service - the middleware and the /api/auth routes must see the same sessions
+ */
+export const authService = new AuthService();
+
+/**
+ * Write requests anyone may make (logging in/out, refreshing status)
+ */
+const PUBLIC_WRITE_PATHS = ['/api/auth/login', '/api/auth/logout', '/api/networks/refresh'];
+
+/**
+ * Public write requests with a path parameter (ejecting a card from the kiosk)
+ */
+const PUBLIC_WRITE_PATTERNS = [/^\/api\/sync\/[^/]+\/cards\/[^/]+\/eject$/];
+
+/**
+ * Proxies whose X-Forwarded-For is trusted: Traefik reaches the host-networked portal from the
+ * Docker bridge (host.docker.internal), so by default loopback and Docker's 172.16.0.0/12
+ */
+const TRUSTED_PROXY_CIDRS = (process.env.PORTAL_TRUSTED_PROXIES || '127.0.0.0/8,172.16.0.0/12')
+  .split(',')
+  .map(cidr => cidr.trim())
+  .filter(Boolean);
+
+function ipv4ToNumber(address: string): number | null {
+  const parts = address.split('.').map(Number);
+  if (parts.length !== 4 || parts.some(part => !Number.isInteger(part) || part < 0 || part > 255)) {
+    return null;
+  }
+  return parts.reduce((value, part) => value * 256 + part, 0);
+}
+
+function isTrustedProxy(address: string): boolean {
+  if (address === '::1') return true;
+
+  const ip = ipv4ToNumber(address.replace(/^::ffff:/, ''));
+  if (ip === null) return false;
+
+  return TRUSTED_PROXY_CIDRS.some(cidr => {
+    const [network = '', bits = '32'] = cidr.split('/');
+    const base = ipv4ToNumber(network);
+    const prefix = parseInt(bits, 10);
+    if (base === null || !(prefix >= 0 && prefix <= 32)) return false;
+
+    const size = 2 ** (32 - prefix);
+    return Math.floor(ip / size) === Math.floor(base / size);
+  });
+}
+
+/**
+ * Address of the requesting client, used to track failed logins
+ *
+ * Behind Traefik every request comes from the proxy, so its X-Forwarded-For is used instead.
+ * Only the last entry is taken: Traefik appends the address it saw, while anything before it
+ * was supplied by the client.
+ */
+export function getClientAddress(c: Context): string {
+  let peer: string | undefined;
+  try {
+    peer = getConnInfo(c).remote.address;
+  } catch {
+    // Not running on the Node adapter (e.g. Vite dev server)
+    return 'unknown';
+  }
+  if (!peer) return 'unknown';
+
+  if (isTrustedProxy(peer)) {
+    const forwarded = c.req.header('x-forwarded-for')?.split(',').pop()?.trim();
+    if (forwarded) return forwarded;
+  }
+  return peer;
+}
+
+/**
+ * Creates the authentication and role-based access middleware for Hono
+ *
+ * This middleware:
+ * - Resolves the session cookie and attaches the role and session to the context
+ * - Treats requests without a session as viewers, so status pages stay public
+ * - Requires the admin role for every write (POST/PUT/PATCH/DELETE) under /api,
+ *   apart from the few public actions in PUBLIC_WRITE_PATHS and PUBLIC_WRITE_PATTERNS
+ *
+ * Must come after structuredLogging so rejections are logged with the request ID.
+ */
+export function authentication() {
+  return async (c: Context, next: Next) => {
+    const session = authService.getSession(getCookie(c, SESSION_COOKIE));
+    const role: Role = session?.role ?? 'viewer';
+    c.set('session', session);
+    c.set('role', role);
+
+    const isWrite = !['GET', 'HEAD', 'OPTIONS'].includes(c.req.method);
+    if (
+      isWrite &&
+      c.req.path.startsWith('/api/') &&
+      !PUBLIC_WRITE_PATHS.includes(c.req.path) &&
+      !PUBLIC_WRITE_PATTERNS.some(pattern => pattern.test(c.req.path)) &&
+      role !== 'admin'
+    ) {
+      c.get('logger')?.warn('Rejected write without admin session', {
+        method: c.req.method,
+        path: c.req.path,
+      });
+      return c.json(
+        {
+          success: false,
+          error: 'Authentication required',
+          message: 'Log in as admin to make changes',
+        },
+        401
+      );
+    }
+
+    return next();
+  };
+}
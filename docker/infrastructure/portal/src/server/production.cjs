@@ -9,7 +9,7 @@ if (!process.env.NODE_ENV) {
 }
 
 // Import the Hono app (compiled from TypeScript)
-const { default: app } = require('./app.cjs');
+const { default: app, shutdown } = require('./app.cjs');
 
 const PORT = parseInt(process.env.PORT || '3000', 10);
 
@@ -48,13 +48,13 @@ serve({
   console.log(`⚡ Powered by Hono`);
 });
 
-// Graceful shutdown
-process.on('SIGTERM', () => {
-  console.log('Received SIGTERM, shutting down gracefully');
-  process.exit(0);
-});
+// Graceful shutdown: save in-memory state (client usage) before exiting
+const exitGracefully = (signal) => {
+  console.log(`Received ${signal}, shutting down gracefully`);
+  shutdown()
+    .catch((error) => console.error('Failed to save state on shutdown:', error))
+    .finally(() => process.exit(0));
+};
 
-process.on('SIGINT', () => {
-  console.log('Received SIGINT, shutting down gracefully');
-  process.exit(0);
-});
+process.on('SIGTERM', () => exitGracefully('SIGTERM'));
+process.on('SIGINT', () => exitGracefully('SIGINT'));
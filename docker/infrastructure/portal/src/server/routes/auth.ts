@@ -0,0 +1,268 @@
+import { Hono } from 'hono';
+import { deleteCookie, setCookie } from 'hono/cookie';
+
+import {
+  authService,
+  getClientAddress,
+  SESSION_COOKIE,
+  type AuthVariables,
+} from '../middleware/auth';
+import type { LoggerVariables } from '../middleware/logging';
+import type { SessionInfo } from '../services/AuthService';
+
+// Create router with typed variables
+const auth = new Hono<{ Variables: LoggerVariables & AuthVariables }>();
+
+/**
+ * GET /api/auth/session
+ * Get the current role and whether an admin PIN/password is configured
+ */
+auth.get('/session', async c => {
+  const logger = c.get('logger');
+
+  try {
+    const session = c.get('session');
+    const info: SessionInfo = {
+      role: c.get('role'),
+      authenticated: session !== undefined,
+      adminConfigured: await authService.isAdminConfigured(),
+      ...(session && { expiresAt: session.expiresAt }),
+    };
+
+    return c.json({
+      success: true,
+      data: info,
+    });
+  } catch (error) {
+    logger.error('Failed to get session', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to retrieve session',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * POST /api/auth/login
+ * Log in with the admin PIN/password and set the session cookie
+ */
+auth.post('/login', async c => {
+  const logger = c.get('logger');
+
+  try {
+    const body = (await c.req.json().catch(() => null)) as { password?: unknown } | null;
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return c.json(
+        {
+          success: false,
+          error: 'Invalid login',
+          message: 'Request body must be a JSON object',
+        },
+        400
+      );
+    }
+
+    if (typeof body.password !== 'string' || body.password.length === 0) {
+      return c.json(
+        {
+          success: false,
+          error: 'Invalid login',
+          message: 'PIN/password is required',
+        },
+        400
+      );
+    }
+
+    const clientAddress = getClientAddress(c);
+    const result = await authService.login(body.password, clientAddress);
+
+    if (!result.success) {
+      logger.warn('Admin login failed', { reason: result.reason, clientAddress });
+
+      if (result.reason === 'not-configured') {
+        return c.json(
+          {
+            success: false,
+            error: 'Admin login not configured',
+            message: 'Set PORTAL_ADMIN_PASSWORD to enable admin login',
+          },
+          503
+        );
+      }
+      if (result.reason === 'locked') {
+        c.header('Retry-After', String(result.retryAfterSeconds ?? 60));
+        return c.json(
+          {
+            success: false,
+            error: 'Too many attempts',
+            message: `Too many failed attempts, try again in ${Math.ceil((result.retryAfterSeconds ?? 60) / 60)} minutes`,
+          },
+          429
+        );
+      }
+      return c.json(
+        {
+          success: false,
+          error: 'Invalid login',
+          message: 'Incorrect PIN/password',
+        },
+        401
+      );
+    }
+
+    const { session } = result;
+    setCookie(c, SESSION_COOKIE, session.id, {
+      path: '/',
+      httpOnly: true,
+      sameSite: 'Strict',
+      secure:
+        new URL(c.req.url).protocol === 'https:' || c.req.header('X-Forwarded-Proto') === 'https',
+      expires: new Date(session.expiresAt),
+    });
+
+    logger.info('Admin logged in');
+    return c.json({
+      success: true,
+      message: 'Logged in',
+      data: {
+        role: session.role,
+        authenticated: true,
+        adminConfigured: true,
+        expiresAt: session.expiresAt,
+      } satisfies SessionInfo,
+      metadata: {
+        timestamp: new Date().toISOString(),
+        action: 'login',
+      },
+    });
+  } catch (error) {
+    logger.error('Admin login error', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return c.json(
+      {
+        success: false,
+        error: 'Login failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * POST /api/auth/logout
+ * End the current session and clear the session cookie
+ */
+auth.post('/logout', c => {
+  const logger = c.get('logger');
+  const session = c.get('session');
+
+  if (session) {
+    authService.logout(session.id);
+    logger.info('Admin logged out');
+  }
+  deleteCookie(c, SESSION_COOKIE, { path: '/' });
+
+  return c.json({
+    success: true,
+    message: 'Logged out',
+    metadata: {
+      timestamp: new Date().toISOString(),
+      action: 'logout',
+    },
+  });
+});
+
+/**
+ * PUT /api/auth/password
+ * Change the admin PIN/password (admin only) - other sessions are logged out
+ */
+auth.put('/password', async c => {
+  const logger = c.get('logger');
+
+  try {
+    const body = (await c.req.json().catch(() => null)) as {
+      currentPassword?: unknown;
+      newPassword?: unknown;
+    } | null;
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return c.json(
+        {
+          success: false,
+          error: 'Invalid PIN/password',
+          message: 'Request body must be a JSON object',
+        },
+        400
+      );
+    }
+
+    const validationErrors = authService.validateNewPassword(body.newPassword);
+    if (typeof body.currentPassword !== 'string') {
+      validationErrors.unshift('Current PIN/password is required');
+    }
+    if (validationErrors.length > 0) {
+      return c.json(
+        {
+          success: false,
+          error: 'Invalid PIN/password',
+          message: validationErrors.join('; '),
+        },
+        400
+      );
+    }
+
+    const result = await authService.changePassword(
+      body.currentPassword as string,
+      body.newPassword as string,
+      c.get('session')?.id
+    );
+
+    if (!result.success) {
+      logger.warn('Admin PIN/password change rejected', { message: result.message });
+      return c.json(
+        {
+          success: false,
+          error: 'Invalid PIN/password',
+          message: result.message,
+        },
+        403
+      );
+    }
+
+    return c.json({
+      success: true,
+      message: result.message,
+      metadata: {
+        timestamp: new Date().toISOString(),
+        action: 'password-change',
+      },
+    });
+  } catch (error) {
+    logger.error('Admin PIN/password change error', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to change PIN/password',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+export default auth;
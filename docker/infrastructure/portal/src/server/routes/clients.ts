@@ -0,0 +1,247 @@
+import { Hono, type Context } from 'hono';
+
+import type { LoggerVariables } from '../middleware/logging';
+import {
+  ClientManagementService,
+  type ClientActionResult,
+  type ClientBandwidthCap,
+} from '../services/ClientManagementService';
+
+// Initialize service and re-apply blocks and bandwidth caps (failures are logged)
+const clientManagementService = new ClientManagementService();
+void clientManagementService.startEnforcing();
+
+// Create router with typed variables
+const clients = new Hono<{ Variables: LoggerVariables }>();
+
+const MAC_PATTERN = /^([0-9a-f]{2}:){5}[0-9a-f]{2}$/i;
+
+/**
+ * Reject requests whose :mac parameter is not a MAC address
+ */
+clients.use('/:mac/*', async (c, next) => {
+  const macAddress = c.req.param('mac');
+  if (!MAC_PATTERN.test(macAddress)) {
+    return c.json(
+      {
+        success: false,
+        error: 'Invalid MAC address',
+        message: `'${macAddress}' is not a valid MAC address`,
+      },
+      400
+    );
+  }
+  return next();
+});
+
+/**
+ * Turn the result of a client action into a response
+ */
+function actionResponse(
+  c: Context<{ Variables: LoggerVariables }>,
+  result: ClientActionResult,
+  action: string
+) {
+  const logger = c.get('logger');
+
+  if (!result.success) {
+    logger.error('Client action failed', { action, message: result.message });
+    return c.json(
+      {
+        success: false,
+        error: 'Client action failed',
+        message: result.message,
+      },
+      500
+    );
+  }
+
+  logger.info('Client action completed', { action, message: result.message });
+  return c.json({
+    success: true,
+    message: result.message,
+    ...(result.client && { data: result.client }),
+    metadata: {
+      timestamp: new Date().toISOString(),
+      action,
+    },
+  });
+}
+
+/**
+ * Log an unexpected error and turn it into a response
+ */
+function errorResponse(
+  c: Context<{ Variables: LoggerVariables }>,
+  error: unknown,
+  description: string
+) {
+  c.get('logger').error(`${description} error`, {
+    macAddress: c.req.param('mac'),
+    error: error instanceof Error ? error.message : String(error),
+    stack: error instanceof Error ? error.stack : undefined,
+  });
+
+  return c.json(
+    {
+      success: false,
+      error: `Failed to ${description.toLowerCase()}`,
+      message: error instanceof Error ? error.message : 'Unknown error',
+    },
+    500
+  );
+}
+
+/**
+ * GET /api/clients
+ * Get clients with portal-managed settings (names, blocks, bandwidth caps)
+ */
+clients.get('/', async c => {
+  try {
+    return c.json({
+      success: true,
+      data: await clientManagementService.getClients(),
+      metadata: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    return errorResponse(c, error, 'Retrieve managed clients');
+  }
+});
+
+/**
+ * PUT /api/clients/:mac/name
+ * Set a friendly name that replaces the DHCP hostname (empty name clears it)
+ */
+clients.put('/:mac/name', async c => {
+  try {
+    const body = (await c.req.json().catch(() => null)) as { name?: unknown } | null;
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return c.json(
+        {
+          success: false,
+          error: 'Invalid client name',
+          message: 'Request body must be a JSON object',
+        },
+        400
+      );
+    }
+
+    const validationErrors = clientManagementService.validateName(body.name);
+    if (validationErrors.length > 0) {
+      return c.json(
+        {
+          success: false,
+          error: 'Invalid client name',
+          message: validationErrors.join('; '),
+        },
+        400
+      );
+    }
+
+    const result = await clientManagementService.setName(c.req.param('mac'), body.name as string);
+    return actionResponse(c, result, 'client-rename');
+  } catch (error) {
+    return errorResponse(c, error, 'Rename client');
+  }
+});
+
+/**
+ * POST /api/clients/:mac/kick
+ * Disconnect a client from the hotspot
+ */
+clients.post('/:mac/kick', async c => {
+  try {
+    const result = await clientManagementService.kick(c.req.param('mac'));
+    return actionResponse(c, result, 'client-kick');
+  } catch (error) {
+    return errorResponse(c, error, 'Disconnect client');
+  }
+});
+
+/**
+ * POST /api/clients/:mac/block
+ * Block a client from joining the hotspot and disconnect it
+ */
+clients.post('/:mac/block', async c => {
+  try {
+    const result = await clientManagementService.setBlocked(c.req.param('mac'), true);
+    return actionResponse(c, result, 'client-block');
+  } catch (error) {
+    return errorResponse(c, error, 'Block client');
+  }
+});
+
+/**
+ * DELETE /api/clients/:mac/block
+ * Allow a blocked client to join the hotspot again
+ */
+clients.delete('/:mac/block', async c => {
+  try {
+    const result = await clientManagementService.setBlocked(c.req.param('mac'), false);
+    return actionResponse(c, result, 'client-unblock');
+  } catch (error) {
+    return errorResponse(c, error, 'Unblock client');
+  }
+});
+
+/**
+ * PUT /api/clients/:mac/cap
+ * Limit a client's download and/or upload bandwidth (kbit/s)
+ */
+clients.put('/:mac/cap', async c => {
+  try {
+    const body = (await c.req.json().catch(() => null)) as {
+      downloadKbps?: unknown;
+      uploadKbps?: unknown;
+    } | null;
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return c.json(
+        {
+          success: false,
+          error: 'Invalid bandwidth limit',
+          message: 'Request body must be a JSON object',
+        },
+        400
+      );
+    }
+
+    const cap: ClientBandwidthCap = {
+      ...(body.downloadKbps != null && { downloadKbps: Number(body.downloadKbps) }),
+      ...(body.uploadKbps != null && { uploadKbps: Number(body.uploadKbps) }),
+    };
+
+    const validationErrors = clientManagementService.validateCap(cap);
+    if (validationErrors.length > 0) {
+      return c.json(
+        {
+          success: false,
+          error: 'Invalid bandwidth limit',
+          message: validationErrors.join('; '),
+        },
+        400
+      );
+    }
+
+    const result = await clientManagementService.setCap(c.req.param('mac'), cap);
+    return actionResponse(c, result, 'client-cap');
+  } catch (error) {
+    return errorResponse(c, error, 'Limit client bandwidth');
+  }
+});
+
+/**
+ * DELETE /api/clients/:mac/cap
+ * Remove a client's bandwidth limit
+ */
+clients.delete('/:mac/cap', async c => {
+  try {
+    const result = await clientManagementService.setCap(c.req.param('mac'), undefined);
+    return actionResponse(c, result, 'client-uncap');
+  } catch (error) {
+    return errorResponse(c, error, 'Remove client bandwidth limit');
+  }
+});
+
+export default clients;
@@ -2,9 +2,18 @@ import { Hono } from 'hono';
 
 import type { LoggerVariables } from '../middleware/logging';
 import { ConfigService } from '../services/ConfigService';
+import type { DeviceSettingsUpdate } from '../services/DeviceSettingsService';
+import { HotspotConfigService, type HotspotConfigUpdate } from '../services/HotspotConfigService';
+import {
+  WIFI_CHANNELS,
+  WifiConfigService,
+  type WifiConfigUpdate,
+} from '../services/WifiConfigService';
 
 // Initialize services
 const configService = new ConfigService();
+const wifiConfigService = new WifiConfigService();
+const hotspotConfigService = new HotspotConfigService();
 
 // Create router with typed variables
 const config = new Hono<{ Variables: LoggerVariables }>();
@@ -78,4 +87,376 @@ config.get('/app', c => {
   }
 });
 
+/**
+ * PUT /api/config/app
+ * Update device settings (hostname, timezone, NTP servers, base domain, kiosk options)
+ * Hostname, timezone and NTP changes are applied to the host; all settings are persisted
+ */
+config.put('/app', async c => {
+  const logger = c.get('logger');
+
+  try {
+    const body = (await c.req.json().catch(() => null)) as DeviceSettingsUpdate | null;
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      logger.warn('Invalid device settings request body');
+      return c.json(
+        {
+          success: false,
+          error: 'Invalid device settings',
+          message: 'Request body must be a JSON object',
+        },
+        400
+      );
+    }
+
+    logger.info('Device settings update requested', {
+      hostname: body.hostname,
+      timezone: body.timezone,
+      ntpServers: body.ntpServers,
+      baseDomain: body.baseDomain,
+      kiosk: body.kiosk,
+    });
+
+    const validationErrors = configService.validateAppConfigUpdate(body);
+    if (validationErrors.length > 0) {
+      logger.warn('Invalid device settings', { errors: validationErrors });
+      return c.json(
+        {
+          success: false,
+          error: 'Invalid device settings',
+          message: validationErrors.join('; '),
+        },
+        400
+      );
+    }
+
+    const result = await configService.updateAppConfig(body);
+
+    if (result.success) {
+      logger.info('Device settings updated', { message: result.message });
+      return c.json({
+        success: true,
+        message: result.message,
+        data: configService.getAppConfig(),
+        metadata: {
+          timestamp: new Date().toISOString(),
+          action: 'device-settings-update',
+        },
+      });
+    } else {
+      logger.error('Device settings update failed', { message: result.message });
+      return c.json(
+        {
+          success: false,
+          error: 'Device settings update failed',
+          message: result.message,
+        },
+        500
+      );
+    }
+  } catch (error) {
+    logger.error('Device settings update error', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to update device settings',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * GET /api/config/wifi
+ * Get the hotspot WiFi configuration (SSID, passphrase, channel, band)
+ * Includes the channels available per band for building the settings form
+ */
+config.get('/wifi', c => {
+  const logger = c.get('logger');
+
+  try {
+    logger.debug('Fetching WiFi configuration');
+    const wifiConfig = wifiConfigService.getWifiConfigWithMetadata();
+    logger.debug('Retrieved WiFi config', { ssid: wifiConfig.ssid, source: wifiConfig.source });
+
+    return c.json({
+      success: true,
+      data: {
+        ...wifiConfig,
+        availableChannels: WIFI_CHANNELS,
+      },
+      metadata: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to get WiFi configuration', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to retrieve WiFi configuration',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * PUT /api/config/wifi
+ * Update the hotspot WiFi configuration
+ * Rewrites hostapd.conf, restarts hostapd and rolls back if it fails to come up
+ */
+config.put('/wifi', async c => {
+  const logger = c.get('logger');
+
+  try {
+    const body = (await c.req.json().catch(() => null)) as WifiConfigUpdate | null;
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      logger.warn('Invalid WiFi configuration request body');
+      return c.json(
+        {
+          success: false,
+          error: 'Invalid WiFi configuration',
+          message: 'Request body must be a JSON object',
+        },
+        400
+      );
+    }
+
+    logger.info('WiFi configuration update requested', {
+      ssid: body.ssid,
+      hasPassword: body.password !== undefined,
+      channel: body.channel,
+      band: body.band,
+    });
+
+    const validationErrors = wifiConfigService.validateWifiConfigUpdate(body);
+    if (validationErrors.length > 0) {
+      logger.warn('Invalid WiFi configuration', { errors: validationErrors });
+      return c.json(
+        {
+          success: false,
+          error: 'Invalid WiFi configuration',
+          message: validationErrors.join('; '),
+        },
+        400
+      );
+    }
+
+    const result = await wifiConfigService.updateWifiConfig(body);
+
+    if (result.success) {
+      logger.info('WiFi configuration updated', { message: result.message });
+      return c.json({
+        success: true,
+        message: result.message,
+        data: result.config,
+        metadata: {
+          timestamp: new Date().toISOString(),
+          action: 'wifi-update',
+          clients: result.clients,
+        },
+      });
+    } else {
+      logger.error('WiFi configuration update failed', {
+        message: result.message,
+        rolledBack: result.rolledBack,
+      });
+      return c.json(
+        {
+          success: false,
+          error: 'WiFi configuration update failed',
+          message: result.message,
+          rolledBack: result.rolledBack ?? false,
+        },
+        500
+      );
+    }
+  } catch (error) {
+    logger.error('WiFi configuration update error', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to update WiFi configuration',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * GET /api/config/hotspot
+ * Get hotspot DHCP and access point settings (pool, lease time, reservations, limits)
+ */
+config.get('/hotspot', async c => {
+  const logger = c.get('logger');
+
+  try {
+    logger.debug('Fetching hotspot configuration');
+    const hotspotConfig = await hotspotConfigService.getHotspotConfig();
+
+    return c.json({
+      success: true,
+      data: hotspotConfig,
+      metadata: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to get hotspot configuration', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to retrieve hotspot configuration',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * GET /api/config/hotspot/leases
+ * Get active DHCP leases on the hotspot, flagged when they have a reservation
+ */
+config.get('/hotspot/leases', async c => {
+  const logger = c.get('logger');
+
+  try {
+    logger.debug('Fetching hotspot DHCP leases');
+    const leases = await hotspotConfigService.getLeases();
+
+    return c.json({
+      success: true,
+      data: leases,
+      metadata: {
+        timestamp: new Date().toISOString(),
+        count: leases.length,
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to get hotspot DHCP leases', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to retrieve DHCP leases',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * PUT /api/config/hotspot
+ * Update hotspot DHCP and access point settings
+ * Restarts dnsmasq and/or hostapd as needed and rolls back if they fail to come up
+ */
+config.put('/hotspot', async c => {
+  const logger = c.get('logger');
+
+  try {
+    const body = (await c.req.json().catch(() => null)) as HotspotConfigUpdate | null;
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      logger.warn('Invalid hotspot configuration request body');
+      return c.json(
+        {
+          success: false,
+          error: 'Invalid hotspot configuration',
+          message: 'Request body must be a JSON object',
+        },
+        400
+      );
+    }
+
+    logger.info('Hotspot configuration update requested', {
+      dhcpRange: body.dhcpRange,
+      leaseTime: body.leaseTime,
+      reservations: body.reservations?.length,
+      maxClients: body.maxClients,
+      apIsolation: body.apIsolation,
+    });
+
+    const current = await hotspotConfigService.getHotspotConfig();
+    const validationErrors = hotspotConfigService.validateHotspotConfigUpdate(body, current);
+    if (validationErrors.length > 0) {
+      logger.warn('Invalid hotspot configuration', { errors: validationErrors });
+      return c.json(
+        {
+          success: false,
+          error: 'Invalid hotspot configuration',
+          message: validationErrors.join('; '),
+        },
+        400
+      );
+    }
+
+    const result = await hotspotConfigService.updateHotspotConfig(body);
+
+    if (result.success) {
+      logger.info('Hotspot configuration updated', { message: result.message });
+      return c.json({
+        success: true,
+        message: result.message,
+        data: result.config,
+        metadata: {
+          timestamp: new Date().toISOString(),
+          action: 'hotspot-update',
+        },
+      });
+    } else {
+      logger.error('Hotspot configuration update failed', {
+        message: result.message,
+        rolledBack: result.rolledBack,
+      });
+      return c.json(
+        {
+          success: false,
+          error: 'Hotspot configuration update failed',
+          message: result.message,
+          rolledBack: result.rolledBack ?? false,
+        },
+        500
+      );
+    }
+  } catch (error) {
+    logger.error('Hotspot configuration update error', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to update hotspot configuration',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
 export default config;
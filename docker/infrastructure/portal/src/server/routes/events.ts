@@ -0,0 +1,86 @@
+import { Hono } from 'hono';
+import { streamSSE } from 'hono/streaming';
+
+import type { LoggerVariables } from '../middleware/logging';
+import { LiveStatusService, type LiveEvent } from '../services/LiveStatusService';
+
+import { serviceDiscovery } from './services';
+
+// Initialize service (shared with POST /api/networks/refresh)
+export const liveStatusService = new LiveStatusService();
+serviceDiscovery.onChange(() => liveStatusService.notifyServicesChanged());
+
+// Create router with typed variables
+const events = new Hono<{ Variables: LoggerVariables }>();
+
+const HEARTBEAT_MS = 25000; // Keeps proxies from closing idle streams
+
+/**
+ * GET /api/events
+ * Server-sent event stream of live status
+ * Events: network, interface-state, client-connected, client-disconnected,
+ * tailscale-peers, peer-online, peer-offline, kiosk, services (plus ping heartbeats)
+ */
+events.get('/', c => {
+  const logger = c.get('logger');
+  logger.info('Live event stream opened');
+
+  return streamSSE(
+    c,
+    async stream => {
+      let eventId = 0;
+      const queue: LiveEvent[] = [];
+      let wake: (() => void) | undefined;
+
+      // Queue events so writes to this stream never interleave
+      const unsubscribe = liveStatusService.subscribe(event => {
+        queue.push(event);
+        wake?.();
+      });
+      stream.onAbort(() => {
+        unsubscribe();
+        wake?.();
+      });
+
+      let lastWrite = Date.now();
+      while (!stream.aborted) {
+        const event = queue.shift();
+        if (event) {
+          await stream.writeSSE({
+            event: event.type,
+            data: JSON.stringify(event.data),
+            id: String(++eventId),
+          });
+          lastWrite = Date.now();
+          continue;
+        }
+
+        if (Date.now() - lastWrite >= HEARTBEAT_MS) {
+          await stream.writeSSE({ event: 'ping', data: '' });
+          lastWrite = Date.now();
+        }
+        if (queue.length > 0 || stream.aborted) {
+          continue;
+        }
+
+        await new Promise<void>(resolve => {
+          const timer = setTimeout(resolve, HEARTBEAT_MS);
+          wake = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+        wake = undefined;
+      }
+
+      unsubscribe();
+      logger.info('Live event stream closed');
+    },
+    async (error, stream) => {
+      logger.warn('Live event stream failed', { error: error.message });
+      await stream.close();
+    }
+  );
+});
+
+export default events;
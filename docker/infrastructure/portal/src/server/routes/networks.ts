@@ -2,10 +2,15 @@ import { Hono } from 'hono';
 
 import type { WiFiInterface } from '../../types/network';
 import type { LoggerVariables } from '../middleware/logging';
+import { ClientUsageService, USAGE_RANGES } from '../services/ClientUsageService';
 import { NetworkService } from '../services/NetworkService';
 
-// Initialize service
+import { liveStatusService } from './events';
+
+// Initialize services
 const networkService = new NetworkService();
+export const clientUsageService = new ClientUsageService();
+void clientUsageService.startCollecting();
 
 // Create router with typed variables
 const networks = new Hono<{ Variables: LoggerVariables }>();
@@ -49,6 +54,120 @@ networks.get('/', async c => {
   }
 });
 
+/**
+ * GET /api/networks/clients/usage
+ * Data used by each hotspot client over a range (?range=1h|24h|7d, default 24h), heaviest first
+ */
+networks.get('/clients/usage', async c => {
+  const logger = c.get('logger');
+  const range = c.req.query('range') ?? '24h';
+
+  if (!clientUsageService.isValidRange(range)) {
+    return c.json(
+      {
+        success: false,
+        error: 'Invalid range',
+        message: `Range must be one of: ${USAGE_RANGES.join(', ')}`,
+      },
+      400
+    );
+  }
+
+  try {
+    const usage = await clientUsageService.getUsageSummary(range);
+
+    return c.json({
+      success: true,
+      data: usage,
+      metadata: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to get client usage', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to retrieve client usage',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * GET /api/networks/clients/:mac/usage
+ * Data used by one hotspot client over a range (?range=1h|24h|7d, default 24h) with a time series
+ */
+networks.get('/clients/:mac/usage', async c => {
+  const logger = c.get('logger');
+  const macAddress = c.req.param('mac');
+  const range = c.req.query('range') ?? '24h';
+
+  if (!/^([0-9a-f]{2}:){5}[0-9a-f]{2}$/i.test(macAddress)) {
+    return c.json(
+      {
+        success: false,
+        error: 'Invalid MAC address',
+        message: `'${macAddress}' is not a valid MAC address`,
+      },
+      400
+    );
+  }
+  if (!clientUsageService.isValidRange(range)) {
+    return c.json(
+      {
+        success: false,
+        error: 'Invalid range',
+        message: `Range must be one of: ${USAGE_RANGES.join(', ')}`,
+      },
+      400
+    );
+  }
+
+  try {
+    const usage = await clientUsageService.getClientUsage(macAddress, range);
+    if (!usage) {
+      return c.json(
+        {
+          success: false,
+          error: 'Client not found',
+          message: `No usage recorded for ${macAddress}`,
+        },
+        404
+      );
+    }
+
+    return c.json({
+      success: true,
+      data: usage,
+      metadata: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to get client usage', {
+      macAddress,
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to retrieve client usage',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
 /**
  * Create default interface data for keywords when actual interface not found
  */
@@ -288,6 +407,8 @@ networks.post('/refresh', async c => {
     logger.debug('Triggering cache refresh by fetching summary');
     // Trigger a refresh by getting the summary
     const summary = await networkService.getNetworkSummary();
+    // Push the fresh state to live event subscribers too
+    void liveStatusService.refreshNetwork();
     logger.info('Cache refreshed', {
       interfaceCount: summary.totalInterfaces,
     });
@@ -7,8 +7,11 @@ import { ServiceDiscoveryService } from '../services/ServiceDiscoveryService';
 // Initialize cache (TTL: 30 seconds)
 const cache = new NodeCache({ stdTTL: 30 });
 
-// Initialize service
-const serviceDiscovery = new ServiceDiscoveryService();
+// Initialize service (shared with the live event stream)
+export const serviceDiscovery = new ServiceDiscoveryService();
+
+// Drop cached responses as soon as a service container changes
+serviceDiscovery.onChange(() => cache.flushAll());
 
 // Create router with typed variables
 const services = new Hono<{ Variables: LoggerVariables }>();
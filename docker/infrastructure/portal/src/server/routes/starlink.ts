@@ -0,0 +1,151 @@
+import { Hono } from 'hono';
+
+import type { LoggerVariables } from '../middleware/logging';
+import { StarlinkService, type StarlinkActionResult } from '../services/StarlinkService';
+
+// Initialize service
+const starlinkService = new StarlinkService();
+
+// Create router with typed variables
+const starlink = new Hono<{ Variables: LoggerVariables }>();
+
+/**
+ * GET /api/starlink/status
+ * Get dish status (latency, SNR, throughput, obstruction, alerts, software version, uptime)
+ * Responds with reachable=false when the dish cannot be reached
+ */
+starlink.get('/status', async c => {
+  const logger = c.get('logger');
+
+  try {
+    logger.debug('Fetching Starlink status');
+    const status = await starlinkService.getStatus();
+    logger.debug('Retrieved Starlink status', { reachable: status.reachable });
+
+    return c.json({
+      success: true,
+      data: status,
+      metadata: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to get Starlink status', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to retrieve Starlink status',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * GET /api/starlink/obstruction-map
+ * Get the dish's obstruction map (row-major grid of 0..1 signal quality, -1 = no data)
+ */
+starlink.get('/obstruction-map', async c => {
+  const logger = c.get('logger');
+
+  try {
+    logger.debug('Fetching Starlink obstruction map');
+    const map = await starlinkService.getObstructionMap();
+
+    return c.json({
+      success: true,
+      data: map,
+      metadata: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    logger.warn('Failed to get Starlink obstruction map', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to retrieve obstruction map',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      503
+    );
+  }
+});
+
+/**
+ * Register a POST endpoint for a dish action
+ */
+function registerAction(path: string, action: string, run: () => Promise<StarlinkActionResult>) {
+  starlink.post(path, async c => {
+    const logger = c.get('logger');
+
+    try {
+      logger.info(`Starlink ${action} requested`);
+      const result = await run();
+
+      if (result.success) {
+        logger.info(`Starlink ${action} successful`, { message: result.message });
+        return c.json({
+          success: true,
+          message: result.message,
+          metadata: {
+            timestamp: new Date().toISOString(),
+            action: `starlink-${action}`,
+          },
+        });
+      } else {
+        logger.error(`Starlink ${action} failed`, { message: result.message });
+        return c.json(
+          {
+            success: false,
+            error: `Starlink ${action} failed`,
+            message: result.message,
+          },
+          503
+        );
+      }
+    } catch (error) {
+      logger.error(`Starlink ${action} error`, {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+
+      return c.json(
+        {
+          success: false,
+          error: `Failed to ${action} dish`,
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+  });
+}
+
+/**
+ * POST /api/starlink/stow
+ * Stow the dish flat for transport
+ */
+registerAction('/stow', 'stow', () => starlinkService.stow());
+
+/**
+ * POST /api/starlink/unstow
+ * Unstow the dish so it resumes tracking
+ */
+registerAction('/unstow', 'unstow', () => starlinkService.unstow());
+
+/**
+ * POST /api/starlink/reboot
+ * Reboot the dish
+ */
+registerAction('/reboot', 'reboot', () => starlinkService.reboot());
+
+export default starlink;
@@ -0,0 +1,168 @@
+import { Hono, type Context } from 'hono';
+
+import type { LoggerVariables } from '../middleware/logging';
+import {
+  SyncDashboardService,
+  type SyncActionResult,
+  type SyncConflictResolution,
+} from '../services/SyncDashboardService';
+
+import { serviceDiscovery } from './services';
+
+// Initialize service
+const syncDashboardService = new SyncDashboardService(serviceDiscovery);
+
+const CONFLICT_RESOLUTIONS: SyncConflictResolution[] = ['keep_both', 'prefer_local', 'prefer_card'];
+
+// Create router with typed variables
+const sync = new Hono<{ Variables: LoggerVariables }>();
+
+/**
+ * Turn the result of a proxied sync action into a response
+ */
+function actionResponse(
+  c: Context<{ Variables: LoggerVariables }>,
+  result: SyncActionResult,
+  action: string
+) {
+  const logger = c.get('logger');
+  const service = c.req.param('service');
+
+  if (!result.success) {
+    logger.error('Sync action failed', { action, service, message: result.message });
+    return c.json(
+      {
+        success: false,
+        error: 'Sync action failed',
+        message: result.message,
+      },
+      result.status as 400 | 404 | 409 | 500 | 502
+    );
+  }
+
+  logger.info('Sync action completed', { action, service, message: result.message });
+  return c.json({
+    success: true,
+    message: result.message,
+    ...(result.operationId && { data: { operationId: result.operationId } }),
+    metadata: {
+      timestamp: new Date().toISOString(),
+      action,
+    },
+  });
+}
+
+/**
+ * GET /api/sync
+ * Get every sync service with its schedule, in-flight operations, recent failures and storage
+ */
+sync.get('/', async c => {
+  const logger = c.get('logger');
+
+  try {
+    const summary = await syncDashboardService.getSummary();
+    logger.debug('Sync summary collected', { serviceCount: summary.length });
+
+    return c.json({
+      success: true,
+      data: summary,
+      metadata: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to get sync summary', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to retrieve sync services',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * POST /api/sync/:service/trigger
+ * Start a sync outside the schedule
+ * Body: { target?: string } - content type (nfs-sync), device path (offline-sync) or
+ * package name (kiwix-sync); omit to sync everything where the service supports it
+ */
+sync.post('/:service/trigger', async c => {
+  const body = (await c.req.json().catch(() => ({}))) as { target?: unknown };
+  if (body.target !== undefined && typeof body.target !== 'string') {
+    return c.json(
+      {
+        success: false,
+        error: 'Invalid sync target',
+        message: 'target must be a string',
+      },
+      400
+    );
+  }
+
+  const result = await syncDashboardService.triggerSync(
+    c.req.param('service'),
+    body.target?.trim() || undefined
+  );
+  return actionResponse(c, result, 'sync-trigger');
+});
+
+/**
+ * DELETE /api/sync/:service/operations/:id
+ * Cancel an in-flight operation
+ */
+sync.delete('/:service/operations/:id', async c => {
+  const result = await syncDashboardService.cancelOperation(
+    c.req.param('service'),
+    c.req.param('id')
+  );
+  return actionResponse(c, result, 'sync-cancel');
+});
+
+/**
+ * POST /api/sync/:service/conflicts/:id/resolve
+ * Decide a sync conflict
+ * Body: { resolution: 'keep_both' | 'prefer_local' | 'prefer_card' }
+ */
+sync.post('/:service/conflicts/:id/resolve', async c => {
+  const body = (await c.req.json().catch(() => ({}))) as { resolution?: unknown };
+  const resolution = CONFLICT_RESOLUTIONS.find(candidate => candidate === body.resolution);
+  if (!resolution) {
+    return c.json(
+      {
+        success: false,
+        error: 'Invalid resolution',
+        message: `resolution must be one of: ${CONFLICT_RESOLUTIONS.join(', ')}`,
+      },
+      400
+    );
+  }
+
+  const result = await syncDashboardService.resolveConflict(
+    c.req.param('service'),
+    c.req.param('id'),
+    resolution
+  );
+  return actionResponse(c, result, 'sync-resolve-conflict');
+});
+
+/**
+ * POST /api/sync/:service/cards/:device/eject
+ * Finish a card's sync, then flush, verify and unmount it so it can be pulled
+ * Open to viewers so a card can be ejected from the kiosk without an admin login
+ */
+sync.post('/:service/cards/:device/eject', async c => {
+  const result = await syncDashboardService.ejectCard(
+    c.req.param('service'),
+    c.req.param('device')
+  );
+  return actionResponse(c, result, 'sync-eject');
+});
+
+export default sync;
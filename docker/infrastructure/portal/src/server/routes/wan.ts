@@ -0,0 +1,244 @@
+import { Hono } from 'hono';
+
+import type { LoggerVariables } from '../middleware/logging';
+import { WanService, type WanConfigUpdate } from '../services/WanService';
+
+// Initialize service and start the uplink health probe once a WAN configuration is saved
+const wanService = new WanService();
+void wanService.startMonitoring();
+
+// Create router with typed variables
+const wan = new Hono<{ Variables: LoggerVariables }>();
+
+/**
+ * GET /api/wan
+ * Get the active uplink, standby uplinks with probe results, and recent failover history
+ */
+wan.get('/', async c => {
+  const logger = c.get('logger');
+
+  try {
+    logger.debug('Fetching WAN status');
+    const status = await wanService.getStatus();
+    logger.debug('Retrieved WAN status', { activeInterface: status.activeInterface });
+
+    return c.json({
+      success: true,
+      data: status,
+      metadata: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to get WAN status', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to retrieve WAN status',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * GET /api/wan/config
+ * Get uplink priority order, failover and probe settings, plus interfaces that could be added
+ */
+wan.get('/config', async c => {
+  const logger = c.get('logger');
+
+  try {
+    logger.debug('Fetching WAN configuration');
+    const [config, candidates] = await Promise.all([
+      wanService.getConfig(),
+      wanService.getCandidates(),
+    ]);
+
+    return c.json({
+      success: true,
+      data: {
+        ...config,
+        candidates,
+      },
+      metadata: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to get WAN configuration', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to retrieve WAN configuration',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * PUT /api/wan/config
+ * Update uplink priority order, failover and probe settings
+ * The uplinks list replaces the current one; its order is the priority order
+ */
+wan.put('/config', async c => {
+  const logger = c.get('logger');
+
+  try {
+    const body = (await c.req.json().catch(() => null)) as WanConfigUpdate | null;
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      logger.warn('Invalid WAN configuration request body');
+      return c.json(
+        {
+          success: false,
+          error: 'Invalid WAN configuration',
+          message: 'Request body must be a JSON object',
+        },
+        400
+      );
+    }
+
+    const validationErrors = wanService.validateConfig(body);
+    if (validationErrors.length > 0) {
+      logger.warn('Invalid WAN configuration', { errors: validationErrors });
+      return c.json(
+        {
+          success: false,
+          error: 'Invalid WAN configuration',
+          message: validationErrors.join('; '),
+        },
+        400
+      );
+    }
+
+    logger.info('WAN configuration update requested', {
+      uplinks: body.uplinks?.map(uplink => uplink.interface),
+      autoFailover: body.autoFailover,
+    });
+
+    const result = await wanService.updateConfig(body);
+
+    if (result.success) {
+      logger.info('WAN configuration updated', { message: result.message });
+      return c.json({
+        success: true,
+        message: result.message,
+        data: await wanService.getStatus(),
+        metadata: {
+          timestamp: new Date().toISOString(),
+          action: 'wan-config-update',
+        },
+      });
+    } else {
+      logger.error('WAN configuration update failed', { message: result.message });
+      return c.json(
+        {
+          success: false,
+          error: 'WAN configuration update failed',
+          message: result.message,
+        },
+        500
+      );
+    }
+  } catch (error) {
+    logger.error('WAN configuration update error', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to update WAN configuration',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * GET /api/wan/history
+ * Get failover history, newest first
+ * Query: ?limit=50
+ */
+wan.get('/history', async c => {
+  const logger = c.get('logger');
+
+  try {
+    const limit = parseInt(c.req.query('limit') ?? '', 10);
+    const history = await wanService.getHistory(Number.isNaN(limit) ? undefined : limit);
+
+    return c.json({
+      success: true,
+      data: history,
+      metadata: {
+        timestamp: new Date().toISOString(),
+        count: history.length,
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to get WAN failover history', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to retrieve failover history',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * POST /api/wan/probe
+ * Run the uplink health probe now instead of waiting for the next interval
+ */
+wan.post('/probe', async c => {
+  const logger = c.get('logger');
+
+  try {
+    logger.info('Manual WAN probe requested');
+    await wanService.probe();
+
+    return c.json({
+      success: true,
+      data: await wanService.getStatus(),
+      metadata: {
+        timestamp: new Date().toISOString(),
+        action: 'wan-probe',
+      },
+    });
+  } catch (error) {
+    logger.error('WAN probe error', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to probe uplinks',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+export default wan;
@@ -0,0 +1,233 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+import { LoggerFactory, LogLevel } from '@dangerprep/logging';
+
+import { readJsonState, writeJsonState } from '../utils/stateStore';
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+/**
+ * Portal roles - viewers see status pages, admins can also change settings and power state
+ */
+export type Role = 'viewer' | 'admin';
+
+/**
+ * Active login session
+ */
+export interface Session {
+  id: string;
+  role: Role;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Session state reported to the frontend
+ */
+export interface SessionInfo {
+  role: Role;
+  authenticated: boolean;
+  adminConfigured: boolean; // False until an admin PIN/password is set
+  expiresAt?: string;
+}
+
+/**
+ * Outcome of a login attempt
+ */
+export type LoginResult =
+  | { success: true; session: Session }
+  | { success: false; reason: 'invalid' | 'locked' | 'not-configured'; retryAfterSeconds?: number };
+
+/**
+ * Stored admin credential (scrypt hash, set from the portal)
+ */
+interface AuthState {
+  passwordHash?: string; // scrypt$<salt hex>$<hash hex>
+  updatedAt?: string;
+}
+
+const AUTH_FILE = 'auth.json';
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000; // 12 hours
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 5 * 60 * 1000; // 5 minutes
+const MIN_PASSWORD_LENGTH = 4; // Allows 4-digit PINs
+
+/**
+ * Service for admin authentication and sessions
+ *
+ * The admin PIN/password comes from PORTAL_ADMIN_PASSWORD until it is changed from the
+ * portal, after which an scrypt hash in PORTAL_DATA_DIR takes precedence. Sessions are
+ * kept in memory, so a portal restart logs everyone out. Anyone without a session is a
+ * viewer. Repeated failed logins from one address are locked out for a few minutes.
+ */
+export class AuthService {
+  private sessions = new Map<string, Session>();
+  private failedAttempts = new Map<string, { count: number; lockedUntil?: number }>();
+  private logger = LoggerFactory.createConsoleLogger(
+    'AuthService',
+    process.env.NODE_ENV === 'development' ? LogLevel.DEBUG : LogLevel.INFO
+  );
+
+  /**
+   * Whether an admin PIN/password has been configured
+   */
+  async isAdminConfigured(): Promise<boolean> {
+    const state = await readJsonState<AuthState>(AUTH_FILE, {});
+    return Boolean(state.passwordHash || process.env.PORTAL_ADMIN_PASSWORD);
+  }
+
+  /**
+   * Check the admin PIN/password and start a session
+   * @param password - Submitted PIN/password
+   * @param clientAddress - Address used for lockout tracking
+   */
+  async login(password: string, clientAddress: string): Promise<LoginResult> {
+    const attempts = this.failedAttempts.get(clientAddress);
+    if (attempts?.lockedUntil && attempts.lockedUntil > Date.now()) {
+      return {
+        success: false,
+        reason: 'locked',
+        retryAfterSeconds: Math.ceil((attempts.lockedUntil - Date.now()) / 1000),
+      };
+    }
+
+    if (!(await this.isAdminConfigured())) {
+      return { success: false, reason: 'not-configured' };
+    }
+
+    if (!(await this.verifyPassword(password))) {
+      const count = (attempts?.lockedUntil ? 0 : (attempts?.count ?? 0)) + 1;
+      if (count >= MAX_FAILED_ATTEMPTS) {
+        this.failedAttempts.set(clientAddress, { count, lockedUntil: Date.now() + LOCKOUT_MS });
+        this.logger.warn('Admin login locked out after repeated failures', { clientAddress });
+      } else {
+        this.failedAttempts.set(clientAddress, { count });
+      }
+      return { success: false, reason: 'invalid' };
+    }
+
+    this.failedAttempts.delete(clientAddress);
+    this.pruneSessions();
+
+    const now = Date.now();
+    const session: Session = {
+      id: randomBytes(32).toString('hex'),
+      role: 'admin',
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + SESSION_TTL_MS).toISOString(),
+    };
+    this.sessions.set(session.id, session);
+    this.logger.info('Admin session started', { clientAddress, expiresAt: session.expiresAt });
+
+    return { success: true, session };
+  }
+
+  /**
+   * End a session
+   */
+  logout(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  /**
+   * Look up a live session by its cookie value
+   */
+  getSession(sessionId: string | undefined): Session | undefined {
+    if (!sessionId) return undefined;
+
+    const session = this.sessions.get(sessionId);
+    if (session && Date.parse(session.expiresAt) <= Date.now()) {
+      this.sessions.delete(sessionId);
+      return undefined;
+    }
+    return session;
+  }
+
+  /**
+   * Validate a new admin PIN/password
+   * Returns a list of human-readable problems (empty when valid)
+   */
+  validateNewPassword(password: unknown): string[] {
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      return [`PIN/password must be at least ${MIN_PASSWORD_LENGTH} characters`];
+    }
+    if (password.length > 128) {
+      return ['PIN/password must be at most 128 characters'];
+    }
+    return [];
+  }
+
+  /**
+   * Change the admin PIN/password
+   * Other admin sessions are ended so a leaked session cannot outlive the change.
+   * @param currentPassword - Current PIN/password
+   * @param newPassword - Replacement PIN/password (already validated)
+   * @param keepSessionId - Session of the admin making the change
+   */
+  async changePassword(
+    currentPassword: string,
+    newPassword: string,
+    keepSessionId?: string
+  ): Promise<{ success: boolean; message: string }> {
+    if (!(await this.verifyPassword(currentPassword))) {
+      return { success: false, message: 'Current PIN/password is incorrect' };
+    }
+
+    const salt = randomBytes(16);
+    const hash = await scryptAsync(newPassword, salt, 32);
+    await writeJsonState(AUTH_FILE, {
+      passwordHash: `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`,
+      updatedAt: new Date().toISOString(),
+    } satisfies AuthState);
+
+    for (const id of this.sessions.keys()) {
+      if (id !== keepSessionId) this.sessions.delete(id);
+    }
+
+    this.logger.info('Admin PIN/password changed');
+    return { success: true, message: 'Admin PIN/password changed' };
+  }
+
+  /**
+   * Compare a submitted PIN/password with the stored hash or the environment value
+   */
+  private async verifyPassword(password: string): Promise<boolean> {
+    const state = await readJsonState<AuthState>(AUTH_FILE, {});
+
+    if (state.passwordHash) {
+      const [scheme, saltHex, hashHex] = state.passwordHash.split('$');
+      if (scheme !== 'scrypt' || !saltHex || !hashHex) {
+        this.logger.error('Stored admin credential is malformed', { path: AUTH_FILE });
+        return false;
+      }
+      const expected = Buffer.from(hashHex, 'hex');
+      const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+      return timingSafeEqual(actual, expected);
+    }
+
+    const configured = process.env.PORTAL_ADMIN_PASSWORD;
+    if (!configured) return false;
+
+    // Hash both sides so the comparison is constant-time regardless of length
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(password), digest(configured));
+  }
+
+  /**
+   * Drop expired sessions and stale lockouts
+   */
+  private pruneSessions(): void {
+    const now = Date.now();
+    for (const [id, session] of this.sessions) {
+      if (Date.parse(session.expiresAt) <= now) this.sessions.delete(id);
+    }
+    for (const [address, attempts] of this.failedAttempts) {
+      if (attempts.lockedUntil && attempts.lockedUntil <= now) this.failedAttempts.delete(address);
+    }
+  }
+}
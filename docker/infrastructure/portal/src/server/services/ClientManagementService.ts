@@ -0,0 +1,519 @@
+import { exec } from 'child_process';
+import { readFile } from 'fs/promises';
+import { promisify } from 'util';
+
+import { LoggerFactory, LogLevel } from '@dangerprep/logging';
+
+import { CLIENTS_STATE_FILE } from '../utils/clientNames';
+import { getConfigEntries, writeFileAtomic } from '../utils/configFiles';
+import { readJsonState, writeJsonState } from '../utils/stateStore';
+
+import { NetworkService } from './NetworkService';
+import { WifiConfigService } from './WifiConfigService';
+
+const execAsync = promisify(exec);
+
+/**
+ * Bandwidth cap for one client, in kbit/s (omitted direction is unlimited)
+ */
+export interface ClientBandwidthCap {
+  downloadKbps?: number;
+  uploadKbps?: number;
+}
+
+/**
+ * Portal-managed settings for one client
+ */
+export interface ManagedClient {
+  macAddress: string;
+  name?: string;
+  blocked: boolean;
+  blockedAt?: string;
+  cap?: ClientBandwidthCap;
+}
+
+/**
+ * Outcome of a client management action
+ */
+export interface ClientActionResult {
+  success: boolean;
+  message: string;
+  client?: ManagedClient;
+}
+
+/**
+ * Persisted client settings, keyed by lowercase MAC address
+ */
+interface ClientManagementState {
+  clients: Record<string, Omit<ManagedClient, 'macAddress'>>;
+}
+
+const DENY_FILE = '/etc/hostapd/hostapd.deny';
+const HOSTAPD_CONF = '/etc/hostapd/hostapd.conf';
+const ENFORCE_INTERVAL_MS = 60 * 1000;
+const MAX_NAME_LENGTH = 64;
+const MIN_CAP_KBPS = 64;
+const MAX_CAP_KBPS = 1000000;
+const UNLIMITED_RATE = '1000mbit';
+const CAP_CLASS_BASE = 10; // tc class ids for capped clients start at 1:10
+
+/**
+ * Service for managing hotspot clients: kick, block, bandwidth caps and friendly names
+ * Blocks use hostapd's deny list (deny_mac_file) so they survive restarts; caps are tc rules
+ * on the hotspot interface, re-applied on startup and whenever a capped client's address changes.
+ */
+export class ClientManagementService {
+  private readonly networkService = new NetworkService();
+  private readonly wifiConfigService = new WifiConfigService();
+  private state: ClientManagementState | undefined;
+  private enforceTimer: NodeJS.Timeout | undefined;
+  private appliedCaps: string | undefined;
+  private logger = LoggerFactory.createConsoleLogger(
+    'ClientManagementService',
+    process.env.NODE_ENV === 'development' ? LogLevel.DEBUG : LogLevel.INFO
+  );
+
+  /**
+   * Apply the block list and bandwidth caps now and keep caps in sync with DHCP leases
+   * Never rejects; failures are logged.
+   */
+  async startEnforcing(): Promise<void> {
+    if (this.enforceTimer) {
+      return;
+    }
+
+    this.enforceTimer = setInterval(() => {
+      this.reapplyBandwidthCaps().catch((error: unknown) => {
+        this.logger.error('Failed to re-apply bandwidth caps', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    }, ENFORCE_INTERVAL_MS);
+    this.enforceTimer.unref();
+
+    try {
+      const state = await this.getState();
+      if (Object.values(state.clients).some(client => client.blocked)) {
+        await this.writeDenyFile().catch(error => {
+          this.logger.warn('Could not write hostapd deny list', {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+      }
+      await this.reapplyBandwidthCaps();
+    } catch (error) {
+      this.logger.error('Failed to apply client restrictions', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Stop re-applying bandwidth caps
+   */
+  stopEnforcing(): void {
+    if (this.enforceTimer) {
+      clearInterval(this.enforceTimer);
+      this.enforceTimer = undefined;
+    }
+  }
+
+  /**
+   * Get every client with portal-managed settings
+   */
+  async getClients(): Promise<ManagedClient[]> {
+    const state = await this.getState();
+    return Object.keys(state.clients).map(mac => this.toManagedClient(state, mac));
+  }
+
+  /**
+   * Validate a friendly name (empty clears it)
+   * Returns a list of human-readable problems (empty when valid)
+   */
+  validateName(name: unknown): string[] {
+    if (typeof name !== 'string') {
+      return ['Name must be a string'];
+    }
+    if (name.trim().length > MAX_NAME_LENGTH) {
+      return [`Name must be at most ${MAX_NAME_LENGTH} characters`];
+    }
+    return [];
+  }
+
+  /**
+   * Validate a bandwidth cap
+   * Returns a list of human-readable problems (empty when valid)
+   */
+  validateCap(cap: ClientBandwidthCap): string[] {
+    const errors: string[] = [];
+
+    if (cap.downloadKbps === undefined && cap.uploadKbps === undefined) {
+      errors.push('Set a download or upload limit');
+    }
+    for (const [label, value] of [
+      ['Download', cap.downloadKbps],
+      ['Upload', cap.uploadKbps],
+    ] as const) {
+      if (
+        value !== undefined &&
+        (!Number.isInteger(value) || value < MIN_CAP_KBPS || value > MAX_CAP_KBPS)
+      ) {
+        errors.push(
+          `${label} limit must be a whole number between ${MIN_CAP_KBPS} and ${MAX_CAP_KBPS} kbit/s`
+        );
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Set or clear the friendly name of a client
+   */
+  async setName(macAddress: string, name: string): Promise<ClientActionResult> {
+    const mac = macAddress.toLowerCase();
+    const trimmed = name.trim();
+
+    await this.updateClient(mac, client => {
+      if (trimmed) {
+        client.name = trimmed;
+      } else {
+        delete client.name;
+      }
+    });
+
+    this.logger.info('Client name updated', { macAddress: mac, name: trimmed || undefined });
+    return {
+      success: true,
+      message: trimmed ? `Renamed ${mac} to ${trimmed}` : `Cleared name of ${mac}`,
+      client: this.toManagedClient(await this.getState(), mac),
+    };
+  }
+
+  /**
+   * Disconnect a client from the hotspot (it may reconnect unless blocked)
+   */
+  async kick(macAddress: string): Promise<ClientActionResult> {
+    const mac = macAddress.toLowerCase();
+    const interfaceName = await this.getHotspotInterfaceName();
+    if (!interfaceName) {
+      return { success: false, message: 'Hotspot interface not found' };
+    }
+
+    try {
+      const { stdout } = await execAsync(
+        `sudo hostapd_cli -i "${interfaceName}" deauthenticate ${mac}`
+      );
+      if (!/OK/.test(stdout)) {
+        return { success: false, message: `hostapd refused to disconnect ${mac}` };
+      }
+    } catch (error) {
+      this.logger.error('Failed to disconnect client', {
+        macAddress: mac,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        success: false,
+        message: `Failed to disconnect ${mac}: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+
+    this.logger.info('Client disconnected', { macAddress: mac });
+    return { success: true, message: `Disconnected ${mac}` };
+  }
+
+  /**
+   * Block or unblock a client
+   * Blocked clients are added to hostapd's deny list and disconnected straight away.
+   */
+  async setBlocked(macAddress: string, blocked: boolean): Promise<ClientActionResult> {
+    const mac = macAddress.toLowerCase();
+    const state = await this.getState();
+    const previous = state.clients[mac] ? { ...state.clients[mac] } : undefined;
+
+    await this.updateClient(mac, client => {
+      if (blocked) {
+        client.blocked = true;
+        client.blockedAt = new Date().toISOString();
+      } else {
+        client.blocked = false;
+        delete client.blockedAt;
+      }
+    });
+
+    const applied = await this.applyBlockList();
+    if (!applied.success) {
+      // Keep the stored list in line with what hostapd enforces
+      if (previous) {
+        state.clients[mac] = previous;
+      } else {
+        delete state.clients[mac];
+      }
+      await this.saveState();
+      await this.writeDenyFile();
+      return applied;
+    }
+
+    const interfaceName = await this.getHotspotInterfaceName();
+    if (interfaceName) {
+      // Update the running hostapd without a restart; the deny file covers the next start
+      await execAsync(
+        `sudo hostapd_cli -i "${interfaceName}" deny_acl ${blocked ? 'ADD_MAC' : 'DEL_MAC'} ${mac}`
+      ).catch(error => {
+        this.logger.warn('Could not update running hostapd deny list', {
+          macAddress: mac,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+      if (blocked) {
+        await this.kick(mac);
+      }
+    }
+
+    this.logger.info(blocked ? 'Client blocked' : 'Client unblocked', { macAddress: mac });
+    return {
+      success: true,
+      message: blocked ? `Blocked ${mac}` : `Unblocked ${mac}`,
+      client: this.toManagedClient(await this.getState(), mac),
+    };
+  }
+
+  /**
+   * Set or clear the bandwidth cap of a client
+   * @param cap - New cap, or undefined to remove it
+   */
+  async setCap(
+    macAddress: string,
+    cap: ClientBandwidthCap | undefined
+  ): Promise<ClientActionResult> {
+    const mac = macAddress.toLowerCase();
+
+    await this.updateClient(mac, client => {
+      if (cap) {
+        client.cap = {
+          ...(cap.downloadKbps !== undefined && { downloadKbps: cap.downloadKbps }),
+          ...(cap.uploadKbps !== undefined && { uploadKbps: cap.uploadKbps }),
+        };
+      } else {
+        delete client.cap;
+      }
+    });
+
+    const applied = await this.applyBandwidthCaps(true);
+    if (!applied) {
+      return {
+        success: false,
+        message: 'Saved, but the bandwidth limits could not be applied to the hotspot interface',
+        client: this.toManagedClient(await this.getState(), mac),
+      };
+    }
+
+    this.logger.info(cap ? 'Client bandwidth cap set' : 'Client bandwidth cap removed', {
+      macAddress: mac,
+      ...cap,
+    });
+    return {
+      success: true,
+      message: cap ? `Limited bandwidth of ${mac}` : `Removed bandwidth limit of ${mac}`,
+      client: this.toManagedClient(await this.getState(), mac),
+    };
+  }
+
+  /**
+   * Re-apply caps if any are configured (tc rules do not survive reboots, and client
+   * addresses can change with new DHCP leases)
+   */
+  private async reapplyBandwidthCaps(): Promise<void> {
+    const state = await this.getState();
+    if (Object.values(state.clients).some(client => client.cap)) {
+      await this.applyBandwidthCaps();
+    }
+  }
+
+  /**
+   * Write the deny file and make sure hostapd.conf uses it
+   * hostapd is only restarted the first time, when the ACL settings are added.
+   * An existing accept list (macaddr_acl other than 0) ignores the deny file, so it is refused.
+   */
+  private async applyBlockList(): Promise<ClientActionResult> {
+    const hostapdContent = await readFile(HOSTAPD_CONF, 'utf8').catch(() => '');
+    const [macAcl] = getConfigEntries(hostapdContent, 'macaddr_acl');
+    if (macAcl !== undefined && macAcl !== '0') {
+      this.logger.warn('Not blocking clients, hostapd uses an accept list', { macAcl });
+      return {
+        success: false,
+        message: `hostapd is configured with macaddr_acl=${macAcl}, which ignores the deny list`,
+      };
+    }
+
+    try {
+      await this.writeDenyFile();
+    } catch (error) {
+      this.logger.error('Failed to write hostapd deny list', {
+        path: DENY_FILE,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        success: false,
+        message: `Failed to write hostapd deny list: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+
+    const result = await this.wifiConfigService.applyHostapdSettings({
+      ...(macAcl === undefined && { macaddr_acl: '0' }),
+      deny_mac_file: DENY_FILE,
+    });
+    return { success: result.success, message: result.message };
+  }
+
+  /**
+   * Write blocked MAC addresses to the hostapd deny file
+   */
+  private async writeDenyFile(): Promise<void> {
+    const state = await this.getState();
+    const blocked = Object.entries(state.clients)
+      .filter(([, client]) => client.blocked)
+      .map(([mac]) => mac);
+
+    const current = await readFile(DENY_FILE, 'utf8').catch(() => undefined);
+    const next = `# Managed by the DangerPrep portal\n${blocked.map(mac => `${mac}\n`).join('')}`;
+    if (current !== next) {
+      await writeFileAtomic(DENY_FILE, next, 0o644);
+    }
+  }
+
+  /**
+   * Rebuild the tc rules for capped clients on the hotspot interface
+   * Download is shaped with an HTB class per client (matched on the client's IP), upload is
+   * policed on ingress. Rules are only rebuilt when caps or client addresses change.
+   * @param force - Rebuild even when nothing appears to have changed
+   * @returns Whether the rules are in place
+   */
+  private async applyBandwidthCaps(force = false): Promise<boolean> {
+    const [state, leases, interfaceName] = await Promise.all([
+      this.getState(),
+      this.networkService.getDhcpLeases(),
+      this.getHotspotInterfaceName(),
+    ]);
+    if (!interfaceName) {
+      return false;
+    }
+
+    const capped = Object.entries(state.clients).flatMap(([mac, client]) => {
+      const ip = leases.get(mac)?.ip;
+      return client.cap && ip ? [{ mac, ip, cap: client.cap }] : [];
+    });
+
+    const signature = JSON.stringify({ interfaceName, capped });
+    if (!force && signature === this.appliedCaps) {
+      return true;
+    }
+
+    const dev = `dev "${interfaceName}"`;
+    const commands = [
+      `sudo tc qdisc del ${dev} root 2>/dev/null || true`,
+      `sudo tc qdisc del ${dev} ingress 2>/dev/null || true`,
+    ];
+
+    if (capped.length > 0) {
+      commands.push(
+        `sudo tc qdisc add ${dev} root handle 1: htb default 1`,
+        `sudo tc class add ${dev} parent 1: classid 1:1 htb rate ${UNLIMITED_RATE}`
+      );
+      if (capped.some(({ cap }) => cap.uploadKbps !== undefined)) {
+        commands.push(`sudo tc qdisc add ${dev} handle ffff: ingress`);
+      }
+
+      capped.forEach(({ ip, cap }, index) => {
+        const classId = `1:${CAP_CLASS_BASE + index}`;
+        if (cap.downloadKbps !== undefined) {
+          commands.push(
+            `sudo tc class add ${dev} parent 1: classid ${classId} htb rate ${cap.downloadKbps}kbit ceil ${cap.downloadKbps}kbit`,
+            `sudo tc filter add ${dev} parent 1: protocol ip prio 1 u32 match ip dst ${ip}/32 flowid ${classId}`
+          );
+        }
+        if (cap.uploadKbps !== undefined) {
+          commands.push(
+            `sudo tc filter add ${dev} parent ffff: protocol ip prio 1 u32 match ip src ${ip}/32 police rate ${cap.uploadKbps}kbit burst 32k drop flowid :1`
+          );
+        }
+      });
+    }
+
+    try {
+      for (const command of commands) {
+        await execAsync(command);
+      }
+      this.appliedCaps = signature;
+      this.logger.info('Applied client bandwidth caps', {
+        interface: interfaceName,
+        clients: capped.length,
+      });
+      return true;
+    } catch (error) {
+      this.appliedCaps = undefined;
+      this.logger.error('Failed to apply client bandwidth caps', {
+        interface: interfaceName,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Change a client's stored settings, dropping the entry once nothing is managed anymore
+   */
+  private async updateClient(
+    mac: string,
+    change: (client: Omit<ManagedClient, 'macAddress'>) => void
+  ): Promise<void> {
+    const state = await this.getState();
+    const client = state.clients[mac] ?? { blocked: false };
+    change(client);
+
+    if (!client.name && !client.blocked && !client.cap) {
+      delete state.clients[mac];
+    } else {
+      state.clients[mac] = client;
+    }
+    await this.saveState();
+  }
+
+  /**
+   * Build the API representation of a client's settings
+   */
+  private toManagedClient(state: ClientManagementState, mac: string): ManagedClient {
+    return { macAddress: mac, blocked: false, ...state.clients[mac] };
+  }
+
+  /**
+   * Resolve the hotspot interface name
+   */
+  private async getHotspotInterfaceName(): Promise<string | undefined> {
+    const hotspot = await this.networkService.getInterfaceByKeyword('hotspot');
+    return hotspot?.name;
+  }
+
+  /**
+   * Load persisted client settings
+   */
+  private async getState(): Promise<ClientManagementState> {
+    if (!this.state) {
+      this.state = await readJsonState<ClientManagementState>(CLIENTS_STATE_FILE, { clients: {} });
+    }
+    return this.state;
+  }
+
+  /**
+   * Persist client settings
+   */
+  private async saveState(): Promise<void> {
+    try {
+      await writeJsonState(CLIENTS_STATE_FILE, this.state);
+    } catch (error) {
+      this.logger.error('Failed to save client settings', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
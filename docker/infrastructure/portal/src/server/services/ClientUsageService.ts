@@ -0,0 +1,415 @@
+import { exec } from 'child_process';
+import { promisify } from 'util';
+
+import { LoggerFactory, LogLevel } from '@dangerprep/logging';
+
+import { readClientNames } from '../utils/clientNames';
+import { readJsonState, writeJsonState } from '../utils/stateStore';
+
+import { NetworkService } from './NetworkService';
+
+const execAsync = promisify(exec);
+
+/**
+ * Time range usage can be requested for
+ */
+export type UsageRange = '1h' | '24h' | '7d';
+
+export const USAGE_RANGES: UsageRange[] = ['1h', '24h', '7d'];
+
+/**
+ * Bytes transferred by a client during one bucket
+ * rx/tx are from the client's point of view (rx = downloaded, tx = uploaded)
+ */
+export interface UsagePoint {
+  timestamp: string; // Start of the bucket
+  rxBytes: number;
+  txBytes: number;
+}
+
+/**
+ * Usage totals for a client over a range
+ */
+export interface ClientUsageSummary {
+  macAddress: string;
+  hostname?: string;
+  ipAddress?: string;
+  lastSeen: string;
+  connected: boolean;
+  rxBytes: number;
+  txBytes: number;
+}
+
+/**
+ * Usage of one client over a range, with the time series for charts
+ */
+export interface ClientUsage extends ClientUsageSummary {
+  range: UsageRange;
+  bucketSeconds: number;
+  points: UsagePoint[];
+}
+
+/**
+ * Stored bucket: start time (epoch ms) and bytes received/sent by the client
+ */
+type Bucket = [start: number, rx: number, tx: number];
+
+/**
+ * Stored history of one client
+ * Three resolutions are kept so each range has a sensible number of points
+ */
+interface ClientRecord {
+  hostname?: string;
+  ipAddress?: string;
+  lastSeen: number;
+  minutes: Bucket[];
+  quarterHours: Bucket[];
+  hours: Bucket[];
+}
+
+interface UsageState {
+  clients: Record<string, ClientRecord>;
+}
+
+/**
+ * Bucket size and how many buckets are kept for each resolution
+ */
+const RESOLUTIONS = {
+  minutes: { bucketMs: 60 * 1000, keep: 60 },
+  quarterHours: { bucketMs: 15 * 60 * 1000, keep: 96 },
+  hours: { bucketMs: 60 * 60 * 1000, keep: 168 },
+} as const;
+
+type Resolution = keyof typeof RESOLUTIONS;
+
+const RANGE_RESOLUTION: Record<UsageRange, Resolution> = {
+  '1h': 'minutes',
+  '24h': 'quarterHours',
+  '7d': 'hours',
+};
+
+const STATE_FILE = 'client-usage.json';
+const SAMPLE_INTERVAL_MS = 60 * 1000;
+const SAVE_INTERVAL_MS = 5 * 60 * 1000; // Limit writes to the SD card
+const INTERFACE_LOOKUP_MS = 10 * 60 * 1000;
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Service that records how much data each hotspot client transfers
+ * Samples per-station byte counters from `iw station dump` every minute and keeps a rolling
+ * 7 day history in PORTAL_DATA_DIR, so heavy users can be spotted on metered uplinks.
+ */
+export class ClientUsageService {
+  private readonly networkService = new NetworkService();
+  private state: UsageState | undefined;
+  private lastCounters = new Map<string, { rx: number; tx: number }>();
+  private hotspotInterface: string | undefined;
+  private lastInterfaceLookup = 0;
+  private sampleTimer: NodeJS.Timeout | undefined;
+  private lastSave = Date.now();
+  private dirty = false;
+  private sampling = false;
+  private primed = false;
+  private logger = LoggerFactory.createConsoleLogger(
+    'ClientUsageService',
+    process.env.NODE_ENV === 'development' ? LogLevel.DEBUG : LogLevel.INFO
+  );
+
+  /**
+   * Start sampling client counters
+   */
+  async startCollecting(): Promise<void> {
+    if (this.sampleTimer) {
+      return;
+    }
+
+    this.logger.info('Starting client usage collection', {
+      interval: `${SAMPLE_INTERVAL_MS / 1000}s`,
+    });
+
+    this.sampleTimer = setInterval(() => {
+      void this.sample();
+    }, SAMPLE_INTERVAL_MS);
+    this.sampleTimer.unref();
+
+    await this.sample();
+  }
+
+  /**
+   * Stop sampling and save what has been collected
+   */
+  async stopCollecting(): Promise<void> {
+    if (this.sampleTimer) {
+      clearInterval(this.sampleTimer);
+      this.sampleTimer = undefined;
+      this.logger.info('Stopped client usage collection');
+    }
+    await this.saveState();
+  }
+
+  /**
+   * Get usage totals for every known client over a range, heaviest first
+   */
+  async getUsageSummary(range: UsageRange): Promise<ClientUsageSummary[]> {
+    const [state, names] = await Promise.all([this.getState(), readClientNames()]);
+    const since = Date.now() - this.getRangeMs(range);
+
+    return Object.entries(state.clients)
+      .map(([macAddress, record]) => {
+        const buckets = record[RANGE_RESOLUTION[range]].filter(([start]) => start >= since);
+        return {
+          ...this.describeClient(macAddress, record, names),
+          rxBytes: buckets.reduce((total, [, rx]) => total + rx, 0),
+          txBytes: buckets.reduce((total, [, , tx]) => total + tx, 0),
+        };
+      })
+      .filter(summary => summary.rxBytes + summary.txBytes > 0 || summary.connected)
+      .sort((a, b) => b.rxBytes + b.txBytes - (a.rxBytes + a.txBytes));
+  }
+
+  /**
+   * Get usage of one client over a range
+   * Every bucket in the range is returned (zero-filled) so charts line up across clients.
+   * @returns undefined when the client has never been seen
+   */
+  async getClientUsage(macAddress: string, range: UsageRange): Promise<ClientUsage | undefined> {
+    const [state, names] = await Promise.all([this.getState(), readClientNames()]);
+    const mac = macAddress.toLowerCase();
+    const record = state.clients[mac];
+    if (!record) {
+      return undefined;
+    }
+
+    const resolution = RANGE_RESOLUTION[range];
+    const { bucketMs, keep } = RESOLUTIONS[resolution];
+    const byStart = new Map(record[resolution].map(bucket => [bucket[0], bucket]));
+    const currentStart = Math.floor(Date.now() / bucketMs) * bucketMs;
+
+    const points: UsagePoint[] = [];
+    for (let i = keep - 1; i >= 0; i--) {
+      const start = currentStart - i * bucketMs;
+      const bucket = byStart.get(start);
+      points.push({
+        timestamp: new Date(start).toISOString(),
+        rxBytes: bucket?.[1] ?? 0,
+        txBytes: bucket?.[2] ?? 0,
+      });
+    }
+
+    return {
+      ...this.describeClient(mac, record, names),
+      range,
+      bucketSeconds: bucketMs / 1000,
+      rxBytes: points.reduce((total, point) => total + point.rxBytes, 0),
+      txBytes: points.reduce((total, point) => total + point.txBytes, 0),
+      points,
+    };
+  }
+
+  /**
+   * Validate a range query parameter
+   */
+  isValidRange(range: string): range is UsageRange {
+    return (USAGE_RANGES as string[]).includes(range);
+  }
+
+  /**
+   * Read station counters and add the bytes transferred since the last sample
+   */
+  private async sample(): Promise<void> {
+    if (this.sampling) {
+      return;
+    }
+    this.sampling = true;
+
+    try {
+      const interfaceName = await this.getHotspotInterfaceName();
+      if (!interfaceName) {
+        this.logger.debug('No hotspot interface, skipping usage sample');
+        return;
+      }
+
+      const { stdout } = await execAsync(`iw dev "${interfaceName}" station dump 2>/dev/null`);
+      const counters = this.parseStationCounters(stdout);
+      const [state, leases] = await Promise.all([
+        this.getState(),
+        this.networkService.getDhcpLeases(),
+      ]);
+      const now = Date.now();
+
+      for (const [mac, current] of counters) {
+        const previous = this.lastCounters.get(mac);
+        // Counters restart from zero when a client reassociates
+        const rx = previous && current.rx >= previous.rx ? current.rx - previous.rx : current.rx;
+        const tx = previous && current.tx >= previous.tx ? current.tx - previous.tx : current.tx;
+
+        // On the first sample after startup the counters include traffic that may already have
+        // been recorded before a restart; only count it for clients we have never seen
+        const record = state.clients[mac];
+        const countInitial = this.primed || record === undefined;
+
+        const updated: ClientRecord = record ?? {
+          lastSeen: now,
+          minutes: [],
+          quarterHours: [],
+          hours: [],
+        };
+        updated.lastSeen = now;
+
+        const lease = leases.get(mac);
+        if (lease) {
+          updated.ipAddress = lease.ip;
+          if (lease.hostname) {
+            updated.hostname = lease.hostname;
+          }
+        }
+
+        if (countInitial && rx + tx > 0) {
+          for (const resolution of Object.keys(RESOLUTIONS) as Resolution[]) {
+            this.addToBucket(updated, resolution, now, rx, tx);
+          }
+        }
+
+        state.clients[mac] = updated;
+      }
+
+      this.lastCounters = counters;
+      this.primed = true;
+      this.pruneClients(state, now);
+      this.dirty = true;
+
+      if (now - this.lastSave >= SAVE_INTERVAL_MS) {
+        await this.saveState();
+      }
+    } catch (error) {
+      this.logger.warn('Failed to sample client usage', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      this.sampling = false;
+    }
+  }
+
+  /**
+   * Parse per-station byte counters from `iw station dump` output
+   */
+  private parseStationCounters(output: string): Map<string, { rx: number; tx: number }> {
+    const counters = new Map<string, { rx: number; tx: number }>();
+
+    for (const station of output.split('Station ').filter(section => section.trim())) {
+      const mac = station.match(/^([a-f0-9:]{17})/i)?.[1]?.toLowerCase();
+      // rx/tx bytes in the dump are from the access point's side: what it received from the
+      // client is what the client uploaded
+      const apRx = station.match(/rx bytes:\s*(\d+)/)?.[1];
+      const apTx = station.match(/tx bytes:\s*(\d+)/)?.[1];
+      if (!mac || apRx === undefined || apTx === undefined) {
+        continue;
+      }
+
+      counters.set(mac, { rx: parseInt(apTx, 10), tx: parseInt(apRx, 10) });
+    }
+
+    return counters;
+  }
+
+  /**
+   * Add bytes to the current bucket of a resolution and drop buckets that fell out of it
+   */
+  private addToBucket(
+    record: ClientRecord,
+    resolution: Resolution,
+    now: number,
+    rx: number,
+    tx: number
+  ): void {
+    const { bucketMs, keep } = RESOLUTIONS[resolution];
+    const start = Math.floor(now / bucketMs) * bucketMs;
+    const buckets = record[resolution];
+    const last = buckets[buckets.length - 1];
+
+    if (last && last[0] === start) {
+      last[1] += rx;
+      last[2] += tx;
+    } else {
+      buckets.push([start, rx, tx]);
+    }
+
+    const oldest = start - (keep - 1) * bucketMs;
+    record[resolution] = buckets.filter(([bucketStart]) => bucketStart >= oldest);
+  }
+
+  /**
+   * Forget clients that have not been seen for longer than the retention period
+   */
+  private pruneClients(state: UsageState, now: number): void {
+    for (const [mac, record] of Object.entries(state.clients)) {
+      if (now - record.lastSeen > RETENTION_MS) {
+        delete state.clients[mac];
+      }
+    }
+  }
+
+  /**
+   * Client details shared by summaries and usage responses
+   * Friendly names apply to clients that have since disconnected too
+   */
+  private describeClient(macAddress: string, record: ClientRecord, names: Map<string, string>) {
+    const hostname = names.get(macAddress) ?? record.hostname;
+    return {
+      macAddress,
+      ...(hostname && { hostname }),
+      ...(record.ipAddress && { ipAddress: record.ipAddress }),
+      lastSeen: new Date(record.lastSeen).toISOString(),
+      connected: this.lastCounters.has(macAddress),
+    };
+  }
+
+  /**
+   * Length of a range in milliseconds
+   */
+  private getRangeMs(range: UsageRange): number {
+    const { bucketMs, keep } = RESOLUTIONS[RANGE_RESOLUTION[range]];
+    return bucketMs * keep;
+  }
+
+  /**
+   * Resolve the hotspot interface name, re-checked every few minutes
+   */
+  private async getHotspotInterfaceName(): Promise<string | undefined> {
+    if (Date.now() - this.lastInterfaceLookup > INTERFACE_LOOKUP_MS) {
+      const hotspot = await this.networkService.getInterfaceByKeyword('hotspot');
+      this.hotspotInterface = hotspot?.name;
+      this.lastInterfaceLookup = Date.now();
+    }
+    return this.hotspotInterface;
+  }
+
+  /**
+   * Load persisted usage history
+   */
+  private async getState(): Promise<UsageState> {
+    if (!this.state) {
+      this.state = await readJsonState<UsageState>(STATE_FILE, { clients: {} });
+    }
+    return this.state;
+  }
+
+  /**
+   * Persist usage history
+   */
+  private async saveState(): Promise<void> {
+    if (!this.dirty) {
+      return;
+    }
+
+    try {
+      await writeJsonState(STATE_FILE, this.state);
+      this.dirty = false;
+      this.lastSave = Date.now();
+    } catch (error) {
+      this.logger.error('Failed to save client usage', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
@@ -1,9 +1,17 @@
 import { LoggerFactory, LogLevel } from '@dangerprep/logging';
 
+import {
+  DeviceSettingsService,
+  type DeviceSettings,
+  type DeviceSettingsUpdate,
+  type DeviceSettingsUpdateResult,
+} from './DeviceSettingsService';
+
 /**
  * Application configuration data - only app-level settings
  * Service-specific configuration is handled by ServiceDiscoveryService
  * WiFi configuration is handled by WifiConfigService
+ * Device settings (hostname, timezone, domain, kiosk) come from DeviceSettingsService
  */
 export interface AppConfig {
   app: {
@@ -14,6 +22,7 @@ export interface AppConfig {
     baseDomain: string;
     kioskMode: boolean;
   };
+  device: DeviceSettings;
   metadata: {
     lastUpdated: string;
     nodeEnv: string;
@@ -22,9 +31,10 @@ export interface AppConfig {
 
 /**
  * Service for managing application configuration
- * Reads from environment variables
+ * Reads app metadata from environment variables and device settings from the settings store
  */
 export class ConfigService {
+  private deviceSettings = new DeviceSettingsService();
   private logger = LoggerFactory.createConsoleLogger(
     'ConfigService',
     process.env.NODE_ENV === 'development' ? LogLevel.DEBUG : LogLevel.INFO
@@ -48,6 +58,7 @@ export class ConfigService {
   getAppConfig(): AppConfig {
     this.logger.debug('Building application configuration');
 
+    const device = this.deviceSettings.getSettings();
     const config = {
       app: {
         title: this.getEnvVar('VITE_APP_TITLE', 'DangerPrep Portal'),
@@ -57,9 +68,10 @@ export class ConfigService {
         ),
       },
       global: {
-        baseDomain: this.getEnvVar('BASE_DOMAIN', 'danger.diy'),
-        kioskMode: this.getEnvVar('KIOSK_MODE', 'false').toLowerCase() === 'true',
+        baseDomain: device.baseDomain,
+        kioskMode: device.kiosk.enabled,
       },
+      device,
       metadata: {
         lastUpdated: new Date().toISOString(),
         nodeEnv: process.env.NODE_ENV || 'production',
@@ -71,13 +83,19 @@ export class ConfigService {
   }
 
   /**
-   * Update application configuration (placeholder for future CRUD operations)
+   * Validate an application configuration update
+   * Returns a list of human-readable problems (empty when valid)
+   */
+  validateAppConfigUpdate(update: DeviceSettingsUpdate): string[] {
+    return this.deviceSettings.validateUpdate(update);
+  }
+
+  /**
+   * Update application configuration
+   * Only device settings are writable; app title and description stay environment-driven
    */
-  async updateAppConfig(_config: Partial<AppConfig>): Promise<AppConfig> {
-    this.logger.warn('updateAppConfig called (not implemented)');
-    this.logger.debug('Attempted config update', _config);
-    // TODO: Implement configuration update
-    // This would involve updating environment variables or a config file
-    throw new Error('Application configuration update not yet implemented');
+  async updateAppConfig(update: DeviceSettingsUpdate): Promise<DeviceSettingsUpdateResult> {
+    this.logger.debug('Updating application configuration', { ...update });
+    return this.deviceSettings.updateSettings(update);
   }
 }
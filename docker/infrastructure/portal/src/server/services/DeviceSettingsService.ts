@@ -0,0 +1,300 @@
+import { exec } from 'child_process';
+import { mkdir } from 'fs/promises';
+import { hostname as getSystemHostname } from 'os';
+import { dirname } from 'path';
+import { promisify } from 'util';
+
+import { LoggerFactory, LogLevel } from '@dangerprep/logging';
+
+import { writeFileAtomic } from '../utils/configFiles';
+import { readJsonStateSync, writeJsonState } from '../utils/stateStore';
+
+const execAsync = promisify(exec);
+
+/**
+ * Kiosk display options
+ */
+export interface KioskSettings {
+  enabled: boolean;
+  idleTimeoutMinutes: number; // Return to the home page after this long without interaction
+  homePage: 'qr' | 'services';
+}
+
+/**
+ * Persisted device settings
+ */
+export interface DeviceSettings {
+  hostname: string;
+  timezone: string;
+  ntpServers: string[]; // Empty uses the system default servers
+  baseDomain: string;
+  kiosk: KioskSettings;
+}
+
+/**
+ * Requested device settings change - omitted fields keep their current value
+ */
+export interface DeviceSettingsUpdate {
+  hostname?: string;
+  timezone?: string;
+  ntpServers?: string[];
+  baseDomain?: string;
+  kiosk?: Partial<KioskSettings>;
+}
+
+/**
+ * Outcome of applying a device settings change
+ */
+export interface DeviceSettingsUpdateResult {
+  success: boolean;
+  message: string;
+  settings?: DeviceSettings;
+}
+
+const SETTINGS_FILE = 'device-settings.json';
+const HOSTNAME_PATTERN = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/i;
+const DOMAIN_PATTERN =
+  /^([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)*[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/;
+
+/**
+ * Get the time zones the runtime knows about
+ */
+export function getAvailableTimezones(): string[] {
+  return ['UTC', ...Intl.supportedValuesOf('timeZone').filter(zone => zone !== 'UTC')];
+}
+
+/**
+ * Service for the persisted device settings store
+ * Environment variables provide the defaults until a setting is saved from the portal.
+ * Hostname, timezone and NTP changes are applied to the host through systemd tools.
+ */
+export class DeviceSettingsService {
+  private readonly timesyncdConfigPath = '/etc/systemd/timesyncd.conf.d/dangerprep.conf';
+  private logger = LoggerFactory.createConsoleLogger(
+    'DeviceSettingsService',
+    process.env.NODE_ENV === 'development' ? LogLevel.DEBUG : LogLevel.INFO
+  );
+
+  /**
+   * Get current device settings (stored values over environment defaults)
+   * Synchronous so it can back other synchronous lookups like the default domain
+   */
+  getSettings(): DeviceSettings {
+    const defaults = this.getDefaults();
+    const stored = readJsonStateSync<Partial<DeviceSettings>>(SETTINGS_FILE, {});
+
+    return {
+      hostname: stored.hostname ?? defaults.hostname,
+      timezone: stored.timezone ?? defaults.timezone,
+      ntpServers: stored.ntpServers ?? defaults.ntpServers,
+      baseDomain: stored.baseDomain ?? defaults.baseDomain,
+      kiosk: { ...defaults.kiosk, ...stored.kiosk },
+    };
+  }
+
+  /**
+   * Validate a device settings change
+   * Returns a list of human-readable problems (empty when valid)
+   */
+  validateUpdate(update: DeviceSettingsUpdate): string[] {
+    const errors: string[] = [];
+
+    if (update.hostname !== undefined) {
+      if (typeof update.hostname !== 'string' || !HOSTNAME_PATTERN.test(update.hostname)) {
+        errors.push(
+          'Hostname must be 1-63 letters, digits or hyphens, and cannot start or end with a hyphen'
+        );
+      }
+    }
+
+    if (update.timezone !== undefined) {
+      if (
+        typeof update.timezone !== 'string' ||
+        !getAvailableTimezones().includes(update.timezone)
+      ) {
+        errors.push(`Unknown time zone: ${update.timezone}`);
+      }
+    }
+
+    if (update.ntpServers !== undefined) {
+      if (!Array.isArray(update.ntpServers) || update.ntpServers.length > 8) {
+        errors.push('NTP servers must be a list of at most 8 entries');
+      } else {
+        for (const server of update.ntpServers) {
+          if (typeof server !== 'string' || !/^[a-zA-Z0-9.:-]{1,253}$/.test(server)) {
+            errors.push(`Invalid NTP server: ${server}`);
+          }
+        }
+      }
+    }
+
+    if (update.baseDomain !== undefined) {
+      if (
+        typeof update.baseDomain !== 'string' ||
+        update.baseDomain.length > 253 ||
+        !DOMAIN_PATTERN.test(update.baseDomain)
+      ) {
+        errors.push('Base domain must be a lowercase domain name such as "danger" or "danger.diy"');
+      }
+    }
+
+    if (update.kiosk !== undefined && (typeof update.kiosk !== 'object' || update.kiosk === null)) {
+      errors.push('Kiosk settings must be an object');
+    } else if (update.kiosk !== undefined) {
+      const { enabled, idleTimeoutMinutes, homePage } = update.kiosk;
+      if (enabled !== undefined && typeof enabled !== 'boolean') {
+        errors.push('Kiosk enabled must be true or false');
+      }
+      if (
+        idleTimeoutMinutes !== undefined &&
+        (!Number.isInteger(idleTimeoutMinutes) ||
+          idleTimeoutMinutes < 1 ||
+          idleTimeoutMinutes > 120)
+      ) {
+        errors.push('Kiosk idle timeout must be between 1 and 120 minutes');
+      }
+      if (homePage !== undefined && homePage !== 'qr' && homePage !== 'services') {
+        errors.push('Kiosk home page must be "qr" or "services"');
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Apply and persist a device settings change
+   * Host settings that fail to apply are left unchanged in the store.
+   * @param update - Requested device settings change
+   */
+  async updateSettings(update: DeviceSettingsUpdate): Promise<DeviceSettingsUpdateResult> {
+    const errors = this.validateUpdate(update);
+    if (errors.length > 0) {
+      this.logger.warn('Rejected invalid device settings', { errors });
+      return { success: false, message: errors.join('; ') };
+    }
+
+    const current = this.getSettings();
+    const next: DeviceSettings = {
+      ...current,
+      kiosk: { ...current.kiosk, ...update.kiosk },
+    };
+    const failures: string[] = [];
+
+    if (update.hostname !== undefined && update.hostname !== current.hostname) {
+      if (await this.runHostCommand(`sudo hostnamectl set-hostname ${update.hostname}`)) {
+        next.hostname = update.hostname;
+      } else {
+        failures.push('hostname');
+      }
+    }
+
+    if (update.timezone !== undefined && update.timezone !== current.timezone) {
+      if (await this.runHostCommand(`sudo timedatectl set-timezone ${update.timezone}`)) {
+        next.timezone = update.timezone;
+      } else {
+        failures.push('timezone');
+      }
+    }
+
+    if (
+      update.ntpServers !== undefined &&
+      update.ntpServers.join(' ') !== current.ntpServers.join(' ')
+    ) {
+      if (await this.applyNtpServers(update.ntpServers)) {
+        next.ntpServers = update.ntpServers;
+      } else {
+        failures.push('NTP servers');
+      }
+    }
+
+    if (update.baseDomain !== undefined) {
+      next.baseDomain = update.baseDomain;
+    }
+
+    try {
+      await writeJsonState(SETTINGS_FILE, next);
+    } catch (error) {
+      this.logger.error('Failed to save device settings', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        success: false,
+        message: `Failed to save device settings: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+
+    this.logger.info('Device settings saved', {
+      hostname: next.hostname,
+      timezone: next.timezone,
+      ntpServers: next.ntpServers,
+      baseDomain: next.baseDomain,
+      kiosk: next.kiosk,
+      failures,
+    });
+
+    if (failures.length > 0) {
+      return {
+        success: false,
+        message: `Could not apply ${failures.join(', ')} to the system; other settings were saved`,
+        settings: next,
+      };
+    }
+
+    return { success: true, message: 'Device settings saved', settings: next };
+  }
+
+  /**
+   * Write the timesyncd drop-in and restart timesyncd
+   */
+  private async applyNtpServers(servers: string[]): Promise<boolean> {
+    try {
+      await mkdir(dirname(this.timesyncdConfigPath), { recursive: true });
+      await writeFileAtomic(
+        this.timesyncdConfigPath,
+        `# Managed by the DangerPrep portal\n[Time]\nNTP=${servers.join(' ')}\n`,
+        0o644
+      );
+    } catch (error) {
+      this.logger.error('Failed to write timesyncd configuration', {
+        path: this.timesyncdConfigPath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+    return this.runHostCommand('sudo systemctl restart systemd-timesyncd');
+  }
+
+  /**
+   * Run a host command, logging failures
+   */
+  private async runHostCommand(command: string): Promise<boolean> {
+    try {
+      await execAsync(command);
+      this.logger.debug('Host command succeeded', { command });
+      return true;
+    } catch (error) {
+      this.logger.error('Host command failed', {
+        command,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Defaults from the environment and the running system
+   */
+  private getDefaults(): DeviceSettings {
+    return {
+      hostname: getSystemHostname(),
+      timezone: process.env.TZ || Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+      ntpServers: [],
+      baseDomain: process.env.VITE_BASE_DOMAIN || process.env.BASE_DOMAIN || 'danger',
+      kiosk: {
+        enabled: (process.env.KIOSK_MODE || 'false').toLowerCase() === 'true',
+        idleTimeoutMinutes: 5,
+        homePage: 'qr',
+      },
+    };
+  }
+}
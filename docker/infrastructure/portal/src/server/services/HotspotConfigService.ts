@@ -0,0 +1,571 @@
+import { exec } from 'child_process';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { promisify } from 'util';
+
+import { LoggerFactory, LogLevel } from '@dangerprep/logging';
+
+import {
+  getConfigEntries,
+  setConfigEntries,
+  setConfigValues,
+  writeFileAtomic,
+} from '../utils/configFiles';
+import { getDataPath } from '../utils/stateStore';
+
+import { NetworkService } from './NetworkService';
+import { WifiConfigService } from './WifiConfigService';
+
+const execAsync = promisify(exec);
+
+/**
+ * Static DHCP reservation (dnsmasq dhcp-host)
+ */
+export interface DhcpReservation {
+  macAddress: string;
+  ipAddress: string;
+  hostname?: string;
+}
+
+/**
+ * Hotspot configuration (DHCP from dnsmasq, station limits from hostapd)
+ */
+export interface HotspotConfig {
+  interface?: string;
+  gateway?: string;
+  dhcpRange?: {
+    start: string;
+    end: string;
+    netmask: string;
+  };
+  leaseTime?: string; // dnsmasq lease time, e.g. "24h", "30m", "infinite"
+  reservations: DhcpReservation[];
+  maxClients?: number;
+  apIsolation: boolean;
+}
+
+/**
+ * Requested hotspot configuration change - omitted fields keep their current value
+ */
+export interface HotspotConfigUpdate {
+  dhcpRange?: {
+    start: string;
+    end: string;
+  };
+  leaseTime?: string;
+  reservations?: DhcpReservation[];
+  maxClients?: number;
+  apIsolation?: boolean;
+}
+
+/**
+ * Active DHCP lease for display alongside reservations
+ */
+export interface HotspotLease {
+  macAddress: string;
+  ipAddress: string;
+  hostname?: string;
+  expiresAt?: string;
+  reserved: boolean;
+}
+
+/**
+ * Outcome of applying a hotspot configuration change
+ */
+export interface HotspotConfigUpdateResult {
+  success: boolean;
+  message: string;
+  rolledBack?: boolean;
+  config?: HotspotConfig;
+}
+
+/**
+ * Convert a dotted IPv4 address to an unsigned integer
+ */
+function ipToInt(ip: string): number | undefined {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return undefined;
+
+  let value = 0;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) return undefined;
+    const octet = parseInt(part, 10);
+    if (octet > 255) return undefined;
+    value = value * 256 + octet;
+  }
+  return value;
+}
+
+/**
+ * Service for managing hotspot DHCP and access point settings
+ * DHCP settings live in the dnsmasq snippet written by dp-hotspot,
+ * station limits and client isolation live in hostapd.conf
+ */
+export class HotspotConfigService {
+  private readonly dnsmasqPath = '/etc/dnsmasq.d/dangerprep-hotspot.conf';
+  // Kept out of /etc/dnsmasq.d, where dnsmasq would load it alongside the live snippet
+  private readonly dnsmasqBackupPath = getDataPath('dangerprep-hotspot.conf.previous');
+  private readonly hostapdPath = '/etc/hostapd/hostapd.conf';
+  private readonly defaultNetmask = '255.255.255.0';
+  private readonly wifiConfigService = new WifiConfigService();
+  private readonly networkService = new NetworkService();
+  private logger = LoggerFactory.createConsoleLogger(
+    'HotspotConfigService',
+    process.env.NODE_ENV === 'development' ? LogLevel.DEBUG : LogLevel.INFO
+  );
+
+  /**
+   * Get current hotspot configuration
+   */
+  async getHotspotConfig(): Promise<HotspotConfig> {
+    const [dnsmasqContent, hostapdContent] = await Promise.all([
+      this.readOptionalFile(this.dnsmasqPath),
+      this.readOptionalFile(this.hostapdPath),
+    ]);
+
+    const config: HotspotConfig = {
+      reservations: [],
+      apIsolation: false,
+    };
+
+    if (dnsmasqContent) {
+      const [iface] = getConfigEntries(dnsmasqContent, 'interface');
+      if (iface) config.interface = iface;
+
+      const [gateway] = getConfigEntries(dnsmasqContent, 'listen-address');
+      if (gateway) config.gateway = gateway;
+
+      const [range] = getConfigEntries(dnsmasqContent, 'dhcp-range');
+      if (range) {
+        const parsed = this.parseDhcpRange(range);
+        if (parsed.start && parsed.end) {
+          config.dhcpRange = {
+            start: parsed.start,
+            end: parsed.end,
+            netmask: parsed.netmask ?? this.defaultNetmask,
+          };
+        }
+        if (parsed.leaseTime) config.leaseTime = parsed.leaseTime;
+      }
+
+      config.reservations = getConfigEntries(dnsmasqContent, 'dhcp-host')
+        .map(entry => this.parseDhcpHost(entry))
+        .filter((reservation): reservation is DhcpReservation => reservation !== undefined);
+    }
+
+    if (hostapdContent) {
+      const [maxClients] = getConfigEntries(hostapdContent, 'max_num_sta');
+      if (maxClients) config.maxClients = parseInt(maxClients, 10);
+
+      const [apIsolate] = getConfigEntries(hostapdContent, 'ap_isolate');
+      config.apIsolation = apIsolate === '1';
+    }
+
+    this.logger.debug('Hotspot configuration read', {
+      dhcpRange: config.dhcpRange,
+      leaseTime: config.leaseTime,
+      reservations: config.reservations.length,
+      maxClients: config.maxClients,
+      apIsolation: config.apIsolation,
+    });
+
+    return config;
+  }
+
+  /**
+   * Get active DHCP leases, flagged when they have a static reservation
+   */
+  async getLeases(): Promise<HotspotLease[]> {
+    const [leases, config] = await Promise.all([
+      this.networkService.getDhcpLeases(),
+      this.getHotspotConfig(),
+    ]);
+    const reserved = new Set(config.reservations.map(r => r.macAddress));
+
+    return Array.from(leases, ([macAddress, lease]) => ({
+      macAddress,
+      ipAddress: lease.ip,
+      ...(lease.hostname && { hostname: lease.hostname }),
+      ...(lease.expiresAt && { expiresAt: lease.expiresAt }),
+      reserved: reserved.has(macAddress),
+    }));
+  }
+
+  /**
+   * Validate a requested hotspot configuration change against the current configuration
+   * Returns a list of human-readable problems (empty when valid)
+   */
+  validateHotspotConfigUpdate(update: HotspotConfigUpdate, current: HotspotConfig): string[] {
+    const errors: string[] = [];
+    const netmask = ipToInt(current.dhcpRange?.netmask ?? this.defaultNetmask) ?? 0;
+    const gateway = current.gateway ? ipToInt(current.gateway) : undefined;
+    const inSubnet = (ip: number) =>
+      gateway === undefined || (ip & netmask) === (gateway & netmask);
+
+    if (update.dhcpRange !== undefined) {
+      const start = ipToInt(update.dhcpRange.start ?? '');
+      const end = ipToInt(update.dhcpRange.end ?? '');
+      if (start === undefined || end === undefined) {
+        errors.push('DHCP range start and end must be valid IPv4 addresses');
+      } else {
+        if (start > end) {
+          errors.push('DHCP range start must not be after the end');
+        }
+        if (!inSubnet(start) || !inSubnet(end)) {
+          errors.push(`DHCP range must be within the hotspot subnet of ${current.gateway}`);
+        }
+        if (gateway !== undefined && gateway >= start && gateway <= end) {
+          errors.push(`DHCP range must not include the gateway address ${current.gateway}`);
+        }
+      }
+    }
+
+    if (update.leaseTime !== undefined) {
+      const match = /^(\d+)([smhdw]?)$/.exec(update.leaseTime);
+      const multipliers: Record<string, number> = {
+        '': 1,
+        s: 1,
+        m: 60,
+        h: 3600,
+        d: 86400,
+        w: 604800,
+      };
+      if (update.leaseTime !== 'infinite' && !match) {
+        errors.push('Lease time must be a number with an optional s/m/h/d/w suffix, or "infinite"');
+      } else if (
+        match &&
+        parseInt(match[1] ?? '0', 10) * (multipliers[match[2] ?? ''] ?? 1) < 120
+      ) {
+        errors.push('Lease time must be at least 2 minutes');
+      }
+    }
+
+    if (update.maxClients !== undefined) {
+      if (
+        !Number.isInteger(update.maxClients) ||
+        update.maxClients < 1 ||
+        update.maxClients > 2007
+      ) {
+        errors.push('Max clients must be an integer between 1 and 2007');
+      }
+    }
+
+    if (update.apIsolation !== undefined && typeof update.apIsolation !== 'boolean') {
+      errors.push('Client isolation must be true or false');
+    }
+
+    if (update.reservations !== undefined) {
+      if (!Array.isArray(update.reservations)) {
+        errors.push('Reservations must be a list');
+      } else {
+        const macs = new Set<string>();
+        const ips = new Set<string>();
+        for (const reservation of update.reservations) {
+          // Entries come straight from the request body
+          if (
+            !reservation ||
+            typeof reservation !== 'object' ||
+            typeof reservation.macAddress !== 'string' ||
+            typeof reservation.ipAddress !== 'string' ||
+            (reservation.hostname !== undefined && typeof reservation.hostname !== 'string')
+          ) {
+            errors.push('Each reservation needs a MAC address and an IP address');
+            continue;
+          }
+          const mac = reservation.macAddress?.toLowerCase();
+          const ip = ipToInt(reservation.ipAddress ?? '');
+          if (!mac || !/^([0-9a-f]{2}:){5}[0-9a-f]{2}$/.test(mac)) {
+            errors.push(`Invalid MAC address: ${reservation.macAddress}`);
+            continue;
+          }
+          if (ip === undefined) {
+            errors.push(`Invalid IP address for ${mac}: ${reservation.ipAddress}`);
+            continue;
+          }
+          if (!inSubnet(ip)) {
+            errors.push(`Reserved IP ${reservation.ipAddress} is outside the hotspot subnet`);
+          }
+          if (ip === gateway) {
+            errors.push(`Reserved IP ${reservation.ipAddress} is the gateway address`);
+          }
+          if (
+            reservation.hostname &&
+            !/^[a-zA-Z0-9]([a-zA-Z0-9-]{0,62})$/.test(reservation.hostname)
+          ) {
+            errors.push(`Invalid hostname for ${mac}: ${reservation.hostname}`);
+          }
+          if (macs.has(mac)) {
+            errors.push(`Duplicate reservation for ${mac}`);
+          }
+          if (ips.has(reservation.ipAddress)) {
+            errors.push(`IP ${reservation.ipAddress} is reserved more than once`);
+          }
+          macs.add(mac);
+          ips.add(reservation.ipAddress);
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Update hotspot configuration
+   * DHCP changes rewrite the dnsmasq snippet and restart dnsmasq, access point changes
+   * go through hostapd. Each file is rolled back if its service fails to come up.
+   * @param update - Requested hotspot configuration change
+   */
+  async updateHotspotConfig(update: HotspotConfigUpdate): Promise<HotspotConfigUpdateResult> {
+    this.logger.info('Hotspot configuration update requested', {
+      dhcpRange: update.dhcpRange,
+      leaseTime: update.leaseTime,
+      reservations: update.reservations?.length,
+      maxClients: update.maxClients,
+      apIsolation: update.apIsolation,
+    });
+
+    const current = await this.getHotspotConfig();
+    const errors = this.validateHotspotConfigUpdate(update, current);
+    if (errors.length > 0) {
+      this.logger.warn('Rejected invalid hotspot configuration', { errors });
+      return { success: false, message: errors.join('; ') };
+    }
+
+    // dnsmasq snippet from before this update, set once the new one is in use
+    let previousDnsmasq: string | undefined;
+    if (
+      update.dhcpRange !== undefined ||
+      update.leaseTime !== undefined ||
+      update.reservations !== undefined
+    ) {
+      const { previousContent, ...dhcpResult } = await this.applyDhcpSettings(update, current);
+      if (!dhcpResult.success) {
+        return dhcpResult;
+      }
+      previousDnsmasq = previousContent;
+    }
+
+    const hostapdSettings: Record<string, string> = {};
+    if (update.maxClients !== undefined) {
+      hostapdSettings.max_num_sta = String(update.maxClients);
+    }
+    if (update.apIsolation !== undefined) {
+      hostapdSettings.ap_isolate = update.apIsolation ? '1' : '0';
+    }
+
+    if (Object.keys(hostapdSettings).length > 0) {
+      const hostapdResult = await this.wifiConfigService.applyHostapdSettings(hostapdSettings);
+      if (!hostapdResult.success) {
+        if (previousDnsmasq === undefined) {
+          return {
+            success: false,
+            message: hostapdResult.message,
+            ...(hostapdResult.rolledBack !== undefined && { rolledBack: hostapdResult.rolledBack }),
+          };
+        }
+
+        // Revert the DHCP change too so the hotspot is not left on half of the update
+        this.logger.warn('Access point update failed, rolling back DHCP configuration');
+        const dhcpRestored = await this.restoreDnsmasq(previousDnsmasq);
+        return {
+          success: false,
+          rolledBack: (hostapdResult.rolledBack ?? true) && dhcpRestored,
+          message: dhcpRestored
+            ? `${hostapdResult.message}; DHCP changes reverted`
+            : `${hostapdResult.message}; DHCP changes could not be reverted, previous configuration saved at ${this.dnsmasqBackupPath}`,
+        };
+      }
+    }
+
+    this.logger.info('Hotspot configuration applied');
+    return {
+      success: true,
+      message: 'Hotspot configuration applied',
+      config: await this.getHotspotConfig(),
+    };
+  }
+
+  /**
+   * Rewrite the dnsmasq snippet and restart dnsmasq, rolling back on failure
+   * @returns previousContent - The replaced snippet when the new one was applied
+   */
+  private async applyDhcpSettings(
+    update: HotspotConfigUpdate,
+    current: HotspotConfig
+  ): Promise<HotspotConfigUpdateResult & { previousContent?: string }> {
+    const previousContent = await this.readOptionalFile(this.dnsmasqPath);
+    if (previousContent === undefined) {
+      return {
+        success: false,
+        message: `Cannot read dnsmasq configuration at ${this.dnsmasqPath}`,
+      };
+    }
+
+    let nextContent = previousContent;
+
+    if (update.dhcpRange !== undefined || update.leaseTime !== undefined) {
+      const start = update.dhcpRange?.start ?? current.dhcpRange?.start;
+      const end = update.dhcpRange?.end ?? current.dhcpRange?.end;
+      if (!start || !end) {
+        return { success: false, message: 'No DHCP range is configured; provide start and end' };
+      }
+      const netmask = current.dhcpRange?.netmask ?? this.defaultNetmask;
+      const leaseTime = update.leaseTime ?? current.leaseTime ?? '24h';
+      nextContent = setConfigValues(nextContent, {
+        'dhcp-range': `${start},${end},${netmask},${leaseTime}`,
+      });
+    }
+
+    if (update.reservations !== undefined) {
+      nextContent = setConfigEntries(
+        nextContent,
+        'dhcp-host',
+        update.reservations.map(reservation => this.formatDhcpHost(reservation)),
+        'dhcp-range'
+      );
+    }
+
+    if (nextContent === previousContent) {
+      this.logger.debug('dnsmasq configuration unchanged, skipping restart');
+      return { success: true, message: 'DHCP configuration is already up to date' };
+    }
+
+    try {
+      await mkdir(dirname(this.dnsmasqBackupPath), { recursive: true });
+      await writeFile(this.dnsmasqBackupPath, previousContent, { mode: 0o644 });
+      await writeFileAtomic(this.dnsmasqPath, nextContent, 0o644);
+    } catch (error) {
+      this.logger.error('Failed to write dnsmasq configuration', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        success: false,
+        message: `Failed to write dnsmasq configuration: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+
+    if (await this.restartDnsmasq()) {
+      this.logger.info('DHCP configuration applied');
+      return { success: true, message: 'DHCP configuration applied', previousContent };
+    }
+
+    this.logger.error('dnsmasq failed to start with new configuration, rolling back');
+    if (!(await this.restoreDnsmasq(previousContent))) {
+      return {
+        success: false,
+        rolledBack: false,
+        message: `dnsmasq failed to start and rollback failed; previous configuration saved at ${this.dnsmasqBackupPath}`,
+      };
+    }
+
+    return {
+      success: false,
+      rolledBack: true,
+      message: 'dnsmasq failed to start with the new configuration; previous settings restored',
+    };
+  }
+
+  /**
+   * Put a previous dnsmasq snippet back and restart dnsmasq
+   * @returns false if the snippet could not be written back
+   */
+  private async restoreDnsmasq(previousContent: string): Promise<boolean> {
+    try {
+      await writeFileAtomic(this.dnsmasqPath, previousContent, 0o644);
+    } catch (error) {
+      this.logger.error('Failed to roll back dnsmasq configuration', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+
+    if (!(await this.restartDnsmasq())) {
+      this.logger.error('dnsmasq did not come back up after rollback');
+    }
+    return true;
+  }
+
+  /**
+   * Restart dnsmasq and check that it is running
+   */
+  private async restartDnsmasq(): Promise<boolean> {
+    try {
+      await execAsync('sudo systemctl restart dnsmasq');
+      const { stdout } = await execAsync('systemctl is-active dnsmasq');
+      return stdout.trim() === 'active';
+    } catch (error) {
+      this.logger.warn('dnsmasq restart failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Parse a dnsmasq dhcp-range value: start,end[,netmask][,lease]
+   */
+  private parseDhcpRange(value: string): {
+    start?: string;
+    end?: string;
+    netmask?: string;
+    leaseTime?: string;
+  } {
+    const [start, end, ...rest] = value.split(',').map(part => part.trim());
+    const netmask = rest.find(part => ipToInt(part) !== undefined);
+    const leaseTime = rest.find(part => ipToInt(part) === undefined);
+
+    return {
+      ...(start && { start }),
+      ...(end && { end }),
+      ...(netmask && { netmask }),
+      ...(leaseTime && { leaseTime }),
+    };
+  }
+
+  /**
+   * Parse a dnsmasq dhcp-host value: mac,ip[,hostname]
+   */
+  private parseDhcpHost(value: string): DhcpReservation | undefined {
+    const parts = value.split(',').map(part => part.trim());
+    const macAddress = parts.find(part => /^([0-9a-fA-F]{2}:){5}[0-9a-fA-F]{2}$/.test(part));
+    const ipAddress = parts.find(part => ipToInt(part) !== undefined);
+    const hostname = parts.find(part => part !== macAddress && part !== ipAddress);
+
+    if (!macAddress || !ipAddress) {
+      this.logger.debug('Skipping unsupported dhcp-host entry', { value });
+      return undefined;
+    }
+
+    return {
+      macAddress: macAddress.toLowerCase(),
+      ipAddress,
+      ...(hostname && { hostname }),
+    };
+  }
+
+  /**
+   * Format a reservation as a dnsmasq dhcp-host value
+   */
+  private formatDhcpHost(reservation: DhcpReservation): string {
+    const parts = [reservation.macAddress.toLowerCase(), reservation.ipAddress];
+    if (reservation.hostname) {
+      parts.push(reservation.hostname);
+    }
+    return parts.join(',');
+  }
+
+  /**
+   * Read a file, returning undefined if it does not exist
+   */
+  private async readOptionalFile(path: string): Promise<string | undefined> {
+    try {
+      return await readFile(path, 'utf8');
+    } catch (error) {
+      this.logger.debug('Could not read configuration file', {
+        path,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+}
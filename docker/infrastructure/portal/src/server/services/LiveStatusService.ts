@@ -0,0 +1,338 @@
+import { spawn, type ChildProcess } from 'child_process';
+
+import { LoggerFactory, LogLevel } from '@dangerprep/logging';
+
+import type { TailscalePeer } from '../../types/network';
+
+import {
+  NetworkService,
+  type ConnectedClient,
+  type NetworkInterface,
+  type NetworkSummary,
+} from './NetworkService';
+import { PowerService } from './PowerService';
+import { TailscaleService } from './TailscaleService';
+
+/**
+ * Kiosk browser status
+ */
+export interface KioskStatus {
+  isRunning: boolean;
+  processCount: number;
+}
+
+/**
+ * Events pushed to portal clients
+ * Snapshot events (network, tailscale-peers, kiosk) carry the same data as the matching
+ * REST endpoint so clients can drop it straight into their cache; the others describe
+ * individual changes (services only says that the service list should be re-fetched).
+ */
+export type LiveEvent =
+  | { type: 'network'; data: NetworkSummary }
+  | {
+      type: 'interface-state';
+      data: { name: string; state: NetworkInterface['state']; previousState?: string };
+    }
+  | { type: 'client-connected'; data: { interface: string; client: ConnectedClient } }
+  | { type: 'client-disconnected'; data: { interface: string; macAddress: string } }
+  | { type: 'tailscale-peers'; data: TailscalePeer[] }
+  | { type: 'peer-online' | 'peer-offline'; data: { id: string; hostname: string } }
+  | { type: 'kiosk'; data: KioskStatus }
+  | { type: 'services'; data: { timestamp: string } };
+
+export type LiveEventListener = (event: LiveEvent) => void;
+
+const NETWORK_INTERVAL_MS = 30000; // Counters and anything the watchers miss
+const TAILSCALE_INTERVAL_MS = 10000;
+const KIOSK_INTERVAL_MS = 15000;
+const WATCHER_DEBOUNCE_MS = 500;
+const WATCHER_RESTART_MS = 30000;
+
+/**
+ * Service that watches network, Tailscale and kiosk state and pushes changes to subscribers
+ *
+ * Only runs while at least one client is subscribed, and shares one set of checks between
+ * all of them, so several open kiosks cost the same as one. Interface and WiFi station
+ * changes are picked up immediately from `ip monitor link` and `iw event`; a slow poll
+ * catches traffic counters and anything the watchers miss.
+ */
+export class LiveStatusService {
+  private listeners = new Set<LiveEventListener>();
+  private timers: NodeJS.Timeout[] = [];
+  private watchers: ChildProcess[] = [];
+  private debounceTimer: NodeJS.Timeout | undefined;
+  private refreshing = false;
+  private refreshQueued = false;
+  private running = false;
+
+  private lastNetwork: NetworkSummary | undefined;
+  private lastNetworkJson = '';
+  private lastPeers: TailscalePeer[] | undefined;
+  private lastPeersJson = '';
+  private lastKiosk: KioskStatus | undefined;
+
+  private networkService = new NetworkService();
+  private tailscaleService = new TailscaleService();
+  private powerService = new PowerService();
+  private logger = LoggerFactory.createConsoleLogger(
+    'LiveStatusService',
+    process.env.NODE_ENV === 'development' ? LogLevel.DEBUG : LogLevel.INFO
+  );
+
+  /**
+   * Subscribe to live events
+   * The latest snapshots are replayed to the new listener straight away.
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: LiveEventListener): () => void {
+    this.listeners.add(listener);
+
+    if (this.lastNetwork) listener({ type: 'network', data: this.lastNetwork });
+    if (this.lastPeers) listener({ type: 'tailscale-peers', data: this.lastPeers });
+    if (this.lastKiosk) listener({ type: 'kiosk', data: this.lastKiosk });
+
+    if (!this.running) {
+      this.start();
+    }
+
+    return () => {
+      if (this.listeners.delete(listener) && this.listeners.size === 0) {
+        this.stop();
+      }
+    };
+  }
+
+  /**
+   * Re-read network state now, bypassing the interface cache
+   * Does nothing while nobody is subscribed.
+   */
+  async refreshNetwork(): Promise<void> {
+    if (!this.running) return;
+    if (this.refreshing) {
+      this.refreshQueued = true;
+      return;
+    }
+
+    this.refreshing = true;
+    try {
+      this.networkService.clearCache();
+      await this.checkNetwork();
+    } finally {
+      this.refreshing = false;
+      if (this.refreshQueued) {
+        this.refreshQueued = false;
+        void this.refreshNetwork();
+      }
+    }
+  }
+
+  /**
+   * Tell subscribers that discovered services changed
+   */
+  notifyServicesChanged(): void {
+    this.emit({ type: 'services', data: { timestamp: new Date().toISOString() } });
+  }
+
+  /**
+   * Start watchers and polls
+   */
+  private start(): void {
+    this.running = true;
+    this.logger.info('Starting live status updates');
+
+    this.startWatcher('ip', ['-o', 'monitor', 'link']);
+    this.startWatcher('iw', ['event']);
+
+    const every = (intervalMs: number, check: () => Promise<void>) => {
+      const timer = setInterval(() => void check(), intervalMs);
+      timer.unref();
+      this.timers.push(timer);
+      void check();
+    };
+    every(NETWORK_INTERVAL_MS, () => this.checkNetwork());
+    every(TAILSCALE_INTERVAL_MS, () => this.checkTailscale());
+    every(KIOSK_INTERVAL_MS, () => this.checkKiosk());
+  }
+
+  /**
+   * Stop watchers and polls once the last subscriber leaves
+   * Snapshots are dropped so a later subscriber never sees stale state.
+   */
+  private stop(): void {
+    this.running = false;
+    this.logger.info('Stopping live status updates');
+
+    this.timers.forEach(timer => clearInterval(timer));
+    this.timers = [];
+    this.watchers.forEach(watcher => watcher.kill());
+    this.watchers = [];
+    clearTimeout(this.debounceTimer);
+
+    this.lastNetwork = undefined;
+    this.lastNetworkJson = '';
+    this.lastPeers = undefined;
+    this.lastPeersJson = '';
+    this.lastKiosk = undefined;
+  }
+
+  /**
+   * Run a long-lived monitor command and refresh network state whenever it prints
+   * Restarted after a delay if it exits while we are still running.
+   */
+  private startWatcher(command: string, args: string[]): void {
+    const watcher = spawn(command, args, { stdio: ['ignore', 'pipe', 'ignore'] });
+    this.watchers.push(watcher);
+
+    watcher.stdout?.on('data', () => {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = setTimeout(() => void this.refreshNetwork(), WATCHER_DEBOUNCE_MS);
+    });
+
+    watcher.on('error', error => {
+      this.logger.warn('Network watcher unavailable, relying on polling', {
+        command,
+        error: error.message,
+      });
+    });
+
+    watcher.on('exit', code => {
+      this.watchers = this.watchers.filter(w => w !== watcher);
+      if (!this.running) return;
+
+      this.logger.debug('Network watcher exited', { command, code });
+      const timer = setTimeout(() => {
+        this.timers = this.timers.filter(t => t !== timer);
+        if (this.running) this.startWatcher(command, args);
+      }, WATCHER_RESTART_MS);
+      timer.unref();
+      this.timers.push(timer);
+    });
+  }
+
+  /**
+   * Read the network summary and emit it plus any interface and client changes
+   */
+  private async checkNetwork(): Promise<void> {
+    try {
+      const summary = await this.networkService.getNetworkSummary();
+      const json = JSON.stringify(summary);
+      if (json === this.lastNetworkJson) return;
+
+      const previous = this.lastNetwork;
+      this.lastNetwork = summary;
+      this.lastNetworkJson = json;
+
+      if (previous) {
+        this.emitInterfaceChanges(previous.interfaces, summary.interfaces);
+      }
+      this.emit({ type: 'network', data: summary });
+    } catch (error) {
+      this.logger.warn('Failed to read network state', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Compare interface lists and emit state and client association changes
+   */
+  private emitInterfaceChanges(before: NetworkInterface[], after: NetworkInterface[]): void {
+    const previousByName = new Map(before.map(iface => [iface.name, iface]));
+
+    for (const iface of after) {
+      const previous = previousByName.get(iface.name);
+      if (!previous || previous.state !== iface.state) {
+        this.emit({
+          type: 'interface-state',
+          data: {
+            name: iface.name,
+            state: iface.state,
+            ...(previous && { previousState: previous.state }),
+          },
+        });
+      }
+
+      const clientsBefore =
+        previous && 'connectedClients' in previous ? previous.connectedClients : [];
+      const clientsAfter = 'connectedClients' in iface ? iface.connectedClients : [];
+      const macsBefore = new Set((clientsBefore ?? []).map(client => client.macAddress));
+      const macsAfter = new Set((clientsAfter ?? []).map(client => client.macAddress));
+
+      for (const client of clientsAfter ?? []) {
+        if (!macsBefore.has(client.macAddress)) {
+          this.emit({ type: 'client-connected', data: { interface: iface.name, client } });
+        }
+      }
+      for (const macAddress of macsBefore) {
+        if (!macsAfter.has(macAddress)) {
+          this.emit({ type: 'client-disconnected', data: { interface: iface.name, macAddress } });
+        }
+      }
+    }
+  }
+
+  /**
+   * Read Tailscale peers and emit them plus online/offline changes
+   */
+  private async checkTailscale(): Promise<void> {
+    try {
+      const peers = await this.tailscaleService.getPeers();
+      const json = JSON.stringify(peers);
+      if (json === this.lastPeersJson) return;
+
+      const previous = new Map((this.lastPeers ?? []).map(peer => [peer.id, peer.online]));
+      const hadPeers = this.lastPeers !== undefined;
+      this.lastPeers = peers;
+      this.lastPeersJson = json;
+
+      if (hadPeers) {
+        for (const peer of peers) {
+          const wasOnline = previous.get(peer.id);
+          if (wasOnline !== undefined && wasOnline !== peer.online) {
+            this.emit({
+              type: peer.online ? 'peer-online' : 'peer-offline',
+              data: { id: peer.id, hostname: peer.hostname },
+            });
+          }
+        }
+      }
+      this.emit({ type: 'tailscale-peers', data: peers });
+    } catch (error) {
+      this.logger.warn('Failed to read Tailscale peers', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Read kiosk browser status and emit it when it changes
+   */
+  private async checkKiosk(): Promise<void> {
+    const status = await this.powerService.getKioskStatus();
+    if (
+      this.lastKiosk?.isRunning === status.isRunning &&
+      this.lastKiosk.processCount === status.processCount
+    ) {
+      return;
+    }
+
+    this.lastKiosk = status;
+    this.emit({ type: 'kiosk', data: status });
+  }
+
+  /**
+   * Deliver an event to every listener
+   */
+  private emit(event: LiveEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        this.logger.warn('Live event listener failed', {
+          type: event.type,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+}
@@ -5,8 +5,10 @@ import { promisify } from 'util';
 import { LoggerFactory, LogLevel } from '@dangerprep/logging';
 
 import type { TailscaleInterface } from '../../types/network';
+import { readClientNames } from '../utils/clientNames';
 
 import { ISPService } from './ISPService';
+import { readActiveUplink } from './WanService';
 import { WifiConfigService } from './WifiConfigService';
 
 const execAsync = promisify(exec);
@@ -163,6 +165,15 @@ export interface ConnectedClient {
   rxRate?: string | undefined;
 }
 
+/**
+ * DHCP lease from the dnsmasq leases file
+ */
+export interface DhcpLease {
+  ip: string;
+  hostname?: string;
+  expiresAt?: string; // ISO timestamp, omitted for infinite leases
+}
+
 /**
  * Bridge interface information (Docker bridges, etc.)
  */
@@ -232,8 +243,8 @@ export class NetworkService {
   /**
    * Get DHCP leases to map MAC addresses to IP addresses and hostnames
    */
-  private async getDhcpLeases(): Promise<Map<string, { ip: string; hostname?: string }>> {
-    const leaseMap = new Map<string, { ip: string; hostname?: string }>();
+  async getDhcpLeases(): Promise<Map<string, DhcpLease>> {
+    const leaseMap = new Map<string, DhcpLease>();
 
     try {
       // Try to read dnsmasq leases file
@@ -241,18 +252,27 @@ export class NetworkService {
         'cat /var/lib/misc/dnsmasq.leases 2>/dev/null || cat /var/lib/dnsmasq/dnsmasq.leases 2>/dev/null || echo ""'
       );
 
+      // Friendly names set in the portal replace DHCP hostnames
+      const names = await readClientNames();
+
       if (stdout.trim()) {
         const lines = stdout.trim().split('\n');
         for (const line of lines) {
           // Format: timestamp mac ip hostname client-id
           const parts = line.split(/\s+/);
           if (parts.length >= 3) {
+            const expiry = parseInt(parts[0] || '', 10);
             const mac = parts[1]?.toLowerCase();
             const ip = parts[2];
-            const hostname = parts[3] !== '*' ? parts[3] : undefined;
+            const hostname = (mac && names.get(mac)) || (parts[3] !== '*' ? parts[3] : undefined);
 
             if (mac && ip) {
-              leaseMap.set(mac, hostname ? { ip, hostname } : { ip });
+              leaseMap.set(mac, {
+                ip,
+                ...(hostname && { hostname }),
+                // An expiry of 0 means an infinite lease
+                ...(expiry > 0 && { expiresAt: new Date(expiry * 1000).toISOString() }),
+              });
             }
           }
         }
@@ -2003,11 +2023,19 @@ export class NetworkService {
   }
 
   /**
-   * Find the interface with internet connectivity (WAN purpose)
+   * Find the interface with internet connectivity
+   * Uses the WAN manager's active uplink when set, otherwise probes WAN-purpose interfaces
    */
   private async findInternetInterface(
     interfaces: NetworkInterface[]
   ): Promise<NetworkInterface | undefined> {
+    // Prefer the uplink selected by WAN failover management
+    const activeUplink = await readActiveUplink();
+    const managed = interfaces.find(iface => iface.name === activeUplink && iface.state === 'up');
+    if (managed) {
+      return managed;
+    }
+
     // First, look for interfaces with WAN purpose
     const wanInterfaces = interfaces.filter(
       iface => iface.purpose === 'wan' && iface.state === 'up'
@@ -1,6 +1,20 @@
 import { LoggerFactory, LogLevel } from '@dangerprep/logging';
 import Docker from 'dockerode';
 
+import { DeviceSettingsService } from './DeviceSettingsService';
+
+/**
+ * Container state shown for a service
+ * starting/unhealthy come from the container's health check
+ */
+export type ServiceState =
+  | 'running'
+  | 'starting'
+  | 'unhealthy'
+  | 'restarting'
+  | 'paused'
+  | 'stopped';
+
 /**
  * Service metadata for portal display
  */
@@ -11,17 +25,29 @@ export interface ServiceMetadata {
   url?: string;
   type: 'public' | 'private' | 'maintenance';
   status: 'healthy' | 'warning' | 'error';
+  state?: ServiceState;
+  health?: 'healthy' | 'unhealthy' | 'starting'; // Only for containers with a health check
+  restartCount?: number;
+  startedAt?: string; // ISO timestamp, for uptime
   version?: string;
+  syncService?: boolean; // Advertises a sync management API (sync.api.port label)
+  managementApi?: string; // Base URL of that API, only while the container is running
 }
 
 /**
  * Docker container information
  */
 interface DockerContainer {
+  id: string;
   name: string;
   labels: Record<string, string>;
+  state: string; // running, exited, restarting, paused, created, dead
   status: string;
   ports: string[];
+  health?: string;
+  restartCount?: number;
+  startedAt?: string;
+  address?: string; // IP address on the first network that has one
 }
 
 /**
@@ -34,12 +60,22 @@ interface ServiceDiscoveryOptions {
 
 /**
  * Service discovery service for finding available DangerPrep services
+ * Rescans as soon as Docker reports a container change; falls back to rescanning a stale
+ * cache while the Docker events stream is unavailable.
  */
 export class ServiceDiscoveryService {
   private services: ServiceMetadata[] = [];
   private lastScan = 0;
-  private readonly scanInterval = 30000; // 30 seconds
+  private readonly scanInterval = 30000; // 30 seconds, while Docker events are unavailable
+  private readonly eventScanInterval = 300000; // 5 minutes, safety net while watching events
+  private readonly eventDebounce = 500;
+  private readonly eventReconnectDelay = 10000;
+  private scannedDomain: string | undefined; // Default domain the cached URLs were built with
+  private watchingEvents = false;
+  private eventTimer: NodeJS.Timeout | undefined;
+  private changeListeners = new Set<() => void>();
   private docker: Docker;
+  private deviceSettings = new DeviceSettingsService();
   private logger = LoggerFactory.createConsoleLogger(
     'ServiceDiscoveryService',
     process.env.NODE_ENV === 'development' ? LogLevel.DEBUG : LogLevel.INFO
@@ -52,7 +88,19 @@ export class ServiceDiscoveryService {
     this.logger.debug('Docker client initialized', {
       socketPath: '/var/run/docker.sock',
     });
-    this.scanServices();
+    void this.scanServices();
+    void this.watchEvents();
+  }
+
+  /**
+   * Register a listener called whenever the discovered services change
+   * @returns Function that removes the listener
+   */
+  onChange(listener: () => void): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
   }
 
   /**
@@ -62,12 +110,17 @@ export class ServiceDiscoveryService {
     this.logger.debug('getServices called', { options });
 
     // Refresh if cache is stale
+    // Also refresh when the default domain changed since the last scan
     const cacheAge = Date.now() - this.lastScan;
-    const isStale = cacheAge > this.scanInterval;
+    const domainChanged = this.scannedDomain !== this.getDefaultDomain();
+    const interval = this.watchingEvents ? this.eventScanInterval : this.scanInterval;
+    const isStale = cacheAge > interval || domainChanged;
     this.logger.debug('Cache check', {
       age: `${cacheAge}ms`,
       stale: isStale,
-      interval: `${this.scanInterval}ms`,
+      domainChanged,
+      interval: `${interval}ms`,
+      watchingEvents: this.watchingEvents,
     });
 
     if (isStale) {
@@ -124,14 +177,113 @@ export class ServiceDiscoveryService {
   }
 
   /**
-   * Get default base domain from environment
+   * Get default base domain from the device settings store (falls back to environment)
    */
   getDefaultDomain(): string {
-    const domain = process.env.VITE_BASE_DOMAIN || 'danger';
+    const domain = this.deviceSettings.getSettings().baseDomain;
     this.logger.debug('Default domain', { domain });
     return domain;
   }
 
+  /**
+   * Follow the Docker events stream and rescan when a service container changes
+   * Reconnects after a delay if the stream fails or ends.
+   */
+  private async watchEvents(): Promise<void> {
+    const reconnect = () => {
+      this.watchingEvents = false;
+      const timer = setTimeout(() => void this.watchEvents(), this.eventReconnectDelay);
+      timer.unref();
+    };
+
+    try {
+      const stream = await this.docker.getEvents({ filters: { type: ['container'] } });
+      this.watchingEvents = true;
+      this.logger.info('Watching Docker events for service changes');
+
+      let buffer = '';
+      stream.on('data', (chunk: Buffer) => {
+        buffer += chunk.toString('utf8');
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          if (line.trim()) {
+            this.handleEvent(line);
+          }
+        }
+      });
+      // end, close and error can all fire for one disconnect
+      let closed = false;
+      const onClosed = () => {
+        if (closed) return;
+        closed = true;
+        this.logger.warn('Docker events stream closed, falling back to polling');
+        reconnect();
+      };
+      stream.on('end', onClosed);
+      stream.on('close', onClosed);
+      stream.on('error', (error: Error) => {
+        this.logger.warn('Docker events stream failed', { error: error.message });
+        onClosed();
+      });
+    } catch (error) {
+      this.logger.warn('Docker events unavailable, falling back to polling', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      reconnect();
+    }
+  }
+
+  /**
+   * Schedule a rescan for events about containers that carry service labels
+   */
+  private handleEvent(line: string): void {
+    try {
+      const event = JSON.parse(line) as {
+        Action?: string;
+        Actor?: { Attributes?: Record<string, string> };
+      };
+      const attributes = event.Actor?.Attributes ?? {};
+      if (!attributes['service.name']) {
+        return;
+      }
+
+      this.logger.debug('Service container event', {
+        service: attributes['service.name'],
+        action: event.Action,
+      });
+
+      // Several events arrive together (e.g. die, stop, start on restart)
+      clearTimeout(this.eventTimer);
+      this.eventTimer = setTimeout(() => {
+        void this.rescanAndNotify();
+      }, this.eventDebounce);
+    } catch (error) {
+      this.logger.debug('Ignoring unparseable Docker event', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Rescan services and tell listeners if anything changed
+   */
+  private async rescanAndNotify(): Promise<void> {
+    const before = JSON.stringify(this.services);
+    await this.scanServices();
+    if (JSON.stringify(this.services) === before) {
+      return;
+    }
+
+    this.logger.info('Services changed', {
+      services: this.services.map(s => ({ name: s.name, state: s.state })),
+    });
+    for (const listener of this.changeListeners) {
+      listener();
+    }
+  }
+
   /**
    * Scan Docker containers for service metadata
    */
@@ -166,6 +318,7 @@ export class ServiceDiscoveryService {
 
       this.services = discoveredServices.sort((a, b) => a.name.localeCompare(b.name));
       this.lastScan = Date.now();
+      this.scannedDomain = this.getDefaultDomain();
       this.logger.debug('Scan complete', {
         count: discoveredServices.length,
         services: discoveredServices.map(s => s.name),
@@ -177,6 +330,7 @@ export class ServiceDiscoveryService {
       });
       // Keep existing services on error
       this.lastScan = Date.now();
+      this.scannedDomain = this.getDefaultDomain();
       this.logger.debug('Keeping existing services after scan failure', {
         count: this.services.length,
       });
@@ -190,31 +344,47 @@ export class ServiceDiscoveryService {
     this.logger.debug('Fetching Docker containers');
 
     try {
-      const containers = await this.docker.listContainers();
+      // Include stopped containers so stopped services are shown rather than disappearing
+      const containers = await this.docker.listContainers({ all: true });
       this.logger.debug('Docker API returned containers', { count: containers.length });
 
-      const mappedContainers = containers.map(container => {
-        const name = container.Names?.[0]?.replace(/^\//, '') || '';
-        const status = container.Status || '';
-        const ports =
-          container.Ports?.map(port =>
-            port.PublicPort ? `${port.PublicPort}:${port.PrivatePort}` : `${port.PrivatePort}`
-          ) || [];
-        const labels = container.Labels || {};
-
-        this.logger.debug('Mapped container', {
-          name,
-          status,
-          ports: ports.join(', '),
-        });
+      const mappedContainers = await Promise.all(
+        containers.map(async container => {
+          const name = container.Names?.[0]?.replace(/^\//, '') || '';
+          const status = container.Status || '';
+          const ports =
+            container.Ports?.map(port =>
+              port.PublicPort ? `${port.PublicPort}:${port.PrivatePort}` : `${port.PrivatePort}`
+            ) || [];
+          const labels = container.Labels || {};
+          const address = Object.values(container.NetworkSettings?.Networks ?? {}).find(
+            network => network.IPAddress
+          )?.IPAddress;
+
+          this.logger.debug('Mapped container', {
+            name,
+            status,
+            ports: ports.join(', '),
+          });
 
-        return {
-          name,
-          status,
-          ports,
-          labels,
-        };
-      });
+          const mapped: DockerContainer = {
+            id: container.Id,
+            name,
+            state: container.State || '',
+            status,
+            ports,
+            labels,
+            ...(address && { address }),
+          };
+
+          // Health, restart count and start time are only in the full container details
+          if (labels['service.name']) {
+            Object.assign(mapped, await this.inspectContainer(container.Id, name));
+          }
+
+          return mapped;
+        })
+      );
 
       this.logger.debug('Successfully mapped containers', {
         count: mappedContainers.length,
@@ -229,6 +399,52 @@ export class ServiceDiscoveryService {
     }
   }
 
+  /**
+   * Read health, restart count and start time of a container
+   */
+  private async inspectContainer(
+    id: string,
+    name: string
+  ): Promise<Pick<DockerContainer, 'health' | 'restartCount' | 'startedAt'>> {
+    try {
+      const info = await this.docker.getContainer(id).inspect();
+      const health = info.State.Health?.Status;
+      const startedAt = info.State.StartedAt;
+
+      return {
+        ...(health && health !== 'none' && { health }),
+        restartCount: info.RestartCount,
+        ...(info.State.Running &&
+          startedAt &&
+          !startedAt.startsWith('0001-') && { startedAt: new Date(startedAt).toISOString() }),
+      };
+    } catch (error) {
+      this.logger.debug('Failed to inspect container', {
+        name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {};
+    }
+  }
+
+  /**
+   * Work out the state shown for a container
+   */
+  private getServiceState(container: DockerContainer): ServiceState {
+    switch (container.state) {
+      case 'running':
+        if (container.health === 'starting') return 'starting';
+        if (container.health === 'unhealthy') return 'unhealthy';
+        return 'running';
+      case 'restarting':
+        return 'restarting';
+      case 'paused':
+        return 'paused';
+      default:
+        return 'stopped';
+    }
+  }
+
   /**
    * Extract service metadata from Docker container
    */
@@ -263,16 +479,18 @@ export class ServiceDiscoveryService {
       return null;
     }
 
-    // Determine status based on container status
+    // Determine status based on container state and health check
+    const state = this.getServiceState(container);
     let status: 'healthy' | 'warning' | 'error' = 'healthy';
-    if (container.status.includes('Exited') || container.status.includes('Dead')) {
+    if (state === 'stopped' || state === 'unhealthy') {
       status = 'error';
-    } else if (container.status.includes('Restarting') || container.status.includes('Paused')) {
+    } else if (state !== 'running') {
       status = 'warning';
     }
     this.logger.debug('Determined status', {
       service: serviceName,
       status,
+      state,
       containerStatus: container.status,
     });
 
@@ -306,13 +524,39 @@ export class ServiceDiscoveryService {
       icon: serviceIcon || 'question-circle',
       type: serviceType,
       status,
+      state,
     };
 
+    // Add container health details if available
+    if (
+      container.health === 'healthy' ||
+      container.health === 'unhealthy' ||
+      container.health === 'starting'
+    ) {
+      metadata.health = container.health;
+    }
+    if (container.restartCount !== undefined) {
+      metadata.restartCount = container.restartCount;
+    }
+    if (container.startedAt) {
+      metadata.startedAt = container.startedAt;
+    }
+
     // Add URL if available
     if (url) {
       metadata.url = url;
     }
 
+    // Sync services advertise their management API port; the portal runs with host networking,
+    // so it reaches the container directly on its bridge address
+    const apiPort = labels['sync.api.port'];
+    if (apiPort) {
+      metadata.syncService = true;
+      if (container.address && container.state === 'running') {
+        metadata.managementApi = `http://${container.address}:${apiPort}`;
+      }
+    }
+
     // Add version if available
     if (labels['service.version']) {
       metadata.version = labels['service.version'];
@@ -0,0 +1,162 @@
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+
+import {
+  decodeMessage,
+  encodeFloatField,
+  encodeMessageField,
+  encodeVarintField,
+} from '../utils/protobuf';
+
+import { GrpcWebStarlinkTransport, StarlinkService } from './StarlinkService';
+
+/**
+ * Encode a packed repeated float field
+ */
+function encodePackedFloats(field: number, values: number[]): Buffer {
+  const bytes = Buffer.alloc(values.length * 4);
+  values.forEach((value, index) => bytes.writeFloatLE(value, index * 4));
+  return encodeMessageField(field, bytes);
+}
+
+/**
+ * Wrap a message in a gRPC-Web data frame
+ */
+function frame(flags: number, payload: Buffer): Buffer {
+  const header = Buffer.alloc(5);
+  header.writeUInt8(flags, 0);
+  header.writeUInt32BE(payload.length, 1);
+  return Buffer.concat([header, payload]);
+}
+
+// Canned dish responses, keyed by the request field that asks for them
+const RESPONSES: Record<number, Buffer> = {
+  // get_status -> dish_get_status
+  1004: encodeMessageField(
+    2004,
+    Buffer.concat([
+      encodeMessageField(
+        1,
+        Buffer.concat([
+          encodeMessageField(1, 'ut01000000-00000000-00000000'),
+          encodeMessageField(2, 'rev4_prod1'),
+          encodeMessageField(3, '2025.04.08.cr53207'),
+          encodeMessageField(4, 'US'),
+        ])
+      ),
+      encodeMessageField(2, encodeVarintField(1, 86400)),
+      encodeFloatField(1003, 0.25),
+      encodeMessageField(
+        1004,
+        Buffer.concat([
+          encodeFloatField(1, 0.125),
+          encodeFloatField(4, 3600),
+          encodeVarintField(5, true),
+        ])
+      ),
+      // Alerts: thermal_throttle and roaming
+      encodeMessageField(
+        1005,
+        Buffer.concat([encodeVarintField(3, true), encodeVarintField(7, true)])
+      ),
+      encodeFloatField(1009, 32.5),
+      encodeVarintField(1016, 1000),
+    ])
+  ),
+  // dish_get_obstruction_map -> dish_get_obstruction_map
+  2008: encodeMessageField(
+    2008,
+    Buffer.concat([
+      encodeVarintField(1, 2),
+      encodeVarintField(2, 3),
+      encodePackedFloats(3, [1, 0.5, -1, 0, 1, 0.25]),
+      encodeFloatField(4, 25),
+      encodeFloatField(5, 90),
+    ])
+  ),
+};
+
+/**
+ * Fake dish speaking gRPC-Web on SpaceX.API.Device.Device/Handle
+ */
+function createFakeDish(): Server {
+  return createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      if (req.method !== 'POST' || req.url !== '/SpaceX.API.Device.Device/Handle') {
+        res.writeHead(404).end();
+        return;
+      }
+
+      const request = decodeMessage(Buffer.concat(chunks).subarray(5));
+      const response = [...request.keys()].map(field => RESPONSES[field]).find(Boolean);
+      const trailer = Buffer.from(
+        response ? 'grpc-status:0\r\n' : 'grpc-status:12\r\ngrpc-message:Unimplemented\r\n'
+      );
+
+      res.writeHead(200, { 'Content-Type': 'application/grpc-web+proto' });
+      res.end(Buffer.concat([...(response ? [frame(0, response)] : []), frame(0x80, trailer)]));
+    });
+  });
+}
+
+describe('StarlinkService', () => {
+  const dish = createFakeDish();
+  let service: StarlinkService;
+
+  before(async () => {
+    await new Promise<void>(resolve => dish.listen(0, '127.0.0.1', resolve));
+    const { port } = dish.address() as AddressInfo;
+    service = new StarlinkService(new GrpcWebStarlinkTransport(`http://127.0.0.1:${port}`));
+  });
+
+  after(async () => {
+    await new Promise(resolve => dish.close(resolve));
+  });
+
+  it('reads dish status', async () => {
+    const status = await service.getStatus();
+
+    assert.equal(status.reachable, true);
+    assert.equal(status.deviceId, 'ut01000000-00000000-00000000');
+    assert.equal(status.softwareVersion, '2025.04.08.cr53207');
+    assert.equal(status.countryCode, 'US');
+    assert.equal(status.uptimeSeconds, 86400);
+    assert.equal(status.popPingLatencyMs, 32.5);
+    assert.equal(status.popPingDropRate, 0.25);
+    assert.equal(status.ethSpeedMbps, 1000);
+    assert.deepEqual(status.obstruction, {
+      currentlyObstructed: true,
+      fractionObstructed: 0.125,
+      validSeconds: 3600,
+    });
+  });
+
+  it('reads active alerts', async () => {
+    const status = await service.getStatus();
+
+    assert.deepEqual(status.alerts, ['thermalThrottle', 'roaming']);
+  });
+
+  it('reads the obstruction map', async () => {
+    const map = await service.getObstructionMap();
+
+    assert.deepEqual(map, {
+      rows: 2,
+      columns: 3,
+      minElevationDeg: 25,
+      maxThetaDeg: 90,
+      data: [1, 0.5, -1, 0, 1, 0.25],
+    });
+  });
+
+  it('reports gRPC errors from the dish', async () => {
+    const result = await service.reboot();
+
+    assert.equal(result.success, false);
+    assert.match(result.message, /gRPC status 12: Unimplemented/);
+  });
+});
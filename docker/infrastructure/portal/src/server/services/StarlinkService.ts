@@ -0,0 +1,370 @@
+import { LoggerFactory, LogLevel } from '@dangerprep/logging';
+
+import {
+  decodeMessage,
+  encodeMessageField,
+  encodeVarintField,
+  proto,
+  type ProtoMessage,
+} from '../utils/protobuf';
+
+/**
+ * Field numbers from the dish's SpaceX.API.Device protobuf schema
+ * (the same public schema used by community tools such as starlink-grpc-tools)
+ */
+const REQUEST = {
+  reboot: 1001,
+  getStatus: 1004,
+  dishStow: 2002,
+  dishGetObstructionMap: 2008,
+} as const;
+
+const RESPONSE = {
+  status: 2,
+  reboot: 1001,
+  dishStow: 2002,
+  dishGetStatus: 2004,
+  dishGetObstructionMap: 2008,
+} as const;
+
+const DISH_STATUS = {
+  deviceInfo: 1,
+  deviceState: 2,
+  snr: 1001,
+  secondsToFirstNonemptySlot: 1002,
+  popPingDropRate: 1003,
+  obstructionStats: 1004,
+  alerts: 1005,
+  downlinkThroughputBps: 1007,
+  uplinkThroughputBps: 1008,
+  popPingLatencyMs: 1009,
+  stowRequested: 1010,
+  boresightAzimuthDeg: 1011,
+  boresightElevationDeg: 1012,
+  ethSpeedMbps: 1016,
+  isSnrAboveNoiseFloor: 1018,
+  isSnrPersistentlyLow: 1022,
+} as const;
+
+/**
+ * Dish alert flags and their field numbers in DishAlerts
+ */
+const DISH_ALERTS: Record<string, number> = {
+  motorsStuck: 1,
+  thermalShutdown: 2,
+  thermalThrottle: 3,
+  unexpectedLocation: 4,
+  mastNotNearVertical: 5,
+  slowEthernetSpeeds: 6,
+  roaming: 7,
+  installPending: 8,
+  isHeating: 9,
+  powerSupplyThermalThrottle: 10,
+  isPowerSaveIdle: 11,
+  movingWhileNotMobile: 12,
+  movingTooFastForPolicy: 15,
+  lowMotorCurrent: 17,
+  lowerSignalThanPredicted: 18,
+};
+
+/**
+ * Transport that carries a serialized SpaceX.API.Device.Request to the dish and returns
+ * the serialized Response. Swap it out to point the service at a fake dish.
+ */
+export interface StarlinkTransport {
+  handle(request: Buffer): Promise<Buffer>;
+}
+
+/**
+ * gRPC-Web transport for the dish's local API (the same endpoint the Starlink app uses)
+ */
+export class GrpcWebStarlinkTransport implements StarlinkTransport {
+  constructor(
+    private readonly baseUrl: string,
+    private readonly timeoutMs = 5000
+  ) {}
+
+  async handle(request: Buffer): Promise<Buffer> {
+    // gRPC-Web framing: 1 byte flags (0 = data) + 4 byte big-endian length + message
+    const frame = Buffer.alloc(5 + request.length);
+    frame.writeUInt8(0, 0);
+    frame.writeUInt32BE(request.length, 1);
+    request.copy(frame, 5);
+
+    const response = await fetch(`${this.baseUrl}/SpaceX.API.Device.Device/Handle`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/grpc-web+proto',
+        Accept: 'application/grpc-web+proto',
+        'X-Grpc-Web': '1',
+      },
+      body: frame,
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Dish returned HTTP ${response.status}`);
+    }
+
+    const body = Buffer.from(await response.arrayBuffer());
+    let grpcStatus = response.headers.get('grpc-status');
+    let grpcMessage = response.headers.get('grpc-message');
+    let message: Buffer | undefined;
+
+    for (let offset = 0; offset + 5 <= body.length; ) {
+      const flags = body.readUInt8(offset);
+      const length = body.readUInt32BE(offset + 1);
+      const payload = body.subarray(offset + 5, offset + 5 + length);
+      offset += 5 + length;
+
+      if (flags & 0x80) {
+        // Trailer frame: HTTP-style "key: value" lines
+        for (const line of payload.toString('utf8').split('\r\n')) {
+          const [key, ...rest] = line.split(':');
+          if (key?.trim().toLowerCase() === 'grpc-status') grpcStatus = rest.join(':').trim();
+          if (key?.trim().toLowerCase() === 'grpc-message') grpcMessage = rest.join(':').trim();
+        }
+      } else {
+        message = payload;
+      }
+    }
+
+    if (grpcStatus && grpcStatus !== '0') {
+      throw new Error(
+        `Dish returned gRPC status ${grpcStatus}${grpcMessage ? `: ${decodeURIComponent(grpcMessage)}` : ''}`
+      );
+    }
+    if (!message) {
+      throw new Error('Dish returned an empty response');
+    }
+    return message;
+  }
+}
+
+/**
+ * Current dish status
+ */
+export interface StarlinkStatus {
+  reachable: boolean;
+  error?: string;
+  deviceId?: string;
+  hardwareVersion?: string;
+  softwareVersion?: string;
+  countryCode?: string;
+  uptimeSeconds?: number;
+  popPingLatencyMs?: number;
+  popPingDropRate?: number;
+  downlinkThroughputBps?: number;
+  uplinkThroughputBps?: number;
+  snr?: number; // Only reported by older firmware
+  snrAboveNoiseFloor?: boolean;
+  snrPersistentlyLow?: boolean;
+  secondsToFirstNonemptySlot?: number;
+  obstruction?: {
+    currentlyObstructed: boolean;
+    fractionObstructed: number;
+    validSeconds?: number;
+  };
+  alerts: string[];
+  stowRequested: boolean;
+  boresightAzimuthDeg?: number;
+  boresightElevationDeg?: number;
+  ethSpeedMbps?: number;
+}
+
+/**
+ * Obstruction map grid - values are 0..1 signal quality per sky cell, -1 where no data
+ */
+export interface StarlinkObstructionMap {
+  rows: number;
+  columns: number;
+  minElevationDeg?: number;
+  maxThetaDeg?: number;
+  data: number[];
+}
+
+/**
+ * Result of a dish action
+ */
+export interface StarlinkActionResult {
+  success: boolean;
+  message: string;
+}
+
+/**
+ * Service for talking to the Starlink dish's local status API
+ * Defaults to gRPC-Web at http://192.168.100.1:9201, override with STARLINK_URL
+ * or by passing a transport
+ */
+export class StarlinkService {
+  private readonly transport: StarlinkTransport;
+  private logger = LoggerFactory.createConsoleLogger(
+    'StarlinkService',
+    process.env.NODE_ENV === 'development' ? LogLevel.DEBUG : LogLevel.INFO
+  );
+
+  constructor(transport?: StarlinkTransport) {
+    this.transport =
+      transport ??
+      new GrpcWebStarlinkTransport(process.env.STARLINK_URL || 'http://192.168.100.1:9201');
+  }
+
+  /**
+   * Get dish status; returns reachable=false instead of throwing when the dish cannot be reached
+   */
+  async getStatus(): Promise<StarlinkStatus> {
+    let status: ProtoMessage;
+    try {
+      status = await this.call(REQUEST.getStatus, RESPONSE.dishGetStatus);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.debug('Starlink dish not reachable', { error: message });
+      return { reachable: false, error: message, alerts: [], stowRequested: false };
+    }
+
+    const deviceInfo = proto.message(status, DISH_STATUS.deviceInfo);
+    const deviceState = proto.message(status, DISH_STATUS.deviceState);
+    const obstruction = proto.message(status, DISH_STATUS.obstructionStats);
+    const alerts = proto.message(status, DISH_STATUS.alerts);
+
+    const activeAlerts = alerts
+      ? Object.entries(DISH_ALERTS)
+          .filter(([, field]) => proto.bool(alerts, field))
+          .map(([name]) => name)
+      : [];
+
+    const optional = {
+      deviceId: deviceInfo && proto.string(deviceInfo, 1),
+      hardwareVersion: deviceInfo && proto.string(deviceInfo, 2),
+      softwareVersion: deviceInfo && proto.string(deviceInfo, 3),
+      countryCode: deviceInfo && proto.string(deviceInfo, 4),
+      uptimeSeconds: deviceState && proto.uint(deviceState, 1),
+      popPingLatencyMs: proto.float(status, DISH_STATUS.popPingLatencyMs),
+      popPingDropRate: proto.float(status, DISH_STATUS.popPingDropRate),
+      downlinkThroughputBps: proto.float(status, DISH_STATUS.downlinkThroughputBps),
+      uplinkThroughputBps: proto.float(status, DISH_STATUS.uplinkThroughputBps),
+      snr: proto.float(status, DISH_STATUS.snr),
+      snrAboveNoiseFloor: proto.bool(status, DISH_STATUS.isSnrAboveNoiseFloor),
+      snrPersistentlyLow: proto.bool(status, DISH_STATUS.isSnrPersistentlyLow),
+      secondsToFirstNonemptySlot: proto.float(status, DISH_STATUS.secondsToFirstNonemptySlot),
+      boresightAzimuthDeg: proto.float(status, DISH_STATUS.boresightAzimuthDeg),
+      boresightElevationDeg: proto.float(status, DISH_STATUS.boresightElevationDeg),
+      ethSpeedMbps: proto.int(status, DISH_STATUS.ethSpeedMbps),
+    };
+
+    const result: StarlinkStatus = {
+      reachable: true,
+      alerts: activeAlerts,
+      stowRequested: proto.bool(status, DISH_STATUS.stowRequested) ?? false,
+      // Drop fields the dish did not report
+      ...Object.fromEntries(Object.entries(optional).filter(([, value]) => value !== undefined)),
+    };
+
+    if (obstruction) {
+      const validSeconds = proto.float(obstruction, 4);
+      result.obstruction = {
+        currentlyObstructed: proto.bool(obstruction, 5) ?? false,
+        fractionObstructed: proto.float(obstruction, 1) ?? 0,
+        ...(validSeconds !== undefined && { validSeconds }),
+      };
+    }
+
+    this.logger.debug('Starlink status retrieved', {
+      softwareVersion: result.softwareVersion,
+      latency: result.popPingLatencyMs,
+      alerts: result.alerts,
+    });
+    return result;
+  }
+
+  /**
+   * Get the dish's obstruction map
+   * @throws Error if the dish cannot be reached
+   */
+  async getObstructionMap(): Promise<StarlinkObstructionMap> {
+    const map = await this.call(REQUEST.dishGetObstructionMap, RESPONSE.dishGetObstructionMap);
+    const minElevationDeg = proto.float(map, 4);
+    const maxThetaDeg = proto.float(map, 5);
+
+    return {
+      rows: proto.uint(map, 1) ?? 0,
+      columns: proto.uint(map, 2) ?? 0,
+      ...(minElevationDeg !== undefined && { minElevationDeg }),
+      ...(maxThetaDeg !== undefined && { maxThetaDeg }),
+      data: proto.floats(map, 3),
+    };
+  }
+
+  /**
+   * Stow the dish (flat, for transport)
+   */
+  async stow(): Promise<StarlinkActionResult> {
+    return this.runAction('stow', REQUEST.dishStow, RESPONSE.dishStow);
+  }
+
+  /**
+   * Unstow the dish so it resumes tracking satellites
+   */
+  async unstow(): Promise<StarlinkActionResult> {
+    return this.runAction(
+      'unstow',
+      REQUEST.dishStow,
+      RESPONSE.dishStow,
+      encodeVarintField(1, true)
+    );
+  }
+
+  /**
+   * Reboot the dish
+   */
+  async reboot(): Promise<StarlinkActionResult> {
+    return this.runAction('reboot', REQUEST.reboot, RESPONSE.reboot);
+  }
+
+  /**
+   * Run a dish action and wrap the result
+   */
+  private async runAction(
+    action: string,
+    requestField: number,
+    responseField: number,
+    body?: Buffer
+  ): Promise<StarlinkActionResult> {
+    try {
+      this.logger.info(`Sending ${action} to Starlink dish`);
+      await this.call(requestField, responseField, body);
+      return { success: true, message: `Dish ${action} requested` };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Starlink ${action} failed`, { error: message });
+      return { success: false, message: `Failed to ${action} dish: ${message}` };
+    }
+  }
+
+  /**
+   * Send a request and return the decoded sub-response
+   * @param requestField - Request oneof field to set
+   * @param responseField - Response oneof field expected back
+   * @param body - Encoded request sub-message (empty by default)
+   */
+  private async call(
+    requestField: number,
+    responseField: number,
+    body?: Buffer
+  ): Promise<ProtoMessage> {
+    const response = decodeMessage(
+      await this.transport.handle(encodeMessageField(requestField, body))
+    );
+
+    const status = proto.message(response, RESPONSE.status);
+    const code = status ? proto.int(status, 1) : undefined;
+    if (status && code !== undefined && code !== 0) {
+      throw new Error(
+        `Dish rejected request (code ${code}: ${proto.string(status, 2) ?? 'unknown error'})`
+      );
+    }
+
+    // Empty sub-responses are omitted on the wire, which is fine for actions
+    return proto.message(response, responseField) ?? new Map();
+  }
+}
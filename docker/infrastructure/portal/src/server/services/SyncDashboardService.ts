@@ -0,0 +1,526 @@
+import { LoggerFactory, LogLevel } from '@dangerprep/logging';
+
+import type { ServiceState } from '../../types/service';
+
+import type { ServiceDiscoveryService, ServiceMetadata } from './ServiceDiscoveryService';
+
+/**
+ * In-flight operation reported by a sync service
+ */
+export interface SyncOperation {
+  id: string;
+  type: string;
+  status: string;
+  startTime: string;
+  processedItems?: number;
+  totalItems?: number;
+  processedBytes?: number;
+  totalBytes?: number;
+  currentItem?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Transfer plan of a card sync, in operation metadata.plan (offline-sync)
+ */
+export interface SyncPlanSummary {
+  profile: string | null;
+  availableBytes: number | null;
+  toCard: { files: number; bytes: number };
+  fromCard: { files: number; bytes: number };
+  deletions: number;
+  conflicts: number;
+  skipped: Array<{
+    contentType: string;
+    relativePath: string;
+    size: number;
+    reason: 'free_space' | 'max_size';
+  }>;
+}
+
+/**
+ * Finished operation from a sync service's recent history
+ */
+export interface SyncOperationResult {
+  id: string;
+  type: string;
+  success: boolean;
+  startTime: string;
+  endTime: string;
+  error?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Scheduled task of a sync service
+ */
+export interface SyncScheduledTask {
+  id: string;
+  name: string;
+  schedule: string;
+  isActive: boolean;
+  executionCount: number;
+  failureCount: number;
+  lastExecution: string | null;
+  nextExecution: string | null;
+  lastError: string | null;
+}
+
+/**
+ * Disk usage of one content type
+ */
+export interface SyncStorageUsage {
+  contentType: string;
+  size: string;
+  path?: string;
+  bytes?: number;
+  maxSize?: string;
+}
+
+/**
+ * A failed run, from the operation history or a scheduled task
+ */
+export interface SyncFailure {
+  name: string;
+  error: string;
+  time: string;
+  source: 'operation' | 'schedule';
+}
+
+/**
+ * File changed on both a card and the box, waiting for a decision (offline-sync)
+ */
+export interface SyncConflict {
+  id: string;
+  cardId: string;
+  devicePath: string;
+  contentType: string;
+  relativePath: string;
+  local: { size: number; mtime: string };
+  card: { size: number; mtime: string };
+  detectedAt: string;
+  resolution?: SyncConflictResolution;
+}
+
+export type SyncConflictResolution = 'keep_both' | 'prefer_local' | 'prefer_card';
+
+/**
+ * Eject state of an inserted card (offline-sync)
+ */
+export interface SyncCardEject {
+  devicePath: string;
+  cardId: string;
+  stage:
+    | 'mounted'
+    | 'finishing'
+    | 'flushing'
+    | 'verifying'
+    | 'unmounting'
+    | 'safe_to_remove'
+    | 'failed';
+  updatedAt: string;
+  error?: string;
+}
+
+/**
+ * Everything the Sync dashboard shows for one sync service
+ */
+export interface SyncServiceSummary {
+  name: string;
+  description: string;
+  icon: string;
+  state?: ServiceState;
+  reachable: boolean;
+  error?: string;
+  health?: string;
+  version?: string;
+  uptime?: number;
+  lastRun?: string;
+  nextRun?: string;
+  schedule: SyncScheduledTask[];
+  operations: SyncOperation[];
+  recentOperations: SyncOperationResult[];
+  failures: SyncFailure[];
+  storage: SyncStorageUsage[];
+  conflicts: SyncConflict[];
+  cards: SyncCardEject[];
+}
+
+/**
+ * Result of triggering or cancelling through a sync service
+ */
+export interface SyncActionResult {
+  success: boolean;
+  status: number;
+  message: string;
+  operationId?: string;
+}
+
+interface ManagementApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  message?: string;
+}
+
+interface ServiceStatusResponse {
+  state: string;
+  health: string;
+  version: string;
+  uptime: number;
+  lastError?: string;
+}
+
+const REQUEST_TIMEOUT_MS = 5000;
+const STORAGE_TTL_MS = 5 * 60 * 1000; // Directory sizes are expensive to compute
+const MAX_RECENT_OPERATIONS = 10;
+const MAX_FAILURES = 10;
+
+/**
+ * Service that aggregates the management APIs of all sync services
+ * (kiwix-sync, nfs-sync, offline-sync) for the Sync dashboard
+ */
+export class SyncDashboardService {
+  private logger = LoggerFactory.createConsoleLogger(
+    'SyncDashboardService',
+    process.env.NODE_ENV === 'development' ? LogLevel.DEBUG : LogLevel.INFO
+  );
+
+  private storageCache = new Map<string, { fetchedAt: number; storage: SyncStorageUsage[] }>();
+
+  constructor(
+    private readonly serviceDiscovery: ServiceDiscoveryService,
+    private readonly apiToken: string | undefined = process.env.SYNC_API_TOKEN
+  ) {}
+
+  /**
+   * Get the dashboard summary of every discovered sync service
+   */
+  async getSummary(): Promise<SyncServiceSummary[]> {
+    const services = await this.getSyncServices();
+    return Promise.all(services.map(service => this.getServiceSummary(service)));
+  }
+
+  /**
+   * Start a sync on a service; the target (content type, device, package) is service-specific
+   */
+  async triggerSync(serviceName: string, target?: string): Promise<SyncActionResult> {
+    const result = await this.sendAction<string | null>(serviceName, 'POST', '/api/sync', {
+      ...(target && { target }),
+    });
+
+    return {
+      ...result,
+      ...(result.success && {
+        message: `Sync started on ${serviceName}`,
+        ...(typeof result.data === 'string' && { operationId: result.data }),
+      }),
+    };
+  }
+
+  /**
+   * Cancel an in-flight operation on a service
+   */
+  async cancelOperation(serviceName: string, operationId: string): Promise<SyncActionResult> {
+    const result = await this.sendAction(
+      serviceName,
+      'DELETE',
+      `/api/operations/${encodeURIComponent(operationId)}`
+    );
+
+    return {
+      ...result,
+      ...(result.success && { message: `Cancelled ${operationId}`, operationId }),
+    };
+  }
+
+  /**
+   * Decide a sync conflict; the service applies it now or on the card's next sync
+   */
+  async resolveConflict(
+    serviceName: string,
+    conflictId: string,
+    resolution: SyncConflictResolution
+  ): Promise<SyncActionResult> {
+    const result = await this.sendAction(
+      serviceName,
+      'POST',
+      `/api/conflicts/${encodeURIComponent(conflictId)}/resolve`,
+      { resolution }
+    );
+
+    return {
+      ...result,
+      ...(result.success && { message: `Conflict resolved with ${resolution}` }),
+    };
+  }
+
+  /**
+   * Finish a card's sync and unmount it; the service reports when it is safe to remove
+   */
+  async ejectCard(serviceName: string, devicePath: string): Promise<SyncActionResult> {
+    const result = await this.sendAction(
+      serviceName,
+      'POST',
+      `/api/cards/${encodeURIComponent(devicePath)}/eject`
+    );
+
+    return {
+      ...result,
+      ...(result.success && { message: `Ejecting ${devicePath}` }),
+    };
+  }
+
+  /**
+   * Services that advertise a sync management API, including stopped ones
+   */
+  private async getSyncServices(): Promise<ServiceMetadata[]> {
+    const services = await this.serviceDiscovery.getServices();
+    return services.filter(service => service.syncService);
+  }
+
+  private async getServiceSummary(service: ServiceMetadata): Promise<SyncServiceSummary> {
+    const summary: SyncServiceSummary = {
+      name: service.name,
+      description: service.description,
+      icon: service.icon,
+      ...(service.state && { state: service.state }),
+      reachable: false,
+      schedule: [],
+      operations: [],
+      recentOperations: [],
+      failures: [],
+      storage: [],
+      conflicts: [],
+      cards: [],
+    };
+
+    if (!service.managementApi) {
+      return { ...summary, error: 'Service is not running' };
+    }
+
+    try {
+      const baseUrl = service.managementApi;
+      const [status, schedule, operations, history] = await Promise.all([
+        this.request<ServiceStatusResponse>(baseUrl, '/api/status'),
+        this.request<SyncScheduledTask[]>(baseUrl, '/api/schedule'),
+        this.request<SyncOperation[]>(baseUrl, '/api/operations'),
+        this.request<SyncOperationResult[]>(baseUrl, '/api/history'),
+      ]);
+
+      const recentOperations = history.slice(0, MAX_RECENT_OPERATIONS);
+      const lastRun = this.latest([
+        ...schedule.map(task => task.lastExecution),
+        ...history.map(operation => operation.endTime),
+      ]);
+      const nextRun = this.earliest(schedule.map(task => task.nextExecution));
+
+      return {
+        ...summary,
+        reachable: true,
+        health: status.health,
+        version: status.version,
+        uptime: status.uptime,
+        ...(lastRun && { lastRun }),
+        ...(nextRun && { nextRun }),
+        schedule,
+        operations,
+        recentOperations,
+        failures: this.collectFailures(schedule, history, status),
+        storage: await this.getStorage(service.name, baseUrl),
+        conflicts: await this.getConflicts(service.name, baseUrl),
+        cards: await this.getCards(service.name, baseUrl),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Failed to query sync service ${service.name}`, { error: message });
+      return { ...summary, error: message };
+    }
+  }
+
+  /**
+   * Storage usage, cached because services walk their content directories to compute it
+   */
+  private async getStorage(serviceName: string, baseUrl: string): Promise<SyncStorageUsage[]> {
+    const cached = this.storageCache.get(serviceName);
+    if (cached && Date.now() - cached.fetchedAt < STORAGE_TTL_MS) {
+      return cached.storage;
+    }
+
+    try {
+      const stats = await this.request<Record<string, Record<string, unknown>>>(
+        baseUrl,
+        '/api/storage'
+      );
+      const storage = Object.entries(stats).map(([contentType, stat]) =>
+        this.toStorageUsage(contentType, stat)
+      );
+      this.storageCache.set(serviceName, { fetchedAt: Date.now(), storage });
+      return storage;
+    } catch (error) {
+      this.logger.debug(`Failed to get storage for ${serviceName}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return cached?.storage ?? [];
+    }
+  }
+
+  /**
+   * Pending conflicts; services without conflict tracking have none
+   */
+  private async getConflicts(serviceName: string, baseUrl: string): Promise<SyncConflict[]> {
+    try {
+      return await this.request<SyncConflict[]>(baseUrl, '/api/conflicts');
+    } catch (error) {
+      this.logger.debug(`No conflicts from ${serviceName}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Inserted cards with their eject state; services without cards have none
+   */
+  private async getCards(serviceName: string, baseUrl: string): Promise<SyncCardEject[]> {
+    try {
+      return await this.request<SyncCardEject[]>(baseUrl, '/api/ejects');
+    } catch (error) {
+      this.logger.debug(`No cards from ${serviceName}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Normalize the per-service storage shapes (nfs/offline: size + path, kiwix: totalSize)
+   */
+  private toStorageUsage(contentType: string, stat: Record<string, unknown>): SyncStorageUsage {
+    const size = stat.size ?? stat.totalSize;
+
+    return {
+      contentType,
+      size: typeof size === 'string' ? size : 'Unknown',
+      ...(typeof stat.path === 'string' && { path: stat.path }),
+      ...(typeof stat.bytes === 'number' && { bytes: stat.bytes }),
+      ...(typeof stat.maxSize === 'string' && { maxSize: stat.maxSize }),
+    };
+  }
+
+  private collectFailures(
+    schedule: SyncScheduledTask[],
+    history: SyncOperationResult[],
+    status: ServiceStatusResponse
+  ): SyncFailure[] {
+    const failures: SyncFailure[] = [
+      ...history
+        .filter(operation => !operation.success)
+        .map(operation => ({
+          name: operation.type,
+          error: operation.error ?? 'Unknown error',
+          time: operation.endTime,
+          source: 'operation' as const,
+        })),
+      ...schedule
+        .filter(task => task.lastError && task.lastExecution)
+        .map(task => ({
+          name: task.name,
+          error: task.lastError as string,
+          time: task.lastExecution as string,
+          source: 'schedule' as const,
+        })),
+    ];
+
+    if (failures.length === 0 && status.lastError) {
+      failures.push({
+        name: 'Service',
+        error: status.lastError,
+        time: new Date().toISOString(),
+        source: 'operation',
+      });
+    }
+
+    return failures
+      .sort((a, b) => new Date(b.time).getTime() - new Date(a.time).getTime())
+      .slice(0, MAX_FAILURES);
+  }
+
+  private latest(times: Array<string | null | undefined>): string | undefined {
+    const sorted = times.filter((time): time is string => !!time).sort(this.byTime);
+    return sorted[sorted.length - 1];
+  }
+
+  private earliest(times: Array<string | null | undefined>): string | undefined {
+    return times.filter((time): time is string => !!time).sort(this.byTime)[0];
+  }
+
+  private byTime(a: string, b: string): number {
+    return new Date(a).getTime() - new Date(b).getTime();
+  }
+
+  private async request<T>(baseUrl: string, path: string): Promise<T> {
+    const response = await fetch(`${baseUrl}${path}`, {
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    const body = (await response.json()) as ManagementApiResponse<T>;
+
+    if (!response.ok || !body.success) {
+      throw new Error(body.message || body.error || `${path} returned ${response.status}`);
+    }
+
+    return body.data as T;
+  }
+
+  private async sendAction<T = unknown>(
+    serviceName: string,
+    method: 'POST' | 'DELETE',
+    path: string,
+    payload?: Record<string, unknown>
+  ): Promise<SyncActionResult & { data?: T }> {
+    const services = await this.getSyncServices();
+    const service = services.find(candidate => candidate.name === serviceName);
+
+    if (!service) {
+      return { success: false, status: 404, message: `Unknown sync service: ${serviceName}` };
+    }
+    if (!service.managementApi) {
+      return { success: false, status: 409, message: `${serviceName} is not running` };
+    }
+
+    try {
+      const response = await fetch(`${service.managementApi}${path}`, {
+        method,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiToken && { Authorization: `Bearer ${this.apiToken}` }),
+        },
+        ...(payload && { body: JSON.stringify(payload) }),
+      });
+      const body = (await response.json()) as ManagementApiResponse<T>;
+
+      if (!response.ok || !body.success) {
+        return {
+          success: false,
+          status: response.status === 401 ? 502 : response.status,
+          message:
+            response.status === 401
+              ? `${serviceName} rejected the portal's SYNC_API_TOKEN`
+              : body.message || body.error || `${serviceName} returned ${response.status}`,
+        };
+      }
+
+      return {
+        success: true,
+        status: 200,
+        message: body.message ?? 'OK',
+        ...(body.data !== undefined && { data: body.data }),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`${method} ${path} on ${serviceName} failed`, { error: message });
+      return { success: false, status: 502, message: `Could not reach ${serviceName}: ${message}` };
+    }
+  }
+}
@@ -0,0 +1,808 @@
+import { exec, execFile } from 'child_process';
+import { readFile } from 'fs/promises';
+import { promisify } from 'util';
+
+import { LoggerFactory, LogLevel } from '@dangerprep/logging';
+
+import { readJsonState, writeJsonState } from '../utils/stateStore';
+
+import { NetworkService, type BaseNetworkInterface } from './NetworkService';
+
+const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+
+/**
+ * Kind of uplink an interface provides
+ */
+export type UplinkType = 'ethernet' | 'wifi' | 'cellular' | 'starlink';
+
+export const UPLINK_TYPES: UplinkType[] = ['ethernet', 'wifi', 'cellular', 'starlink'];
+
+/**
+ * Configured uplink - position in the list is its priority (first = preferred)
+ */
+export interface WanUplink {
+  interface: string;
+  type: UplinkType;
+  label?: string;
+  enabled: boolean;
+}
+
+/**
+ * WAN management configuration
+ */
+export interface WanConfig {
+  uplinks: WanUplink[];
+  autoFailover: boolean; // When false, the first enabled uplink is always used
+  probe: {
+    targets: string[];
+    intervalSeconds: number;
+    failureThreshold: number; // Failed probes before an uplink is marked down
+    recoveryThreshold: number; // Successful probes before an uplink is marked up again
+  };
+}
+
+/**
+ * Requested WAN configuration change - omitted fields keep their current value
+ */
+export interface WanConfigUpdate {
+  uplinks?: WanUplink[];
+  autoFailover?: boolean;
+  probe?: Partial<WanConfig['probe']>;
+}
+
+/**
+ * Live status of a configured uplink
+ */
+export interface WanUplinkStatus extends WanUplink {
+  priority: number;
+  present: boolean;
+  state: 'up' | 'down' | 'unknown';
+  ipAddress?: string;
+  gateway?: string;
+  healthy: boolean;
+  active: boolean;
+  latencyMs?: number;
+  lastChecked?: string;
+  consecutiveFailures: number;
+  consecutiveSuccesses: number;
+}
+
+/**
+ * Recorded change of the active uplink
+ */
+export interface WanFailoverEvent {
+  timestamp: string;
+  from?: string;
+  to?: string;
+  reason: 'failover' | 'recovery' | 'config' | 'startup' | 'no-uplink';
+  message: string;
+}
+
+/**
+ * WAN status returned to the portal
+ */
+export interface WanStatus {
+  activeInterface?: string;
+  autoFailover: boolean;
+  uplinks: WanUplinkStatus[];
+  history: WanFailoverEvent[];
+  lastProbe?: string;
+}
+
+/**
+ * Interface that could be used as an uplink but is not configured yet
+ */
+export interface WanCandidate {
+  interface: string;
+  type: UplinkType;
+  state: 'up' | 'down' | 'unknown';
+}
+
+/**
+ * Persisted runtime state
+ */
+interface WanState {
+  activeInterface?: string;
+  history: WanFailoverEvent[];
+}
+
+/**
+ * Probe counters kept in memory per interface
+ */
+interface ProbeState {
+  healthy: boolean;
+  consecutiveFailures: number;
+  consecutiveSuccesses: number;
+  latencyMs?: number;
+  lastChecked?: string;
+}
+
+const CONFIG_FILE = 'wan.json';
+const STATE_FILE = 'wan-state.json';
+
+/**
+ * Read the uplink the WAN manager currently routes through
+ * Used by NetworkService so the portal reports the managed uplink instead of guessing
+ */
+export async function readActiveUplink(): Promise<string | undefined> {
+  const state = await readJsonState<WanState>(STATE_FILE, { history: [] });
+  return state.activeInterface;
+}
+
+/**
+ * Service for managing WAN uplink priority and automatic failover
+ * Probes each enabled uplink through its own interface and moves the default route
+ * (by adjusting route metrics) to the highest priority healthy uplink
+ */
+export class WanService {
+  private readonly historyLimit = 100;
+  private readonly activeMetric = 10;
+  private readonly standbyMetricBase = 100;
+  private readonly networkService = new NetworkService();
+  private readonly probeStates = new Map<string, ProbeState>();
+  private config: WanConfig | undefined;
+  private configured = false; // Routes are only managed once a configuration has been saved
+  private state: WanState | undefined;
+  private monitorTimer: NodeJS.Timeout | undefined;
+  private probing = false;
+  private lastProbe: string | undefined;
+  private appliedOrder: string | undefined; // Uplink order the route metrics were last set for
+  private logger = LoggerFactory.createConsoleLogger(
+    'WanService',
+    process.env.NODE_ENV === 'development' ? LogLevel.DEBUG : LogLevel.INFO
+  );
+
+  /**
+   * Start the periodic health probe, if a WAN configuration has been saved
+   * Never rejects; failures are logged.
+   */
+  async startMonitoring(): Promise<void> {
+    if (this.monitorTimer) {
+      return;
+    }
+
+    try {
+      const config = await this.getConfig();
+      if (!this.configured) {
+        this.logger.info('No WAN configuration saved, health monitoring starts once one is');
+        return;
+      }
+
+      this.logger.info('Starting WAN health monitoring', {
+        uplinks: config.uplinks.map(uplink => uplink.interface),
+        interval: `${config.probe.intervalSeconds}s`,
+        autoFailover: config.autoFailover,
+      });
+
+      this.monitorTimer = setInterval(() => {
+        this.probe().catch((error: unknown) => {
+          this.logger.error('WAN probe failed', {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+      }, config.probe.intervalSeconds * 1000);
+      this.monitorTimer.unref();
+
+      await this.probe();
+    } catch (error) {
+      this.logger.error('Failed to start WAN health monitoring', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Stop the periodic health probe
+   */
+  stopMonitoring(): void {
+    if (this.monitorTimer) {
+      clearInterval(this.monitorTimer);
+      this.monitorTimer = undefined;
+      this.logger.info('Stopped WAN health monitoring');
+    }
+  }
+
+  /**
+   * Get WAN configuration, discovering uplinks when none have been configured
+   */
+  async getConfig(): Promise<WanConfig> {
+    if (!this.config) {
+      const stored = await readJsonState<Partial<WanConfig> | undefined>(CONFIG_FILE, undefined);
+      const defaults = this.getDefaultConfig();
+      this.configured = stored !== undefined;
+      this.config = {
+        uplinks: stored?.uplinks ?? [],
+        autoFailover: stored?.autoFailover ?? defaults.autoFailover,
+        probe: { ...defaults.probe, ...stored?.probe },
+      };
+
+      if (this.config.uplinks.length === 0) {
+        this.config.uplinks = (await this.getCandidates()).map(candidate => ({
+          interface: candidate.interface,
+          type: candidate.type,
+          enabled: true,
+        }));
+        this.logger.info('No WAN configuration found, using discovered uplinks', {
+          uplinks: this.config.uplinks.map(uplink => uplink.interface),
+        });
+      }
+    }
+    return this.config;
+  }
+
+  /**
+   * Get interfaces that could serve as uplinks
+   */
+  async getCandidates(): Promise<WanCandidate[]> {
+    const interfaces = await this.networkService.getAllInterfaces();
+    const typeOrder: Record<UplinkType, number> = {
+      ethernet: 0,
+      starlink: 1,
+      wifi: 2,
+      cellular: 3,
+    };
+
+    return interfaces
+      .filter(
+        iface =>
+          iface.purpose !== 'wlan' &&
+          iface.purpose !== 'docker' &&
+          iface.purpose !== 'loopback' &&
+          iface.type !== 'tailscale' &&
+          iface.type !== 'bridge' &&
+          (iface.type !== 'unknown' || this.isCellularInterface(iface.name))
+      )
+      .map(iface => ({
+        interface: iface.name,
+        type: this.guessUplinkType(iface.name, iface.type),
+        state: iface.state,
+      }))
+      .sort(
+        (a, b) => typeOrder[a.type] - typeOrder[b.type] || a.interface.localeCompare(b.interface)
+      );
+  }
+
+  /**
+   * Validate a WAN configuration update
+   * Returns a list of human-readable problems (empty when valid)
+   */
+  validateConfig(update: WanConfigUpdate): string[] {
+    const errors: string[] = [];
+
+    if (update.uplinks !== undefined) {
+      if (!Array.isArray(update.uplinks)) {
+        errors.push('Uplinks must be a list');
+      } else {
+        const seen = new Set<string>();
+        for (const uplink of update.uplinks) {
+          if (!uplink || typeof uplink !== 'object') {
+            errors.push('Each uplink must be an object');
+            continue;
+          }
+          if (
+            typeof uplink.interface !== 'string' ||
+            !/^[a-zA-Z0-9_.-]{1,15}$/.test(uplink.interface)
+          ) {
+            errors.push(`Invalid interface name: ${uplink.interface}`);
+            continue;
+          }
+          if (!UPLINK_TYPES.includes(uplink.type)) {
+            errors.push(
+              `Uplink type for ${uplink.interface} must be one of: ${UPLINK_TYPES.join(', ')}`
+            );
+          }
+          if (typeof uplink.enabled !== 'boolean') {
+            errors.push(`Enabled flag for ${uplink.interface} must be true or false`);
+          }
+          if (
+            uplink.label !== undefined &&
+            (typeof uplink.label !== 'string' || uplink.label.length > 64)
+          ) {
+            errors.push(`Label for ${uplink.interface} must be at most 64 characters`);
+          }
+          if (seen.has(uplink.interface)) {
+            errors.push(`Interface ${uplink.interface} is listed more than once`);
+          }
+          seen.add(uplink.interface);
+        }
+      }
+    }
+
+    if (update.autoFailover !== undefined && typeof update.autoFailover !== 'boolean') {
+      errors.push('Auto failover must be true or false');
+    }
+
+    if (update.probe !== undefined && (!update.probe || typeof update.probe !== 'object')) {
+      errors.push('Probe settings must be an object');
+    } else if (update.probe !== undefined) {
+      const { targets, intervalSeconds, failureThreshold, recoveryThreshold } = update.probe;
+      if (
+        targets !== undefined &&
+        (!Array.isArray(targets) ||
+          targets.length === 0 ||
+          targets.some(target => !/^[a-zA-Z0-9:][a-zA-Z0-9.:-]{0,252}$/.test(target)))
+      ) {
+        errors.push('Probe targets must be a non-empty list of hostnames or IP addresses');
+      }
+      if (
+        intervalSeconds !== undefined &&
+        (!Number.isInteger(intervalSeconds) || intervalSeconds < 5 || intervalSeconds > 3600)
+      ) {
+        errors.push('Probe interval must be between 5 and 3600 seconds');
+      }
+      if (
+        failureThreshold !== undefined &&
+        (!Number.isInteger(failureThreshold) || failureThreshold < 1 || failureThreshold > 20)
+      ) {
+        errors.push('Failure threshold must be between 1 and 20');
+      }
+      if (
+        recoveryThreshold !== undefined &&
+        (!Number.isInteger(recoveryThreshold) || recoveryThreshold < 1 || recoveryThreshold > 20)
+      ) {
+        errors.push('Recovery threshold must be between 1 and 20');
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Update WAN configuration, persist it and re-evaluate the active uplink
+   * @param update - Fields to change; uplinks replaces the whole priority list
+   */
+  async updateConfig(update: WanConfigUpdate): Promise<{ success: boolean; message: string }> {
+    const errors = this.validateConfig(update);
+    if (errors.length > 0) {
+      this.logger.warn('Rejected invalid WAN configuration', { errors });
+      return { success: false, message: errors.join('; ') };
+    }
+
+    const current = await this.getConfig();
+    const next: WanConfig = {
+      uplinks: update.uplinks ?? current.uplinks,
+      autoFailover: update.autoFailover ?? current.autoFailover,
+      probe: { ...current.probe, ...update.probe },
+    };
+
+    try {
+      await writeJsonState(CONFIG_FILE, next);
+    } catch (error) {
+      this.logger.error('Failed to save WAN configuration', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        success: false,
+        message: `Failed to save WAN configuration: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+
+    const intervalChanged = next.probe.intervalSeconds !== current.probe.intervalSeconds;
+    this.config = next;
+    this.configured = true;
+    this.logger.info('WAN configuration updated', {
+      uplinks: next.uplinks.map(
+        uplink => `${uplink.interface}${uplink.enabled ? '' : ' (disabled)'}`
+      ),
+      autoFailover: next.autoFailover,
+    });
+
+    if (!this.monitorTimer) {
+      await this.startMonitoring();
+    } else if (intervalChanged) {
+      this.stopMonitoring();
+      await this.startMonitoring();
+    } else {
+      await this.probe('config');
+    }
+
+    return { success: true, message: 'WAN configuration saved' };
+  }
+
+  /**
+   * Get current WAN status including probe results and failover history
+   */
+  async getStatus(historyLimit = 20): Promise<WanStatus> {
+    const config = await this.getConfig();
+    const state = await this.getState();
+
+    const uplinks = await Promise.all(
+      config.uplinks.map(async (uplink, index) => {
+        const link = await this.getLinkInfo(uplink.interface);
+        const probe = this.probeStates.get(uplink.interface);
+        return {
+          ...uplink,
+          priority: index + 1,
+          present: link.present,
+          state: link.state,
+          ...(link.ipAddress && { ipAddress: link.ipAddress }),
+          ...(link.gateway && { gateway: link.gateway }),
+          healthy: probe?.healthy ?? false,
+          active: state.activeInterface === uplink.interface,
+          ...(probe?.latencyMs !== undefined && { latencyMs: probe.latencyMs }),
+          ...(probe?.lastChecked && { lastChecked: probe.lastChecked }),
+          consecutiveFailures: probe?.consecutiveFailures ?? 0,
+          consecutiveSuccesses: probe?.consecutiveSuccesses ?? 0,
+        };
+      })
+    );
+
+    return {
+      ...(state.activeInterface && { activeInterface: state.activeInterface }),
+      autoFailover: config.autoFailover,
+      uplinks,
+      history: state.history.slice(0, historyLimit),
+      ...(this.lastProbe && { lastProbe: this.lastProbe }),
+    };
+  }
+
+  /**
+   * Get failover history, newest first
+   */
+  async getHistory(limit = this.historyLimit): Promise<WanFailoverEvent[]> {
+    const state = await this.getState();
+    return state.history.slice(0, limit);
+  }
+
+  /**
+   * Probe every enabled uplink and switch the active uplink if needed
+   * @param trigger - Why the probe ran, recorded when it leads to a switch
+   */
+  async probe(trigger?: 'config'): Promise<void> {
+    if (this.probing) {
+      this.logger.debug('Probe already running, skipping');
+      return;
+    }
+    this.probing = true;
+
+    try {
+      const config = await this.getConfig();
+      const { activeInterface } = await this.getState();
+
+      await Promise.all(
+        config.uplinks
+          .filter(uplink => uplink.enabled)
+          .map(uplink => this.probeUplink(uplink.interface, config, activeInterface))
+      );
+      this.lastProbe = new Date().toISOString();
+
+      // Discovered uplinks are only shown until the admin saves a priority order
+      if (this.configured) {
+        await this.selectActiveUplink(config, trigger);
+      }
+    } catch (error) {
+      this.logger.error('WAN probe failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      this.probing = false;
+    }
+  }
+
+  /**
+   * Probe a single uplink and update its counters
+   * @param activeInterface - Uplink in use, which starts out healthy so that a portal restart
+   * keeps routing through it instead of logging a lost uplink and a fresh startup
+   */
+  private async probeUplink(
+    interfaceName: string,
+    config: WanConfig,
+    activeInterface: string | undefined
+  ): Promise<void> {
+    const previous = this.probeStates.get(interfaceName) ?? {
+      healthy: interfaceName === activeInterface,
+      consecutiveFailures: 0,
+      consecutiveSuccesses: 0,
+    };
+
+    const link = await this.getLinkInfo(interfaceName);
+    const latencyMs =
+      link.state === 'up' && link.ipAddress
+        ? await this.pingThrough(interfaceName, config.probe.targets)
+        : undefined;
+
+    const next: ProbeState = {
+      healthy: previous.healthy,
+      consecutiveFailures: latencyMs === undefined ? previous.consecutiveFailures + 1 : 0,
+      consecutiveSuccesses: latencyMs === undefined ? 0 : previous.consecutiveSuccesses + 1,
+      ...(latencyMs !== undefined && { latencyMs }),
+      lastChecked: new Date().toISOString(),
+    };
+
+    // Hysteresis: only flip health after enough consecutive results in a row
+    if (previous.healthy && next.consecutiveFailures >= config.probe.failureThreshold) {
+      next.healthy = false;
+      this.logger.warn('Uplink marked unhealthy', {
+        interface: interfaceName,
+        failures: next.consecutiveFailures,
+      });
+    } else if (!previous.healthy && next.consecutiveSuccesses >= config.probe.recoveryThreshold) {
+      next.healthy = true;
+      this.logger.info('Uplink marked healthy', { interface: interfaceName, latencyMs });
+    }
+
+    this.probeStates.set(interfaceName, next);
+  }
+
+  /**
+   * Pick the uplink that should carry traffic and move the default route to it
+   */
+  private async selectActiveUplink(config: WanConfig, trigger?: 'config'): Promise<void> {
+    const state = await this.getState();
+    const enabled = config.uplinks.filter(uplink => uplink.enabled);
+
+    const desired = config.autoFailover
+      ? enabled.find(uplink => this.probeStates.get(uplink.interface)?.healthy)
+      : enabled[0];
+    const previous = state.activeInterface;
+
+    if (desired?.interface === previous) {
+      // Standby metrics follow the priority order, so a reordered list still needs them reapplied
+      if (desired && this.getUplinkOrder(config) !== this.appliedOrder) {
+        await this.applyRouteMetrics(config, desired.interface);
+      }
+      return;
+    }
+
+    if (!desired) {
+      if (previous) {
+        delete state.activeInterface;
+        await this.recordEvent({
+          from: previous,
+          reason: 'no-uplink',
+          message: `${previous} lost connectivity and no healthy standby uplink is available`,
+        });
+      }
+      return;
+    }
+
+    const switched = await this.applyRouteMetrics(config, desired.interface);
+    if (!switched) {
+      return;
+    }
+
+    const previousIndex = previous
+      ? config.uplinks.findIndex(uplink => uplink.interface === previous)
+      : -1;
+    const desiredIndex = config.uplinks.indexOf(desired);
+    let reason: WanFailoverEvent['reason'];
+    let message: string;
+
+    if (trigger === 'config') {
+      reason = 'config';
+      message = `Switched to ${desired.interface} after a configuration change`;
+    } else if (!previous) {
+      reason = 'startup';
+      message = `Using ${desired.interface} as the active uplink`;
+    } else if (previousIndex !== -1 && desiredIndex < previousIndex) {
+      reason = 'recovery';
+      message = `${desired.interface} recovered, switching back from ${previous}`;
+    } else {
+      reason = 'failover';
+      message = `${previous} failed health checks, failing over to ${desired.interface}`;
+    }
+
+    state.activeInterface = desired.interface;
+    await this.recordEvent({
+      ...(previous && { from: previous }),
+      to: desired.interface,
+      reason,
+      message,
+    });
+  }
+
+  /**
+   * Give the active uplink the lowest default route metric and push the others behind it
+   * in priority order
+   * @returns true if the active uplink's default route was installed
+   */
+  private async applyRouteMetrics(config: WanConfig, activeInterface: string): Promise<boolean> {
+    let activeApplied = false;
+
+    for (const [index, uplink] of config.uplinks.entries()) {
+      const link = await this.getLinkInfo(uplink.interface);
+      if (!link.gateway) {
+        continue;
+      }
+
+      const metric =
+        uplink.interface === activeInterface
+          ? this.activeMetric
+          : this.standbyMetricBase + index * 10;
+
+      try {
+        await this.setDefaultRoute(uplink.interface, link.gateway, metric);
+        if (uplink.interface === activeInterface) {
+          activeApplied = true;
+        }
+      } catch (error) {
+        this.logger.error('Failed to update default route', {
+          interface: uplink.interface,
+          gateway: link.gateway,
+          metric,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (activeApplied) {
+      this.appliedOrder = this.getUplinkOrder(config);
+    } else {
+      this.logger.warn('Could not route through uplink, keeping current route', {
+        interface: activeInterface,
+      });
+    }
+    return activeApplied;
+  }
+
+  /**
+   * Key for the uplink priority order, to tell when route metrics are out of date
+   */
+  private getUplinkOrder(config: WanConfig): string {
+    return config.uplinks.map(uplink => uplink.interface).join(',');
+  }
+
+  /**
+   * Replace an interface's default route(s) with a single route at the given metric
+   */
+  private async setDefaultRoute(interfaceName: string, gateway: string, metric: number) {
+    const { stdout } = await execAsync(`ip -4 route show default dev "${interfaceName}"`);
+    const routes = stdout
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean);
+
+    if (routes.length === 1 && routes[0]?.includes(`metric ${metric}`)) {
+      return;
+    }
+
+    for (const route of routes) {
+      const metricMatch = route.match(/metric (\d+)/);
+      const viaMatch = route.match(/via (\S+)/);
+      await execAsync(
+        `sudo ip route del default${viaMatch ? ` via ${viaMatch[1]}` : ''} dev "${interfaceName}"${
+          metricMatch ? ` metric ${metricMatch[1]}` : ''
+        }`
+      );
+    }
+    await execAsync(
+      `sudo ip route add default via ${gateway} dev "${interfaceName}" metric ${metric}`
+    );
+    this.logger.debug('Default route updated', { interface: interfaceName, gateway, metric });
+  }
+
+  /**
+   * Ping the probe targets through an interface
+   * @returns Round-trip time of the first target that answered, or undefined if none did
+   */
+  private async pingThrough(interfaceName: string, targets: string[]): Promise<number | undefined> {
+    for (const target of targets) {
+      try {
+        const { stdout } = await execFileAsync('ping', [
+          '-c',
+          '1',
+          '-W',
+          '2',
+          '-I',
+          interfaceName,
+          target,
+        ]);
+        const timeMatch = stdout.match(/time[=<]([\d.]+)\s*ms/);
+        return timeMatch?.[1] ? parseFloat(timeMatch[1]) : 0;
+      } catch {
+        // Try the next target
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Read link state, address and gateway of an interface directly from the kernel
+   * (cheaper than NetworkService's full interface details, which include ISP lookups)
+   */
+  private async getLinkInfo(interfaceName: string): Promise<{
+    present: boolean;
+    state: 'up' | 'down' | 'unknown';
+    ipAddress?: string;
+    gateway?: string;
+  }> {
+    let operstate: string;
+    try {
+      operstate = (await readFile(`/sys/class/net/${interfaceName}/operstate`, 'utf8')).trim();
+    } catch {
+      return { present: false, state: 'down' };
+    }
+
+    const [addrResult, routeResult] = await Promise.allSettled([
+      execAsync(`ip -4 -o addr show dev "${interfaceName}"`),
+      execAsync(`ip -4 route show default dev "${interfaceName}"`),
+    ]);
+    const ipAddress =
+      addrResult.status === 'fulfilled'
+        ? addrResult.value.stdout.match(/inet (\d+\.\d+\.\d+\.\d+)/)?.[1]
+        : undefined;
+    const gateway =
+      routeResult.status === 'fulfilled'
+        ? routeResult.value.stdout.match(/via (\d+\.\d+\.\d+\.\d+)/)?.[1]
+        : undefined;
+
+    return {
+      present: true,
+      // Point-to-point links (ppp, wwan) often report "unknown" while passing traffic
+      state: operstate === 'up' || (operstate === 'unknown' && ipAddress) ? 'up' : 'down',
+      ...(ipAddress && { ipAddress }),
+      ...(gateway && { gateway }),
+    };
+  }
+
+  /**
+   * Guess the uplink type of an interface from its name
+   */
+  private guessUplinkType(
+    interfaceName: string,
+    interfaceType: BaseNetworkInterface['type']
+  ): UplinkType {
+    if (this.isCellularInterface(interfaceName)) {
+      return 'cellular';
+    }
+    return interfaceType === 'wifi' ? 'wifi' : 'ethernet';
+  }
+
+  /**
+   * Check whether an interface name belongs to a cellular modem
+   */
+  private isCellularInterface(interfaceName: string): boolean {
+    return /^(wwan|ppp|rmnet|usb|cdc-wdm)/.test(interfaceName);
+  }
+
+  /**
+   * Default configuration used until the operator saves one
+   */
+  private getDefaultConfig(): WanConfig {
+    return {
+      uplinks: [],
+      autoFailover: true,
+      probe: {
+        targets: ['1.1.1.1', '8.8.8.8'],
+        intervalSeconds: 15,
+        failureThreshold: 3,
+        recoveryThreshold: 3,
+      },
+    };
+  }
+
+  /**
+   * Load persisted runtime state
+   */
+  private async getState(): Promise<WanState> {
+    if (!this.state) {
+      this.state = await readJsonState<WanState>(STATE_FILE, { history: [] });
+    }
+    return this.state;
+  }
+
+  /**
+   * Add an entry to the failover history and persist it
+   */
+  private async recordEvent(event: Omit<WanFailoverEvent, 'timestamp'>): Promise<void> {
+    const state = await this.getState();
+    const entry: WanFailoverEvent = { timestamp: new Date().toISOString(), ...event };
+    state.history = [entry, ...state.history].slice(0, this.historyLimit);
+    this.logger.info('Active uplink changed', { ...entry });
+    await this.saveState();
+  }
+
+  /**
+   * Persist runtime state
+   */
+  private async saveState(): Promise<void> {
+    try {
+      await writeJsonState(STATE_FILE, this.state);
+    } catch (error) {
+      this.logger.error('Failed to save WAN state', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
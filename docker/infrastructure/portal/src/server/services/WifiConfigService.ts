@@ -1,11 +1,30 @@
 import { exec } from 'child_process';
 import { readFileSync } from 'fs';
+import { readFile, writeFile } from 'fs/promises';
 import { promisify } from 'util';
 
 import { LoggerFactory, LogLevel } from '@dangerprep/logging';
 
+import { setConfigValues, writeFileAtomic } from '../utils/configFiles';
+
 const execAsync = promisify(exec);
 
+/**
+ * Supported WiFi bands for the hotspot
+ */
+export type WifiBand = '2.4GHz' | '5GHz';
+
+/**
+ * Valid channels per band (20MHz primary channels)
+ */
+export const WIFI_CHANNELS: Record<WifiBand, number[]> = {
+  '2.4GHz': [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14],
+  '5GHz': [
+    36, 40, 44, 48, 52, 56, 60, 64, 100, 104, 108, 112, 116, 120, 124, 128, 132, 136, 140, 144, 149,
+    153, 157, 161, 165,
+  ],
+};
+
 /**
  * WiFi configuration data
  */
@@ -31,9 +50,43 @@ export interface NetworkInfo {
 export interface WifiConfigWithMetadata {
   ssid: string;
   password: string;
+  channel?: number;
+  band?: WifiBand;
   source: 'hostapd' | 'environment' | 'default';
 }
 
+/**
+ * Requested WiFi configuration change - omitted fields keep their current value
+ */
+export interface WifiConfigUpdate {
+  ssid?: string;
+  password?: string;
+  channel?: number;
+  band?: WifiBand;
+}
+
+/**
+ * Outcome of applying a WiFi configuration change
+ */
+export interface WifiConfigUpdateResult {
+  success: boolean;
+  message: string;
+  /** True when hostapd failed to come up and the previous configuration was restored */
+  rolledBack?: boolean;
+  /** Stations associated before the restart and after hostapd came back up */
+  clients?: { before: number; after: number };
+  config?: WifiConfigWithMetadata;
+}
+
+/**
+ * Parsed hostapd values relevant to the WiFi settings
+ */
+interface HostapdWifiValues extends Partial<WifiConfig> {
+  channel?: number;
+  band?: WifiBand;
+  interface?: string;
+}
+
 /**
  * WiFi configuration with network information
  */
@@ -47,6 +100,10 @@ export interface WifiConfigWithNetwork extends WifiConfigWithMetadata {
  */
 export class WifiConfigService {
   private readonly hostapdPath = '/etc/hostapd/hostapd.conf';
+  private readonly hostapdBackupPath = '/etc/hostapd/hostapd.conf.previous';
+  private readonly hostapdStartTimeout = 15000; // 15 seconds
+  private readonly reassociationTimeout = 10000; // 10 seconds
+  private readonly pollInterval = 1000; // 1 second
   private logger = LoggerFactory.createConsoleLogger(
     'WifiConfigService',
     process.env.NODE_ENV === 'development' ? LogLevel.DEBUG : LogLevel.INFO
@@ -104,35 +161,23 @@ export class WifiConfigService {
       hasWifiPassword: !!process.env.WIFI_PASSWORD,
     });
 
-    return { ssid, password, source };
+    return {
+      ssid,
+      password,
+      ...(hostapdConfig.channel !== undefined && { channel: hostapdConfig.channel }),
+      ...(hostapdConfig.band && { band: hostapdConfig.band }),
+      source,
+    };
   }
 
   /**
    * Read WiFi configuration from hostapd.conf
    * @private
    */
-  private readHostapdConfig(): Partial<WifiConfig> {
+  private readHostapdConfig(): HostapdWifiValues {
     try {
       const hostapdContent = readFileSync(this.hostapdPath, 'utf8');
-      const config: Partial<WifiConfig> = {};
-
-      // Parse SSID
-      const ssidMatch = hostapdContent.match(/^ssid=(.+)$/m);
-      if (ssidMatch && ssidMatch[1]) {
-        config.ssid = ssidMatch[1].trim();
-      }
-
-      // Parse password
-      const passwordMatch = hostapdContent.match(/^wpa_passphrase=(.+)$/m);
-      if (passwordMatch && passwordMatch[1]) {
-        config.password = passwordMatch[1].trim();
-      }
-
-      this.logger.debug('Read hostapd config', {
-        hasSsid: !!config.ssid,
-        hasPassword: !!config.password,
-      });
-      return config;
+      return this.parseHostapdValues(hostapdContent);
     } catch (error) {
       // Silently handle missing hostapd configuration - this is expected in development
       if (error instanceof Error && error.message.includes('ENOENT')) {
@@ -151,6 +196,52 @@ export class WifiConfigService {
     }
   }
 
+  /**
+   * Parse the WiFi-related values out of hostapd.conf content
+   * @private
+   */
+  private parseHostapdValues(hostapdContent: string): HostapdWifiValues {
+    const config: HostapdWifiValues = {};
+
+    // Parse SSID
+    const ssidMatch = hostapdContent.match(/^ssid=(.+)$/m);
+    if (ssidMatch && ssidMatch[1]) {
+      config.ssid = ssidMatch[1].trim();
+    }
+
+    // Parse password
+    const passwordMatch = hostapdContent.match(/^wpa_passphrase=(.+)$/m);
+    if (passwordMatch && passwordMatch[1]) {
+      config.password = passwordMatch[1].trim();
+    }
+
+    // Parse channel
+    const channelMatch = hostapdContent.match(/^channel=(\d+)$/m);
+    if (channelMatch && channelMatch[1]) {
+      config.channel = parseInt(channelMatch[1], 10);
+    }
+
+    // Parse band from hw_mode (a = 5GHz, b/g = 2.4GHz)
+    const hwModeMatch = hostapdContent.match(/^hw_mode=(\w+)$/m);
+    if (hwModeMatch && hwModeMatch[1]) {
+      config.band = hwModeMatch[1] === 'a' ? '5GHz' : '2.4GHz';
+    }
+
+    // Parse interface
+    const interfaceMatch = hostapdContent.match(/^interface=(.+)$/m);
+    if (interfaceMatch && interfaceMatch[1]) {
+      config.interface = interfaceMatch[1].trim();
+    }
+
+    this.logger.debug('Read hostapd config', {
+      hasSsid: !!config.ssid,
+      hasPassword: !!config.password,
+      channel: config.channel,
+      band: config.band,
+    });
+    return config;
+  }
+
   /**
    * Get WiFi configuration with network information
    */
@@ -325,16 +416,321 @@ export class WifiConfigService {
   }
 
   /**
-   * Update WiFi configuration (placeholder for future CRUD operations)
-   * @param config - New WiFi configuration
+   * Validate a requested WiFi configuration change
+   * Returns a list of human-readable problems (empty when valid)
    */
-  async updateWifiConfig(_config: Partial<WifiConfig>): Promise<WifiConfig> {
-    // TODO: Implement WiFi configuration update
-    // This would involve:
-    // 1. Validating the new configuration
-    // 2. Updating the hostapd.conf file
-    // 3. Restarting the hostapd service
-    // 4. Returning the updated configuration
-    throw new Error('WiFi configuration update not yet implemented');
+  validateWifiConfigUpdate(update: WifiConfigUpdate): string[] {
+    const errors: string[] = [];
+
+    if (
+      update.ssid === undefined &&
+      update.password === undefined &&
+      update.channel === undefined &&
+      update.band === undefined
+    ) {
+      errors.push('At least one of ssid, password, channel or band must be provided');
+    }
+
+    if (update.ssid !== undefined) {
+      if (typeof update.ssid !== 'string' || update.ssid.length === 0) {
+        errors.push('SSID must be a non-empty string');
+      } else if (Buffer.byteLength(update.ssid, 'utf8') > 32) {
+        errors.push('SSID must be at most 32 bytes');
+      } else if (/\p{Cc}/u.test(update.ssid)) {
+        errors.push('SSID must not contain control characters');
+      } else if (update.ssid !== update.ssid.trim()) {
+        errors.push('SSID must not start or end with whitespace');
+      }
+    }
+
+    if (update.password !== undefined) {
+      if (typeof update.password !== 'string') {
+        errors.push('Passphrase must be a string');
+      } else if (update.password.length < 8 || update.password.length > 63) {
+        // hostapd only takes 8-63 characters as wpa_passphrase, and the QR code needs one
+        errors.push('Passphrase must be 8-63 characters');
+      } else if (!/^[\x20-\x7e]+$/.test(update.password)) {
+        errors.push('Passphrase must only contain printable ASCII characters');
+      }
+    }
+
+    if (update.band !== undefined && !Object.hasOwn(WIFI_CHANNELS, update.band)) {
+      errors.push(`Band must be one of: ${Object.keys(WIFI_CHANNELS).join(', ')}`);
+    }
+
+    if (update.channel !== undefined) {
+      if (!Number.isInteger(update.channel)) {
+        errors.push('Channel must be an integer');
+      } else {
+        const band = update.band ?? this.getBandForChannel(update.channel);
+        if (!band || !WIFI_CHANNELS[band]?.includes(update.channel)) {
+          errors.push(
+            band
+              ? `Channel ${update.channel} is not valid for the ${band} band`
+              : `Channel ${update.channel} is not a supported WiFi channel`
+          );
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Update WiFi configuration
+   * Validates the change and applies it to hostapd.conf with restart and rollback
+   * @param update - Requested WiFi configuration change
+   */
+  async updateWifiConfig(update: WifiConfigUpdate): Promise<WifiConfigUpdateResult> {
+    this.logger.info('WiFi configuration update requested', {
+      ssid: update.ssid,
+      hasPassword: update.password !== undefined,
+      channel: update.channel,
+      band: update.band,
+    });
+
+    const errors = this.validateWifiConfigUpdate(update);
+    if (errors.length > 0) {
+      this.logger.warn('Rejected invalid WiFi configuration', { errors });
+      return { success: false, message: errors.join('; ') };
+    }
+
+    const current = this.readHostapdConfig();
+    const result = await this.applyHostapdSettings(this.buildHostapdSettings(update, current));
+
+    return result.success ? { ...result, config: this.getWifiConfigWithMetadata() } : result;
+  }
+
+  /**
+   * Apply settings to hostapd.conf
+   * Rewrites the file atomically, restarts hostapd and verifies it comes back up.
+   * If hostapd does not come up with the new configuration, the previous file is
+   * restored and hostapd is restarted again.
+   * @param settings - hostapd.conf keys to set
+   */
+  async applyHostapdSettings(settings: Record<string, string>): Promise<WifiConfigUpdateResult> {
+    let previousContent: string;
+    try {
+      previousContent = await readFile(this.hostapdPath, 'utf8');
+    } catch (error) {
+      this.logger.error('Could not read hostapd configuration for update', {
+        path: this.hostapdPath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        success: false,
+        message: `Cannot read hostapd configuration at ${this.hostapdPath}`,
+      };
+    }
+
+    const current = this.parseHostapdValues(previousContent);
+    const nextContent = setConfigValues(previousContent, settings);
+
+    if (nextContent === previousContent) {
+      this.logger.info('hostapd configuration unchanged, skipping restart');
+      return { success: true, message: 'Configuration is already up to date' };
+    }
+
+    const expectedSsid = settings.ssid ?? current.ssid;
+    const clientsBefore = current.interface ? await this.getStationCount(current.interface) : 0;
+
+    try {
+      // Keep a copy of the working configuration for manual recovery
+      await writeFile(this.hostapdBackupPath, previousContent, { mode: 0o600 });
+      await writeFileAtomic(this.hostapdPath, nextContent);
+    } catch (error) {
+      this.logger.error('Failed to write hostapd configuration', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        success: false,
+        message: `Failed to write hostapd configuration: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+
+    const started = await this.restartHostapd(current.interface, expectedSsid);
+
+    if (!started) {
+      this.logger.error('hostapd failed to start with new configuration, rolling back');
+      try {
+        await writeFileAtomic(this.hostapdPath, previousContent);
+        const restored = await this.restartHostapd(current.interface, current.ssid);
+        if (!restored) {
+          this.logger.error('hostapd did not come back up after rollback');
+        }
+      } catch (error) {
+        this.logger.error('Failed to roll back hostapd configuration', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return {
+          success: false,
+          rolledBack: false,
+          message: `hostapd failed to start and rollback failed; previous configuration saved at ${this.hostapdBackupPath}`,
+        };
+      }
+
+      return {
+        success: false,
+        rolledBack: true,
+        message: 'hostapd failed to start with the new configuration; previous settings restored',
+      };
+    }
+
+    const clientsAfter = current.interface
+      ? await this.waitForReassociation(current.interface, clientsBefore)
+      : 0;
+
+    this.logger.info('hostapd configuration applied', {
+      keys: Object.keys(settings),
+      clientsBefore,
+      clientsAfter,
+    });
+
+    return {
+      success: true,
+      message: 'Configuration applied',
+      clients: { before: clientsBefore, after: clientsAfter },
+    };
+  }
+
+  /**
+   * Determine which band a channel belongs to
+   */
+  private getBandForChannel(channel: number): WifiBand | undefined {
+    return (Object.keys(WIFI_CHANNELS) as WifiBand[]).find(band =>
+      WIFI_CHANNELS[band].includes(channel)
+    );
+  }
+
+  /**
+   * Translate a WiFi update into hostapd.conf key/value pairs
+   */
+  private buildHostapdSettings(
+    update: WifiConfigUpdate,
+    current: HostapdWifiValues
+  ): Record<string, string> {
+    const settings: Record<string, string> = {};
+
+    if (update.ssid !== undefined) {
+      settings.ssid = update.ssid;
+    }
+
+    if (update.password !== undefined) {
+      settings.wpa_passphrase = update.password;
+    }
+
+    // Resolve band/channel together so the pair stays consistent
+    const band =
+      update.band ??
+      (update.channel !== undefined ? this.getBandForChannel(update.channel) : undefined);
+
+    if (band) {
+      settings.hw_mode = band === '5GHz' ? 'a' : 'g';
+
+      let channel = update.channel;
+      if (channel === undefined) {
+        // Keep the current channel if it is valid for the new band, otherwise use the first one
+        channel =
+          current.channel !== undefined && WIFI_CHANNELS[band].includes(current.channel)
+            ? current.channel
+            : WIFI_CHANNELS[band][0];
+      }
+      if (channel !== undefined) {
+        settings.channel = String(channel);
+      }
+    }
+
+    return settings;
+  }
+
+  /**
+   * Restart hostapd and wait until the access point is enabled
+   * @returns true if hostapd came up (broadcasting the expected SSID when known)
+   */
+  private async restartHostapd(interfaceName?: string, expectedSsid?: string): Promise<boolean> {
+    try {
+      await execAsync('sudo systemctl restart hostapd');
+    } catch (error) {
+      this.logger.error('Failed to restart hostapd', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+
+    const deadline = Date.now() + this.hostapdStartTimeout;
+    while (Date.now() < deadline) {
+      if (await this.isHostapdEnabled(interfaceName, expectedSsid)) {
+        return true;
+      }
+      await new Promise(resolve => setTimeout(resolve, this.pollInterval));
+    }
+
+    this.logger.warn('Timed out waiting for hostapd to come up', {
+      interface: interfaceName,
+      timeout: `${this.hostapdStartTimeout}ms`,
+    });
+    return false;
+  }
+
+  /**
+   * Check whether hostapd reports the access point as enabled
+   */
+  private async isHostapdEnabled(interfaceName?: string, expectedSsid?: string): Promise<boolean> {
+    try {
+      if (!interfaceName) {
+        const { stdout } = await execAsync('systemctl is-active hostapd');
+        return stdout.trim() === 'active';
+      }
+
+      const { stdout } = await execAsync(`hostapd_cli -i "${interfaceName}" status`);
+      if (!/^state=ENABLED$/m.test(stdout)) {
+        return false;
+      }
+      if (expectedSsid) {
+        const ssidMatch = stdout.match(/^ssid\[0\]=(.*)$/m);
+        return ssidMatch?.[1] === expectedSsid;
+      }
+      return true;
+    } catch {
+      // hostapd_cli fails while the control socket is not up yet
+      return false;
+    }
+  }
+
+  /**
+   * Count associated stations on an interface
+   */
+  private async getStationCount(interfaceName: string): Promise<number> {
+    try {
+      const { stdout } = await execAsync(
+        `iw dev "${interfaceName}" station dump 2>/dev/null | grep -c Station || true`
+      );
+      return parseInt(stdout.trim(), 10) || 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Give previously connected clients a chance to re-associate after a restart
+   * @returns Number of stations associated once the wait finishes
+   */
+  private async waitForReassociation(interfaceName: string, expected: number): Promise<number> {
+    let count = await this.getStationCount(interfaceName);
+    const deadline = Date.now() + this.reassociationTimeout;
+
+    while (count < expected && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, this.pollInterval));
+      count = await this.getStationCount(interfaceName);
+    }
+
+    if (count < expected) {
+      this.logger.warn('Not all clients re-associated after hostapd restart', {
+        interface: interfaceName,
+        before: expected,
+        after: count,
+      });
+    }
+    return count;
   }
 }
@@ -0,0 +1,27 @@
+import { readJsonState } from './stateStore';
+
+/**
+ * Friendly client names, kept apart from ClientManagementService so NetworkService can read
+ * them without importing the service that depends on it
+ */
+
+/**
+ * State file written by ClientManagementService, keyed by lowercase MAC address
+ */
+export const CLIENTS_STATE_FILE = 'clients.json';
+
+/**
+ * Read friendly client names
+ * Used by NetworkService so names replace DHCP hostnames everywhere in the portal
+ */
+export async function readClientNames(): Promise<Map<string, string>> {
+  const state = await readJsonState<{ clients: Record<string, { name?: string }> }>(
+    CLIENTS_STATE_FILE,
+    { clients: {} }
+  );
+  return new Map(
+    Object.entries(state.clients).flatMap(([mac, client]) =>
+      client.name ? [[mac, client.name] as const] : []
+    )
+  );
+}
@@ -0,0 +1,125 @@
+import { open, rename } from 'fs/promises';
+import { basename, dirname, join } from 'path';
+
+/**
+ * Helpers for editing the key=value configuration files the portal manages
+ * (hostapd.conf, dnsmasq.d snippets)
+ */
+
+/**
+ * Atomically replace a file: write a temp file next to it, fsync, then rename over it.
+ * The temp file is hidden so directories read as a whole (dnsmasq's conf-dir) skip it.
+ * @param path - File to replace
+ * @param content - New file content
+ * @param mode - File mode for the new file
+ */
+export async function writeFileAtomic(path: string, content: string, mode = 0o600): Promise<void> {
+  const tempPath = join(dirname(path), `.${basename(path)}.tmp`);
+  const handle = await open(tempPath, 'w', mode);
+  try {
+    await handle.writeFile(content, 'utf8');
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  await rename(tempPath, path);
+}
+
+/**
+ * Get the key of a key=value line, or undefined for blank lines and comments
+ */
+function getLineKey(line: string): string | undefined {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.startsWith('#')) {
+    return undefined;
+  }
+  return trimmed.split('=')[0]?.trim();
+}
+
+/**
+ * Append lines before the trailing newline of a file
+ */
+function appendLines(lines: string[], additions: string[]): string[] {
+  const result = [...lines];
+  const hadTrailingNewline = result[result.length - 1] === '';
+  if (hadTrailingNewline) {
+    result.pop();
+  }
+  result.push(...additions, '');
+  return result;
+}
+
+/**
+ * Replace or append single-valued settings while preserving comments and ordering
+ * @param content - Current file content
+ * @param settings - Keys to set and their new values
+ */
+export function setConfigValues(content: string, settings: Record<string, string>): string {
+  const remaining = new Map(Object.entries(settings));
+  const lines = content.split('\n').map(line => {
+    const key = getLineKey(line);
+    if (key && remaining.has(key)) {
+      const value = remaining.get(key);
+      remaining.delete(key);
+      return `${key}=${value}`;
+    }
+    return line;
+  });
+
+  if (remaining.size === 0) {
+    return lines.join('\n');
+  }
+
+  return appendLines(
+    lines,
+    Array.from(remaining, ([key, value]) => `${key}=${value}`)
+  ).join('\n');
+}
+
+/**
+ * Read all values of a repeatable key (e.g. dnsmasq `dhcp-host`)
+ */
+export function getConfigEntries(content: string, key: string): string[] {
+  return content
+    .split('\n')
+    .filter(line => getLineKey(line) === key)
+    .map(line => line.trim().slice(key.length + 1));
+}
+
+/**
+ * Replace every value of a repeatable key
+ * New entries go where the first existing entry was, after `anchorKey` if there was none,
+ * or at the end of the file.
+ * @param content - Current file content
+ * @param key - Repeatable key to replace
+ * @param values - New values (empty removes the key)
+ * @param anchorKey - Key to insert after when the file has no existing entries
+ */
+export function setConfigEntries(
+  content: string,
+  key: string,
+  values: string[],
+  anchorKey?: string
+): string {
+  const entries = values.map(value => `${key}=${value}`);
+  const lines = content.split('\n');
+  const result: string[] = [];
+  let inserted = false;
+
+  for (const line of lines) {
+    if (getLineKey(line) === key) {
+      if (!inserted) {
+        result.push(...entries);
+        inserted = true;
+      }
+      continue;
+    }
+    result.push(line);
+    if (!inserted && anchorKey && getLineKey(line) === anchorKey) {
+      result.push(...entries);
+      inserted = true;
+    }
+  }
+
+  return inserted ? result.join('\n') : appendLines(result, entries).join('\n');
+}
@@ -0,0 +1,205 @@
+/**
+ * Minimal protobuf wire-format encoder/decoder
+ * Enough to talk to APIs where only a handful of fields are needed and pulling in
+ * generated code and .proto files is not worth it (e.g. the Starlink dish)
+ */
+
+/**
+ * Wire types used by the protobuf encoding
+ */
+export const WireType = {
+  VARINT: 0,
+  FIXED64: 1,
+  LENGTH_DELIMITED: 2,
+  FIXED32: 5,
+} as const;
+
+/**
+ * Decoded field value - numbers for varint, raw bytes for everything else
+ */
+export type ProtoValue =
+  | { wireType: typeof WireType.VARINT; value: bigint }
+  | { wireType: typeof WireType.FIXED64; value: Buffer }
+  | { wireType: typeof WireType.LENGTH_DELIMITED; value: Buffer }
+  | { wireType: typeof WireType.FIXED32; value: Buffer };
+
+/**
+ * Decoded message: field number to every value seen for it (repeated fields keep all values)
+ */
+export type ProtoMessage = Map<number, ProtoValue[]>;
+
+/**
+ * Encode an unsigned varint
+ */
+function encodeVarint(value: number | bigint): Buffer {
+  let remaining = BigInt(value);
+  const bytes: number[] = [];
+  do {
+    let byte = Number(remaining & 0x7fn);
+    remaining >>= 7n;
+    if (remaining > 0n) byte |= 0x80;
+    bytes.push(byte);
+  } while (remaining > 0n);
+  return Buffer.from(bytes);
+}
+
+/**
+ * Encode a field key (field number + wire type)
+ */
+function encodeKey(field: number, wireType: number): Buffer {
+  return encodeVarint((field << 3) | wireType);
+}
+
+/**
+ * Encode a varint field (uint, int, bool, enum)
+ */
+export function encodeVarintField(field: number, value: number | bigint | boolean): Buffer {
+  return Buffer.concat([
+    encodeKey(field, WireType.VARINT),
+    encodeVarint(typeof value === 'boolean' ? Number(value) : value),
+  ]);
+}
+
+/**
+ * Encode a float field (fixed32)
+ */
+export function encodeFloatField(field: number, value: number): Buffer {
+  const bytes = Buffer.alloc(4);
+  bytes.writeFloatLE(value, 0);
+  return Buffer.concat([encodeKey(field, WireType.FIXED32), bytes]);
+}
+
+/**
+ * Encode a length-delimited field (embedded message, string, bytes)
+ */
+export function encodeMessageField(
+  field: number,
+  value: Buffer | string = Buffer.alloc(0)
+): Buffer {
+  const bytes = typeof value === 'string' ? Buffer.from(value, 'utf8') : value;
+  return Buffer.concat([
+    encodeKey(field, WireType.LENGTH_DELIMITED),
+    encodeVarint(bytes.length),
+    bytes,
+  ]);
+}
+
+/**
+ * Decode a protobuf message into its fields
+ * @throws Error if the buffer is not valid protobuf
+ */
+export function decodeMessage(buffer: Buffer): ProtoMessage {
+  const fields: ProtoMessage = new Map();
+  let offset = 0;
+
+  const readVarint = (): bigint => {
+    let result = 0n;
+    let shift = 0n;
+    for (;;) {
+      if (offset >= buffer.length) {
+        throw new Error('Truncated varint');
+      }
+      const byte = buffer[offset++] ?? 0;
+      result |= BigInt(byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) return result;
+      shift += 7n;
+    }
+  };
+
+  const readBytes = (length: number): Buffer => {
+    if (offset + length > buffer.length) {
+      throw new Error('Truncated field');
+    }
+    const bytes = buffer.subarray(offset, offset + length);
+    offset += length;
+    return bytes;
+  };
+
+  while (offset < buffer.length) {
+    const key = Number(readVarint());
+    const field = key >>> 3;
+    const wireType = key & 0x7;
+    let value: ProtoValue;
+
+    switch (wireType) {
+      case WireType.VARINT:
+        value = { wireType, value: readVarint() };
+        break;
+      case WireType.FIXED64:
+        value = { wireType, value: readBytes(8) };
+        break;
+      case WireType.LENGTH_DELIMITED:
+        value = { wireType, value: readBytes(Number(readVarint())) };
+        break;
+      case WireType.FIXED32:
+        value = { wireType, value: readBytes(4) };
+        break;
+      default:
+        throw new Error(`Unsupported wire type ${wireType} for field ${field}`);
+    }
+
+    const values = fields.get(field) ?? [];
+    values.push(value);
+    fields.set(field, values);
+  }
+
+  return fields;
+}
+
+/**
+ * Read helpers for decoded messages - each returns undefined when the field is absent
+ * or has an unexpected wire type, so callers can treat missing and unknown the same way
+ */
+export const proto = {
+  message(message: ProtoMessage, field: number): ProtoMessage | undefined {
+    const value = message.get(field)?.at(-1);
+    return value?.wireType === WireType.LENGTH_DELIMITED ? decodeMessage(value.value) : undefined;
+  },
+
+  string(message: ProtoMessage, field: number): string | undefined {
+    const value = message.get(field)?.at(-1);
+    return value?.wireType === WireType.LENGTH_DELIMITED ? value.value.toString('utf8') : undefined;
+  },
+
+  uint(message: ProtoMessage, field: number): number | undefined {
+    const value = message.get(field)?.at(-1);
+    return value?.wireType === WireType.VARINT ? Number(value.value) : undefined;
+  },
+
+  int(message: ProtoMessage, field: number): number | undefined {
+    const value = message.get(field)?.at(-1);
+    return value?.wireType === WireType.VARINT ? Number(BigInt.asIntN(64, value.value)) : undefined;
+  },
+
+  bool(message: ProtoMessage, field: number): boolean | undefined {
+    const value = message.get(field)?.at(-1);
+    return value?.wireType === WireType.VARINT ? value.value !== 0n : undefined;
+  },
+
+  float(message: ProtoMessage, field: number): number | undefined {
+    const value = message.get(field)?.at(-1);
+    return value?.wireType === WireType.FIXED32 ? value.value.readFloatLE(0) : undefined;
+  },
+
+  double(message: ProtoMessage, field: number): number | undefined {
+    const value = message.get(field)?.at(-1);
+    return value?.wireType === WireType.FIXED64 ? value.value.readDoubleLE(0) : undefined;
+  },
+
+  /**
+   * Read a repeated float field (packed or unpacked)
+   */
+  floats(message: ProtoMessage, field: number): number[] {
+    const result: number[] = [];
+    for (const value of message.get(field) ?? []) {
+      if (value.wireType === WireType.FIXED32) {
+        result.push(value.value.readFloatLE(0));
+      } else if (value.wireType === WireType.LENGTH_DELIMITED) {
+        for (let offset = 0; offset + 4 <= value.value.length; offset += 4) {
+          result.push(value.value.readFloatLE(offset));
+        }
+      }
+    }
+    return result;
+  },
+};
@@ -0,0 +1,56 @@
+import { readFileSync } from 'fs';
+import { mkdir, readFile } from 'fs/promises';
+import { dirname, join } from 'path';
+
+import { writeFileAtomic } from './configFiles';
+
+/**
+ * Helpers for the JSON state files the portal keeps between restarts
+ * (WAN priorities, failover history, ...). Files live in PORTAL_DATA_DIR.
+ */
+
+const DEFAULT_DATA_DIR = '/var/lib/dangerprep/portal';
+
+/**
+ * Resolve the path of a state file in the portal data directory
+ */
+export function getDataPath(name: string): string {
+  return join(process.env.PORTAL_DATA_DIR || DEFAULT_DATA_DIR, name);
+}
+
+/**
+ * Read a JSON state file
+ * @param name - File name inside the data directory
+ * @param fallback - Value returned when the file is missing or unreadable
+ */
+export async function readJsonState<T>(name: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await readFile(getDataPath(name), 'utf8')) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Read a JSON state file synchronously, for callers that cannot be async
+ * @param name - File name inside the data directory
+ * @param fallback - Value returned when the file is missing or unreadable
+ */
+export function readJsonStateSync<T>(name: string, fallback: T): T {
+  try {
+    return JSON.parse(readFileSync(getDataPath(name), 'utf8')) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Atomically write a JSON state file, creating the data directory if needed
+ * @param name - File name inside the data directory
+ * @param data - JSON-serializable value
+ */
+export async function writeJsonState(name: string, data: unknown): Promise<void> {
+  const path = getDataPath(name);
+  await mkdir(dirname(path), { recursive: true });
+  await writeFileAtomic(path, `${JSON.stringify(data, null, 2)}\n`, 0o644);
+}
@@ -2,6 +2,17 @@
  * Service type definitions
  */
 
+/**
+ * Container state shown for a service
+ */
+export type ServiceState =
+  | 'running'
+  | 'starting'
+  | 'unhealthy'
+  | 'restarting'
+  | 'paused'
+  | 'stopped';
+
 /**
  * Service metadata from the API
  */
@@ -12,5 +23,9 @@ export interface ServiceMetadata {
   url?: string;
   type: 'public' | 'private' | 'maintenance';
   status: 'healthy' | 'warning' | 'error';
+  state?: ServiceState;
+  health?: 'healthy' | 'unhealthy' | 'starting';
+  restartCount?: number;
+  startedAt?: string;
   version?: string;
 }
@@ -49,6 +49,7 @@ export const COLORS = {
     clients: 'var(--wa-color-pink-50)', // Pink - Connected clients/users
     qrcode: 'var(--wa-color-yellow-60)', // Indigo (bright) - QR code (distinct from Tailscale purple)
     settings: 'var(--wa-color-gray-50)', // Gray - Settings (neutral, distinct from blue brand)
+    sync: 'var(--wa-color-blue-40)', // Blue (dark) - Content sync services
   },
 
   /** UI element colors */
@@ -374,6 +375,12 @@ export const ICON_STYLES = {
     primaryOpacity: OPACITIES.full,
     secondaryOpacity: OPACITIES.high,
   },
+  /** Sync - Dark blue for content synchronization */
+  sync: {
+    primaryColor: COLORS.feature.sync,
+    primaryOpacity: OPACITIES.high,
+    secondaryOpacity: OPACITIES.medium,
+  },
 } as const;
 
 /**
@@ -48,6 +48,24 @@ export function formatLatency(ms: number | undefined): string {
   return `${ms.toFixed(2)}ms`;
 }
 
+/**
+ * Format a bit rate in bits per second
+ */
+export function formatBitrate(bps: number | undefined): string {
+  if (bps === undefined || bps === null) return 'N/A';
+
+  const units = ['bps', 'Kbps', 'Mbps', 'Gbps'];
+  let rate = bps;
+  let unitIndex = 0;
+
+  while (rate >= 1000 && unitIndex < units.length - 1) {
+    rate /= 1000;
+    unitIndex++;
+  }
+
+  return `${rate.toFixed(1)} ${units[unitIndex]}`;
+}
+
 /**
  * Format packet loss percentage
  */
@@ -1,10 +1,19 @@
+import { promises as fs } from 'fs';
 import path from 'path';
 
 import { z } from '@dangerprep/configuration';
-import { ensureDirectoryAdvanced, createDirectoryPath } from '@dangerprep/files';
+import {
+  ensureDirectoryAdvanced,
+  createDirectoryPath,
+  formatSize,
+  getDirectorySize,
+  parseSize,
+} from '@dangerprep/files';
 import { NotificationType, NotificationLevel } from '@dangerprep/notifications';
 import { AdvancedAsyncPatterns } from '@dangerprep/service';
 import {
+  PeerContentFile,
+  PeerManifestItem,
   StandardizedSyncService,
   ServicePatterns,
   StandardizedServiceConfig,
@@ -13,9 +22,15 @@ import {
 import { ZimDownloader } from './services/downloader';
 import { LibraryManager } from './services/library';
 import { ZimUpdater } from './services/updater';
-import type { KiwixConfig, ZimPackage } from './types';
+import type { CatalogPage, CatalogQuery, KiwixConfig, UpdatePlan, ZimPackage } from './types';
 import { KiwixConfigSchema } from './types';
 
+// Package a shared ZIM file belongs to: wikipedia_en_all_maxi_2024-01.zim -> wikipedia_en_all_maxi
+const toPackageName = (file: string): string => file.replace(/(_\d{4}-\d{2}(-\d{2})?)?\.zim$/, '');
+
+// Manifests come from other units, so only plain ZIM file names are used as paths
+const PEER_ZIM_ID = /^[\w.-]+\.zim$/;
+
 export class KiwixManager extends StandardizedSyncService<KiwixConfig> {
   private zimUpdater!: ZimUpdater;
   private zimDownloader!: ZimDownloader;
@@ -61,10 +76,22 @@ export class KiwixManager extends StandardizedSyncService<KiwixConfig> {
 
   protected async startServiceComponents(): Promise<void> {
     this.scheduleUpdates();
+    await this.zimDownloader.recoverInstalls();
     await this.libraryManager.updateLibrary();
+    await this.resumePartialDownloads();
     this.getLogger().info('Kiwix sync service started successfully');
   }
 
+  /**
+   * Pick up downloads a restart interrupted, in the background
+   */
+  private async resumePartialDownloads(): Promise<void> {
+    for (const packageName of await this.zimDownloader.listPartialDownloads()) {
+      this.getLogger().info(`Resuming interrupted download of ${packageName}`);
+      void this.runZimOperation(`zim-download-${Date.now()}`, packageName);
+    }
+  }
+
   protected async stopServiceComponents(): Promise<void> {
     this.getLogger().info('Kiwix sync service stopped');
   }
@@ -85,8 +112,8 @@ export class KiwixManager extends StandardizedSyncService<KiwixConfig> {
 
   private async initializeServices(): Promise<void> {
     const config = this.getConfig();
-    this.zimUpdater = new ZimUpdater(config, this.components.logger);
     this.zimDownloader = new ZimDownloader(config, this.components.logger);
+    this.zimUpdater = new ZimUpdater(config, this.components.logger, this.zimDownloader);
     this.libraryManager = new LibraryManager(config, this.components.logger);
   }
 
@@ -124,7 +151,7 @@ export class KiwixManager extends StandardizedSyncService<KiwixConfig> {
       'zim-updates',
       schedulerConfig.update_schedule,
       async () => {
-        await this.updateAllZimPackages();
+        await this.runZimOperation(`zim-update-${Date.now()}`);
       },
       {
         name: 'ZIM Updates',
@@ -243,8 +270,16 @@ export class KiwixManager extends StandardizedSyncService<KiwixConfig> {
     }
   }
 
-  async listAvailablePackages(): Promise<ZimPackage[]> {
-    return await this.zimDownloader.listAvailablePackages();
+  async listAvailablePackages(query: CatalogQuery = {}): Promise<ZimPackage[]> {
+    return await this.zimDownloader.listAvailablePackages(query);
+  }
+
+  async searchCatalog(query: CatalogQuery, start?: number, count?: number): Promise<CatalogPage> {
+    return await this.zimDownloader.searchCatalog(query, start, count);
+  }
+
+  async mirrorCatalog(): Promise<number> {
+    return await this.zimDownloader.mirrorCatalog();
   }
 
   async listInstalledPackages(): Promise<ZimPackage[]> {
@@ -255,6 +290,10 @@ export class KiwixManager extends StandardizedSyncService<KiwixConfig> {
     return await this.zimUpdater.getUpdateStatus();
   }
 
+  async planUpdates(): Promise<UpdatePlan> {
+    return await this.zimUpdater.planUpdates();
+  }
+
   async getLibraryStats(): Promise<{
     totalPackages: number;
     totalSize: string;
@@ -267,6 +306,98 @@ export class KiwixManager extends StandardizedSyncService<KiwixConfig> {
     await this.libraryManager.updateLibrary();
   }
 
+  public override async getContentStorageStats(): Promise<Record<string, unknown>> {
+    return { kiwix: await this.getLibraryStats() };
+  }
+
+  /**
+   * Installed ZIM files, shared with other units under their file names
+   */
+  protected override async listPeerContent(): Promise<PeerContentFile[]> {
+    const packages = await this.libraryManager.listInstalledPackages();
+    return packages.flatMap(pkg =>
+      pkg.path ? [{ id: path.basename(pkg.path), contentType: 'zim', path: pkg.path }] : []
+    );
+  }
+
+  /**
+   * Pull packages another unit has that are not installed or downloading here, while they fit
+   */
+  protected override async getPeerDownloadPath(item: PeerManifestItem): Promise<string | null> {
+    if (item.contentType !== 'zim') {
+      return null;
+    }
+    if (!PEER_ZIM_ID.test(item.id)) {
+      this.getLogger().warn(`Ignoring peer file with an invalid ZIM name: ${item.id}`);
+      return null;
+    }
+
+    const packageName = toPackageName(item.id);
+    const storage = this.getConfig().kiwix_manager.storage;
+    const installed = (await fs.readdir(storage.zim_directory))
+      .filter(file => file.endsWith('.zim'))
+      .map(toPackageName);
+    if (
+      installed.includes(packageName) ||
+      (await this.zimDownloader.listPartialDownloads()).includes(packageName)
+    ) {
+      return null;
+    }
+
+    const usedBytes = await getDirectorySize(storage.zim_directory);
+    if (usedBytes + item.size > parseSize(storage.max_total_size)) {
+      this.getLogger().info(
+        `Not pulling ${packageName} from peers: ${formatSize(item.size)} does not fit`
+      );
+      return null;
+    }
+    return this.zimDownloader.getPeerDownloadPath(packageName);
+  }
+
+  protected override async acceptPeerDownload(
+    item: PeerManifestItem,
+    downloadPath: string
+  ): Promise<void> {
+    if (!PEER_ZIM_ID.test(item.id)) {
+      throw new Error(`Invalid ZIM name from peer: ${item.id}`);
+    }
+
+    const packageName = toPackageName(item.id);
+    if (!(await this.zimDownloader.installFromPeer(packageName, downloadPath))) {
+      throw new Error(`Failed to install ${packageName}`);
+    }
+  }
+
+  /**
+   * Download a package (target) or update all installed packages in the background
+   */
+  public override async triggerManualSync(target?: string): Promise<string | null> {
+    const operationId = `${target ? 'zim-download' : 'zim-update'}-${Date.now()}`;
+    void this.runZimOperation(operationId, target);
+    return operationId;
+  }
+
+  /**
+   * Run a package download or full update as a tracked operation so it shows up in the
+   * operations list and recent history
+   */
+  private async runZimOperation(operationId: string, packageName?: string): Promise<void> {
+    await this.executeOperation(
+      operationId,
+      packageName ? 'zim-download' : 'zim-update',
+      async () => {
+        if (!packageName) {
+          return this.updateAllZimPackages();
+        }
+        if (!(await this.downloadPackage(packageName))) {
+          throw new Error(`Failed to download ${packageName}`);
+        }
+        return true;
+      },
+      { ...(packageName && { metadata: { packageName } }) }
+    );
+  }
+
   private async cleanupOldFiles(): Promise<void> {
     try {
       await this.zimUpdater.cleanupOldVersions();
@@ -307,14 +438,25 @@ const factory = ServicePatterns.createStandardServiceFactory({
   additionalCommands: [
     {
       name: 'list-available',
-      description: 'List available ZIM packages',
+      description: 'List available ZIM packages from the Kiwix catalog',
       options: [
         { flags: '-f, --filter <filter>', description: 'Filter packages by name' },
+        { flags: '-s, --search <text>', description: 'Search titles and descriptions' },
+        { flags: '-l, --lang <language>', description: 'ISO 639-3 language code, e.g. eng' },
+        { flags: '-c, --category <category>', description: 'Catalog category, e.g. wikipedia' },
+        { flags: '-t, --tag <tag>', description: 'Catalog tag' },
+        { flags: '--flavour <flavour>', description: 'Package flavour (maxi, nopic, mini)' },
         { flags: '--json', description: 'Output as JSON' },
       ],
       action: async (_args, options, service) => {
         const manager = service as KiwixManager;
-        const packages = await manager.listAvailablePackages();
+        const packages = await manager.listAvailablePackages({
+          ...(options.search && { search: options.search }),
+          ...(options.lang && { language: options.lang }),
+          ...(options.category && { category: options.category }),
+          ...(options.tag && { tag: options.tag }),
+          ...(options.flavour && { flavour: options.flavour }),
+        });
         const filtered = options.filter
           ? packages.filter((pkg: ZimPackage) =>
               pkg.name.toLowerCase().includes(options.filter.toLowerCase())
@@ -334,6 +476,19 @@ const factory = ServicePatterns.createStandardServiceFactory({
         }
       },
     },
+    {
+      name: 'mirror-catalog',
+      description: 'Save the Kiwix catalog to api.catalog_file for offline browsing',
+      action: async (_args, _options, service) => {
+        const manager = service as KiwixManager;
+
+        // eslint-disable-next-line no-console
+        console.log('🔄 Mirroring Kiwix catalog...');
+        const entries = await manager.mirrorCatalog();
+        // eslint-disable-next-line no-console
+        console.log(`✅ Saved ${entries} catalog entries`);
+      },
+    },
     {
       name: 'list-installed',
       description: 'List installed ZIM packages',
@@ -378,6 +533,44 @@ const factory = ServicePatterns.createStandardServiceFactory({
         }
       },
     },
+    {
+      name: 'plan-updates',
+      description: 'Show what update-all would do and its net disk usage change',
+      options: [{ flags: '--json', description: 'Output as JSON' }],
+      action: async (_args, options, service) => {
+        const manager = service as KiwixManager;
+        const plan = await manager.planUpdates();
+
+        if (options.json) {
+          // eslint-disable-next-line no-console
+          console.log(JSON.stringify(plan, null, 2));
+          return;
+        }
+
+        const signed = (bytes: number): string =>
+          `${bytes < 0 ? '-' : '+'}${formatSize(Math.abs(bytes))}`;
+
+        // eslint-disable-next-line no-console
+        console.log('📋 Update Plan:');
+        plan.items.forEach(item => {
+          const versions = `${item.installedVersion ?? '?'} → ${item.availableVersion ?? '?'}`;
+          const detail =
+            item.action === 'update' || item.action === 'downgrade'
+              ? `${versions}, ${signed(item.deltaBytes)}`
+              : (item.reason ?? versions);
+          // eslint-disable-next-line no-console
+          console.log(`   ${item.action.padEnd(9)} ${item.target ?? item.packageName} (${detail})`);
+        });
+        // eslint-disable-next-line no-console
+        console.log(
+          `   Uplink: ${plan.uplink ? `${plan.uplink.interface} (${plan.uplink.type}, ${plan.uplink.metered ? 'metered' : 'unmetered'})` : 'unknown'}`
+        );
+        // eslint-disable-next-line no-console
+        console.log(
+          `   Disk: ${formatSize(plan.usedBytes)} ${signed(plan.netDeltaBytes)} of ${formatSize(plan.maxBytes)}`
+        );
+      },
+    },
     {
       name: 'update-all',
       description: 'Update all existing ZIM packages',
@@ -0,0 +1,228 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import { ensureDirectory, fileExists, formatSize } from '@dangerprep/files';
+import type { Logger } from '@dangerprep/logging';
+import axios from 'axios';
+import { XMLParser } from 'fast-xml-parser';
+
+import type {
+  CatalogPage,
+  CatalogQuery,
+  KiwixConfig,
+  OpdsEntryXML,
+  OpdsFeedXML,
+  OpdsLinkXML,
+  ZimPackage,
+} from '../types';
+
+// Entries requested per page when walking the whole catalog
+const PAGE_SIZE = 200;
+
+// Stops a catalog that never reports its total from being paged forever
+const MAX_PAGES = 100;
+
+const ACQUISITION_REL = 'http://opds-spec.org/acquisition/open-access';
+const METALINK_SUFFIX = '.meta4';
+
+// Release of a ZIM file, from the end of its file name: wikipedia_en_all_maxi_2024-01.zim
+export const VERSION_PATTERN = /_(\d{4}-\d{2})\.zim$/;
+
+// Package variants Kiwix publishes, appended to the book name in file names
+export const ZIM_FLAVOURS = ['maxi', 'nopic', 'mini', 'novid'] as const;
+
+/**
+ * Client for the Kiwix OPDS catalog (library.kiwix.org/catalog/v2)
+ *
+ * Filters and search are sent to the catalog server. When it cannot be reached, the feed
+ * saved by `mirror` to catalog_file is searched instead, applying the same filters locally.
+ */
+export class OpdsCatalog {
+  private config: KiwixConfig['kiwix_manager']['api'];
+  private logger: Logger;
+  private parser: XMLParser;
+
+  constructor(config: KiwixConfig, logger: Logger) {
+    this.config = config.kiwix_manager.api;
+    this.logger = logger;
+    this.parser = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: '@_',
+      removeNSPrefix: true,
+      parseTagValue: false,
+      isArray: name => name === 'entry' || name === 'link',
+    });
+  }
+
+  /**
+   * One page of packages matching query
+   */
+  async search(query: CatalogQuery = {}, start = 0, count = PAGE_SIZE): Promise<CatalogPage> {
+    try {
+      const feed = this.parseFeed(await this.fetch({ ...this.toParams(query), start, count }));
+      const packages = this.filter(
+        (feed.entry ?? []).map(entry => this.toPackage(entry)),
+        {
+          ...(query.flavour && { flavour: query.flavour }),
+        }
+      );
+
+      return {
+        packages,
+        totalResults: parseInt(feed.totalResults ?? '', 10) || (feed.entry?.length ?? 0),
+        startIndex: parseInt(feed.startIndex ?? '', 10) || start,
+        offline: false,
+      };
+    } catch (error) {
+      if (!this.config.catalog_file || !(await fileExists(this.config.catalog_file))) {
+        throw error;
+      }
+
+      this.logger.warn(`Catalog unreachable, searching ${this.config.catalog_file}: ${error}`);
+      const packages = this.filter(await this.readMirror(), query);
+      return {
+        packages: packages.slice(start, start + count),
+        totalResults: packages.length,
+        startIndex: start,
+        offline: true,
+      };
+    }
+  }
+
+  /**
+   * Every package matching query, following the catalog's pagination
+   */
+  async list(query: CatalogQuery = {}): Promise<ZimPackage[]> {
+    const packages: ZimPackage[] = [];
+    let start = 0;
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const result = await this.search(query, start, PAGE_SIZE);
+      packages.push(...result.packages);
+
+      start = result.startIndex + PAGE_SIZE;
+      if (result.offline || start >= result.totalResults) {
+        break;
+      }
+    }
+    return packages;
+  }
+
+  /**
+   * Look up a package by the name it is stored under, e.g. wikipedia_en_medicine_maxi
+   */
+  async find(packageName: string): Promise<ZimPackage | null> {
+    const flavour = ZIM_FLAVOURS.find(candidate => packageName.endsWith(`_${candidate}`));
+    const name = flavour ? packageName.slice(0, -(flavour.length + 1)) : packageName;
+
+    const packages = await this.list({ name });
+    return packages.find(pkg => pkg.name === packageName) ?? null;
+  }
+
+  /**
+   * Save the whole catalog to catalog_file so it can be browsed offline; returns the number
+   * of entries saved
+   */
+  async mirror(): Promise<number> {
+    if (!this.config.catalog_file) {
+      throw new Error('api.catalog_file is not configured');
+    }
+
+    const { totalResults } = await this.search({}, 0, 1);
+    const xml = await this.fetch({ start: 0, count: totalResults });
+
+    const entries = this.parseFeed(xml).entry?.length ?? 0;
+    await ensureDirectory(path.dirname(this.config.catalog_file));
+    await fs.writeFile(this.config.catalog_file, xml, 'utf8');
+
+    this.logger.info(`Mirrored ${entries} catalog entries to ${this.config.catalog_file}`);
+    return entries;
+  }
+
+  private async fetch(params: Record<string, string | number>): Promise<string> {
+    const response = await axios.get<string>(this.config.catalog_url, {
+      params,
+      timeout: this.config.timeout,
+      responseType: 'text',
+      headers: { 'User-Agent': 'DangerPrep-Kiwix-Manager/1.0' },
+    });
+    return response.data;
+  }
+
+  private async readMirror(): Promise<ZimPackage[]> {
+    const xml = await fs.readFile(this.config.catalog_file ?? '', 'utf8');
+    return (this.parseFeed(xml).entry ?? []).map(entry => this.toPackage(entry));
+  }
+
+  private parseFeed(xml: string): OpdsFeedXML {
+    const parsed = this.parser.parse(xml) as { feed?: OpdsFeedXML };
+    if (!parsed.feed) {
+      throw new Error('Catalog response is not an OPDS feed');
+    }
+    return parsed.feed;
+  }
+
+  // Query parameters of the catalog/v2 entries endpoint
+  private toParams(query: CatalogQuery): Record<string, string> {
+    return {
+      ...(query.search && { q: query.search }),
+      ...(query.name && { name: query.name }),
+      ...(query.language && { lang: query.language }),
+      ...(query.category && { category: query.category }),
+      ...(query.tag && { tag: query.tag }),
+    };
+  }
+
+  // The same filters as the catalog server, for searching the mirrored catalog
+  private filter(packages: ZimPackage[], query: CatalogQuery): ZimPackage[] {
+    const search = query.search?.toLowerCase();
+
+    return packages.filter(
+      pkg =>
+        (!query.flavour || pkg.flavour === query.flavour) &&
+        (!query.name || pkg.name === query.name || pkg.name.startsWith(`${query.name}_`)) &&
+        (!query.language || (pkg.language ?? '').split(',').includes(query.language)) &&
+        (!query.category || pkg.category === query.category) &&
+        (!query.tag || (pkg.tags ?? '').split(';').includes(query.tag)) &&
+        (!search ||
+          [pkg.name, pkg.title, pkg.description].some(text => text.toLowerCase().includes(search)))
+    );
+  }
+
+  private toPackage(entry: OpdsEntryXML): ZimPackage {
+    const links = entry.link ?? [];
+    const acquisition = links.find(link => link['@_rel'] === ACQUISITION_REL);
+    const href = acquisition && this.resolveLink(acquisition);
+
+    // The catalog links to a Metalink listing the mirrors and checksums of the ZIM file
+    const metalinkUrl = href?.endsWith(METALINK_SUFFIX) ? href : undefined;
+    const url = metalinkUrl ? href?.slice(0, -METALINK_SUFFIX.length) : href;
+    const sizeBytes = parseInt(acquisition?.['@_length'] ?? '', 10) || 0;
+
+    const name = entry.name ?? entry.id ?? '';
+    const version = url?.match(VERSION_PATTERN)?.[1];
+    return {
+      name: entry.flavour ? `${name}_${entry.flavour}` : name,
+      title: entry.title ?? name,
+      description: entry.summary ?? '',
+      size: formatSize(sizeBytes),
+      date: entry.issued ?? entry.updated ?? '',
+      ...(version && { version }),
+      ...(url && { url, checksumUrl: `${url}.sha256` }),
+      ...(metalinkUrl && { metalinkUrl }),
+      ...(entry.id && { id: entry.id.replace(/^urn:uuid:/, '') }),
+      sizeBytes,
+      ...(entry.language && { language: entry.language }),
+      ...(entry.category && { category: entry.category }),
+      ...(entry.tags && { tags: entry.tags }),
+      ...(entry.flavour && { flavour: entry.flavour }),
+      articleCount: parseInt(entry.articleCount ?? '', 10) || 0,
+      mediaCount: parseInt(entry.mediaCount ?? '', 10) || 0,
+    };
+  }
+
+  private resolveLink(link: OpdsLinkXML): string | undefined {
+    const href = link['@_href'];
+    return href ? new URL(href, this.config.base_url).toString() : undefined;
+  }
+}
@@ -1,6 +1,8 @@
 import { spawn } from 'child_process';
-import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
 import path from 'path';
+import { pipeline } from 'stream/promises';
 
 import {
   ensureDirectory,
@@ -8,41 +10,62 @@ import {
   formatSize,
   getDirectorySize,
   parseSize,
-  moveFile,
 } from '@dangerprep/files';
 import type { Logger } from '@dangerprep/logging';
 import axios from 'axios';
+import { XMLParser } from 'fast-xml-parser';
 
-import type { KiwixConfig, ZimPackage } from '../types';
+import type {
+  CatalogPage,
+  CatalogQuery,
+  KiwixConfig,
+  PartialDownload,
+  PublishedChecksum,
+  ZimPackage,
+} from '../types';
+
+import { OpdsCatalog } from './catalog';
+import { ZimInstaller } from './installer';
+import { ZimReader } from './zim-reader';
+
+// Written next to a partial download in temp_directory
+const PARTIAL_MANIFEST_SUFFIX = '.download.json';
+
+// Package pulled from another unit into temp_directory
+const PEER_DOWNLOAD_SUFFIX = '.peer';
+
+// Metalink hash types, strongest first
+const METALINK_HASH_TYPES: Array<[string, PublishedChecksum['algorithm']]> = [
+  ['sha-256', 'sha256'],
+  ['md5', 'md5'],
+];
 
 export class ZimDownloader {
   private config: KiwixConfig['kiwix_manager'];
   private logger: Logger;
+  private catalog: OpdsCatalog;
+  private installer: ZimInstaller;
+  private metalinkParser: XMLParser;
 
   constructor(config: KiwixConfig, logger: Logger) {
     this.config = config.kiwix_manager;
     this.logger = logger;
+    this.catalog = new OpdsCatalog(config, logger);
+    this.installer = new ZimInstaller(config, logger);
+    this.metalinkParser = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: '@_',
+      removeNSPrefix: true,
+      parseTagValue: false,
+      isArray: name => name === 'file' || name === 'hash',
+    });
   }
 
-  async listAvailablePackages(): Promise<ZimPackage[]> {
+  async listAvailablePackages(query: CatalogQuery = {}): Promise<ZimPackage[]> {
     try {
       this.logger.info('Fetching available ZIM packages from Kiwix library');
 
-      const response = await axios.get(this.config.api.catalog_url, {
-        timeout: this.config.api.timeout,
-        headers: {
-          'User-Agent': 'DangerPrep-Kiwix-Manager/1.0',
-        },
-      });
-
-      const packages: ZimPackage[] = response.data.map((entry: Record<string, unknown>) => ({
-        name: (entry.name as string) || (entry.id as string),
-        title: entry.title as string,
-        description: entry.description as string,
-        size: formatSize(typeof entry.size === 'number' ? entry.size : 0),
-        date: entry.date as string,
-        url: entry.url as string,
-      }));
+      const packages = await this.catalog.list(query);
 
       this.logger.info(`Found ${packages.length} available ZIM packages`);
       return packages;
@@ -56,10 +79,12 @@ export class ZimDownloader {
     try {
       this.logger.info(`Starting download of package: ${packageName}`);
 
-      const availablePackages = await this.listAvailablePackages();
-      const packageInfo = availablePackages.find(pkg => pkg.name === packageName);
+      const packageInfo = await this.getPackageInfo(packageName);
+      let partial = await this.readPartial(packageName);
 
-      if (!packageInfo?.url) {
+      // An interrupted download can still be finished while the catalog is unreachable
+      const url = packageInfo?.url ?? partial?.url;
+      if (!url) {
         this.logger.error(`Package not found or no download URL: ${packageName}`);
         return false;
       }
@@ -77,25 +102,236 @@ export class ZimDownloader {
         return false;
       }
 
-      const tempFilePath = path.join(this.config.storage.temp_directory, `${packageName}.zim`);
-      const finalFilePath = path.join(this.config.storage.zim_directory, `${packageName}.zim`);
-
-      const success = await this.downloadWithAria2(packageInfo.url, tempFilePath);
-
-      if (success) {
-        await moveFile(tempFilePath, finalFilePath);
-        this.logger.info(`Successfully downloaded ${packageName}`);
-        return true;
+      if (partial && partial.url !== url) {
+        this.logger.info(`A newer ${packageName} was published; discarding the partial download`);
+        await this.discardPartial(packageName);
+        partial = null;
+      }
+      if (partial) {
+        this.logger.info(`Resuming download of ${packageName} started ${partial.startedAt}`);
       } else {
+        const checksum = packageInfo && (await this.fetchPublishedChecksum(packageInfo));
+        partial = {
+          packageName,
+          url,
+          ...(packageInfo?.sizeBytes && { sizeBytes: packageInfo.sizeBytes }),
+          ...(checksum && { checksum }),
+          startedAt: new Date().toISOString(),
+        };
+        await fs.writeFile(this.getPartialPaths(packageName).manifest, JSON.stringify(partial));
+      }
+
+      // A failed download is kept, and aria2c picks it up where it stopped next time
+      const { file: tempFilePath } = this.getPartialPaths(packageName);
+      if (!(await this.downloadWithAria2(url, tempFilePath))) {
         this.logger.error(`Failed to download ${packageName}`);
         return false;
       }
+
+      const uuid = await this.verifyDownload(packageName, tempFilePath, partial.checksum);
+      if (!uuid) {
+        await this.discardPartial(packageName);
+        return false;
+      }
+
+      const installed = await this.installer.install(packageName, tempFilePath, uuid);
+      await this.discardPartial(packageName);
+      if (installed) {
+        this.logger.info(`Successfully downloaded ${packageName}`);
+      }
+      return installed;
     } catch (error) {
       this.logger.error(`Error downloading package ${packageName}: ${error}`);
       return false;
     }
   }
 
+  /**
+   * Names of packages with an interrupted download that can be resumed
+   */
+  async listPartialDownloads(): Promise<string[]> {
+    const tempDir = this.config.storage.temp_directory;
+    if (!(await fileExists(tempDir))) {
+      return [];
+    }
+
+    return (await fs.readdir(tempDir))
+      .filter(file => file.endsWith(`.zim${PARTIAL_MANIFEST_SUFFIX}`))
+      .map(file => file.slice(0, -`.zim${PARTIAL_MANIFEST_SUFFIX}`.length));
+  }
+
+  /**
+   * Whether a temp file belongs to a partial download that is still worth resuming
+   */
+  async isResumable(tempFile: string): Promise<boolean> {
+    const packageName = tempFile.replace(/\.zim(\.aria2|\.download\.json|\.peer)?$/, '');
+    if (this.installer.isInstalling(packageName)) {
+      return true;
+    }
+
+    const retentionMs = this.config.download.partial_retention_days * 24 * 60 * 60 * 1000;
+
+    // Pulls from peers are resumed by the transfer engine, so only their age is known here
+    if (tempFile.endsWith(PEER_DOWNLOAD_SUFFIX)) {
+      const stats = await fs.stat(path.join(this.config.storage.temp_directory, tempFile));
+      return Date.now() - stats.mtimeMs < retentionMs;
+    }
+
+    const partial = await this.readPartial(packageName);
+    return !!partial && Date.now() - new Date(partial.startedAt).getTime() < retentionMs;
+  }
+
+  /**
+   * Where a package pulled from another unit is downloaded to
+   */
+  getPeerDownloadPath(packageName: string): string {
+    return path.join(
+      this.config.storage.temp_directory,
+      `${packageName}.zim${PEER_DOWNLOAD_SUFFIX}`
+    );
+  }
+
+  /**
+   * Install a package pulled from another unit; its SHA-256 was already checked against the
+   * peer's manifest, so only the ZIM structure is validated here
+   */
+  async installFromPeer(packageName: string, filePath: string): Promise<boolean> {
+    const validation = await ZimReader.validate(filePath);
+    if (!validation.valid || !validation.header) {
+      this.logger.error(`${packageName} from a peer is not a valid ZIM file: ${validation.error}`);
+      await fs.unlink(filePath).catch(() => undefined);
+      return false;
+    }
+
+    return await this.installer.install(packageName, filePath, validation.header.uuid);
+  }
+
+  async recoverInstalls(): Promise<void> {
+    await this.installer.recover();
+  }
+
+  /**
+   * Check a finished download against its published checksum, or the MD5 stored in the ZIM
+   * file when none was published; returns the book's uuid when it is intact
+   */
+  private async verifyDownload(
+    packageName: string,
+    filePath: string,
+    checksum: PublishedChecksum | undefined
+  ): Promise<string | null> {
+    if (checksum) {
+      this.logger.info(`Verifying ${packageName} against its published ${checksum.algorithm}`);
+      const actual = await this.hashFile(filePath, checksum.algorithm);
+      if (actual !== checksum.value) {
+        this.logger.error(
+          `Downloaded ${packageName} does not match its published ${checksum.algorithm} checksum`
+        );
+        return null;
+      }
+    }
+
+    const validation = await ZimReader.validate(filePath, { checksum: !checksum });
+    if (!validation.valid || !validation.header) {
+      this.logger.error(`Downloaded ${packageName} is not a valid ZIM file: ${validation.error}`);
+      return null;
+    }
+    return validation.header.uuid;
+  }
+
+  /**
+   * Checksum published next to the ZIM file: its .sha256, the hashes in its Metalink, or
+   * its .md5, whichever is found first
+   */
+  private async fetchPublishedChecksum(pkg: ZimPackage): Promise<PublishedChecksum | undefined> {
+    const fetchText = async (url: string): Promise<string> =>
+      (
+        await axios.get<string>(url, {
+          timeout: this.config.api.timeout,
+          responseType: 'text',
+          headers: { 'User-Agent': 'DangerPrep-Kiwix-Manager/1.0' },
+        })
+      ).data;
+
+    const sources: Array<[string | undefined, (body: string) => PublishedChecksum | undefined]> = [
+      [pkg.checksumUrl, body => this.parseChecksumFile(body, 'sha256')],
+      [pkg.metalinkUrl, body => this.parseMetalink(body)],
+      [pkg.url && `${pkg.url}.md5`, body => this.parseChecksumFile(body, 'md5')],
+    ];
+
+    for (const [url, parse] of sources) {
+      if (!url) continue;
+
+      try {
+        const checksum = parse(await fetchText(url));
+        if (checksum) {
+          return checksum;
+        }
+      } catch (error) {
+        this.logger.debug(`No checksum at ${url}: ${error}`);
+      }
+    }
+
+    this.logger.warn(`No published checksum for ${pkg.name}; relying on the ZIM file's own MD5`);
+    return undefined;
+  }
+
+  // "<hex>  <file name>", as written by sha256sum and md5sum
+  private parseChecksumFile(
+    body: string,
+    algorithm: PublishedChecksum['algorithm']
+  ): PublishedChecksum | undefined {
+    const length = algorithm === 'sha256' ? 64 : 32;
+    const value = body.trim().split(/\s+/)[0]?.toLowerCase();
+    return value && new RegExp(`^[0-9a-f]{${length}}$`).test(value)
+      ? { algorithm, value }
+      : undefined;
+  }
+
+  private parseMetalink(body: string): PublishedChecksum | undefined {
+    const parsed = this.metalinkParser.parse(body) as {
+      metalink?: { file?: Array<{ hash?: Array<{ '#text'?: string; '@_type'?: string }> }> };
+    };
+    const hashes = parsed.metalink?.file?.[0]?.hash ?? [];
+
+    for (const [type, algorithm] of METALINK_HASH_TYPES) {
+      const hash = hashes.find(candidate => candidate['@_type'] === type)?.['#text'];
+      if (hash) {
+        return this.parseChecksumFile(hash, algorithm);
+      }
+    }
+    return undefined;
+  }
+
+  private async hashFile(
+    filePath: string,
+    algorithm: PublishedChecksum['algorithm']
+  ): Promise<string> {
+    const hash = createHash(algorithm);
+    await pipeline(createReadStream(filePath), hash);
+    return hash.digest('hex');
+  }
+
+  private getPartialPaths(packageName: string): { file: string; manifest: string } {
+    const file = path.join(this.config.storage.temp_directory, `${packageName}.zim`);
+    return { file, manifest: `${file}${PARTIAL_MANIFEST_SUFFIX}` };
+  }
+
+  private async readPartial(packageName: string): Promise<PartialDownload | null> {
+    const { manifest } = this.getPartialPaths(packageName);
+    try {
+      return JSON.parse(await fs.readFile(manifest, 'utf8')) as PartialDownload;
+    } catch {
+      return null;
+    }
+  }
+
+  private async discardPartial(packageName: string): Promise<void> {
+    const { file, manifest } = this.getPartialPaths(packageName);
+    for (const filePath of [file, `${file}.aria2`, manifest]) {
+      await fs.unlink(filePath).catch(() => undefined);
+    }
+  }
+
   private async downloadWithAria2(url: string, outputPath: string): Promise<boolean> {
     return new Promise(resolve => {
       const args = [
@@ -107,6 +343,8 @@ export class ZimDownloader {
         '--max-connection-per-server=4',
         '--split=4',
         '--continue=true',
+        '--auto-file-renaming=false',
+        '--allow-overwrite=false',
         '--max-tries=3',
         '--retry-wait=5',
         '--timeout=60',
@@ -158,8 +396,20 @@ export class ZimDownloader {
   }
 
   async getPackageInfo(packageName: string): Promise<ZimPackage | null> {
-    const availablePackages = await this.listAvailablePackages();
-    return availablePackages.find(pkg => pkg.name === packageName) || null;
+    try {
+      return await this.catalog.find(packageName);
+    } catch (error) {
+      this.logger.error(`Failed to look up ${packageName} in the catalog: ${error}`);
+      return null;
+    }
+  }
+
+  async searchCatalog(query: CatalogQuery, start?: number, count?: number): Promise<CatalogPage> {
+    return this.catalog.search(query, start, count);
+  }
+
+  async mirrorCatalog(): Promise<number> {
+    return this.catalog.mirror();
   }
 
   async checkForUpdates(packageName: string): Promise<boolean> {
@@ -0,0 +1,206 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import { copyFile, deleteFile, fileExists } from '@dangerprep/files';
+import type { Logger } from '@dangerprep/logging';
+import axios from 'axios';
+import { XMLParser } from 'fast-xml-parser';
+
+import type { KiwixConfig, OpdsEntryXML } from '../types';
+
+import { LibraryManager } from './library';
+import { ZimReader } from './zim-reader';
+
+// How often kiwix-serve is asked for a new book while waiting for it to reload
+const SERVE_POLL_MS = 2000;
+
+const STAGED_SUFFIX = '.new';
+const BACKUP_SUFFIX = '.backup';
+
+/**
+ * Swaps verified downloads into the ZIM directory
+ *
+ * The file being replaced is kept as a .backup until kiwix-serve has reloaded library.xml and
+ * served a page from the new file, and is restored if that does not happen. Swaps interrupted
+ * by a restart are finished or rolled back by `recover`.
+ */
+export class ZimInstaller {
+  private config: KiwixConfig['kiwix_manager'];
+  private logger: Logger;
+  private libraryManager: LibraryManager;
+  private parser: XMLParser;
+  private installing: Set<string> = new Set();
+
+  constructor(config: KiwixConfig, logger: Logger) {
+    this.config = config.kiwix_manager;
+    this.logger = logger;
+    this.libraryManager = new LibraryManager(config, logger);
+    this.parser = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: '@_',
+      removeNSPrefix: true,
+      parseTagValue: false,
+      isArray: name => name === 'link',
+    });
+  }
+
+  isInstalling(packageName: string): boolean {
+    return this.installing.has(packageName);
+  }
+
+  /**
+   * Replace packageName with the verified file at downloadPath; false when kiwix-serve could not
+   * serve it and the previous file was put back
+   */
+  async install(packageName: string, downloadPath: string, uuid: string): Promise<boolean> {
+    const finalPath = path.join(this.config.storage.zim_directory, `${packageName}.zim`);
+    const stagedPath = `${finalPath}${STAGED_SUFFIX}`;
+    const backupPath = `${finalPath}${BACKUP_SUFFIX}`;
+
+    this.installing.add(packageName);
+    try {
+      // Stage next to the final path first so the swap itself is a single rename
+      await this.stage(downloadPath, stagedPath);
+
+      // The backup is a hard link, so the final path never goes missing during the swap
+      const hasPrevious = await fileExists(finalPath);
+      if (hasPrevious) {
+        await fs.rm(backupPath, { force: true });
+        await fs.link(finalPath, backupPath);
+      }
+      await fs.rename(stagedPath, finalPath);
+      await this.libraryManager.updateLibrary();
+
+      try {
+        await this.waitForServe(packageName, uuid);
+      } catch (error) {
+        // A new package has nothing to fall back to, so it stays for kiwix-serve to pick up
+        if (!hasPrevious) {
+          this.logger.warn(`kiwix-serve is not serving ${packageName} yet: ${error}`);
+          return true;
+        }
+
+        this.logger.error(`kiwix-serve is not serving the new ${packageName}: ${error}`);
+        await fs.rename(backupPath, finalPath);
+        await this.libraryManager.updateLibrary();
+        this.logger.info(`Restored the previous ${packageName}`);
+        return false;
+      }
+
+      if (hasPrevious) {
+        await deleteFile(backupPath);
+      }
+      this.logger.info(`Installed ${packageName}`);
+      return true;
+    } finally {
+      this.installing.delete(packageName);
+    }
+  }
+
+  /**
+   * Finish or roll back swaps a restart interrupted: a backup is only deleted once the file
+   * that replaced it is valid and being served, and is restored otherwise
+   */
+  async recover(): Promise<void> {
+    const zimDir = this.config.storage.zim_directory;
+    if (!(await fileExists(zimDir))) {
+      return;
+    }
+
+    for (const file of await fs.readdir(zimDir)) {
+      const filePath = path.join(zimDir, file);
+
+      if (file.endsWith(`.zim${STAGED_SUFFIX}`)) {
+        if (!this.isInstalling(file.slice(0, -`.zim${STAGED_SUFFIX}`.length))) {
+          await deleteFile(filePath).catch(() => undefined);
+          this.logger.debug(`Removed stale staged file ${file}`);
+        }
+        continue;
+      }
+      if (!file.endsWith(`.zim${BACKUP_SUFFIX}`)) {
+        continue;
+      }
+
+      const packageName = file.slice(0, -`.zim${BACKUP_SUFFIX}`.length);
+      if (this.isInstalling(packageName)) {
+        continue;
+      }
+      await this.recoverBackup(packageName, filePath);
+    }
+  }
+
+  private async recoverBackup(packageName: string, backupPath: string): Promise<void> {
+    const finalPath = path.join(this.config.storage.zim_directory, `${packageName}.zim`);
+    const validation = (await fileExists(finalPath))
+      ? await ZimReader.validate(finalPath)
+      : { valid: false, error: 'File is missing' };
+
+    if (validation.valid && validation.header) {
+      try {
+        await this.libraryManager.updateLibrary();
+        await this.waitForServe(packageName, validation.header.uuid);
+        await deleteFile(backupPath);
+        this.logger.info(`Finished replacing ${packageName}; removed its backup`);
+        return;
+      } catch (error) {
+        this.logger.warn(`kiwix-serve is not serving the new ${packageName}: ${error}`);
+      }
+    } else {
+      this.logger.warn(`Replacement for ${packageName} is unusable: ${validation.error}`);
+    }
+
+    await fs.rename(backupPath, finalPath);
+    await this.libraryManager.updateLibrary();
+    this.logger.info(`Restored the previous ${packageName} from its backup`);
+  }
+
+  // Downloads normally sit on the same filesystem; copy only when they do not
+  private async stage(sourcePath: string, stagedPath: string): Promise<void> {
+    try {
+      await fs.rename(sourcePath, stagedPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+        throw error;
+      }
+      await copyFile(sourcePath, stagedPath);
+      await deleteFile(sourcePath);
+    }
+  }
+
+  /**
+   * Wait until kiwix-serve lists the book with this uuid and serves its content page
+   */
+  private async waitForServe(packageName: string, uuid: string): Promise<void> {
+    const { url, reload_timeout } = this.config.kiwix_serve;
+    if (!url) {
+      this.logger.warn(`kiwix_serve.url is not set; not waiting for kiwix-serve to load ${uuid}`);
+      return;
+    }
+
+    const deadline = Date.now() + reload_timeout;
+    const timeout = Math.min(this.config.api.timeout, reload_timeout);
+    let lastError: unknown;
+
+    while (Date.now() < deadline) {
+      try {
+        const response = await axios.get<string>(new URL(`/catalog/v2/entry/${uuid}`, url).href, {
+          timeout,
+          responseType: 'text',
+        });
+        const entry = (this.parser.parse(response.data) as { entry?: OpdsEntryXML }).entry;
+        const content = entry?.link?.find(link => link['@_type'] === 'text/html')?.['@_href'];
+        if (!content) {
+          throw new Error('Catalog entry has no content link');
+        }
+
+        await axios.get(new URL(content, url).href, { timeout, responseType: 'text' });
+        this.logger.debug(`kiwix-serve is serving ${packageName} (${uuid})`);
+        return;
+      } catch (error) {
+        lastError = error;
+        await new Promise(resolve => setTimeout(resolve, SERVE_POLL_MS));
+      }
+    }
+    throw new Error(`Timed out after ${reload_timeout}ms: ${lastError}`);
+  }
+}
@@ -4,7 +4,9 @@ import path from 'path';
 import { fileExists, getFileName, formatSize, getDirectorySize } from '@dangerprep/files';
 import type { Logger } from '@dangerprep/logging';
 
-import type { KiwixConfig, ZimPackage, LibraryEntry } from '../types';
+import type { KiwixConfig, ZimPackage, LibraryEntry, ZimMetadata } from '../types';
+
+import { ZimReader } from './zim-reader';
 
 export class LibraryManager {
   private config: KiwixConfig['kiwix_manager'];
@@ -25,13 +27,20 @@ export class LibraryManager {
 
       for (const file of zimFiles) {
         const filePath = path.join(zimDir, file);
+        const validation = await ZimReader.validate(filePath);
+        if (!validation.valid) {
+          this.logger.warn(`Skipping invalid ZIM file ${file}: ${validation.error}`);
+          continue;
+        }
+
         const stats = await fs.stat(filePath);
         const packageName = getFileName(file);
+        const { metadata } = await this.readMetadata(filePath);
 
         packages.push({
           name: packageName,
-          title: packageName.replace(/_/g, ' '),
-          description: `Local ZIM file: ${file}`,
+          title: metadata.title || packageName.replace(/_/g, ' '),
+          description: metadata.description || `Local ZIM file: ${file}`,
           size: formatSize(stats.size),
           date: stats.mtime.toISOString(),
           path: filePath,
@@ -82,27 +91,63 @@ export class LibraryManager {
 
     const stats = await fs.stat(pkg.path);
     const fileName = path.basename(pkg.path);
+    const { uuid, metadata } = await this.readMetadata(pkg.path);
 
+    // Fall back to what the filename suggests for files without the metadata
     const parts = pkg.name.split('_');
     const language = parts.length > 1 && parts[1] ? parts[1] : 'en';
+    const counts = this.countEntries(metadata.counter ?? {});
 
     return {
-      id: pkg.name,
+      // kiwix-serve reopens a book when its id changes, so a replaced file gets a new one
+      id: uuid ?? pkg.name,
       path: pkg.path,
       url: fileName,
-      title: pkg.title,
-      description: pkg.description,
-      language,
-      creator: 'Kiwix',
-      publisher: 'Kiwix',
-      date: pkg.date,
-      tags: this.generateTags(pkg.name),
-      articleCount: 0,
-      mediaCount: 0,
+      title: metadata.title || pkg.title,
+      description: metadata.description || pkg.description,
+      language: metadata.language || language,
+      creator: metadata.creator || 'Kiwix',
+      publisher: metadata.publisher || 'Kiwix',
+      date: metadata.date || pkg.date,
+      tags: metadata.tags || this.generateTags(pkg.name),
+      articleCount: counts.articles,
+      mediaCount: counts.media,
       size: stats.size,
+      ...(metadata.illustration && {
+        favicon: metadata.illustration.toString('base64'),
+        faviconMimeType: metadata.illustrationMimeType ?? 'image/png',
+      }),
     };
   }
 
+  private async readMetadata(filePath: string): Promise<{ uuid?: string; metadata: ZimMetadata }> {
+    let reader: ZimReader | undefined;
+    try {
+      reader = await ZimReader.open(filePath);
+      return { uuid: reader.header.uuid, metadata: await reader.readMetadata() };
+    } catch (error) {
+      this.logger.warn(`Failed to read ZIM metadata from ${filePath}: ${error}`);
+      return { metadata: {} };
+    } finally {
+      await reader?.close();
+    }
+  }
+
+  // Counter holds entries per MIME type, e.g. "text/html=1234;image/png=56"
+  private countEntries(counter: Record<string, number>): { articles: number; media: number } {
+    let articles = 0;
+    let media = 0;
+
+    for (const [mimeType, count] of Object.entries(counter)) {
+      if (mimeType.startsWith('text/html')) {
+        articles += count;
+      } else if (/^(image|video|audio)\//.test(mimeType)) {
+        media += count;
+      }
+    }
+    return { articles, media };
+  }
+
   private generateTags(packageName: string): string {
     const tags = [];
 
@@ -122,9 +167,21 @@ export class LibraryManager {
     const libraryOpen = '<library version="20110515">\n';
     const libraryClose = '</library>\n';
 
+    // Relative to library.xml, so it resolves inside the kiwix-serve container too
+    const libraryDir = path.dirname(this.config.storage.library_file);
+    const libraryPath = (filePath: string): string => path.relative(libraryDir, filePath);
+
     const bookEntries = entries
       .map(entry => {
+        const favicon = entry.favicon
+          ? `
+        favicon="${entry.favicon}"
+        faviconMimeType="${this.escapeXml(entry.faviconMimeType ?? 'image/png')}"`
+          : '';
+
+        // library.xml sizes are in kilobytes
         return `  <book id="${this.escapeXml(entry.id)}"
+        path="${this.escapeXml(libraryPath(entry.path))}"
         url="${this.escapeXml(entry.url)}"
         title="${this.escapeXml(entry.title)}"
         description="${this.escapeXml(entry.description)}"
@@ -135,7 +192,7 @@ export class LibraryManager {
         tags="${this.escapeXml(entry.tags)}"
         articleCount="${entry.articleCount}"
         mediaCount="${entry.mediaCount}"
-        size="${entry.size}" />`;
+        size="${Math.ceil(entry.size / 1024)}"${favicon} />`;
       })
       .join('\n');
 
@@ -0,0 +1,213 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import { getDirectorySize, parseSize } from '@dangerprep/files';
+import type { Logger } from '@dangerprep/logging';
+import axios from 'axios';
+
+import type {
+  ActiveUplink,
+  KiwixConfig,
+  UpdatePlan,
+  UpdatePlanItem,
+  UpdatePolicy,
+  ZimPackage,
+} from '../types';
+
+import { ZIM_FLAVOURS } from './catalog';
+import type { ZimDownloader } from './downloader';
+import { ZimReader } from './zim-reader';
+
+/**
+ * Decides what applying updates to the installed packages would do, following each package's
+ * update policy, and how much disk space it would take
+ *
+ * Packages are planned in order against the space left by the ones before them. An update has
+ * to fit alongside the file it replaces, since that is kept until the new one is served.
+ */
+export class UpdatePlanner {
+  private config: KiwixConfig['kiwix_manager'];
+  private logger: Logger;
+
+  constructor(
+    config: KiwixConfig,
+    logger: Logger,
+    private readonly downloader: ZimDownloader
+  ) {
+    this.config = config.kiwix_manager;
+    this.logger = logger;
+  }
+
+  getPolicy(packageName: string): UpdatePolicy {
+    return this.config.updates.policies[packageName] ?? this.config.updates.default_policy;
+  }
+
+  async plan(installed: ZimPackage[]): Promise<UpdatePlan> {
+    const usedBytes = await getDirectorySize(this.config.storage.zim_directory);
+    const maxBytes = parseSize(this.config.storage.max_total_size);
+    const uplink = await this.getUplink();
+
+    const items: UpdatePlanItem[] = [];
+    let projectedBytes = usedBytes;
+
+    for (const pkg of installed) {
+      const item = await this.planPackage(pkg, projectedBytes, maxBytes, uplink);
+      projectedBytes += item.deltaBytes;
+      items.push(item);
+    }
+
+    return {
+      items,
+      usedBytes,
+      maxBytes,
+      netDeltaBytes: projectedBytes - usedBytes,
+      ...(uplink && { uplink }),
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  private async planPackage(
+    pkg: ZimPackage,
+    projectedBytes: number,
+    maxBytes: number,
+    uplink: ActiveUplink | undefined
+  ): Promise<UpdatePlanItem> {
+    const policy = this.getPolicy(pkg.name);
+    const installedBytes = pkg.path ? (await fs.stat(pkg.path)).size : 0;
+    const installedVersion = pkg.path ? await this.getInstalledVersion(pkg.path) : undefined;
+    const base = {
+      packageName: pkg.name,
+      ...(installedVersion && { installedVersion }),
+      installedBytes,
+      downloadBytes: 0,
+      deltaBytes: 0,
+    };
+
+    const available = await this.downloader.getPackageInfo(pkg.name);
+    if (!available) {
+      return { ...base, action: 'skip', reason: 'Not in the catalog' };
+    }
+
+    const withAvailable = {
+      ...base,
+      ...(available.version && { availableVersion: available.version }),
+    };
+    if (!(await this.isNewer(pkg, installedVersion, available))) {
+      return { ...withAvailable, action: 'current' };
+    }
+    if (policy.pin) {
+      return { ...withAvailable, action: 'skip', reason: `Pinned at ${policy.pin}` };
+    }
+    if (policy.unmetered_only && !uplink) {
+      return {
+        ...withAvailable,
+        action: 'skip',
+        reason: 'Uplink is unknown; waiting for unmetered',
+      };
+    }
+    if (policy.unmetered_only && uplink?.metered) {
+      return {
+        ...withAvailable,
+        action: 'skip',
+        reason: `Uplink ${uplink.interface} (${uplink.type}) is metered`,
+      };
+    }
+
+    const downloadBytes = available.sizeBytes ?? 0;
+    if (projectedBytes + downloadBytes <= maxBytes) {
+      return {
+        ...withAvailable,
+        action: 'update',
+        target: available.name,
+        downloadBytes,
+        deltaBytes: downloadBytes - installedBytes,
+      };
+    }
+
+    const flavour = ZIM_FLAVOURS.find(candidate => pkg.name.endsWith(`_${candidate}`));
+    if (policy.flavour === 'nopic_when_short' && flavour && flavour !== 'nopic') {
+      const nopicName = `${pkg.name.slice(0, -flavour.length)}nopic`;
+      const nopic = await this.downloader.getPackageInfo(nopicName);
+      const nopicBytes = nopic?.sizeBytes ?? 0;
+
+      if (nopic && projectedBytes + nopicBytes <= maxBytes) {
+        return {
+          ...withAvailable,
+          action: 'downgrade',
+          target: nopic.name,
+          ...(nopic.version && { availableVersion: nopic.version }),
+          downloadBytes: nopicBytes,
+          deltaBytes: nopicBytes - installedBytes,
+          reason: `${available.name} does not fit; switching to nopic`,
+        };
+      }
+    }
+
+    return { ...withAvailable, action: 'skip', reason: 'Not enough space' };
+  }
+
+  // Versions are YYYY-MM; without one the catalog date is compared to the file's age
+  private async isNewer(
+    pkg: ZimPackage,
+    installedVersion: string | undefined,
+    available: ZimPackage
+  ): Promise<boolean> {
+    if (installedVersion && available.version) {
+      return available.version > installedVersion;
+    }
+    if (!pkg.path) {
+      return true;
+    }
+
+    const stats = await fs.stat(pkg.path);
+    return new Date(available.date) > stats.mtime;
+  }
+
+  private async getInstalledVersion(filePath: string): Promise<string | undefined> {
+    const fromName = path.basename(filePath).match(/_(\d{4}-\d{2})(-\d{2})?\.zim$/)?.[1];
+    if (fromName) {
+      return fromName;
+    }
+
+    let reader: ZimReader | undefined;
+    try {
+      reader = await ZimReader.open(filePath);
+      return (await reader.readMetadata()).date?.slice(0, 7);
+    } catch (error) {
+      this.logger.debug(`No version for ${filePath}: ${error}`);
+      return undefined;
+    } finally {
+      await reader?.close();
+    }
+  }
+
+  /**
+   * Active uplink from the portal's WAN status, or undefined when it cannot be told
+   */
+  private async getUplink(): Promise<ActiveUplink | undefined> {
+    const { wan_status_url, unmetered_uplinks } = this.config.updates;
+    if (!wan_status_url) {
+      return undefined;
+    }
+
+    try {
+      const response = await axios.get<{
+        data?: { uplinks?: Array<{ interface: string; type: string; active: boolean }> };
+      }>(wan_status_url, { timeout: this.config.api.timeout });
+      const active = response.data.data?.uplinks?.find(uplink => uplink.active);
+      if (!active) {
+        return undefined;
+      }
+
+      return {
+        interface: active.interface,
+        type: active.type,
+        metered:
+          !unmetered_uplinks.includes(active.type) && !unmetered_uplinks.includes(active.interface),
+      };
+    } catch (error) {
+      this.logger.warn(`Failed to get the active uplink from ${wan_status_url}: ${error}`);
+      return undefined;
+    }
+  }
+}
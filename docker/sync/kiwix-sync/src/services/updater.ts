@@ -1,22 +1,25 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 
-import { fileExists, moveFile, deleteFile, formatSize } from '@dangerprep/files';
+import { fileExists, deleteFile, formatSize } from '@dangerprep/files';
 import type { Logger } from '@dangerprep/logging';
 
-import type { KiwixConfig, ZimPackage } from '../types';
+import type { KiwixConfig, UpdatePlan, UpdatePlanItem, ZimPackage } from '../types';
 
 import { ZimDownloader } from './downloader';
+import { UpdatePlanner } from './planner';
 
 export class ZimUpdater {
   private readonly config: KiwixConfig['kiwix_manager'];
   private readonly logger: Logger;
   private readonly downloader: ZimDownloader;
+  private readonly planner: UpdatePlanner;
 
-  constructor(config: KiwixConfig, logger: Logger) {
+  constructor(config: KiwixConfig, logger: Logger, downloader?: ZimDownloader) {
     this.config = config.kiwix_manager;
     this.logger = logger;
-    this.downloader = new ZimDownloader(config, logger);
+    this.downloader = downloader ?? new ZimDownloader(config, logger);
+    this.planner = new UpdatePlanner(config, logger, this.downloader);
   }
 
   async updatePackage(packageName: string): Promise<boolean> {
@@ -32,54 +35,53 @@ export class ZimUpdater {
 
       this.logger.info(`Updating package: ${packageName}`);
 
-      const existingPath = path.join(this.config.storage.zim_directory, `${packageName}.zim`);
-      const backupPath = path.join(this.config.storage.zim_directory, `${packageName}.zim.backup`);
-
-      if (await fileExists(existingPath)) {
-        await moveFile(existingPath, backupPath);
-        this.logger.debug(`Backed up existing file to ${backupPath}`);
-      }
-
+      // The installed file stays in place until its replacement is verified and being served
       const success = await this.downloader.downloadPackage(packageName);
 
       if (success) {
-        if (await fileExists(backupPath)) {
-          await deleteFile(backupPath);
-          this.logger.debug(`Removed backup file ${backupPath}`);
-        }
         this.logger.info(`Successfully updated ${packageName}`);
-        return true;
       } else {
-        if (await fileExists(backupPath)) {
-          await moveFile(backupPath, existingPath);
-          this.logger.info(`Restored backup for ${packageName}`);
-        }
         this.logger.error(`Failed to update ${packageName}`);
-        return false;
       }
+      return success;
     } catch (error) {
       this.logger.error(`Error updating package ${packageName}: ${error}`);
       return false;
     }
   }
 
+  /**
+   * What updating every installed package would do under its update policy
+   */
+  async planUpdates(): Promise<UpdatePlan> {
+    return this.planner.plan(await this.scanExistingZimFiles());
+  }
+
   async updateAllExistingPackages(): Promise<{ success: number; failed: number }> {
-    const existingPackages = await this.scanExistingZimFiles();
+    const plan = await this.planUpdates();
+    const pending = plan.items.filter(
+      item => item.action === 'update' || item.action === 'downgrade'
+    );
     let successCount = 0;
     let failedCount = 0;
 
-    this.logger.info(`Starting update of ${existingPackages.length} existing ZIM packages`);
+    this.logger.info(
+      `Applying ${pending.length} of ${plan.items.length} ZIM package updates (net ${formatSize(plan.netDeltaBytes)})`
+    );
+    for (const item of plan.items.filter(item => item.action === 'skip')) {
+      this.logger.info(`Skipping update of ${item.packageName}: ${item.reason}`);
+    }
 
-    for (const zimPackage of existingPackages) {
+    for (const item of pending) {
       try {
-        const success = await this.updatePackage(zimPackage.name);
+        const success = await this.applyPlanItem(item);
         if (success) {
           successCount++;
         } else {
           failedCount++;
         }
       } catch (error) {
-        this.logger.error(`Failed to update ${zimPackage.name}: ${error}`);
+        this.logger.error(`Failed to update ${item.packageName}: ${error}`);
         failedCount++;
       }
 
@@ -90,6 +92,34 @@ export class ZimUpdater {
     return { success: successCount, failed: failedCount };
   }
 
+  private async applyPlanItem(item: UpdatePlanItem): Promise<boolean> {
+    const target = item.target ?? item.packageName;
+    if (item.action === 'update') {
+      this.logger.info(
+        `Updating ${item.packageName} from ${item.installedVersion ?? 'unknown'} to ${item.availableVersion ?? 'latest'}`
+      );
+      const success = await this.downloader.downloadPackage(target);
+      if (!success) {
+        this.logger.error(`Failed to update ${item.packageName}`);
+      }
+      return success;
+    }
+
+    // A downgrade installs the nopic flavour next to the package, then drops the original
+    this.logger.info(`Downgrading ${item.packageName} to ${target}: ${item.reason}`);
+    if (!(await this.downloader.downloadPackage(target))) {
+      this.logger.error(`Failed to downgrade ${item.packageName}`);
+      return false;
+    }
+
+    const originalPath = path.join(this.config.storage.zim_directory, `${item.packageName}.zim`);
+    if (await fileExists(originalPath)) {
+      await deleteFile(originalPath);
+    }
+    this.logger.info(`Replaced ${item.packageName} with ${target}`);
+    return true;
+  }
+
   private async scanExistingZimFiles(): Promise<ZimPackage[]> {
     try {
       const zimDir = this.config.storage.zim_directory;
@@ -135,21 +165,29 @@ export class ZimUpdater {
       const zimDir = this.config.storage.zim_directory;
       const files = await fs.readdir(zimDir);
 
-      const backupFiles = files.filter(file => file.endsWith('.backup') || file.includes('.old.'));
+      const oldFiles = files.filter(file => file.includes('.old.'));
 
-      for (const backupFile of backupFiles) {
-        const filePath = path.join(zimDir, backupFile);
+      for (const oldFile of oldFiles) {
+        const filePath = path.join(zimDir, oldFile);
         try {
           await deleteFile(filePath);
-          this.logger.debug(`Deleted old file: ${backupFile}`);
+          this.logger.debug(`Deleted old file: ${oldFile}`);
         } catch (error) {
-          this.logger.warn(`Failed to delete ${backupFile}: ${error}`);
+          this.logger.warn(`Failed to delete ${oldFile}: ${error}`);
         }
       }
+
+      // Backups are only dropped once their replacement is known to be good
+      await this.downloader.recoverInstalls();
+
       const tempDir = this.config.storage.temp_directory;
       if (await fileExists(tempDir)) {
         const tempFiles = await fs.readdir(tempDir);
         for (const tempFile of tempFiles) {
+          if (await this.downloader.isResumable(tempFile)) {
+            continue;
+          }
+
           const tempFilePath = path.join(tempDir, tempFile);
           try {
             await deleteFile(tempFilePath);
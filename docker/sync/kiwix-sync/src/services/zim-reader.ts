@@ -0,0 +1,455 @@
+import { createHash } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import type { FileHandle } from 'fs/promises';
+import zlib from 'zlib';
+
+import type { ZimHeader, ZimMetadata, ZimValidation } from '../types';
+
+// 'ZIM\x04' read as a little-endian u32
+const ZIM_MAGIC = 72173914;
+const HEADER_SIZE = 80;
+const CHECKSUM_SIZE = 16;
+const NO_PAGE = 0xffffffff;
+
+// Directory entry mimetypes that mark something other than stored content
+const REDIRECT_MIMETYPE = 0xffff;
+const LINK_TARGET_MIMETYPE = 0xfffe;
+const DELETED_MIMETYPE = 0xfffd;
+
+// Cluster compression types, from the low nibble of the cluster's first byte
+const COMPRESSION_NONE = [0, 1];
+const COMPRESSION_XZ = 4;
+const COMPRESSION_ZSTD = 5;
+const EXTENDED_CLUSTER_FLAG = 0x10;
+
+// Directory entries and the MIME list are read in chunks of this size, grown as needed
+const READ_CHUNK = 512;
+const MAX_STRING_BLOCK = 64 * 1024;
+
+// Redirects in M/ are followed at most this many times
+const MAX_REDIRECTS = 5;
+
+// Metadata entries mapped to ZimMetadata fields
+const TEXT_METADATA: Record<
+  string,
+  'title' | 'description' | 'language' | 'creator' | 'publisher' | 'date' | 'tags'
+> = {
+  Title: 'title',
+  Description: 'description',
+  Language: 'language',
+  Creator: 'creator',
+  Publisher: 'publisher',
+  Date: 'date',
+  Tags: 'tags',
+};
+
+// The illustration kiwix-serve shows as a book's icon, and where older files kept it
+const ILLUSTRATION_PATH = 'Illustration_48x48@1';
+const LEGACY_FAVICON = { namespace: '-', path: 'favicon' };
+
+interface DirectoryEntry {
+  mimetype: number;
+  namespace: string;
+  path: string;
+  title: string;
+  cluster?: number;
+  blob?: number;
+  redirectIndex?: number;
+}
+
+/**
+ * Reads the header, MIME list and metadata of a ZIM file without libzim
+ *
+ * Only the M/ namespace is walked, so opening a multi-gigabyte Wikipedia dump costs a few
+ * small reads. Metadata in zstd clusters needs a Node.js with zstd support; xz clusters,
+ * which only very old files use, are skipped and the entries in them are left unset.
+ */
+export class ZimReader {
+  private mimeTypes: string[] | undefined;
+  private clusterCache: { index: number; data: Buffer } | undefined;
+
+  private constructor(
+    private readonly file: FileHandle,
+    readonly header: ZimHeader,
+    readonly fileSize: number
+  ) {}
+
+  static async open(filePath: string): Promise<ZimReader> {
+    const file = await fs.open(filePath, 'r');
+    try {
+      const { size } = await file.stat();
+      const header = ZimReader.parseHeader(await ZimReader.read(file, 0, HEADER_SIZE));
+      return new ZimReader(file, header, size);
+    } catch (error) {
+      await file.close();
+      throw error;
+    }
+  }
+
+  /**
+   * Check that filePath is a complete ZIM file, optionally verifying its MD5 checksum
+   */
+  static async validate(
+    filePath: string,
+    options: { checksum?: boolean } = {}
+  ): Promise<ZimValidation> {
+    let reader: ZimReader | undefined;
+    try {
+      reader = await ZimReader.open(filePath);
+      const { header, fileSize } = reader;
+
+      if (header.checksumPos + CHECKSUM_SIZE > fileSize) {
+        return { valid: false, error: 'File is truncated', header };
+      }
+      const pointers = [
+        header.pathPtrPos,
+        header.titlePtrPos,
+        header.clusterPtrPos,
+        header.mimeListPos,
+      ];
+      if (pointers.some(position => position < HEADER_SIZE || position >= header.checksumPos)) {
+        return { valid: false, error: 'Header points outside the file', header };
+      }
+
+      await reader.readMimeTypes();
+
+      if (options.checksum && !(await reader.verifyChecksum())) {
+        return { valid: false, error: 'Checksum mismatch', header };
+      }
+      return { valid: true, header };
+    } catch (error) {
+      return { valid: false, error: error instanceof Error ? error.message : String(error) };
+    } finally {
+      await reader?.close();
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.file.close();
+  }
+
+  async readMimeTypes(): Promise<string[]> {
+    if (this.mimeTypes) {
+      return this.mimeTypes;
+    }
+
+    for (let length = READ_CHUNK; length <= MAX_STRING_BLOCK; length *= 2) {
+      const buffer = await this.readAt(this.header.mimeListPos, length);
+      const mimeTypes: string[] = [];
+      let offset = 0;
+
+      while (offset < buffer.length) {
+        const end = buffer.indexOf(0, offset);
+        if (end === -1) {
+          break;
+        }
+        if (end === offset) {
+          this.mimeTypes = mimeTypes;
+          return mimeTypes;
+        }
+        mimeTypes.push(buffer.toString('utf8', offset, end));
+        offset = end + 1;
+      }
+
+      if (buffer.length < length) {
+        break;
+      }
+    }
+    throw new Error('MIME type list is not terminated');
+  }
+
+  /**
+   * Read the M/ namespace; entries that cannot be decompressed are left unset
+   */
+  async readMetadata(): Promise<ZimMetadata> {
+    const metadata: { -readonly [K in keyof ZimMetadata]: ZimMetadata[K] } = {};
+
+    for (const entry of await this.listNamespace('M')) {
+      const field = TEXT_METADATA[entry.path];
+      if (field) {
+        const value = await this.readEntryContent(entry);
+        if (value) {
+          metadata[field] = value.toString('utf8').trim();
+        }
+      } else if (entry.path === 'Counter') {
+        const value = await this.readEntryContent(entry);
+        if (value) {
+          metadata.counter = ZimReader.parseCounter(value.toString('utf8'));
+        }
+      } else if (entry.path === ILLUSTRATION_PATH) {
+        await this.readIllustration(metadata, entry);
+      }
+    }
+
+    if (!metadata.illustration) {
+      const favicon = await this.findEntry(LEGACY_FAVICON.namespace, LEGACY_FAVICON.path);
+      if (favicon) {
+        await this.readIllustration(metadata, favicon);
+      }
+    }
+
+    return metadata;
+  }
+
+  /**
+   * Compare the MD5 of the file against the checksum stored at its end
+   */
+  async verifyChecksum(): Promise<boolean> {
+    const expected = await this.readAt(this.header.checksumPos, CHECKSUM_SIZE);
+    const hash = createHash('md5');
+
+    await new Promise<void>((resolve, reject) => {
+      const stream = createReadStream('', {
+        fd: this.file.fd,
+        autoClose: false,
+        start: 0,
+        end: this.header.checksumPos - 1,
+      });
+      stream.on('data', chunk => hash.update(chunk));
+      stream.on('end', resolve);
+      stream.on('error', reject);
+    });
+
+    return hash.digest().equals(expected);
+  }
+
+  // Entries are sorted by namespace then path, so a namespace is one contiguous run
+  private async listNamespace(namespace: string): Promise<DirectoryEntry[]> {
+    const entries: DirectoryEntry[] = [];
+    let low = 0;
+    let high = this.header.entryCount;
+
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+      const entry = await this.readEntry(middle);
+      if (entry.namespace < namespace) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    for (let index = low; index < this.header.entryCount; index++) {
+      const entry = await this.readEntry(index);
+      if (entry.namespace !== namespace) {
+        break;
+      }
+      entries.push(entry);
+    }
+    return entries;
+  }
+
+  private async findEntry(namespace: string, path: string): Promise<DirectoryEntry | undefined> {
+    const key = Buffer.from(`${namespace}${path}`);
+    let low = 0;
+    let high = this.header.entryCount;
+
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+      const entry = await this.readEntry(middle);
+      const comparison = Buffer.compare(Buffer.from(`${entry.namespace}${entry.path}`), key);
+      if (comparison === 0) {
+        return entry;
+      }
+      if (comparison < 0) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return undefined;
+  }
+
+  private async readEntry(index: number): Promise<DirectoryEntry> {
+    const pointer = await this.readAt(this.header.pathPtrPos + index * 8, 8);
+    const position = Number(pointer.readBigUInt64LE(0));
+
+    for (let length = READ_CHUNK; length <= MAX_STRING_BLOCK; length *= 2) {
+      const buffer = await this.readAt(position, length);
+      const mimetype = buffer.readUInt16LE(0);
+      const namespace = String.fromCharCode(buffer.readUInt8(3));
+
+      let stringsStart = 16;
+      if (mimetype === REDIRECT_MIMETYPE) {
+        stringsStart = 12;
+      } else if (mimetype === LINK_TARGET_MIMETYPE || mimetype === DELETED_MIMETYPE) {
+        stringsStart = 8;
+      }
+
+      const pathEnd = buffer.indexOf(0, stringsStart);
+      const titleEnd = pathEnd === -1 ? -1 : buffer.indexOf(0, pathEnd + 1);
+      if (titleEnd === -1) {
+        if (buffer.length < length) {
+          break;
+        }
+        continue;
+      }
+
+      const path = buffer.toString('utf8', stringsStart, pathEnd);
+      const entry: DirectoryEntry = {
+        mimetype,
+        namespace,
+        path,
+        title: buffer.toString('utf8', pathEnd + 1, titleEnd) || path,
+      };
+      if (mimetype === REDIRECT_MIMETYPE) {
+        entry.redirectIndex = buffer.readUInt32LE(8);
+      } else if (stringsStart === 16) {
+        entry.cluster = buffer.readUInt32LE(8);
+        entry.blob = buffer.readUInt32LE(12);
+      }
+      return entry;
+    }
+    throw new Error(`Directory entry ${index} is malformed`);
+  }
+
+  private async resolveRedirects(entry: DirectoryEntry): Promise<DirectoryEntry | undefined> {
+    let current = entry;
+    for (let hops = 0; current.redirectIndex !== undefined; hops++) {
+      if (hops >= MAX_REDIRECTS) {
+        return undefined;
+      }
+      current = await this.readEntry(current.redirectIndex);
+    }
+    return current;
+  }
+
+  private async readIllustration(
+    metadata: { illustration?: Buffer; illustrationMimeType?: string },
+    entry: DirectoryEntry
+  ): Promise<void> {
+    const resolved = await this.resolveRedirects(entry);
+    const content = resolved && (await this.readEntryContent(resolved));
+    if (resolved && content) {
+      const mimeType = (await this.readMimeTypes())[resolved.mimetype];
+      metadata.illustration = content;
+      if (mimeType) {
+        metadata.illustrationMimeType = mimeType;
+      }
+    }
+  }
+
+  private async readEntryContent(entry: DirectoryEntry): Promise<Buffer | undefined> {
+    const resolved = await this.resolveRedirects(entry);
+    if (resolved?.cluster === undefined || resolved.blob === undefined) {
+      return undefined;
+    }
+    return this.readBlob(resolved.cluster, resolved.blob);
+  }
+
+  private async readBlob(cluster: number, blob: number): Promise<Buffer | undefined> {
+    const pointers = await this.readAt(this.header.clusterPtrPos + cluster * 8, 16);
+    const start = Number(pointers.readBigUInt64LE(0));
+    const end =
+      cluster + 1 < this.header.clusterCount
+        ? Number(pointers.readBigUInt64LE(8))
+        : this.header.checksumPos;
+
+    const info = (await this.readAt(start, 1)).readUInt8(0);
+    const compression = info & 0x0f;
+    const offsetSize = info & EXTENDED_CLUSTER_FLAG ? 8 : 4;
+    const readOffset = (buffer: Buffer, at: number): number =>
+      offsetSize === 8 ? Number(buffer.readBigUInt64LE(at)) : buffer.readUInt32LE(at);
+
+    // Uncompressed clusters are read in place, which keeps illustrations cheap to load
+    if (COMPRESSION_NONE.includes(compression)) {
+      const offsets = await this.readAt(start + 1 + blob * offsetSize, offsetSize * 2);
+      const blobStart = readOffset(offsets, 0);
+      const blobEnd = readOffset(offsets, offsetSize);
+      return this.readAt(start + 1 + blobStart, blobEnd - blobStart);
+    }
+
+    const data = await this.readCluster(cluster, compression, start + 1, end);
+    if (!data) {
+      return undefined;
+    }
+    const blobStart = readOffset(data, blob * offsetSize);
+    const blobEnd = readOffset(data, (blob + 1) * offsetSize);
+    return data.subarray(blobStart, blobEnd);
+  }
+
+  private async readCluster(
+    index: number,
+    compression: number,
+    start: number,
+    end: number
+  ): Promise<Buffer | undefined> {
+    if (this.clusterCache?.index === index) {
+      return this.clusterCache.data;
+    }
+
+    // zstd landed in node:zlib in Node.js 22.15; xz has no native decoder at all
+    if (compression === COMPRESSION_XZ || typeof zlib.zstdDecompressSync !== 'function') {
+      return undefined;
+    }
+    if (compression !== COMPRESSION_ZSTD) {
+      throw new Error(`Cluster ${index} uses unknown compression ${compression}`);
+    }
+
+    const data = zlib.zstdDecompressSync(await this.readAt(start, end - start));
+    this.clusterCache = { index, data };
+    return data;
+  }
+
+  private readAt(position: number, length: number): Promise<Buffer> {
+    return ZimReader.read(this.file, position, length);
+  }
+
+  private static async read(file: FileHandle, position: number, length: number): Promise<Buffer> {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await file.read(buffer, 0, length, position);
+    return buffer.subarray(0, bytesRead);
+  }
+
+  private static parseHeader(buffer: Buffer): ZimHeader {
+    if (buffer.length < HEADER_SIZE || buffer.readUInt32LE(0) !== ZIM_MAGIC) {
+      throw new Error('Not a ZIM file');
+    }
+
+    const majorVersion = buffer.readUInt16LE(4);
+    if (majorVersion !== 5 && majorVersion !== 6) {
+      throw new Error(`Unsupported ZIM version ${majorVersion}`);
+    }
+
+    const page = (value: number): number | null => (value === NO_PAGE ? null : value);
+    return {
+      majorVersion,
+      minorVersion: buffer.readUInt16LE(6),
+      uuid: ZimReader.formatUuid(buffer.subarray(8, 24)),
+      entryCount: buffer.readUInt32LE(24),
+      clusterCount: buffer.readUInt32LE(28),
+      pathPtrPos: Number(buffer.readBigUInt64LE(32)),
+      titlePtrPos: Number(buffer.readBigUInt64LE(40)),
+      clusterPtrPos: Number(buffer.readBigUInt64LE(48)),
+      mimeListPos: Number(buffer.readBigUInt64LE(56)),
+      mainPage: page(buffer.readUInt32LE(64)),
+      layoutPage: page(buffer.readUInt32LE(68)),
+      checksumPos: Number(buffer.readBigUInt64LE(72)),
+    };
+  }
+
+  // Dashed form, which is also the book id kiwix-serve uses
+  private static formatUuid(bytes: Buffer): string {
+    const hex = bytes.toString('hex');
+    return [
+      hex.slice(0, 8),
+      hex.slice(8, 12),
+      hex.slice(12, 16),
+      hex.slice(16, 20),
+      hex.slice(20),
+    ].join('-');
+  }
+
+  // "text/html=1234;image/png=56" -> { 'text/html': 1234, 'image/png': 56 }
+  private static parseCounter(value: string): Record<string, number> {
+    const counter: Record<string, number> = {};
+    for (const item of value.split(';')) {
+      const separator = item.lastIndexOf('=');
+      const count = parseInt(item.slice(separator + 1), 10);
+      if (separator > 0 && !isNaN(count)) {
+        counter[item.slice(0, separator).trim()] = count;
+      }
+    }
+    return counter;
+  }
+}
@@ -1,6 +1,16 @@
 import { z } from '@dangerprep/configuration';
 import { StandardizedServiceConfig, StandardizedServiceConfigSchema } from '@dangerprep/sync';
 
+// How an installed package is updated
+const UpdatePolicySchema = z.object({
+  pin: z.string().optional().describe('Hold the package at this version (e.g. 2024-01)'),
+  flavour: z
+    .enum(['same', 'nopic_when_short'])
+    .default('same')
+    .describe('Stay on the installed flavour, or switch to nopic when the update does not fit'),
+  unmetered_only: z.boolean().default(false).describe('Only update over an unmetered uplink'),
+});
+
 // Service-specific configuration schema
 const KiwixServiceConfigSchema = z.object({
   kiwix_manager: z.object({
@@ -19,6 +29,11 @@ const KiwixServiceConfigSchema = z.object({
       retry_attempts: z.number().nonnegative().describe('Number of retry attempts'),
       retry_delay: z.number().positive().describe('Delay between retries (ms)'),
       bandwidth_limit: z.string().describe('Bandwidth limit for downloads'),
+      partial_retention_days: z
+        .number()
+        .positive()
+        .default(7)
+        .describe('Days an interrupted download is kept for resuming before cleanup removes it'),
     }),
     logging: z.object({
       level: z.string().describe('Logging level'),
@@ -29,8 +44,48 @@ const KiwixServiceConfigSchema = z.object({
     api: z.object({
       base_url: z.string().url().describe('Base API URL'),
       catalog_url: z.string().url().describe('Catalog API URL'),
+      catalog_file: z
+        .string()
+        .optional()
+        .describe('Locally mirrored OPDS catalog used when the catalog URL is unreachable'),
       timeout: z.number().positive().describe('API timeout (ms)'),
     }),
+    kiwix_serve: z
+      .object({
+        url: z
+          .string()
+          .url()
+          .optional()
+          .describe('kiwix-serve base URL, checked before a replaced ZIM file is deleted'),
+        reload_timeout: z
+          .number()
+          .positive()
+          .default(120000)
+          .describe('How long to wait for kiwix-serve to serve a new ZIM file (ms)'),
+      })
+      .default({ reload_timeout: 120000 }),
+    updates: z
+      .object({
+        wan_status_url: z
+          .string()
+          .url()
+          .optional()
+          .describe('Portal WAN status endpoint (/api/wan) that reports the active uplink'),
+        unmetered_uplinks: z
+          .array(z.string())
+          .default(['ethernet', 'wifi'])
+          .describe('Uplink types or interface names that are not metered'),
+        default_policy: UpdatePolicySchema.default({ flavour: 'same', unmetered_only: false }),
+        policies: z
+          .record(z.string(), UpdatePolicySchema)
+          .default({})
+          .describe('Update policies by package name, e.g. wikipedia_en_all_maxi'),
+      })
+      .default({
+        unmetered_uplinks: ['ethernet', 'wifi'],
+        default_policy: { flavour: 'same', unmetered_only: false },
+        policies: {},
+      }),
   }),
 });
 
@@ -53,6 +108,117 @@ export interface ZimPackage {
   readonly url?: string;
   readonly path?: string;
   readonly version?: string;
+  // Set for packages from the OPDS catalog
+  readonly id?: string;
+  readonly sizeBytes?: number;
+  readonly language?: string;
+  readonly category?: string;
+  readonly tags?: string;
+  readonly flavour?: string;
+  readonly articleCount?: number;
+  readonly mediaCount?: number;
+  readonly metalinkUrl?: string;
+  readonly checksumUrl?: string;
+}
+
+export type UpdatePolicy = z.infer<typeof UpdatePolicySchema>;
+
+// Uplink the device is currently online through, as reported by the portal
+export interface ActiveUplink {
+  readonly interface: string;
+  readonly type: string;
+  readonly metered: boolean;
+}
+
+export const UPDATE_ACTIONS = ['update', 'downgrade', 'skip', 'current'] as const;
+export type UpdateAction = (typeof UPDATE_ACTIONS)[number];
+
+export interface UpdatePlanItem {
+  readonly packageName: string;
+  readonly action: UpdateAction;
+  // Package downloaded by the update; the nopic flavour for a downgrade
+  readonly target?: string;
+  readonly installedVersion?: string;
+  readonly availableVersion?: string;
+  readonly installedBytes: number;
+  readonly downloadBytes: number;
+  // Change in disk usage once the update is applied
+  readonly deltaBytes: number;
+  readonly reason?: string;
+}
+
+export interface UpdatePlan {
+  readonly items: UpdatePlanItem[];
+  readonly usedBytes: number;
+  readonly maxBytes: number;
+  readonly netDeltaBytes: number;
+  readonly uplink?: ActiveUplink;
+  readonly createdAt: string;
+}
+
+// Checksum published next to a ZIM file on the download server
+export interface PublishedChecksum {
+  readonly algorithm: 'sha256' | 'md5';
+  readonly value: string;
+}
+
+// Written next to a partial download so it can be resumed after a restart
+export interface PartialDownload {
+  readonly packageName: string;
+  readonly url: string;
+  readonly sizeBytes?: number;
+  readonly checksum?: PublishedChecksum;
+  readonly startedAt: string;
+}
+
+// Filters understood by the OPDS catalog; flavour is applied locally
+export interface CatalogQuery {
+  readonly search?: string;
+  readonly name?: string;
+  readonly language?: string;
+  readonly category?: string;
+  readonly tag?: string;
+  readonly flavour?: string;
+}
+
+export interface CatalogPage {
+  readonly packages: ZimPackage[];
+  readonly totalResults: number;
+  readonly startIndex: number;
+  readonly offline: boolean;
+}
+
+// OPDS/Atom feed as parsed from the Kiwix catalog
+export interface OpdsFeedXML {
+  totalResults?: string;
+  startIndex?: string;
+  itemsPerPage?: string;
+  entry?: OpdsEntryXML[];
+}
+
+export interface OpdsEntryXML {
+  id?: string;
+  title?: string;
+  summary?: string;
+  updated?: string;
+  issued?: string;
+  language?: string;
+  name?: string;
+  flavour?: string;
+  category?: string;
+  tags?: string;
+  articleCount?: string;
+  mediaCount?: string;
+  author?: { name?: string };
+  publisher?: { name?: string };
+  link?: OpdsLinkXML[];
+}
+
+export interface OpdsLinkXML {
+  '@_rel'?: string;
+  '@_href'?: string;
+  '@_type'?: string;
+  '@_length'?: string;
 }
 
 // Download status types with const assertion
@@ -81,6 +247,44 @@ export interface LibraryEntry {
   readonly articleCount: number;
   readonly mediaCount: number;
   readonly size: number;
+  readonly favicon?: string;
+  readonly faviconMimeType?: string;
+}
+
+// Fixed-size header at the start of every ZIM file
+export interface ZimHeader {
+  readonly majorVersion: number;
+  readonly minorVersion: number;
+  readonly uuid: string;
+  readonly entryCount: number;
+  readonly clusterCount: number;
+  readonly pathPtrPos: number;
+  readonly titlePtrPos: number;
+  readonly clusterPtrPos: number;
+  readonly mimeListPos: number;
+  readonly mainPage: number | null;
+  readonly layoutPage: number | null;
+  readonly checksumPos: number;
+}
+
+// Entries of the M/ namespace, keyed by the openZIM metadata names
+export interface ZimMetadata {
+  readonly title?: string;
+  readonly description?: string;
+  readonly language?: string;
+  readonly creator?: string;
+  readonly publisher?: string;
+  readonly date?: string;
+  readonly tags?: string;
+  readonly counter?: Record<string, number>;
+  readonly illustration?: Buffer;
+  readonly illustrationMimeType?: string;
+}
+
+export interface ZimValidation {
+  readonly valid: boolean;
+  readonly error?: string;
+  readonly header?: ZimHeader;
 }
 
 // Define sync types locally for Kiwix service
@@ -10,6 +10,11 @@ import { ComponentStatus } from '@dangerprep/health';
 import { NotificationType, NotificationLevel, WebhookChannel } from '@dangerprep/notifications';
 import { AdvancedAsyncPatterns } from '@dangerprep/service';
 import {
+  ControlOperation,
+  ControlRequestError,
+  CONTROL_ERROR_CODES,
+  PeerContentFile,
+  PeerManifestItem,
   StandardizedSyncService,
   ServicePatterns,
   StandardizedServiceConfig,
@@ -262,6 +267,15 @@ export class SyncEngine extends StandardizedSyncService<NFSSyncConfig> {
 
       this.syncStatus.results.unshift(result);
       this.syncStatus.results = this.syncStatus.results.slice(0, 10);
+      this.recordOperationResult({
+        id: operationContext.operationId,
+        type: `${contentType} sync`,
+        success,
+        startTime: operationContext.startTime,
+        endTime: new Date(),
+        ...(!success && { error: `${contentType} sync failed` }),
+        metadata: { contentType },
+      });
 
       if (success) {
         await this.components.notificationManager.notify(
@@ -302,6 +316,15 @@ export class SyncEngine extends StandardizedSyncService<NFSSyncConfig> {
         }
       );
       this.getLogger().error(`${contentType} sync error: ${error}`);
+      this.recordOperationResult({
+        id: operationContext.operationId,
+        type: `${contentType} sync`,
+        success: false,
+        startTime: operationContext.startTime,
+        endTime: new Date(),
+        error: error instanceof Error ? error.message : String(error),
+        metadata: { contentType },
+      });
       return false;
     } finally {
       this.syncStatus.isRunning = false;
@@ -385,6 +408,87 @@ export class SyncEngine extends StandardizedSyncService<NFSSyncConfig> {
     return { ...this.syncStatus };
   }
 
+  /**
+   * Report the running content type sync, if any
+   */
+  public override listOperations(): ControlOperation[] {
+    const { isRunning, currentContentType, startTime, progress } = this.syncStatus;
+    if (!isRunning || !currentContentType) {
+      return [];
+    }
+
+    return [
+      {
+        id: `sync-${currentContentType}`,
+        type: `${currentContentType} sync`,
+        status: 'in_progress',
+        startTime: startTime ?? new Date(),
+        metadata: { contentType: currentContentType, progress },
+      },
+    ];
+  }
+
+  public override async getContentStorageStats(): Promise<Record<string, unknown>> {
+    return await this.getStorageStats();
+  }
+
+  /**
+   * Start syncing one content type (or all of them) in the background
+   */
+  public override async triggerManualSync(target?: string): Promise<string | null> {
+    if (this.syncStatus.isRunning) {
+      throw new ControlRequestError(
+        `A ${this.syncStatus.currentContentType ?? ''} sync is already running`,
+        CONTROL_ERROR_CODES.INVALID_REQUEST
+      );
+    }
+
+    if (target === undefined) {
+      void this.syncAll();
+      return 'sync-all';
+    }
+
+    if (!this.handlers.has(target)) {
+      throw new ControlRequestError(
+        `Unknown content type: ${target}`,
+        CONTROL_ERROR_CODES.INVALID_REQUEST
+      );
+    }
+
+    void this.syncContentType(target);
+    return `sync-${target}`;
+  }
+
+  /**
+   * Synced content of every handled content type, shared with other units
+   */
+  protected override async listPeerContent(): Promise<PeerContentFile[]> {
+    const files: PeerContentFile[] = [];
+    for (const handler of this.handlers.values()) {
+      files.push(...(await handler.listPeerContent()));
+    }
+    return files;
+  }
+
+  /**
+   * Pull files of the content types handled here that are missing locally, while they fit
+   */
+  protected override async getPeerDownloadPath(item: PeerManifestItem): Promise<string | null> {
+    const handler = this.handlers.get(item.contentType);
+    const prefix = `${item.contentType}/`;
+    if (!handler || !item.id.startsWith(prefix)) {
+      return null;
+    }
+    return await handler.getPeerDownloadPath(item.id.slice(prefix.length), item.size);
+  }
+
+  protected override async acceptPeerDownload(
+    item: PeerManifestItem,
+    downloadPath: string
+  ): Promise<void> {
+    await this.handlers.get(item.contentType)?.completePeerDownload(downloadPath);
+  }
+
   async getStorageStats(): Promise<{ [contentType: string]: { size: string; path: string } }> {
     const stats: { [contentType: string]: { size: string; path: string } } = {};
     const config = this.getConfig();
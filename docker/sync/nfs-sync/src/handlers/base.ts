@@ -1,15 +1,23 @@
+import path from 'path';
+
 import {
   getDirectorySize,
+  getFilesRecursively,
   parseSize,
   formatSize,
   ensureDirectory,
   rsyncDirectory,
   fileExists,
+  moveFile,
 } from '@dangerprep/files';
 import type { Logger } from '@dangerprep/logging';
+import type { PeerContentFile } from '@dangerprep/sync';
 
 import { ContentTypeConfig } from '../types';
 
+// Suffix of a file being pulled from another unit; excluded from syncs and sharing
+const PEER_PARTIAL_SUFFIX = '.part';
+
 export abstract class BaseHandler {
   protected contentType = '';
 
@@ -133,6 +141,61 @@ export abstract class BaseHandler {
     }
   }
 
+  /**
+   * Files under local_path offered to other units, as <content type>/<relative path>
+   */
+  async listPeerContent(): Promise<PeerContentFile[]> {
+    const files = await getFilesRecursively(this.config.local_path);
+
+    return files.flatMap(filePath => {
+      const relativePath = path.relative(this.config.local_path, filePath);
+      return this.isExcluded(relativePath)
+        ? []
+        : [
+            {
+              id: `${this.contentType}/${relativePath.split(path.sep).join('/')}`,
+              contentType: this.contentType,
+              path: filePath,
+            },
+          ];
+    });
+  }
+
+  /**
+   * Where to download a file another unit has (relativePath is from its manifest id), or null
+   * when it is already here, excluded, or does not fit in max_size
+   */
+  async getPeerDownloadPath(relativePath: string, size: number): Promise<string | null> {
+    const root = path.resolve(this.config.local_path);
+    const target = path.resolve(root, relativePath);
+
+    // Manifests come from other units, so never write outside local_path
+    if (!target.startsWith(`${root}${path.sep}`) || this.isExcluded(relativePath)) {
+      return null;
+    }
+    if ((await this.fileExists(target)) || !(await this.checkStorageSpace(size))) {
+      return null;
+    }
+
+    await this.ensureDirectory(path.dirname(target));
+    return `${target}${PEER_PARTIAL_SUFFIX}`;
+  }
+
+  /**
+   * Move a verified pull from a peer to its final name
+   */
+  async completePeerDownload(downloadPath: string): Promise<void> {
+    await moveFile(downloadPath, downloadPath.slice(0, -PEER_PARTIAL_SUFFIX.length));
+    this.logProgress(`Pulled ${path.basename(downloadPath, PEER_PARTIAL_SUFFIX)} from a peer`);
+  }
+
+  private isExcluded(relativePath: string): boolean {
+    const parts = relativePath.split(path.sep);
+    return this.getExcludePatterns().some(pattern =>
+      pattern.startsWith('*') ? relativePath.endsWith(pattern.slice(1)) : parts.includes(pattern)
+    );
+  }
+
   protected getExcludePatterns(): string[] {
     return [
       '*.tmp',
@@ -1,20 +1,52 @@
-import { exec } from 'child_process';
+import { exec, execFile } from 'child_process';
+import { randomBytes } from 'crypto';
+import { FileHandle, open } from 'fs/promises';
 import * as path from 'path';
 import { promisify } from 'util';
 
-import { getFilesRecursively, fileExists, ensureDirectory } from '@dangerprep/files';
+import { getFilesRecursively, fileExists, ensureDirectory, formatSize } from '@dangerprep/files';
 import { Logger, LoggerFactory } from '@dangerprep/logging';
 import * as fs from 'fs-extra';
 
-import { DetectedDevice, CardAnalysis, OfflineSyncConfig, ContentTypeConfig } from './types';
+import { CardProfileManager } from './profiles';
+import {
+  DetectedDevice,
+  CardAnalysis,
+  CardPreflight,
+  OfflineSyncConfig,
+  ContentTypeConfig,
+  PreflightCheck,
+} from './types';
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+
+// Filesystems cards are synced on; cards with another one can be provisioned
+export const SUPPORTED_FILE_SYSTEMS = ['ext4', 'ext3', 'ext2', 'ntfs', 'fat32', 'exfat', 'vfat'];
+
+// Read-only filesystem checks; each exits 0 when the filesystem is clean
+const FSCK_COMMANDS: Record<string, { command: string; args: string[] }> = {
+  ext2: { command: 'e2fsck', args: ['-n'] },
+  ext3: { command: 'e2fsck', args: ['-n'] },
+  ext4: { command: 'e2fsck', args: ['-n'] },
+  vfat: { command: 'fsck.vfat', args: ['-n'] },
+  fat32: { command: 'fsck.vfat', args: ['-n'] },
+  exfat: { command: 'fsck.exfat', args: ['-n'] },
+  ntfs: { command: 'ntfsfix', args: ['--no-action'] },
+};
+
+// Size of each block written and read back by the capacity probe
+const PROBE_BLOCK_SIZE = 4096;
 
 export class CardAnalyzer {
   private config: OfflineSyncConfig['offline_sync'];
   private logger: Logger;
+  private unmountedChecks: Map<string, PreflightCheck[]> = new Map(); // devicePath -> checks
 
-  constructor(config: OfflineSyncConfig) {
+  constructor(
+    config: OfflineSyncConfig,
+    private readonly profiles: CardProfileManager
+  ) {
     this.config = config.offline_sync;
     this.logger = LoggerFactory.createConsoleLogger('CardAnalyzer');
   }
@@ -27,8 +59,13 @@ export class CardAnalyzer {
       throw new Error('Device must be mounted before analysis');
     }
 
+    // Identify the card first: its profile decides which content types to look for
+    const identity = await this.profiles.identify(device);
+
     const analysis: CardAnalysis = {
       device,
+      identity,
+      contentTypes: this.profiles.getContentTypes(identity.profile),
       totalSize: 0,
       freeSize: 0,
       usedSize: 0,
@@ -63,6 +100,74 @@ export class CardAnalyzer {
     return analysis;
   }
 
+  /**
+   * Checks that need the card unmounted, run before it is mounted: a read-only fsck and a
+   * sampled write/read-back probe for counterfeit cards that report more capacity than they
+   * have. Their results are reported by runPreflight until the card is removed.
+   */
+  public async checkUnmountedCard(device: DetectedDevice): Promise<PreflightCheck[]> {
+    const config = this.config.preflight;
+
+    let checks: PreflightCheck[];
+    if (device.isMounted) {
+      // Checking a live filesystem reports spurious errors, and the probe would write under it
+      checks = this.skippedUnmountedChecks('Card was already mounted when it was inserted');
+    } else {
+      const locked = await this.isWriteLocked(device);
+      checks = [
+        config.fsck
+          ? await this.checkFileSystem(device)
+          : { name: 'fsck', status: 'skipped', message: 'Disabled' },
+        !config.capacity_probe
+          ? { name: 'capacity', status: 'skipped', message: 'Disabled' }
+          : locked
+            ? { name: 'capacity', status: 'skipped', message: 'Card is write-protected' }
+            : await this.probeCapacity(device),
+      ];
+    }
+
+    this.unmountedChecks.set(device.devicePath, checks);
+    return checks;
+  }
+
+  /**
+   * Drop the unmounted checks of a removed card
+   */
+  public forgetCard(devicePath: string): void {
+    this.unmountedChecks.delete(devicePath);
+  }
+
+  /**
+   * Pre-flight checks before a card is synced: the write-protect lock, plus the fsck and
+   * capacity probe run before the card was mounted
+   */
+  public async runPreflight(analysis: CardAnalysis): Promise<CardPreflight> {
+    const { device } = analysis;
+
+    const checks: PreflightCheck[] = [
+      await this.checkWriteProtect(analysis),
+      ...(this.unmountedChecks.get(device.devicePath) ??
+        this.skippedUnmountedChecks('Card was not checked before it was mounted')),
+    ];
+
+    const preflight: CardPreflight = {
+      devicePath: device.devicePath,
+      checkedAt: new Date(),
+      passed: checks.every(check => check.status !== 'failed'),
+      checks,
+    };
+    analysis.preflight = preflight;
+
+    for (const check of checks.filter(
+      ({ status }) => status === 'failed' || status === 'warning'
+    )) {
+      this.logger.warn(`Pre-flight ${check.name} ${check.status} for ${device.devicePath}`, {
+        message: check.message,
+      });
+    }
+    return preflight;
+  }
+
   /**
    * Create missing directory structure on the card
    */
@@ -79,7 +184,7 @@ export class CardAnalyzer {
       let createdCount = 0;
 
       for (const contentType of analysis.missingContentTypes) {
-        const contentConfig = this.config.content_types[contentType];
+        const contentConfig = analysis.contentTypes[contentType];
         if (!contentConfig) continue;
 
         const cardPath = path.join(analysis.device.mountPath, contentConfig.card_path);
@@ -146,10 +251,9 @@ export class CardAnalyzer {
       }
 
       // Check filesystem type support
-      const supportedFileSystems = ['ext4', 'ext3', 'ext2', 'ntfs', 'fat32', 'exfat', 'vfat'];
       if (
         analysis.device.fileSystem &&
-        !supportedFileSystems.includes(analysis.device.fileSystem.toLowerCase())
+        !SUPPORTED_FILE_SYSTEMS.includes(analysis.device.fileSystem.toLowerCase())
       ) {
         analysis.fileSystemSupported = false;
         analysis.errors.push(`Unsupported filesystem: ${analysis.device.fileSystem}`);
@@ -159,6 +263,183 @@ export class CardAnalyzer {
     }
   }
 
+  /**
+   * Check for a card locked by its write-protect switch or mounted read-only
+   */
+  private async checkWriteProtect(analysis: CardAnalysis): Promise<PreflightCheck> {
+    const locked = await this.isWriteLocked(analysis.device);
+
+    if (locked || analysis.readOnly) {
+      return {
+        name: 'write_protect',
+        status: 'warning',
+        message: `Card is ${locked ? 'write-protected' : 'mounted read-only'}; only copies from the card will run`,
+      };
+    }
+    return { name: 'write_protect', status: 'passed', message: 'Card is writable' };
+  }
+
+  // The kernel reports the lock switch in /sys/class/block/<device>/ro
+  private async isWriteLocked(device: DetectedDevice): Promise<boolean> {
+    const roFile = path.join('/sys/class/block', path.basename(device.devicePath), 'ro');
+    return fs
+      .readFile(roFile, 'utf8')
+      .then(value => value.trim() === '1')
+      .catch(() => false);
+  }
+
+  private skippedUnmountedChecks(message: string): PreflightCheck[] {
+    return [
+      { name: 'fsck', status: 'skipped', message },
+      { name: 'capacity', status: 'skipped', message },
+    ];
+  }
+
+  /**
+   * Read-only fsck of the card's unmounted filesystem
+   */
+  private async checkFileSystem(device: DetectedDevice): Promise<PreflightCheck> {
+    const fsck = device.fileSystem ? FSCK_COMMANDS[device.fileSystem.toLowerCase()] : undefined;
+    if (!fsck) {
+      return {
+        name: 'fsck',
+        status: 'skipped',
+        message: `No read-only check for ${device.fileSystem ?? 'unknown'} filesystems`,
+      };
+    }
+
+    try {
+      await execFileAsync(fsck.command, [...fsck.args, device.devicePath], {
+        timeout: this.config.preflight.fsck_timeout * 1000,
+      });
+      return { name: 'fsck', status: 'passed', message: `${fsck.command} found no errors` };
+    } catch (error) {
+      const failure = error as NodeJS.ErrnoException & {
+        stdout?: string;
+        stderr?: string;
+        killed?: boolean;
+      };
+
+      if (failure.code === 'ENOENT') {
+        return { name: 'fsck', status: 'skipped', message: `${fsck.command} is not installed` };
+      }
+      if (failure.killed) {
+        return {
+          name: 'fsck',
+          status: 'warning',
+          message: `${fsck.command} did not finish within ${this.config.preflight.fsck_timeout}s`,
+        };
+      }
+
+      const lastLine = `${failure.stdout ?? ''}\n${failure.stderr ?? ''}`.trim().split('\n').pop();
+      return {
+        name: 'fsck',
+        status: 'failed',
+        message: `${fsck.command} found errors (exit ${failure.code})${lastLine ? `: ${lastLine}` : ''}`,
+      };
+    }
+  }
+
+  /**
+   * Write a pattern to blocks sampled across the whole unmounted card, read them back past the
+   * kernel's cache and restore them. Fake cards wrap writes beyond their real capacity onto earlier
+   * blocks, or fail them, so a sample that does not read back gives them away.
+   */
+  private async probeCapacity(device: DetectedDevice): Promise<PreflightCheck> {
+    const samples = this.config.preflight.probe_samples;
+
+    let size: number;
+    try {
+      const { stdout } = await execFileAsync('blockdev', ['--getsize64', device.devicePath]);
+      size = parseInt(stdout.trim()) || 0;
+    } catch (error) {
+      return {
+        name: 'capacity',
+        status: 'skipped',
+        message: `Could not read the card size: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+
+    const blocks = Math.floor(size / PROBE_BLOCK_SIZE);
+    if (blocks < samples * 2) {
+      return { name: 'capacity', status: 'skipped', message: 'Card is too small to probe' };
+    }
+
+    // Spread evenly up to the card's last block
+    const offsets = Array.from(
+      { length: samples },
+      (_, index) => Math.floor(((blocks - 1) * (index + 1)) / samples) * PROBE_BLOCK_SIZE
+    );
+
+    let handle: FileHandle;
+    try {
+      handle = await open(device.devicePath, fs.constants.O_RDWR | fs.constants.O_SYNC);
+    } catch (error) {
+      return {
+        name: 'capacity',
+        status: 'skipped',
+        message: `Could not open the card for probing: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+
+    const originals: Buffer[] = [];
+    const nonce = randomBytes(8).toString('hex');
+    const pattern = (offset: number) =>
+      Buffer.alloc(PROBE_BLOCK_SIZE, `dangerprep-probe ${nonce} ${offset}\n`);
+
+    try {
+      for (const offset of offsets) {
+        originals.push(await this.readBlock(handle, offset));
+      }
+      for (const offset of offsets) {
+        await handle.write(pattern(offset), 0, PROBE_BLOCK_SIZE, offset);
+      }
+
+      // Drop cached blocks so they are read back from the card itself
+      await execFileAsync('blockdev', ['--flushbufs', device.devicePath]);
+
+      for (const offset of offsets) {
+        if (!(await this.readBlock(handle, offset)).equals(pattern(offset))) {
+          return {
+            name: 'capacity',
+            status: 'failed',
+            message: `Data written at ${formatSize(offset)} did not read back: the card likely holds less than the ${formatSize(size)} it reports`,
+          };
+        }
+      }
+
+      return {
+        name: 'capacity',
+        status: 'passed',
+        message: `${samples} samples across ${formatSize(size)} read back intact`,
+      };
+    } catch (error) {
+      return {
+        name: 'capacity',
+        status: 'failed',
+        message: `Probe I/O failed: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    } finally {
+      // Restore last to first: on a card that wraps, the block written first must win
+      for (let index = originals.length - 1; index >= 0; index--) {
+        const original = originals[index];
+        const offset = offsets[index];
+        if (original && offset !== undefined) {
+          await handle
+            .write(original, 0, PROBE_BLOCK_SIZE, offset)
+            .catch(error => this.logError(`Failed to restore probed block at ${offset}`, error));
+        }
+      }
+      await handle.close();
+    }
+  }
+
+  private async readBlock(handle: FileHandle, offset: number): Promise<Buffer> {
+    const buffer = Buffer.alloc(PROBE_BLOCK_SIZE);
+    await handle.read(buffer, 0, PROBE_BLOCK_SIZE, offset);
+    return buffer;
+  }
+
   /**
    * Analyze existing directory structure
    */
@@ -169,7 +450,7 @@ export class CardAnalyzer {
     try {
       const entries = await fs.readdir(mountPath);
 
-      for (const [contentType, contentConfig] of Object.entries(this.config.content_types)) {
+      for (const [contentType, contentConfig] of Object.entries(analysis.contentTypes)) {
         const cardPath = path.join(mountPath, contentConfig.card_path);
 
         // Check if the content directory exists
@@ -223,11 +504,9 @@ export class CardAnalyzer {
   private async detectUnrecognizedContent(
     mountPath: string,
     entries: string[],
-    _analysis: CardAnalysis
+    analysis: CardAnalysis
   ): Promise<void> {
-    const recognizedPaths = Object.values(this.config.content_types).map(
-      config => config.card_path
-    );
+    const recognizedPaths = Object.values(analysis.contentTypes).map(config => config.card_path);
 
     for (const entry of entries) {
       const entryPath = path.join(mountPath, entry);
@@ -285,7 +564,7 @@ export class CardAnalyzer {
    * Determine which content types are missing from the card
    */
   private determineMissingContentTypes(analysis: CardAnalysis): void {
-    const allContentTypes = Object.keys(this.config.content_types);
+    const allContentTypes = Object.keys(analysis.contentTypes);
     analysis.missingContentTypes = allContentTypes.filter(
       contentType => !analysis.detectedContentTypes.includes(contentType)
     );
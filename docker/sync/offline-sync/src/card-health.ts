@@ -0,0 +1,136 @@
+import { Logger } from '@dangerprep/logging';
+import * as fs from 'fs-extra';
+
+import { CardHealthRecord, CardIdentity, CardPreflight } from './types';
+
+// Pre-flights kept per card to decide whether it keeps failing
+const RECENT_PREFLIGHTS = 10;
+
+/**
+ * Pre-flight and eject history per card, so cards that keep failing their checks are flagged
+ *
+ * A card is flagged once flagAfterFailures of its last 10 pre-flights failed; it stays
+ * flagged until enough passing pre-flights push the failures out of that window. Cards pulled
+ * before they were safe to remove are counted as unsafe ejects.
+ */
+export class CardHealthStore {
+  private records: Map<string, CardHealthRecord> | null = null;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly flagAfterFailures: number,
+    private readonly logger: Logger
+  ) {}
+
+  async list(): Promise<CardHealthRecord[]> {
+    return Array.from((await this.load()).values());
+  }
+
+  async get(cardId: string): Promise<CardHealthRecord | undefined> {
+    return (await this.load()).get(cardId);
+  }
+
+  /**
+   * Add a pre-flight to a card's history and return the updated record
+   */
+  async record(identity: CardIdentity, preflight: CardPreflight): Promise<CardHealthRecord> {
+    const records = await this.load();
+    const existing = records.get(identity.cardId);
+    const serialNumber = identity.serialNumber ?? existing?.serialNumber;
+
+    const recent = [
+      ...(existing?.recent ?? []),
+      {
+        checkedAt: preflight.checkedAt,
+        passed: preflight.passed,
+        failedChecks: preflight.checks
+          .filter(check => check.status === 'failed')
+          .map(check => check.name),
+      },
+    ].slice(-RECENT_PREFLIGHTS);
+
+    const record: CardHealthRecord = {
+      ...existing,
+      cardId: identity.cardId,
+      ...(serialNumber && { serialNumber }),
+      preflights: (existing?.preflights ?? 0) + 1,
+      failures: (existing?.failures ?? 0) + (preflight.passed ? 0 : 1),
+      flagged: recent.filter(entry => !entry.passed).length >= this.flagAfterFailures,
+      lastPreflight: preflight,
+      recent,
+      unsafeEjects: existing?.unsafeEjects ?? 0,
+    };
+    records.set(identity.cardId, record);
+    await this.persist();
+
+    return record;
+  }
+
+  /**
+   * Count a card pulled before it was safe to remove and return the updated record
+   */
+  async recordUnsafeEject(identity: CardIdentity): Promise<CardHealthRecord> {
+    const records = await this.load();
+    const existing = records.get(identity.cardId);
+    const serialNumber = identity.serialNumber ?? existing?.serialNumber;
+
+    const record: CardHealthRecord = {
+      preflights: 0,
+      failures: 0,
+      flagged: false,
+      recent: [],
+      ...existing,
+      cardId: identity.cardId,
+      ...(serialNumber && { serialNumber }),
+      unsafeEjects: (existing?.unsafeEjects ?? 0) + 1,
+      lastUnsafeEject: new Date(),
+    };
+    records.set(identity.cardId, record);
+    await this.persist();
+
+    return record;
+  }
+
+  private async load(): Promise<Map<string, CardHealthRecord>> {
+    if (this.records) {
+      return this.records;
+    }
+
+    this.records = new Map();
+    try {
+      if (await fs.pathExists(this.filePath)) {
+        const stored = (await fs.readJson(this.filePath)) as CardHealthRecord[];
+        for (const record of stored) {
+          this.records.set(record.cardId, {
+            ...record,
+            ...(record.lastPreflight && {
+              lastPreflight: {
+                ...record.lastPreflight,
+                checkedAt: new Date(record.lastPreflight.checkedAt),
+              },
+            }),
+            recent: record.recent.map(entry => ({
+              ...entry,
+              checkedAt: new Date(entry.checkedAt),
+            })),
+            // Records written before unsafe ejects were tracked
+            unsafeEjects: record.unsafeEjects ?? 0,
+            ...(record.lastUnsafeEject && { lastUnsafeEject: new Date(record.lastUnsafeEject) }),
+          });
+        }
+      }
+    } catch (error) {
+      this.logger.warn(`Ignoring unreadable card health file ${this.filePath}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    return this.records;
+  }
+
+  private async persist(): Promise<void> {
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.outputJson(tempPath, Array.from(this.records?.values() ?? []), { spaces: 2 });
+    await fs.move(tempPath, this.filePath, { overwrite: true });
+  }
+}
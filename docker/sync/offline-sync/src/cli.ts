@@ -1,9 +1,19 @@
 #!/usr/bin/env node
 
-import { StandardizedCli, CliOutput, StandardizedSyncService } from '@dangerprep/sync';
+import { StandardizedCli, CliOutput, ControlClient, formatBytes } from '@dangerprep/sync';
 
 import { OfflineSync } from './engine';
-import { OfflineSyncConfig } from './types';
+import {
+  CardHealthRecord,
+  CardIdentity,
+  CardProfileSummary,
+  DeletionReport,
+  DetectedDevice,
+  EjectState,
+  ProvisionPreview,
+  SyncConflict,
+  SyncPlan,
+} from './types';
 
 // Create a service factory function for the CLI
 const createOfflineSyncService = (configPath?: string): OfflineSync => {
@@ -21,14 +31,9 @@ const cliConfig = {
   customCommands: [
     {
       name: 'devices',
-      description: 'List detected devices',
-      action: async (
-        _args: unknown[],
-        _options: unknown,
-        service: StandardizedSyncService<OfflineSyncConfig>
-      ) => {
-        const offlineSync = service as OfflineSync;
-        const devices = offlineSync.getDetectedDevices();
+      description: 'List devices detected by the running service',
+      remoteAction: async (_args: unknown[], _options: unknown, daemon: ControlClient) => {
+        const devices = await daemon.call<DetectedDevice[]>('devices');
 
         CliOutput.info('=== Detected Devices ===');
 
@@ -58,25 +63,316 @@ const cliConfig = {
     },
     {
       name: 'sync',
-      description: 'Manually trigger sync for a device',
+      description: 'Queue a sync for a device in the running service',
       arguments: [{ name: 'device-path', description: 'Device path to sync', required: true }],
-      action: async (
-        args: unknown[],
-        _options: unknown,
-        service: StandardizedSyncService<OfflineSyncConfig>
-      ) => {
+      remoteAction: async (args: unknown[], _options: unknown, daemon: ControlClient) => {
         const devicePath = args[0] as string;
-        const offlineSync = service as OfflineSync;
-        const operationId = await offlineSync.triggerSync(devicePath);
+        const operationId = await daemon.call<string | null>('sync', devicePath);
 
         if (operationId) {
-          CliOutput.success(`Sync started with operation ID: ${operationId}`);
+          CliOutput.success(`Sync queued with operation ID: ${operationId}`);
+          CliOutput.info(`Follow it with: offline-sync operations`);
         } else {
           CliOutput.error('Failed to start sync operation');
           process.exit(1);
         }
       },
     },
+    {
+      name: 'profiles',
+      description: 'List card profiles and the cards assigned to them',
+      remoteAction: async (_args: unknown[], _options: unknown, daemon: ControlClient) => {
+        const profiles = await daemon.call<CardProfileSummary[]>('profiles');
+
+        CliOutput.info('=== Card Profiles ===');
+
+        if (profiles.length === 0) {
+          CliOutput.info('No card profiles configured (offline_sync.card_profiles)');
+          return;
+        }
+
+        profiles.forEach(profile => {
+          CliOutput.info(
+            `\n${profile.name}${profile.description ? ` - ${profile.description}` : ''}`
+          );
+          CliOutput.info(`  Content types: ${profile.contentTypes.join(', ')}`);
+          if (profile.serialNumbers.length > 0) {
+            CliOutput.info(`  USB serials: ${profile.serialNumbers.join(', ')}`);
+          }
+          CliOutput.info(`  Assigned cards: ${profile.assignedCards.join(', ') || 'none'}`);
+        });
+      },
+    },
+    {
+      name: 'assign-profile',
+      description: 'Assign a card profile to an inserted card and resync it',
+      arguments: [
+        { name: 'device-path', description: 'Device path of the card', required: true },
+        { name: 'profile', description: 'Profile name (omit to clear)', required: false },
+      ],
+      remoteAction: async (args: unknown[], _options: unknown, daemon: ControlClient) => {
+        const [devicePath, profile] = args as [string, string | undefined];
+        const identity = await daemon.call<CardIdentity>(
+          'assign-profile',
+          devicePath,
+          profile ?? null
+        );
+
+        CliOutput.success(
+          identity.profile
+            ? `Card ${identity.cardId} uses profile ${identity.profile} (${identity.profileSource})`
+            : `Card ${identity.cardId} has no profile and uses the top-level content types`
+        );
+      },
+    },
+    {
+      name: 'cards',
+      description: 'List cards with their pre-flight history',
+      remoteAction: async (_args: unknown[], _options: unknown, daemon: ControlClient) => {
+        const cards = await daemon.call<CardHealthRecord[]>('cards');
+
+        CliOutput.info('=== Card Health ===');
+
+        if (cards.length === 0) {
+          CliOutput.info('No cards checked yet');
+          return;
+        }
+
+        cards.forEach(card => {
+          CliOutput.info(
+            `${card.flagged ? '[FLAGGED] ' : ''}${card.cardId}${card.serialNumber ? ` (serial ${card.serialNumber})` : ''}`
+          );
+          if (card.lastPreflight) {
+            CliOutput.info(
+              `  ${card.failures} of ${card.preflights} pre-flight(s) failed, last ${card.lastPreflight.passed ? 'passed' : 'failed'} at ${card.lastPreflight.checkedAt}`
+            );
+          }
+          if (card.unsafeEjects > 0) {
+            CliOutput.info(
+              `  ${card.unsafeEjects} unsafe eject(s), last at ${card.lastUnsafeEject}`
+            );
+          }
+        });
+      },
+    },
+    {
+      name: 'preflight',
+      description: 'Run the pre-flight checks on an inserted card without syncing it',
+      arguments: [{ name: 'device-path', description: 'Device path of the card', required: true }],
+      remoteAction: async (args: unknown[], _options: unknown, daemon: ControlClient) => {
+        const card = await daemon.call<CardHealthRecord>('preflight', args[0] as string);
+
+        CliOutput.info(`=== Pre-flight (card ${card.cardId}) ===`);
+        card.lastPreflight?.checks.forEach(check => {
+          CliOutput.info(`  [${check.status}] ${check.name}: ${check.message}`);
+        });
+
+        if (card.lastPreflight?.passed) {
+          CliOutput.success('Card passed its pre-flight checks');
+        } else {
+          CliOutput.error('Card failed its pre-flight checks and will not be synced');
+        }
+        if (card.flagged) {
+          CliOutput.warning(`Card is flagged: ${card.failures} failed pre-flight(s) so far`);
+        }
+      },
+    },
+    {
+      name: 'eject',
+      description: 'Finish the sync of a card, then flush, verify and unmount it for removal',
+      arguments: [{ name: 'device-path', description: 'Device path of the card', required: true }],
+      remoteAction: async (args: unknown[], _options: unknown, daemon: ControlClient) => {
+        const devicePath = args[0] as string;
+        let state: EjectState | undefined = await daemon.call<EjectState>('eject', devicePath);
+        let lastStage: string | undefined;
+
+        // Follow the eject until it settles; it carries on in the service if this is stopped
+        while (state && state.stage !== 'safe_to_remove' && state.stage !== 'failed') {
+          if (state.stage !== lastStage) {
+            CliOutput.info(`${state.stage}...`);
+            lastStage = state.stage;
+          }
+          await new Promise(resolve => setTimeout(resolve, 1000));
+          const states = await daemon.call<EjectState[]>('ejects');
+          state = states.find(candidate => candidate.devicePath === devicePath);
+        }
+
+        if (state?.stage === 'safe_to_remove') {
+          CliOutput.success(`Card ${state.cardId} is safe to remove`);
+        } else {
+          CliOutput.error(
+            state ? `Eject failed: ${state.error ?? 'Unknown error'}` : 'Card was removed'
+          );
+          process.exit(1);
+        }
+      },
+    },
+    {
+      name: 'provision',
+      description:
+        'Partition and format a blank or unsupported card; previews the change and prints a confirmation code unless --confirm is given',
+      arguments: [
+        { name: 'device-path', description: 'Device path of the card', required: true },
+        { name: 'filesystem', description: 'exfat or ext4', required: true },
+      ],
+      options: [
+        { flags: '--label <label>', description: 'Volume label (default DANGERPREP)' },
+        { flags: '--force', description: 'Also erase a card with a supported filesystem' },
+        { flags: '--confirm <code>', description: 'Confirmation code from the preview' },
+      ],
+      remoteAction: async (
+        args: unknown[],
+        options: { label?: string; force?: boolean; confirm?: string },
+        daemon: ControlClient
+      ) => {
+        const [devicePath, fileSystem] = args as [string, string];
+        const preview = await daemon.call<ProvisionPreview>('provision', devicePath, {
+          fileSystem,
+          ...(options.label && { label: options.label }),
+          ...(options.force && { force: true }),
+          ...(options.confirm && { confirm: options.confirm }),
+        });
+
+        if (preview.started) {
+          CliOutput.success(`Provisioning ${preview.disk} with ${fileSystem}`);
+          CliOutput.info('The card is synced once it is done; failures are sent as notifications');
+          return;
+        }
+
+        CliOutput.info(`=== Provision ${preview.disk} ===`);
+        if (preview.model) {
+          CliOutput.info(`Model: ${preview.model}`);
+        }
+        CliOutput.info(`Size: ${formatBytes(preview.size)}`);
+        CliOutput.info(`Filesystem: ${preview.fileSystem ?? 'none'} (${preview.status})`);
+        CliOutput.info(`Partitions: ${preview.partitions.join(', ') || 'none'}`);
+
+        if (preview.refusal) {
+          CliOutput.error(preview.refusal);
+          process.exit(1);
+        }
+        CliOutput.warning(`Everything on ${preview.disk} will be erased`);
+        CliOutput.info(
+          `Re-run with --confirm ${preview.confirmation} before ${preview.expiresAt} to provision it`
+        );
+      },
+    },
+    {
+      name: 'plan',
+      description:
+        'Show what the next sync of a card would transfer and what will not fit (dry run)',
+      arguments: [{ name: 'device-path', description: 'Device path of the card', required: true }],
+      remoteAction: async (args: unknown[], _options: unknown, daemon: ControlClient) => {
+        const plan = await daemon.call<SyncPlan>('plan', args[0] as string);
+
+        CliOutput.info(`=== Sync Plan (card ${plan.cardId}) ===`);
+        CliOutput.info(`Profile: ${plan.profile ?? 'none'}`);
+        CliOutput.info(
+          `Available: ${plan.availableBytes === null ? 'unknown' : formatBytes(plan.availableBytes)}`
+        );
+        CliOutput.info(`To card: ${plan.toCard.files} file(s), ${formatBytes(plan.toCard.bytes)}`);
+        CliOutput.info(
+          `From card: ${plan.fromCard.files} file(s), ${formatBytes(plan.fromCard.bytes)}`
+        );
+        CliOutput.info(`Deletions: ${plan.deletions.length}, conflicts: ${plan.conflicts}`);
+
+        Object.entries(plan.contentTypes).forEach(([contentType, fill]) => {
+          CliOutput.info(
+            `  ${contentType}: ${fill.files} file(s) to card, ${formatBytes(fill.usedBytes)} of ${fill.maxBytes === null ? 'unlimited' : formatBytes(fill.maxBytes)} used`
+          );
+        });
+
+        if (plan.skipped.length > 0) {
+          CliOutput.info(`\n${plan.skipped.length} file(s) will not fit:`);
+          plan.skipped.forEach(file => {
+            CliOutput.info(
+              `  [${file.reason}] ${file.contentType}/${file.relativePath} (${formatBytes(file.size)})`
+            );
+          });
+        }
+      },
+    },
+    {
+      name: 'deletions',
+      description: 'Show which files the next sync of a card would delete (dry run)',
+      arguments: [{ name: 'device-path', description: 'Device path of the card', required: true }],
+      remoteAction: async (args: unknown[], _options: unknown, daemon: ControlClient) => {
+        const report = await daemon.call<DeletionReport>('deletions', args[0] as string);
+
+        CliOutput.info(`=== Pending Deletions (card ${report.cardId}) ===`);
+
+        if (!report.enabled) {
+          CliOutput.info('Deletion propagation is off (sync.delete_after_sync: false)');
+          return;
+        }
+        if (report.deletions.length === 0) {
+          CliOutput.info('Nothing would be deleted');
+          return;
+        }
+
+        report.deletions.forEach(deletion => {
+          CliOutput.info(
+            `  [${deletion.side}] ${deletion.contentType}/${deletion.relativePath} (${deletion.size} bytes)`
+          );
+        });
+        CliOutput.info(`\n${report.deletions.length} file(s) would be moved to the trash`);
+      },
+    },
+    {
+      name: 'conflicts',
+      description: 'List sync conflicts waiting for a decision',
+      remoteAction: async (_args: unknown[], _options: unknown, daemon: ControlClient) => {
+        const conflicts = await daemon.call<SyncConflict[]>('conflicts');
+
+        CliOutput.info('=== Sync Conflicts ===');
+
+        if (conflicts.length === 0) {
+          CliOutput.info('No conflicts');
+          return;
+        }
+
+        conflicts.forEach(conflict => {
+          CliOutput.info(`\n${conflict.id}: ${conflict.contentType}/${conflict.relativePath}`);
+          CliOutput.info(`  Card: ${conflict.cardId} (${conflict.devicePath})`);
+          CliOutput.info(`  Local: ${conflict.local.size} bytes, modified ${conflict.local.mtime}`);
+          CliOutput.info(`  Card: ${conflict.card.size} bytes, modified ${conflict.card.mtime}`);
+          if (conflict.resolution) {
+            CliOutput.info(`  Decision: ${conflict.resolution} (applied on next sync)`);
+          }
+        });
+      },
+    },
+    {
+      name: 'resolve',
+      description: 'Decide a sync conflict',
+      arguments: [
+        {
+          name: 'conflict-id',
+          description: 'Conflict ID from the conflicts command',
+          required: true,
+        },
+        {
+          name: 'resolution',
+          description: 'keep_both, prefer_local or prefer_card',
+          required: true,
+        },
+      ],
+      remoteAction: async (args: unknown[], _options: unknown, daemon: ControlClient) => {
+        const [conflictId, resolution] = args as [string, string];
+        const conflict = await daemon.call<SyncConflict | null>(
+          'resolve-conflict',
+          conflictId,
+          resolution
+        );
+
+        if (conflict) {
+          CliOutput.success(`Conflict ${conflictId} will be resolved with ${resolution}`);
+        } else {
+          CliOutput.error(`Unknown conflict: ${conflictId}`);
+          process.exit(1);
+        }
+      },
+    },
   ],
 };
 
@@ -0,0 +1,120 @@
+import { createHash } from 'crypto';
+
+import { Logger } from '@dangerprep/logging';
+import * as fs from 'fs-extra';
+
+import { ConflictResolution, SyncConflict } from './types';
+
+type ConflictKey = Pick<SyncConflict, 'cardId' | 'contentType' | 'relativePath'>;
+
+/**
+ * Conflicts waiting for a decision (content types with conflict_policy: ask)
+ *
+ * Persisted so a decision made in the portal after the card was pulled is applied the next
+ * time the card is synced.
+ */
+export class ConflictStore {
+  private conflicts: Map<string, SyncConflict> | null = null;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly logger: Logger
+  ) {}
+
+  async list(): Promise<SyncConflict[]> {
+    return Array.from((await this.load()).values());
+  }
+
+  /**
+   * Record a conflict, keeping any decision already made for the same file
+   */
+  async add(conflict: Omit<SyncConflict, 'id' | 'detectedAt'>): Promise<SyncConflict> {
+    const conflicts = await this.load();
+    const id = ConflictStore.getId(conflict);
+    const existing = conflicts.get(id);
+
+    const stored: SyncConflict = {
+      ...conflict,
+      id,
+      detectedAt: existing?.detectedAt ?? new Date(),
+      ...(existing?.resolution && { resolution: existing.resolution }),
+    };
+    conflicts.set(id, stored);
+    await this.persist();
+
+    return stored;
+  }
+
+  /**
+   * Record the decision for a conflict; returns null for an unknown conflict ID
+   */
+  async resolve(id: string, resolution: ConflictResolution): Promise<SyncConflict | null> {
+    const conflicts = await this.load();
+    const conflict = conflicts.get(id);
+    if (!conflict) {
+      return null;
+    }
+
+    conflict.resolution = resolution;
+    await this.persist();
+    return conflict;
+  }
+
+  /**
+   * Decision made for a file, if any
+   */
+  async getResolution(key: ConflictKey): Promise<ConflictResolution | undefined> {
+    return (await this.load()).get(ConflictStore.getId(key))?.resolution;
+  }
+
+  /**
+   * Forget a conflict once it has been resolved or no longer applies
+   */
+  async remove(key: ConflictKey): Promise<void> {
+    const conflicts = await this.load();
+    if (conflicts.delete(ConflictStore.getId(key))) {
+      await this.persist();
+    }
+  }
+
+  // Stable across syncs so the same conflict keeps its ID in the portal
+  private static getId(key: ConflictKey): string {
+    return createHash('sha1')
+      .update(`${key.cardId}\0${key.contentType}\0${key.relativePath}`)
+      .digest('hex')
+      .slice(0, 16);
+  }
+
+  private async load(): Promise<Map<string, SyncConflict>> {
+    if (this.conflicts) {
+      return this.conflicts;
+    }
+
+    this.conflicts = new Map();
+    try {
+      if (await fs.pathExists(this.filePath)) {
+        const stored = (await fs.readJson(this.filePath)) as SyncConflict[];
+        for (const conflict of stored) {
+          this.conflicts.set(conflict.id, {
+            ...conflict,
+            local: { ...conflict.local, mtime: new Date(conflict.local.mtime) },
+            card: { ...conflict.card, mtime: new Date(conflict.card.mtime) },
+            detectedAt: new Date(conflict.detectedAt),
+          });
+        }
+      }
+    } catch (error) {
+      this.logger.warn(`Ignoring unreadable conflict file ${this.filePath}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    return this.conflicts;
+  }
+
+  private async persist(): Promise<void> {
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.outputJson(tempPath, Array.from(this.conflicts?.values() ?? []), { spaces: 2 });
+    await fs.move(tempPath, this.filePath, { overwrite: true });
+  }
+}
@@ -5,6 +5,7 @@ import { promisify } from 'util';
 import { Logger, LoggerFactory } from '@dangerprep/logging';
 import { usb } from 'usb';
 
+import { SUPPORTED_FILE_SYSTEMS } from './analyzer';
 import { DetectedDevice, OfflineSyncConfig, LsblkOutput, DiskSpaceInfo } from './types';
 
 const execAsync = promisify(exec);
@@ -92,6 +93,14 @@ export class DeviceDetector extends EventEmitter {
     return this.detectedDevices.get(devicePath);
   }
 
+  /**
+   * Replace a detected device whose block device changed, e.g. a card that was repartitioned
+   */
+  public replaceDevice(devicePath: string, device: DetectedDevice): void {
+    this.detectedDevices.delete(devicePath);
+    this.detectedDevices.set(device.devicePath, device);
+  }
+
   /**
    * Handle USB device attach event
    */
@@ -115,10 +124,20 @@ export class DeviceDetector extends EventEmitter {
       for (const blockDevice of blockDevices) {
         const detectedDevice = await this.analyzeDevice(device, blockDevice);
 
-        if (detectedDevice && this.isValidDevice(detectedDevice)) {
-          this.detectedDevices.set(detectedDevice.devicePath, detectedDevice);
+        if (!detectedDevice || !this.isValidDevice(detectedDevice)) {
+          continue;
+        }
+
+        this.detectedDevices.set(detectedDevice.devicePath, detectedDevice);
+        if (this.isSupportedFileSystem(detectedDevice)) {
           this.emit('device_detected', detectedDevice);
           this.log(`Valid storage device detected: ${detectedDevice.devicePath}`);
+        } else {
+          // Kept so the card can be provisioned, but never mounted or synced as it is
+          this.emit('device_unsupported', detectedDevice);
+          this.log(
+            `Unsupported filesystem: ${detectedDevice.fileSystem} on ${detectedDevice.devicePath}`
+          );
         }
       }
     } catch (error) {
@@ -318,16 +337,16 @@ export class DeviceDetector extends EventEmitter {
       return false;
     }
 
-    // Check if filesystem is supported
-    const supportedFileSystems = ['ext4', 'ext3', 'ext2', 'ntfs', 'fat32', 'exfat', 'vfat'];
-    if (device.fileSystem && !supportedFileSystems.includes(device.fileSystem.toLowerCase())) {
-      this.log(`Unsupported filesystem: ${device.fileSystem} on ${device.devicePath}`);
-      return false;
-    }
-
     return true;
   }
 
+  /**
+   * Check if a detected device has a filesystem cards can be synced on
+   */
+  private isSupportedFileSystem(device: DetectedDevice): boolean {
+    return !device.fileSystem || SUPPORTED_FILE_SYSTEMS.includes(device.fileSystem.toLowerCase());
+  }
+
   /**
    * Parse size string to bytes
    */
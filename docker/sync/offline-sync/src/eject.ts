@@ -0,0 +1,198 @@
+import { execFile } from 'child_process';
+import { EventEmitter } from 'events';
+import { promisify } from 'util';
+
+import { Logger } from '@dangerprep/logging';
+import * as fs from 'fs-extra';
+
+import { MountManager } from './mount';
+import { SyncEngine } from './sync';
+import {
+  CardAnalysis,
+  CardIdentity,
+  DetectedDevice,
+  EjectStage,
+  EjectState,
+  OfflineSyncConfig,
+} from './types';
+
+const execFileAsync = promisify(execFile);
+
+// How often a card's sync is checked while waiting for it to finish
+const FINISH_POLL_MS = 1000;
+
+// Stages during which the ejector is working on a card
+const IN_PROGRESS_STAGES: EjectStage[] = ['finishing', 'flushing', 'verifying', 'unmounting'];
+
+/**
+ * Takes a card through finishing its sync, flushing, verifying and unmounting, then signals
+ * that it is safe to remove
+ *
+ * Every inserted card has an eject state. While any card is safe to remove the configured LED
+ * is lit; a card pulled while still mounted, or in the middle of being ejected, is reported
+ * as an unsafe eject by `removed`.
+ */
+export class CardEjector extends EventEmitter {
+  private config: OfflineSyncConfig['offline_sync']['eject'];
+  private cards: Map<string, { state: EjectState; identity: CardIdentity }> = new Map();
+
+  constructor(
+    config: OfflineSyncConfig,
+    private readonly mountManager: MountManager,
+    private readonly syncEngine: SyncEngine,
+    private readonly logger: Logger
+  ) {
+    super();
+    this.config = config.offline_sync.eject;
+  }
+
+  /**
+   * Start tracking a card once it is mounted and identified
+   */
+  track(analysis: CardAnalysis): void {
+    const { devicePath } = analysis.device;
+    if (this.isEjecting(devicePath)) {
+      return;
+    }
+
+    this.cards.set(devicePath, {
+      state: {
+        devicePath,
+        cardId: analysis.identity.cardId,
+        stage: 'mounted',
+        updatedAt: new Date(),
+      },
+      identity: analysis.identity,
+    });
+  }
+
+  list(): EjectState[] {
+    return Array.from(this.cards.values(), card => ({ ...card.state }));
+  }
+
+  get(devicePath: string): EjectState | undefined {
+    const card = this.cards.get(devicePath);
+    return card && { ...card.state };
+  }
+
+  isEjecting(devicePath: string): boolean {
+    const stage = this.cards.get(devicePath)?.state.stage;
+    return stage !== undefined && IN_PROGRESS_STAGES.includes(stage);
+  }
+
+  /**
+   * Start ejecting the analyzed card; card_safe or eject_failed is emitted when it is done
+   */
+  eject(analysis: CardAnalysis): EjectState {
+    this.track(analysis);
+    const state = this.setStage(analysis.device.devicePath, 'finishing');
+    void this.run(analysis);
+    return state;
+  }
+
+  private async run(analysis: CardAnalysis): Promise<void> {
+    const { device } = analysis;
+
+    try {
+      while (this.isSyncing(device.devicePath)) {
+        await new Promise(resolve => setTimeout(resolve, FINISH_POLL_MS));
+      }
+
+      this.setStage(device.devicePath, 'flushing');
+      await execFileAsync('sync');
+      await execFileAsync('blockdev', ['--flushbufs', device.devicePath]);
+
+      if (this.config.verify) {
+        this.setStage(device.devicePath, 'verifying');
+        const problems = await this.syncEngine.verifyCard(analysis);
+        if (problems.length > 0) {
+          throw new Error(
+            `${problems.length} file(s) failed verification: ${problems.slice(0, 3).join('; ')}`
+          );
+        }
+      }
+
+      this.setStage(device.devicePath, 'unmounting');
+      if (!(await this.mountManager.unmountDevice(device))) {
+        throw new Error(`Could not unmount ${device.devicePath}`);
+      }
+
+      const state = this.setStage(device.devicePath, 'safe_to_remove');
+      await this.updateLed();
+      this.emit('card_safe', state);
+    } catch (error) {
+      // A card pulled mid-eject has already been reported by removed()
+      if (this.cards.has(device.devicePath)) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.emit('eject_failed', this.setStage(device.devicePath, 'failed', message));
+      }
+    }
+  }
+
+  /**
+   * Stop tracking a pulled card; returns its identity and whether it was pulled before it was
+   * safe to remove, or undefined for a card that was never identified
+   */
+  async removed(
+    device: DetectedDevice
+  ): Promise<{ identity: CardIdentity; state: EjectState; unsafe: boolean } | undefined> {
+    const card = this.cards.get(device.devicePath);
+    if (!card) {
+      return undefined;
+    }
+
+    this.cards.delete(device.devicePath);
+    await this.updateLed();
+
+    const { stage } = card.state;
+    return {
+      ...card,
+      unsafe: stage !== 'safe_to_remove' && (device.isMounted || stage !== 'mounted'),
+    };
+  }
+
+  private setStage(devicePath: string, stage: EjectStage, error?: string): EjectState {
+    const card = this.cards.get(devicePath);
+    if (!card) {
+      throw new Error(`Card ${devicePath} is not tracked`);
+    }
+
+    card.state = {
+      devicePath,
+      cardId: card.state.cardId,
+      stage,
+      updatedAt: new Date(),
+      ...(error && { error }),
+    };
+    this.emit('eject_stage', { ...card.state });
+    return { ...card.state };
+  }
+
+  private isSyncing(devicePath: string): boolean {
+    return this.syncEngine
+      .getActiveOperations()
+      .some(
+        operation =>
+          operation.device.devicePath === devicePath &&
+          (operation.status === 'pending' || operation.status === 'in_progress')
+      );
+  }
+
+  /**
+   * Light the LED while any card is safe to remove
+   */
+  private async updateLed(): Promise<void> {
+    if (!this.config.led_path) {
+      return;
+    }
+
+    const lit = Array.from(this.cards.values()).some(card => card.state.stage === 'safe_to_remove');
+    try {
+      await fs.writeFile(this.config.led_path, lit ? '1' : '0');
+    } catch (error) {
+      this.logger.warn(`Failed to set eject LED ${this.config.led_path}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
@@ -1,22 +1,48 @@
+import * as path from 'path';
+
 import { z } from '@dangerprep/configuration';
 import { ErrorFactory, runWithErrorContext, safeAsync } from '@dangerprep/errors';
+import { createDirectoryPath, getDirectorySizeAdvanced } from '@dangerprep/files';
 import { HealthChecker, ComponentStatus } from '@dangerprep/health';
 import { NotificationType, NotificationLevel } from '@dangerprep/notifications';
 import {
+  ControlOperation,
+  ControlRequestError,
+  CONTROL_ERROR_CODES,
+  FileTransfer,
+  formatBytes,
   StandardizedSyncService,
   ServicePatterns,
   StandardizedServiceConfig,
 } from '@dangerprep/sync';
 
 import { CardAnalyzer } from './analyzer';
+import { CardHealthStore } from './card-health';
 import { DeviceDetector } from './detector';
+import { CardEjector } from './eject';
 import { MountManager } from './mount';
+import { CardProfileManager } from './profiles';
+import { CardProvisioner, DEFAULT_CARD_LABEL } from './provision';
 import { SyncEngine } from './sync';
 import {
+  CardAnalysis,
+  CardHealthRecord,
+  CardIdentity,
+  CardProfileSummary,
+  CONFLICT_POLICIES,
+  ConflictResolution,
+  DeletionReport,
   OfflineSyncConfig,
   OfflineSyncConfigSchema,
   DetectedDevice,
+  EjectState,
+  PROVISION_FILE_SYSTEMS,
+  ProvisionFileSystem,
+  ProvisionPreview,
+  ProvisionRequest,
+  SyncConflict,
   SyncOperation,
+  SyncPlan,
   SyncStats,
   NotificationEvent,
 } from './types';
@@ -25,7 +51,11 @@ export class OfflineSync extends StandardizedSyncService<OfflineSyncConfig> {
   private deviceDetector: DeviceDetector | null = null;
   private mountManager: MountManager | null = null;
   private cardAnalyzer: CardAnalyzer | null = null;
+  private cardProfiles: CardProfileManager | null = null;
+  private cardHealth: CardHealthStore | null = null;
+  private cardProvisioner: CardProvisioner | null = null;
   private syncEngine: SyncEngine | null = null;
+  private cardEjector: CardEjector | null = null;
 
   private checkInterval: NodeJS.Timeout | null = null;
 
@@ -58,6 +88,33 @@ export class OfflineSync extends StandardizedSyncService<OfflineSyncConfig> {
     });
 
     super('offline-sync', '1.0.0', configPath, OfflineSyncConfigSchema, lifecycleHooks);
+
+    // Let the CLI list devices and queue syncs in the running daemon
+    this.registerControlMethod('devices', () => this.getDetectedDevices());
+    this.registerControlMethod('sync', devicePath =>
+      this.triggerSync(String(devicePath), { wait: false })
+    );
+    this.registerControlMethod('plan', devicePath => this.getSyncPlan(String(devicePath)));
+    this.registerControlMethod('deletions', devicePath =>
+      this.getDeletionReport(String(devicePath))
+    );
+    this.registerControlMethod('profiles', () => this.listCardProfiles());
+    this.registerControlMethod('assign-profile', (devicePath, profile) =>
+      this.assignCardProfile(String(devicePath), profile)
+    );
+    this.registerControlMethod('cards', () => this.listCardHealth());
+    this.registerControlMethod('preflight', devicePath =>
+      this.runCardPreflight(String(devicePath))
+    );
+    this.registerControlMethod('ejects', () => this.listEjects());
+    this.registerControlMethod('eject', devicePath => this.ejectCard(String(devicePath)));
+    this.registerControlMethod('provision', (devicePath, request) =>
+      this.provisionCard(String(devicePath), request)
+    );
+    this.registerControlMethod('conflicts', () => this.listConflicts());
+    this.registerControlMethod('resolve-conflict', (conflictId, resolution) =>
+      this.resolveConflict(String(conflictId), resolution)
+    );
   }
 
   // Implement required abstract methods
@@ -74,6 +131,8 @@ export class OfflineSync extends StandardizedSyncService<OfflineSyncConfig> {
     if (!config.offline_sync.device_detection.monitor_device_types.length) {
       throw new Error('At least one device type must be monitored');
     }
+
+    CardProfileManager.validate(config.offline_sync);
   }
 
   protected async initializeServiceSpecificComponents(config: OfflineSyncConfig): Promise<void> {
@@ -84,11 +143,26 @@ export class OfflineSync extends StandardizedSyncService<OfflineSyncConfig> {
     await this.mountManager.initialize();
     this.setupMountManagerEvents();
 
-    this.cardAnalyzer = new CardAnalyzer(config);
+    this.cardProfiles = new CardProfileManager(config, this.getLogger());
+    this.cardAnalyzer = new CardAnalyzer(config, this.cardProfiles);
+    this.cardHealth = new CardHealthStore(
+      path.join(config.data_directory, 'card-health.json'),
+      config.offline_sync.preflight.flag_after_failures,
+      this.getLogger()
+    );
+    this.cardProvisioner = new CardProvisioner(config, this.getLogger());
 
     this.syncEngine = new SyncEngine(config);
     this.setupSyncEngineEvents();
 
+    this.cardEjector = new CardEjector(
+      config,
+      this.mountManager,
+      this.syncEngine,
+      this.getLogger()
+    );
+    this.setupCardEjectorEvents();
+
     // Register filesystem health checks now that config is loaded
     this.components.healthChecker.registerComponent(
       HealthChecker.createFileSystemCheck(
@@ -400,10 +474,406 @@ export class OfflineSync extends StandardizedSyncService<OfflineSyncConfig> {
     return this.syncEngine?.getActiveOperations() ?? [];
   }
 
+  /**
+   * List in-flight device syncs for the control socket
+   */
+  public override listOperations(): ControlOperation[] {
+    return this.getActiveOperations().map(operation => ({
+      id: operation.id,
+      type: `${operation.direction} ${operation.contentType}`,
+      status: operation.status,
+      startTime: operation.startTime,
+      processedItems: operation.processedFiles,
+      totalItems: operation.totalFiles,
+      processedBytes: operation.processedSize,
+      totalBytes: operation.totalSize,
+      ...(operation.currentFile && { currentItem: operation.currentFile }),
+      metadata: {
+        devicePath: operation.device.devicePath,
+        ...(operation.plan && { plan: this.summarizePlan(operation.plan) }),
+      },
+    }));
+  }
+
+  /**
+   * Cancel an in-flight device sync
+   */
+  public override async cancelOperation(operationId: string): Promise<boolean> {
+    return (await this.syncEngine?.cancelSync(operationId)) ?? false;
+  }
+
+  /**
+   * Get queued and running file transfers
+   */
+  public override listTransfers(): FileTransfer[] {
+    return this.syncEngine?.getActiveTransfers() ?? [];
+  }
+
+  /**
+   * Get local storage usage per content type
+   */
+  public override async getContentStorageStats(): Promise<Record<string, unknown>> {
+    const contentTypes = this.getConfig().offline_sync.content_types;
+
+    const entries = await Promise.all(
+      Object.entries(contentTypes).map(async ([contentType, contentConfig]) => {
+        const sizeResult = await getDirectorySizeAdvanced(
+          createDirectoryPath(contentConfig.local_path),
+          { timeout: 30000, logger: this.getLogger() }
+        );
+        const bytes = sizeResult.success ? sizeResult.data : null;
+
+        return [
+          contentType,
+          {
+            path: contentConfig.local_path,
+            size: bytes === null ? 'Error' : formatBytes(bytes),
+            bytes,
+            maxSize: contentConfig.max_size,
+          },
+        ] as const;
+      })
+    );
+
+    return Object.fromEntries(entries);
+  }
+
+  /**
+   * Queue a sync for the device at target (e.g. /dev/sdb1)
+   */
+  public override async triggerManualSync(target?: string): Promise<string | null> {
+    if (!target) {
+      throw new ControlRequestError(
+        'A device path is required to start a sync',
+        CONTROL_ERROR_CODES.INVALID_REQUEST
+      );
+    }
+
+    return this.triggerSync(target, { wait: false });
+  }
+
+  /**
+   * Dry run of a sync of the card in devicePath: what will be copied and what will not fit
+   */
+  public async getSyncPlan(devicePath: string): Promise<SyncPlan> {
+    const device = this.getMountedCard(devicePath);
+    if (!this.syncEngine || !this.cardAnalyzer) {
+      throw new ControlRequestError('Service not initialized', CONTROL_ERROR_CODES.INVALID_REQUEST);
+    }
+
+    const analysis = await this.cardAnalyzer.analyzeCard(device);
+    return this.syncEngine.planSync(analysis);
+  }
+
+  /**
+   * Dry run of deletion propagation for the card in devicePath
+   */
+  public async getDeletionReport(devicePath: string): Promise<DeletionReport> {
+    const device = this.getMountedCard(devicePath);
+    if (!this.syncEngine || !this.cardAnalyzer) {
+      throw new ControlRequestError('Service not initialized', CONTROL_ERROR_CODES.INVALID_REQUEST);
+    }
+
+    const analysis = await this.cardAnalyzer.analyzeCard(device);
+    return this.syncEngine.planDeletions(analysis);
+  }
+
+  /**
+   * Card profiles with the cards assigned to them
+   */
+  public async listCardProfiles(): Promise<CardProfileSummary[]> {
+    return this.cardProfiles ? this.cardProfiles.list() : [];
+  }
+
+  /**
+   * Assign a profile to the card in devicePath (null clears it) and resync the card with it
+   */
+  public async assignCardProfile(devicePath: string, profile: unknown): Promise<CardIdentity> {
+    const device = this.getMountedCard(devicePath);
+    if (!this.cardProfiles) {
+      throw new ControlRequestError('Service not initialized', CONTROL_ERROR_CODES.INVALID_REQUEST);
+    }
+
+    if (profile !== null && (typeof profile !== 'string' || !profile)) {
+      throw new ControlRequestError(
+        'Profile must be a profile name, or null to clear the assignment',
+        CONTROL_ERROR_CODES.INVALID_REQUEST
+      );
+    }
+
+    const { cardId } = await this.cardProfiles.identify(device);
+    try {
+      await this.cardProfiles.assign(cardId, profile);
+    } catch (error) {
+      throw new ControlRequestError(
+        error instanceof Error ? error.message : String(error),
+        CONTROL_ERROR_CODES.INVALID_REQUEST
+      );
+    }
+
+    this.getLogger().info(
+      profile ? `Card ${cardId} assigned to profile ${profile}` : `Card ${cardId} profile cleared`
+    );
+    await this.triggerSync(device.devicePath, { wait: false });
+
+    return this.cardProfiles.identify(device);
+  }
+
+  /**
+   * Pre-flight history of every card seen
+   */
+  public async listCardHealth(): Promise<CardHealthRecord[]> {
+    return this.cardHealth ? this.cardHealth.list() : [];
+  }
+
+  /**
+   * Run the pre-flight checks on the card in devicePath without syncing it
+   */
+  public async runCardPreflight(devicePath: string): Promise<CardHealthRecord> {
+    const device = this.getMountedCard(devicePath);
+    if (!this.cardAnalyzer || !this.cardHealth) {
+      throw new ControlRequestError('Service not initialized', CONTROL_ERROR_CODES.INVALID_REQUEST);
+    }
+
+    const analysis = await this.cardAnalyzer.analyzeCard(device);
+    const preflight = await this.cardAnalyzer.runPreflight(analysis);
+    return this.cardHealth.record(analysis.identity, preflight);
+  }
+
+  /**
+   * Eject state of every inserted card
+   */
+  public async listEjects(): Promise<EjectState[]> {
+    return this.cardEjector ? this.cardEjector.list() : [];
+  }
+
+  /**
+   * Finish the sync of the card in devicePath, then flush, verify and unmount it in the
+   * background; follow its progress with listEjects
+   */
+  public async ejectCard(devicePath: string): Promise<EjectState> {
+    const device = this.getMountedCard(devicePath);
+    if (!this.cardAnalyzer || !this.cardEjector) {
+      throw new ControlRequestError('Service not initialized', CONTROL_ERROR_CODES.INVALID_REQUEST);
+    }
+    if (this.cardEjector.isEjecting(devicePath)) {
+      throw new ControlRequestError(
+        `Card ${devicePath} is already being ejected`,
+        CONTROL_ERROR_CODES.INVALID_REQUEST
+      );
+    }
+
+    const analysis = await this.cardAnalyzer.analyzeCard(device);
+    return this.cardEjector.eject(analysis);
+  }
+
+  /**
+   * Preview erasing the card in devicePath and, with the confirmation code from a preview,
+   * partition and format it in the background; the result is sent as a notification
+   */
+  public async provisionCard(devicePath: string, request: unknown): Promise<ProvisionPreview> {
+    const { fileSystem, label, force, confirm } = this.parseProvisionRequest(request);
+    const device = this.deviceDetector?.getDevice(devicePath);
+    if (!device) {
+      throw new ControlRequestError(
+        `No card detected at ${devicePath}`,
+        CONTROL_ERROR_CODES.INVALID_REQUEST
+      );
+    }
+    if (!this.cardProvisioner) {
+      throw new ControlRequestError('Service not initialized', CONTROL_ERROR_CODES.INVALID_REQUEST);
+    }
+    if (this.getActiveOperations().some(operation => operation.device.devicePath === devicePath)) {
+      throw new ControlRequestError(
+        `Card ${devicePath} is being synced; cancel the sync before provisioning it`,
+        CONTROL_ERROR_CODES.INVALID_REQUEST
+      );
+    }
+
+    const target = { fileSystem, label, force };
+    if (!confirm) {
+      return await this.cardProvisioner.preview(device, target);
+    }
+
+    // Checked again rather than trusted from the preview: the card may have changed since
+    const preview = await this.cardProvisioner.describe(device, force);
+    if (preview.refusal) {
+      throw new ControlRequestError(preview.refusal, CONTROL_ERROR_CODES.INVALID_REQUEST);
+    }
+    if (!this.cardProvisioner.confirm(preview.disk, confirm, target)) {
+      throw new ControlRequestError(
+        `Wrong or expired confirmation code for ${preview.disk}, or it was issued for other options; preview it again for a new one`,
+        CONTROL_ERROR_CODES.INVALID_REQUEST
+      );
+    }
+
+    void this.runProvisioning(device, preview.disk, fileSystem, label);
+
+    return { ...preview, started: true };
+  }
+
+  private parseProvisionRequest(
+    request: unknown
+  ): ProvisionRequest & { label: string; force: boolean } {
+    const { fileSystem, label, force, confirm } = (request ?? {}) as Record<string, unknown>;
+    const fileSystems: readonly unknown[] = PROVISION_FILE_SYSTEMS;
+
+    if (!fileSystems.includes(fileSystem)) {
+      throw new ControlRequestError(
+        `Filesystem must be one of: ${PROVISION_FILE_SYSTEMS.join(', ')}`,
+        CONTROL_ERROR_CODES.INVALID_REQUEST
+      );
+    }
+    // exFAT labels are limited to 11 characters, ext4 ones to 16
+    if (label !== undefined && (typeof label !== 'string' || !/^[\w-]{1,11}$/.test(label))) {
+      throw new ControlRequestError(
+        'Label must be 1-11 letters, digits, underscores or dashes',
+        CONTROL_ERROR_CODES.INVALID_REQUEST
+      );
+    }
+
+    return {
+      fileSystem: fileSystem as ProvisionFileSystem,
+      label: label ?? DEFAULT_CARD_LABEL,
+      force: force === true,
+      ...(typeof confirm === 'string' && confirm && { confirm }),
+    };
+  }
+
+  /**
+   * Format a confirmed card, lay down its directory structure and card ID, then mount it
+   * again so it is synced like any inserted card
+   */
+  private async runProvisioning(
+    device: DetectedDevice,
+    disk: string,
+    fileSystem: ProvisionFileSystem,
+    label: string
+  ): Promise<void> {
+    const result = await safeAsync(async () => {
+      if (!this.cardProvisioner || !this.cardAnalyzer || !this.mountManager) {
+        throw new Error('Service not initialized');
+      }
+      const { cardProvisioner, cardAnalyzer, mountManager } = this;
+
+      if (device.isMounted && !(await mountManager.unmountDevice(device))) {
+        throw new Error(`Could not unmount ${device.devicePath}`);
+      }
+
+      const partition = await cardProvisioner.format(disk, fileSystem, label);
+      const card: DetectedDevice = {
+        devicePath: partition,
+        deviceInfo: device.deviceInfo,
+        fileSystem,
+        isMounted: false,
+        isReady: true,
+      };
+
+      const cardId = await cardProvisioner.withTemporaryMount(partition, async mountPath => {
+        const analysis = await cardAnalyzer.analyzeCard({ ...card, mountPath, isMounted: true });
+        await cardAnalyzer.createMissingDirectories(analysis);
+        return analysis.identity.cardId;
+      });
+
+      this.deviceDetector?.replaceDevice(device.devicePath, card);
+      return { card, cardId };
+    });
+
+    if (!result.success) {
+      this.getLogger().error(`Provisioning ${disk} failed`, { error: result.error });
+      await this.sendNotification({
+        type: 'card_provision_failed',
+        timestamp: new Date(),
+        device,
+        message: `Provisioning ${disk} failed: ${result.error instanceof Error ? result.error.message : String(result.error)}`,
+      });
+      return;
+    }
+
+    const { card, cardId } = result.data;
+    await this.sendNotification({
+      type: 'card_provisioned',
+      timestamp: new Date(),
+      device: card,
+      message: `Card ${disk} provisioned with ${fileSystem} as card ${cardId}`,
+      details: { cardId, fileSystem, label },
+    });
+
+    // Mounting starts the first sync of the card
+    await this.mountCard(card);
+  }
+
+  /**
+   * Run the pre-flight checks that need the card unmounted, then mount it
+   */
+  private async mountCard(device: DetectedDevice): Promise<string | null> {
+    if (this.cardAnalyzer && this.getConfig().offline_sync.preflight.enabled) {
+      await this.cardAnalyzer.checkUnmountedCard(device);
+    }
+    return (await this.mountManager?.mountDevice(device)) ?? null;
+  }
+
+  /**
+   * Look up an inserted, mounted card for a control request
+   */
+  private getMountedCard(devicePath: string): DetectedDevice {
+    const device = this.deviceDetector?.getDevice(devicePath);
+    if (!device?.isMounted || !device.mountPath) {
+      throw new ControlRequestError(
+        `No mounted card at ${devicePath}`,
+        CONTROL_ERROR_CODES.INVALID_REQUEST
+      );
+    }
+    return device;
+  }
+
+  /**
+   * Conflicts waiting for a decision (content types with conflict_policy: ask)
+   */
+  public async listConflicts(): Promise<SyncConflict[]> {
+    return this.syncEngine ? this.syncEngine.listConflicts() : [];
+  }
+
+  /**
+   * Decide a conflict; it is applied right away when its card is mounted, otherwise on the
+   * card's next sync
+   */
+  public async resolveConflict(
+    conflictId: string,
+    resolution: unknown
+  ): Promise<SyncConflict | null> {
+    const resolutions: readonly unknown[] = CONFLICT_POLICIES.filter(policy => policy !== 'ask');
+    if (!resolutions.includes(resolution)) {
+      throw new ControlRequestError(
+        `Resolution must be one of: ${resolutions.join(', ')}`,
+        CONTROL_ERROR_CODES.INVALID_REQUEST
+      );
+    }
+
+    const conflict = this.syncEngine
+      ? await this.syncEngine.resolveConflict(conflictId, resolution as ConflictResolution)
+      : null;
+    if (!conflict) {
+      return null;
+    }
+
+    const device = this.deviceDetector?.getDevice(conflict.devicePath);
+    if (device?.isMounted) {
+      await this.triggerSync(device.devicePath, { wait: false });
+    }
+
+    return conflict;
+  }
+
   /**
    * Manually trigger sync for a specific device
+   * With `wait: false` the sync is queued and the operation ID is returned once the device
+   * has been checked, instead of after the sync has finished
    */
-  public async triggerSync(devicePath: string): Promise<string | null> {
+  public async triggerSync(
+    devicePath: string,
+    options: { wait?: boolean } = {}
+  ): Promise<string | null> {
     return runWithErrorContext(
       async () => {
         if (!this.syncEngine || !this.cardAnalyzer) {
@@ -439,7 +909,20 @@ export class OfflineSync extends StandardizedSyncService<OfflineSyncConfig> {
           });
         }
 
-        const result = await safeAsync(async () => {
+        // The ejector verifies and unmounts the card; nothing may write to it meanwhile
+        if (this.cardEjector?.isEjecting(devicePath)) {
+          throw ErrorFactory.businessLogic(`Card ${devicePath} is being ejected`, {
+            data: { devicePath },
+            context: {
+              operation: 'triggerSync',
+              service: 'offline-sync',
+              component: 'eject-check',
+            },
+          });
+        }
+
+        const operationId = this.syncEngine.generateOperationId();
+        const run = safeAsync(async () => {
           if (!this.cardAnalyzer) {
             throw new Error('Card analyzer not initialized');
           }
@@ -448,30 +931,39 @@ export class OfflineSync extends StandardizedSyncService<OfflineSyncConfig> {
           }
 
           const analysis = await this.cardAnalyzer.analyzeCard(device);
-          const operationId = await this.syncEngine.startSync(device, analysis);
+          if (!(await this.passesPreflight(analysis))) {
+            throw new Error(`Card ${devicePath} failed its pre-flight checks`);
+          }
+          if (this.cardEjector?.isEjecting(devicePath)) {
+            throw new Error(`Card ${devicePath} started ejecting before its sync`);
+          }
+          await this.syncEngine.startSync(device, analysis, operationId);
           this.syncStats.totalOperations++;
           return operationId;
         });
 
+        if (options.wait === false) {
+          void run
+            .then(async result => {
+              if (!result.success) {
+                await this.handleTriggeredSyncFailure(result.error);
+              }
+            })
+            .catch(error =>
+              this.getLogger().error('Failed to report a failed sync', {
+                error: error instanceof Error ? error.message : String(error),
+                operation: 'triggerSync',
+                component: 'sync-execution',
+              })
+            );
+          return operationId;
+        }
+
+        const result = await run;
         if (result.success) {
           return result.data;
         } else {
-          this.syncStats.failedOperations++;
-          this.getLogger().error('Sync operation failed', {
-            error: result.error,
-            operation: 'triggerSync',
-            component: 'sync-execution',
-          });
-
-          await this.components.notificationManager.notify(
-            NotificationType.SYNC_FAILED,
-            'Sync operation failed',
-            {
-              level: NotificationLevel.ERROR,
-              error: result.error instanceof Error ? result.error : new Error(String(result.error)),
-              data: { operation: 'triggerSync', component: 'sync-execution' },
-            }
-          );
+          await this.handleTriggeredSyncFailure(result.error);
           throw result.error;
         }
       },
@@ -483,6 +975,28 @@ export class OfflineSync extends StandardizedSyncService<OfflineSyncConfig> {
     );
   }
 
+  /**
+   * Record, log and notify a failed manually triggered sync
+   */
+  private async handleTriggeredSyncFailure(error: unknown): Promise<void> {
+    this.syncStats.failedOperations++;
+    this.getLogger().error('Sync operation failed', {
+      error,
+      operation: 'triggerSync',
+      component: 'sync-execution',
+    });
+
+    await this.components.notificationManager.notify(
+      NotificationType.SYNC_FAILED,
+      'Sync operation failed',
+      {
+        level: NotificationLevel.ERROR,
+        error: error instanceof Error ? error : new Error(String(error)),
+        data: { operation: 'triggerSync', component: 'sync-execution' },
+      }
+    );
+  }
+
   /**
    * Setup device detector event handlers
    */
@@ -493,7 +1007,7 @@ export class OfflineSync extends StandardizedSyncService<OfflineSyncConfig> {
       this.getLogger().debug(`Device detected: ${device.devicePath}`); // Technical detail
 
       const mountResult = await safeAsync(async () => {
-        const mountPath = await this.mountManager?.mountDevice(device);
+        const mountPath = await this.mountCard(device);
         if (mountPath) {
           this.getLogger().debug(`Device mounted: ${device.devicePath} at ${mountPath}`);
           await this.handleDeviceReady(device);
@@ -523,8 +1037,18 @@ export class OfflineSync extends StandardizedSyncService<OfflineSyncConfig> {
       }
     });
 
+    this.deviceDetector.on('device_unsupported', async (device: DetectedDevice) => {
+      await this.sendNotification({
+        type: 'card_unsupported',
+        timestamp: new Date(),
+        device,
+        message: `Card ${device.devicePath} has an unsupported ${device.fileSystem} filesystem and will not be synced; provision it to use it`,
+      });
+    });
+
     this.deviceDetector.on('device_removed', async (device: DetectedDevice) => {
       this.getLogger().debug(`Device removed: ${device.devicePath}`); // Technical detail
+      this.cardAnalyzer?.forgetCard(device.devicePath);
 
       // Cancel any active sync operations for this device
       const activeOperations = this.syncEngine?.getActiveOperations() ?? [];
@@ -540,6 +1064,11 @@ export class OfflineSync extends StandardizedSyncService<OfflineSyncConfig> {
         device,
         message: `MicroSD card removed: ${device.devicePath}`,
       });
+
+      const removal = await this.cardEjector?.removed(device);
+      if (removal?.unsafe) {
+        await this.handleUnsafeEject(device, removal.identity, removal.state);
+      }
     });
   }
 
@@ -575,23 +1104,50 @@ export class OfflineSync extends StandardizedSyncService<OfflineSyncConfig> {
       });
     });
 
+    this.syncEngine.on('sync_planned', async (plan: SyncPlan, operation: SyncOperation) => {
+      const { toCard, fromCard, skipped } = plan;
+      const skippedBytes = skipped.reduce((total, file) => total + file.size, 0);
+      const notFitting =
+        skipped.length > 0
+          ? `; ${skipped.length} files (${formatBytes(skippedBytes)}) will not fit`
+          : '';
+
+      await this.sendNotification({
+        type: 'sync_planned',
+        timestamp: new Date(),
+        operation,
+        message: `Sync plan for ${plan.devicePath}: ${toCard.files} files (${formatBytes(toCard.bytes)}) to card, ${fromCard.files} files (${formatBytes(fromCard.bytes)}) from card${notFitting}`,
+        details: this.summarizePlan(plan),
+      });
+    });
+
     this.syncEngine.on('sync_completed', async (operation: SyncOperation) => {
       this.getLogger().debug(`Sync completed: ${operation.id}`); // Technical detail
       this.syncStats.successfulOperations++;
       this.syncStats.totalFilesTransferred += operation.processedFiles;
       this.syncStats.totalBytesTransferred += operation.processedSize;
+      this.recordSyncOperation(operation);
 
       await this.sendNotification({
         type: 'sync_completed',
         timestamp: new Date(),
         operation,
-        message: `Sync completed: ${operation.processedFiles} files transferred`,
+        message: `Sync completed: ${operation.processedFiles} files transferred${operation.deletedFiles > 0 ? `, ${operation.deletedFiles} deleted` : ''}`,
       });
+
+      if (this.getConfig().offline_sync.eject.after_sync) {
+        await this.ejectCard(operation.device.devicePath).catch(error =>
+          this.getLogger().warn(`Could not eject ${operation.device.devicePath} after its sync`, {
+            error: error instanceof Error ? error.message : String(error),
+          })
+        );
+      }
     });
 
     this.syncEngine.on('sync_failed', async (operation: SyncOperation, error: unknown) => {
       this.getLogger().error(`Sync failed: ${operation.id}`, error); // Technical detail with error
       this.syncStats.failedOperations++;
+      this.recordSyncOperation(operation, error);
 
       await this.sendNotification({
         type: 'sync_failed',
@@ -600,6 +1156,110 @@ export class OfflineSync extends StandardizedSyncService<OfflineSyncConfig> {
         message: `Sync failed: ${operation.error ?? 'Unknown error'}`,
       });
     });
+
+    this.syncEngine.on(
+      'sync_conflict',
+      async (conflict: SyncConflict, operation: SyncOperation) => {
+        await this.sendNotification({
+          type: 'sync_conflict',
+          timestamp: new Date(),
+          operation,
+          message: `Sync conflict needs a decision: ${conflict.contentType}/${conflict.relativePath}`,
+          details: { conflictId: conflict.id, contentType: conflict.contentType },
+        });
+      }
+    );
+  }
+
+  /**
+   * Setup card ejector event handlers
+   */
+  private setupCardEjectorEvents(): void {
+    if (!this.cardEjector) return;
+
+    this.cardEjector.on('eject_stage', (state: EjectState) => {
+      this.getLogger().info(`Ejecting ${state.devicePath}: ${state.stage}`);
+    });
+
+    this.cardEjector.on('card_safe', async (state: EjectState) => {
+      await this.sendNotification({
+        type: 'card_safe_to_remove',
+        timestamp: new Date(),
+        message: `Card ${state.cardId} (${state.devicePath}) is safe to remove`,
+        details: { devicePath: state.devicePath, cardId: state.cardId },
+      });
+    });
+
+    this.cardEjector.on('eject_failed', async (state: EjectState) => {
+      await this.sendNotification({
+        type: 'card_eject_failed',
+        timestamp: new Date(),
+        message: `Card ${state.devicePath} could not be ejected and is not safe to remove: ${state.error ?? 'Unknown error'}`,
+        details: { devicePath: state.devicePath, cardId: state.cardId },
+      });
+    });
+  }
+
+  /**
+   * Record and notify a card pulled before it was safe to remove
+   */
+  private async handleUnsafeEject(
+    device: DetectedDevice,
+    identity: CardIdentity,
+    state: EjectState
+  ): Promise<void> {
+    const record = await this.cardHealth?.recordUnsafeEject(identity);
+    this.getLogger().warn(`Card ${identity.cardId} was removed without ejecting (${state.stage})`);
+
+    await this.sendNotification({
+      type: 'card_unsafe_eject',
+      timestamp: new Date(),
+      device,
+      message: `Card ${identity.cardId} was removed before it was safe to remove; files written last may be incomplete`,
+      details: {
+        cardId: identity.cardId,
+        stage: state.stage,
+        ...(record && { unsafeEjects: record.unsafeEjects }),
+      },
+    });
+  }
+
+  /**
+   * Plan totals for notifications and the portal, with the files that will not fit
+   */
+  private summarizePlan(plan: SyncPlan): Record<string, unknown> {
+    return {
+      profile: plan.profile,
+      availableBytes: plan.availableBytes,
+      toCard: plan.toCard,
+      fromCard: plan.fromCard,
+      deletions: plan.deletions.length,
+      conflicts: plan.conflicts,
+      skipped: plan.skipped,
+    };
+  }
+
+  /**
+   * Add a finished card sync to the recent operation history
+   */
+  private recordSyncOperation(operation: SyncOperation, error?: unknown): void {
+    const message = operation.error ?? (error instanceof Error ? error.message : undefined);
+
+    this.recordOperationResult({
+      id: operation.id,
+      type: `${operation.direction} ${operation.contentType}`,
+      success: error === undefined,
+      startTime: operation.startTime,
+      endTime: operation.endTime ?? new Date(),
+      ...(error !== undefined && { error: message ?? String(error) }),
+      metadata: {
+        devicePath: operation.device.devicePath,
+        processedFiles: operation.processedFiles,
+        processedSize: operation.processedSize,
+        conflicts: operation.conflicts,
+        deletedFiles: operation.deletedFiles,
+      },
+    });
   }
 
   /**
@@ -617,6 +1277,12 @@ export class OfflineSync extends StandardizedSyncService<OfflineSyncConfig> {
 
       // Analyze the card
       const analysis = await this.cardAnalyzer.analyzeCard(device);
+      this.cardEjector?.track(analysis);
+
+      // Check the card before writing anything to it
+      if (!(await this.passesPreflight(analysis))) {
+        return;
+      }
 
       // Create missing directories if needed
       if (analysis.missingContentTypes.length > 0) {
@@ -660,6 +1326,48 @@ export class OfflineSync extends StandardizedSyncService<OfflineSyncConfig> {
     }
   }
 
+  /**
+   * Run and record a card's pre-flight checks, notifying about failed and flagged cards;
+   * returns whether the card may be synced
+   */
+  private async passesPreflight(analysis: CardAnalysis): Promise<boolean> {
+    if (
+      !this.cardAnalyzer ||
+      !this.cardHealth ||
+      !this.getConfig().offline_sync.preflight.enabled
+    ) {
+      return true;
+    }
+
+    const { device } = analysis;
+    const preflight = await this.cardAnalyzer.runPreflight(analysis);
+    const record = await this.cardHealth.record(analysis.identity, preflight);
+
+    if (!preflight.passed) {
+      const failed = preflight.checks.filter(check => check.status === 'failed');
+      await this.sendNotification({
+        type: 'card_preflight_failed',
+        timestamp: new Date(),
+        device,
+        message: `Card ${device.devicePath} failed pre-flight checks and will not be synced: ${failed.map(check => check.message).join('; ')}`,
+        details: { cardId: record.cardId, checks: preflight.checks },
+      });
+    }
+
+    if (record.flagged) {
+      const recentFailures = record.recent.filter(entry => !entry.passed).length;
+      await this.sendNotification({
+        type: 'card_flagged',
+        timestamp: new Date(),
+        device,
+        message: `Card ${record.cardId} failed ${recentFailures} of its last ${record.recent.length} pre-flight checks; consider replacing it`,
+        details: { cardId: record.cardId, failures: record.failures },
+      });
+    }
+
+    return preflight.passed;
+  }
+
   /**
    * Start periodic checks
    */
@@ -739,6 +1447,7 @@ export class OfflineSync extends StandardizedSyncService<OfflineSyncConfig> {
       case 'card_inserted':
         return NotificationType.DEVICE_DETECTED;
       case 'card_removed':
+      case 'card_safe_to_remove':
         return NotificationType.DEVICE_UNMOUNTED;
       case 'sync_started':
         return NotificationType.SYNC_STARTED;
@@ -746,6 +1455,15 @@ export class OfflineSync extends StandardizedSyncService<OfflineSyncConfig> {
         return NotificationType.SYNC_COMPLETED;
       case 'sync_failed':
         return NotificationType.SYNC_FAILED;
+      case 'card_provisioned':
+        return NotificationType.DEVICE_DETECTED;
+      case 'card_preflight_failed':
+      case 'card_flagged':
+      case 'card_unsupported':
+      case 'card_provision_failed':
+      case 'card_eject_failed':
+      case 'card_unsafe_eject':
+        return NotificationType.DEVICE_ERROR;
       default:
         return NotificationType.CUSTOM;
     }
@@ -777,12 +1495,11 @@ const factory = ServicePatterns.createStandardServiceFactory({
   additionalCommands: [
     {
       name: 'list-devices',
-      description: 'List detected devices',
-      action: async (_args, _options, service) => {
+      description: 'List devices detected by the running service',
+      remoteAction: async (_args, _options, daemon) => {
         // eslint-disable-next-line no-console
         console.log('Listing detected devices...');
-        const offlineSync = service as OfflineSync;
-        const devices = offlineSync.getDetectedDevices();
+        const devices = await daemon.call<DetectedDevice[]>('devices');
         // eslint-disable-next-line no-console
         console.table(
           devices.map(device => ({
@@ -796,8 +1513,8 @@ const factory = ServicePatterns.createStandardServiceFactory({
     },
     {
       name: 'trigger-sync',
-      description: 'Manually trigger sync for a specific device',
-      action: async (args, _options, service) => {
+      description: 'Queue a sync for a specific device in the running service',
+      remoteAction: async (args, _options, daemon) => {
         const devicePath = args[0];
         if (!devicePath) {
           // eslint-disable-next-line no-console
@@ -806,9 +1523,8 @@ const factory = ServicePatterns.createStandardServiceFactory({
         }
         // eslint-disable-next-line no-console
         console.log(`Triggering sync for device: ${devicePath}`);
-        const offlineSync = service as OfflineSync;
         try {
-          const operationId = await offlineSync.triggerSync(devicePath);
+          const operationId = await daemon.call<string>('sync', devicePath);
           // eslint-disable-next-line no-console
           console.log(`Sync operation started with ID: ${operationId}`);
         } catch (error) {
@@ -820,19 +1536,18 @@ const factory = ServicePatterns.createStandardServiceFactory({
     {
       name: 'list-operations',
       description: 'List active sync operations',
-      action: async (_args, _options, service) => {
+      remoteAction: async (_args, _options, daemon) => {
         // eslint-disable-next-line no-console
         console.log('Listing active sync operations...');
-        const offlineSync = service as OfflineSync;
-        const operations = offlineSync.getActiveOperations();
+        const operations = await daemon.call<ControlOperation[]>('operations');
         // eslint-disable-next-line no-console
         console.table(
           operations.map(op => ({
             id: op.id,
-            device: op.device.devicePath,
+            device: op.metadata?.devicePath,
             status: op.status,
-            progress: `${op.processedFiles} files`,
-            startTime: op.startTime.toISOString(),
+            progress: `${op.processedItems} files`,
+            startTime: op.startTime,
           }))
         );
       },
@@ -0,0 +1,173 @@
+import { createHash } from 'crypto';
+import * as path from 'path';
+
+import { Logger } from '@dangerprep/logging';
+import * as fs from 'fs-extra';
+
+import { ManifestEntry, SyncManifest } from './types';
+
+// Directory at the card root for sync state (manifest, trash)
+export const CARD_STATE_DIRECTORY = '.dangerprep';
+
+const MANIFEST_FILE = 'sync-manifest.json';
+
+// Bytes read from each end of a file for its fingerprint
+const FINGERPRINT_SAMPLE_BYTES = 1024 * 1024;
+
+/**
+ * Reads and writes per-card sync manifests
+ *
+ * Each card carries its manifest in `.dangerprep/sync-manifest.json` and a copy is kept locally,
+ * keyed by the card ID, so a sync interrupted before the card copy was written still knows what
+ * was transferred.
+ */
+export class ManifestStore {
+  constructor(
+    private readonly localDirectory: string,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Load the manifest for the card mounted at mountPath, or start a new one for a card
+   * that has never been synced
+   */
+  async load(mountPath: string, cardId: string): Promise<SyncManifest> {
+    const cardManifest = await this.read(this.getCardManifestPath(mountPath));
+    if (!cardManifest || cardManifest.cardId !== cardId) {
+      // The card's own copy is missing or from another identity, so only trust the local one
+      return (
+        (await this.read(this.getLocalManifestPath(cardId))) ?? {
+          version: 1,
+          cardId,
+          updatedAt: new Date(0).toISOString(),
+          contentTypes: {},
+        }
+      );
+    }
+
+    const localManifest = await this.read(this.getLocalManifestPath(cardManifest.cardId));
+    if (localManifest && localManifest.updatedAt > cardManifest.updatedAt) {
+      this.logger.debug(
+        `Using local manifest for card ${cardManifest.cardId} (card copy is older)`
+      );
+      return localManifest;
+    }
+
+    return cardManifest;
+  }
+
+  /**
+   * Write the manifest locally and to the card
+   * A card that cannot be written (read-only, removed) only keeps the local copy
+   */
+  async save(mountPath: string, manifest: SyncManifest): Promise<void> {
+    manifest.updatedAt = new Date().toISOString();
+
+    await this.write(this.getLocalManifestPath(manifest.cardId), manifest);
+
+    try {
+      await this.write(this.getCardManifestPath(mountPath), manifest);
+    } catch (error) {
+      this.logger.warn(`Failed to write sync manifest to card at ${mountPath}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Build the manifest entry for a file that is now identical on both sides
+   */
+  async createEntry(localFile: string, cardFile: string): Promise<ManifestEntry> {
+    const [localStats, cardStats] = await Promise.all([fs.stat(localFile), fs.stat(cardFile)]);
+
+    return {
+      size: localStats.size,
+      hash: await ManifestStore.fingerprint(localFile),
+      localMtime: localStats.mtimeMs,
+      cardMtime: cardStats.mtimeMs,
+    };
+  }
+
+  /**
+   * Card ID recorded in the manifest on a card, if it has been synced before
+   */
+  static async readCardId(mountPath: string): Promise<string | null> {
+    try {
+      const manifest = (await fs.readJson(
+        path.join(mountPath, CARD_STATE_DIRECTORY, MANIFEST_FILE)
+      )) as Partial<SyncManifest>;
+      return typeof manifest.cardId === 'string' ? manifest.cardId : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Content fingerprint: SHA-256 of the size and the first and last megabyte.
+   * Reading whole multi-gigabyte videos on every sync is too slow for a card reader.
+   */
+  static async fingerprint(filePath: string): Promise<string> {
+    const hash = createHash('sha256');
+    const handle = await fs.promises.open(filePath, 'r');
+
+    try {
+      const { size } = await handle.stat();
+      hash.update(String(size));
+
+      const sampleLength = Math.min(size, FINGERPRINT_SAMPLE_BYTES);
+      const buffer = Buffer.alloc(sampleLength);
+      const offsets = size > sampleLength * 2 ? [0, size - sampleLength] : [0];
+
+      for (const offset of offsets) {
+        const { bytesRead } = await handle.read(buffer, 0, sampleLength, offset);
+        hash.update(buffer.subarray(0, bytesRead));
+      }
+    } finally {
+      await handle.close();
+    }
+
+    return hash.digest('hex');
+  }
+
+  /**
+   * SHA-256 of the whole file, for when a sampled fingerprint is not enough to act on
+   */
+  static async hashFile(filePath: string): Promise<string> {
+    const hash = createHash('sha256');
+    for await (const chunk of fs.createReadStream(filePath)) {
+      hash.update(chunk as Buffer);
+    }
+    return hash.digest('hex');
+  }
+
+  private getCardManifestPath(mountPath: string): string {
+    return path.join(mountPath, CARD_STATE_DIRECTORY, MANIFEST_FILE);
+  }
+
+  private getLocalManifestPath(cardId: string): string {
+    return path.join(this.localDirectory, `${cardId}.json`);
+  }
+
+  private async read(filePath: string): Promise<SyncManifest | null> {
+    try {
+      if (!(await fs.pathExists(filePath))) {
+        return null;
+      }
+
+      const manifest = (await fs.readJson(filePath)) as SyncManifest;
+      return manifest.version === 1 && manifest.cardId ? manifest : null;
+    } catch (error) {
+      this.logger.warn(`Ignoring unreadable sync manifest ${filePath}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  // Write to a temporary file first so a pulled card never holds a half-written manifest
+  private async write(filePath: string, manifest: SyncManifest): Promise<void> {
+    const tempPath = `${filePath}.tmp`;
+    await fs.outputJson(tempPath, manifest, { spaces: 2 });
+    await fs.move(tempPath, filePath, { overwrite: true });
+  }
+}
@@ -0,0 +1,206 @@
+import { randomUUID } from 'crypto';
+import * as path from 'path';
+
+import { Logger } from '@dangerprep/logging';
+import * as fs from 'fs-extra';
+
+import { CARD_STATE_DIRECTORY, ManifestStore } from './manifest';
+import {
+  CardIdentity,
+  CardProfileSummary,
+  ContentTypeConfig,
+  ContentTypeConfigSchema,
+  DetectedDevice,
+  OfflineSyncConfig,
+} from './types';
+
+const CARD_ID_FILE = 'card-id';
+// Card IDs name local manifest files, so anything read off a card must be a plain file name
+const CARD_ID_PATTERN = /^[\w-]{1,64}$/;
+
+/**
+ * Identifies cards and picks the profile that selects their content
+ *
+ * A card is identified by `.dangerprep/card-id`, written the first time it is inserted. Cards
+ * that cannot be written (read-only, write-protected) fall back to the USB serial number.
+ * Profile assignments are kept in `<data_directory>/card-profiles.json`.
+ */
+export class CardProfileManager {
+  private config: OfflineSyncConfig['offline_sync'];
+  private assignmentsPath: string;
+  private assignments: Record<string, string> | null = null;
+
+  constructor(
+    config: OfflineSyncConfig,
+    private readonly logger: Logger
+  ) {
+    this.config = config.offline_sync;
+    this.assignmentsPath = path.join(config.data_directory, 'card-profiles.json');
+  }
+
+  /**
+   * Check that every profile content type is complete once merged with the top-level one
+   * and that the default profile exists
+   */
+  static validate(config: OfflineSyncConfig['offline_sync']): void {
+    if (config.default_profile && !config.card_profiles[config.default_profile]) {
+      throw new Error(`Default profile ${config.default_profile} is not defined in card_profiles`);
+    }
+
+    for (const [profile, profileConfig] of Object.entries(config.card_profiles)) {
+      for (const [contentType, overrides] of Object.entries(profileConfig.content_types)) {
+        const result = ContentTypeConfigSchema.safeParse({
+          ...config.content_types[contentType],
+          ...overrides,
+        });
+        if (!result.success) {
+          throw new Error(
+            `Card profile ${profile}: content type ${contentType} is not a top-level content type and is missing ${result.error.issues.map(issue => issue.path.join('.')).join(', ')}`
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Identify the card mounted for device and pick its profile: the one assigned to the card,
+   * else one listing its USB serial, else the default profile
+   */
+  async identify(device: DetectedDevice): Promise<CardIdentity> {
+    const { serialNumber } = device.deviceInfo;
+    const cardId = await this.getCardId(device);
+    const assigned = (await this.loadAssignments())[cardId];
+
+    const identity = (
+      profile: string | null,
+      profileSource: CardIdentity['profileSource']
+    ): CardIdentity => ({ cardId, ...(serialNumber && { serialNumber }), profile, profileSource });
+
+    if (assigned && this.config.card_profiles[assigned]) {
+      return identity(assigned, 'assigned');
+    }
+    if (assigned) {
+      this.logger.warn(`Card ${cardId} is assigned to unknown profile ${assigned}, ignoring`);
+    }
+
+    const bySerial = serialNumber
+      ? Object.entries(this.config.card_profiles).find(([, profileConfig]) =>
+          profileConfig.serial_numbers.includes(serialNumber)
+        )
+      : undefined;
+    if (bySerial) {
+      return identity(bySerial[0], 'serial');
+    }
+
+    return this.config.default_profile
+      ? identity(this.config.default_profile, 'default')
+      : identity(null, 'none');
+  }
+
+  /**
+   * Content types for a profile; without one the top-level content_types apply
+   */
+  getContentTypes(profile: string | null): Record<string, ContentTypeConfig> {
+    const profileConfig = profile ? this.config.card_profiles[profile] : undefined;
+    if (!profileConfig) {
+      return this.config.content_types;
+    }
+
+    return Object.fromEntries(
+      Object.entries(profileConfig.content_types).map(([contentType, overrides]) => [
+        contentType,
+        ContentTypeConfigSchema.parse({ ...this.config.content_types[contentType], ...overrides }),
+      ])
+    );
+  }
+
+  /**
+   * Assign a profile to a card, or clear its assignment with null
+   */
+  async assign(cardId: string, profile: string | null): Promise<void> {
+    if (profile !== null && !this.config.card_profiles[profile]) {
+      throw new Error(`Unknown card profile: ${profile}`);
+    }
+
+    const assignments = await this.loadAssignments();
+    if (profile === null) {
+      delete assignments[cardId];
+    } else {
+      assignments[cardId] = profile;
+    }
+
+    const tempPath = `${this.assignmentsPath}.tmp`;
+    await fs.outputJson(tempPath, assignments, { spaces: 2 });
+    await fs.move(tempPath, this.assignmentsPath, { overwrite: true });
+  }
+
+  async list(): Promise<CardProfileSummary[]> {
+    const assignments = await this.loadAssignments();
+
+    return Object.entries(this.config.card_profiles).map(([name, profileConfig]) => ({
+      name,
+      ...(profileConfig.description && { description: profileConfig.description }),
+      contentTypes: Object.keys(profileConfig.content_types),
+      serialNumbers: profileConfig.serial_numbers,
+      assignedCards: Object.keys(assignments).filter(cardId => assignments[cardId] === name),
+    }));
+  }
+
+  /**
+   * Read the card ID, writing one on first insert; a card synced before it had an ID file
+   * keeps the ID from its sync manifest. IDs that are not plain names are replaced.
+   */
+  private async getCardId(device: DetectedDevice): Promise<string> {
+    if (!device.mountPath) {
+      throw new Error(`Device ${device.devicePath} is not mounted`);
+    }
+
+    const idFile = path.join(device.mountPath, CARD_STATE_DIRECTORY, CARD_ID_FILE);
+    if (await fs.pathExists(idFile)) {
+      const cardId = (await fs.readFile(idFile, 'utf8')).trim();
+      if (CARD_ID_PATTERN.test(cardId)) {
+        return cardId;
+      }
+      if (cardId) {
+        this.logger.warn(`Replacing invalid card ID on ${device.devicePath}`);
+      }
+    }
+
+    const manifestCardId = await ManifestStore.readCardId(device.mountPath);
+    const cardId =
+      manifestCardId && CARD_ID_PATTERN.test(manifestCardId) ? manifestCardId : randomUUID();
+    try {
+      await fs.outputFile(idFile, `${cardId}\n`);
+      this.logger.info(`Wrote card ID ${cardId} to ${device.devicePath}`);
+      return cardId;
+    } catch (error) {
+      const { serialNumber } = device.deviceInfo;
+      const serialCardId = serialNumber ? `serial-${serialNumber}` : null;
+      const useSerial = serialCardId !== null && CARD_ID_PATTERN.test(serialCardId);
+      this.logger.warn(
+        `Could not write card ID to ${device.devicePath}, ${useSerial ? 'using its USB serial' : 'it will not be recognized next time'}`,
+        { error: error instanceof Error ? error.message : String(error) }
+      );
+      return useSerial ? serialCardId : cardId;
+    }
+  }
+
+  private async loadAssignments(): Promise<Record<string, string>> {
+    if (this.assignments) {
+      return this.assignments;
+    }
+
+    this.assignments = {};
+    try {
+      if (await fs.pathExists(this.assignmentsPath)) {
+        this.assignments = (await fs.readJson(this.assignmentsPath)) as Record<string, string>;
+      }
+    } catch (error) {
+      this.logger.warn(`Ignoring unreadable profile assignments ${this.assignmentsPath}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    return this.assignments;
+  }
+}
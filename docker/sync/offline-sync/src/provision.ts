@@ -0,0 +1,245 @@
+import { exec, execFile } from 'child_process';
+import { randomBytes } from 'crypto';
+import * as path from 'path';
+import { promisify } from 'util';
+
+import { ensureDirectory } from '@dangerprep/files';
+import { Logger } from '@dangerprep/logging';
+import * as fs from 'fs-extra';
+
+import { SUPPORTED_FILE_SYSTEMS } from './analyzer';
+import {
+  DetectedDevice,
+  LsblkOutput,
+  OfflineSyncConfig,
+  ProvisionFileSystem,
+  ProvisionPreview,
+  ProvisionRequest,
+} from './types';
+
+const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+
+// Volume label given to provisioned cards unless the request sets one
+export const DEFAULT_CARD_LABEL = 'DANGERPREP';
+
+// How long a confirmation code from a preview stays valid
+const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+// Where udisks2 mounts removable media before MountManager bind-mounts it under mount_base
+const UDISKS_MOUNT_ROOTS = ['/media', '/run/media'];
+
+// MBR partition type for each filesystem
+const PARTITION_TYPES: Record<ProvisionFileSystem, string> = {
+  exfat: '7',
+  ext4: '83',
+};
+
+// What a confirmation code allows: erasing one disk into exactly the previewed format
+type ProvisionTarget = Required<Omit<ProvisionRequest, 'confirm'>>;
+
+interface PendingConfirmation extends ProvisionTarget {
+  code: string;
+  expiresAt: Date;
+}
+
+/**
+ * Partitions and formats cards, for blank cards and ones with an unsupported filesystem
+ *
+ * Erasing a card takes two steps: a preview that issues a confirmation code, then the same
+ * request with that code. Disks with a filesystem mounted outside mount_base (the system disk,
+ * the content library) are always refused.
+ */
+export class CardProvisioner {
+  private config: OfflineSyncConfig['offline_sync'];
+  private confirmations: Map<string, PendingConfirmation> = new Map(); // disk -> code
+
+  constructor(
+    config: OfflineSyncConfig,
+    private readonly logger: Logger
+  ) {
+    this.config = config.offline_sync;
+  }
+
+  /**
+   * Describe what provisioning device would erase and, unless it is refused, issue a code
+   * that confirms erasing it into target
+   */
+  async preview(device: DetectedDevice, target: ProvisionTarget): Promise<ProvisionPreview> {
+    const preview = await this.describe(device, target.force);
+    if (!preview.refusal) {
+      const code = randomBytes(3).toString('hex');
+      const expiresAt = new Date(Date.now() + CONFIRMATION_TTL_MS);
+      this.confirmations.set(preview.disk, { ...target, code, expiresAt });
+      preview.confirmation = code;
+      preview.expiresAt = expiresAt;
+    }
+    return preview;
+  }
+
+  /**
+   * Describe what provisioning device would erase, without issuing a confirmation code
+   */
+  async describe(device: DetectedDevice, force: boolean): Promise<ProvisionPreview> {
+    const disk = await this.getDisk(device.devicePath);
+    const { stdout } = await execFileAsync('lsblk', [
+      '-J',
+      '-b',
+      '-p',
+      '-o',
+      'NAME,TYPE,SIZE,FSTYPE,MODEL,MOUNTPOINT',
+      disk,
+    ]);
+    const diskInfo = (JSON.parse(stdout) as LsblkOutput).blockdevices[0];
+    if (!diskInfo) {
+      throw new Error(`${disk} is not a block device`);
+    }
+
+    const partitions = (diskInfo.children ?? []).map(partition => partition.name);
+    const fileSystem =
+      diskInfo.fstype ?? diskInfo.children?.find(partition => partition.fstype)?.fstype ?? null;
+    const status = !fileSystem
+      ? 'blank'
+      : SUPPORTED_FILE_SYSTEMS.includes(fileSystem.toLowerCase())
+        ? 'supported'
+        : 'unsupported';
+
+    let refusal: string | undefined;
+    if (diskInfo.type !== 'disk') {
+      refusal = `${disk} is not a disk`;
+    } else {
+      refusal = await this.getSystemMount(disk, partitions);
+    }
+    if (!refusal && status === 'supported' && !force) {
+      refusal = `${disk} already has a supported ${fileSystem} filesystem; use force to erase it anyway`;
+    }
+
+    return {
+      devicePath: device.devicePath,
+      disk,
+      size: parseInt(String(diskInfo.size)) || 0,
+      ...(diskInfo.model && { model: diskInfo.model.trim() }),
+      fileSystem,
+      status,
+      partitions,
+      ...(refusal && { refusal }),
+      started: false,
+    };
+  }
+
+  /**
+   * Use up the confirmation code issued for disk; false when it is wrong, expired or was
+   * issued for a different filesystem, label or force
+   */
+  confirm(disk: string, code: string, target: ProvisionTarget): boolean {
+    const confirmation = this.confirmations.get(disk);
+    if (
+      !confirmation ||
+      confirmation.code !== code ||
+      confirmation.expiresAt < new Date() ||
+      confirmation.fileSystem !== target.fileSystem ||
+      confirmation.label !== target.label ||
+      confirmation.force !== target.force
+    ) {
+      return false;
+    }
+
+    this.confirmations.delete(disk);
+    return true;
+  }
+
+  /**
+   * Wipe disk, give it a single partition and format it; returns the new partition
+   */
+  async format(disk: string, fileSystem: ProvisionFileSystem, label: string): Promise<string> {
+    this.logger.info(`Provisioning ${disk} with ${fileSystem} (${label})`);
+
+    await execFileAsync('wipefs', ['--all', disk]);
+    await execAsync(`echo 'type=${PARTITION_TYPES[fileSystem]}' | sfdisk --label dos ${disk}`);
+
+    // mmcblk0 -> mmcblk0p1, sdb -> sdb1
+    const partition = /\d$/.test(disk) ? `${disk}p1` : `${disk}1`;
+    await this.waitForDevice(partition);
+
+    if (fileSystem === 'exfat') {
+      await execFileAsync('mkfs.exfat', ['-L', label, partition]);
+    } else {
+      await execFileAsync('mkfs.ext4', ['-F', '-L', label, partition]);
+    }
+
+    this.logger.info(`Formatted ${partition} as ${fileSystem}`);
+    return partition;
+  }
+
+  /**
+   * Mount partition under mount_base while fn runs
+   */
+  async withTemporaryMount<T>(
+    partition: string,
+    fn: (mountPath: string) => Promise<T>
+  ): Promise<T> {
+    const mountPath = path.join(
+      this.config.storage.mount_base,
+      `provision_${path.basename(partition)}_${Date.now()}`
+    );
+    await ensureDirectory(mountPath);
+    await execFileAsync('mount', [partition, mountPath]);
+
+    try {
+      return await fn(mountPath);
+    } finally {
+      await execFileAsync('umount', [mountPath]).catch(error =>
+        this.logger.warn(`Failed to unmount ${mountPath}`, {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+      await fs.rmdir(mountPath).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Whole disk of a block device: the parent of a partition, or the device itself
+   */
+  private async getDisk(devicePath: string): Promise<string> {
+    const { stdout } = await execFileAsync('lsblk', ['-n', '-d', '-p', '-o', 'PKNAME', devicePath]);
+    return stdout.trim() || devicePath;
+  }
+
+  /**
+   * A filesystem on disk mounted anywhere but where removable cards are, which means the
+   * system is using the disk
+   */
+  private async getSystemMount(disk: string, partitions: string[]): Promise<string | undefined> {
+    const members = [disk, ...partitions];
+    const cardRoots = [this.config.storage.mount_base, ...UDISKS_MOUNT_ROOTS];
+    const mounts = (await fs.readFile('/proc/mounts', 'utf8'))
+      .split('\n')
+      .map(line => line.split(' '));
+
+    for (const [source, target] of mounts) {
+      if (!source || !target || !members.includes(source)) {
+        continue;
+      }
+
+      const isCardMount = cardRoots.some(root => {
+        const relative = path.relative(root, target);
+        return !relative.startsWith('..') && !path.isAbsolute(relative);
+      });
+      if (!isCardMount) {
+        return `${source} is mounted at ${target}; refusing to erase a disk the system uses`;
+      }
+    }
+    return undefined;
+  }
+
+  // The kernel creates partition nodes asynchronously after the table is rewritten
+  private async waitForDevice(devicePath: string, timeoutMs = 10000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!(await fs.pathExists(devicePath))) {
+      if (Date.now() > deadline) {
+        throw new Error(`${devicePath} did not appear after partitioning`);
+      }
+      await new Promise(resolve => setTimeout(resolve, 250));
+    }
+  }
+}
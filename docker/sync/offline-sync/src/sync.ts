@@ -3,7 +3,7 @@ import { EventEmitter } from 'events';
 import * as path from 'path';
 import { promisify } from 'util';
 
-import { getFilesRecursively, sanitizePath, ensureDirectory } from '@dangerprep/files';
+import { getFilesRecursively, sanitizePath, ensureDirectory, parseSize } from '@dangerprep/files';
 import { Logger, LoggerFactory } from '@dangerprep/logging';
 import {
   TransferEngine,
@@ -15,22 +15,87 @@ import {
 } from '@dangerprep/sync';
 import * as fs from 'fs-extra';
 
+import { ConflictStore } from './conflicts';
+import { CARD_STATE_DIRECTORY, ManifestStore } from './manifest';
+import { TRASH_DIRECTORY, TrashBin } from './trash';
 import {
   DetectedDevice,
   OfflineSyncConfig,
   SyncOperation,
   CardAnalysis,
   ContentTypeConfig,
+  ContentTypeFillPlan,
+  ConflictResolution,
+  DeletionReport,
+  ManifestEntry,
+  PendingDeletion,
+  SyncConflict,
+  SyncDirection,
+  SyncManifest,
+  SyncPlan,
 } from './types';
 
 const _execAsync = promisify(exec);
 
+interface ScannedFile {
+  path: string;
+  size: number;
+  mtimeMs: number;
+}
+
+// State shared while syncing one content type of one card
+interface ContentSyncContext {
+  operation: SyncOperation;
+  contentType: string;
+  contentConfig: ContentTypeConfig;
+  cardId: string;
+  localPath: string;
+  cardPath: string;
+  trashRoots: Record<PendingDeletion['side'], string>;
+  entries: Record<string, ManifestEntry>;
+  propagateDeletions: boolean;
+  progressTracker?: SyncProgressTracker;
+}
+
+// What a sync will do with one file; copies replace replacedSize bytes on the other side
+type CopyAction = {
+  kind: 'copy';
+  relativePath: string;
+  direction: Exclude<SyncDirection, 'bidirectional'>;
+  source: ScannedFile;
+  replacedSize: number;
+};
+type FileAction =
+  | CopyAction
+  | { kind: 'trash'; relativePath: string; side: PendingDeletion['side']; file: ScannedFile }
+  | { kind: 'record' | 'conflict'; relativePath: string; local: ScannedFile; card: ScannedFile };
+
+// Planning happens before there is an operation to report progress on
+type PlanContext = Omit<ContentSyncContext, 'operation' | 'progressTracker'>;
+
+interface ContentTypePlan {
+  context: PlanContext;
+  actions: FileAction[];
+  cardBytes: number; // Size of the content type on the card before the sync
+  forgotten: string[]; // Manifest entries of files gone from both sides
+}
+
+interface FillCandidate {
+  action: CopyAction;
+  fill: ContentTypeFillPlan;
+  contentType: string;
+  rank: number; // Position in sync.fill_priority
+}
+
 export class SyncEngine extends EventEmitter {
   private config: OfflineSyncConfig['offline_sync'];
   private activeOperations: Map<string, SyncOperation> = new Map();
   private transferEngine: TransferEngine;
   private progressManager: SyncProgressManager;
   private errorHandler: StandardSyncErrorHandler;
+  private manifestStore: ManifestStore;
+  private conflictStore: ConflictStore;
+  private trashBin: TrashBin;
   private logger: Logger;
 
   constructor(config: OfflineSyncConfig) {
@@ -78,26 +143,106 @@ export class SyncEngine extends EventEmitter {
       },
       this.logger
     );
+
+    this.manifestStore = new ManifestStore(
+      path.join(config.data_directory, 'manifests'),
+      this.logger
+    );
+    this.conflictStore = new ConflictStore(
+      path.join(config.data_directory, 'conflicts.json'),
+      this.logger
+    );
+    this.trashBin = new TrashBin(this.config.sync.trash_retention_days, this.logger);
   }
 
   /**
-   * Start sync operation for a device
+   * Conflicts waiting for a decision
+   */
+  public async listConflicts(): Promise<SyncConflict[]> {
+    return this.conflictStore.list();
+  }
+
+  /**
+   * Record the decision for a conflict; it is applied the next time its card is synced
    */
-  public async startSync(device: DetectedDevice, analysis: CardAnalysis): Promise<string> {
-    const operationId = this.generateOperationId();
+  public async resolveConflict(
+    conflictId: string,
+    resolution: ConflictResolution
+  ): Promise<SyncConflict | null> {
+    return this.conflictStore.resolve(conflictId, resolution);
+  }
 
-    // For now, use estimated values for progress tracking since we don't have detailed file counts
-    // In a real implementation, you would analyze the content types to get actual counts
-    const totalFiles = analysis.detectedContentTypes.length * 100; // Estimated files per content type
-    const totalSize = analysis.totalSize;
+  /**
+   * Dry run of deletion propagation: files the next sync of this card would move to the trash
+   */
+  public async planDeletions(analysis: CardAnalysis): Promise<DeletionReport> {
+    const plan = await this.planSync(analysis);
+    return {
+      devicePath: plan.devicePath,
+      cardId: plan.cardId,
+      enabled: this.config.sync.delete_after_sync,
+      deletions: plan.deletions,
+    };
+  }
 
-    // Create progress tracker for device sync
-    const progressTracker = this.progressManager.createDeviceSyncTracker(
-      operationId,
-      device.devicePath, // Use devicePath as device identifier
-      totalFiles,
-      totalSize
-    );
+  /**
+   * Dry run of a sync: what the next sync of this card would copy, delete and leave out
+   */
+  public async planSync(analysis: CardAnalysis): Promise<SyncPlan> {
+    const { device } = analysis;
+    if (!device.mountPath) {
+      throw new Error(`Device ${device.devicePath} is not mounted`);
+    }
+
+    const manifest = await this.manifestStore.load(device.mountPath, analysis.identity.cardId);
+    const plans = await this.planContentTypes(analysis, manifest, false);
+    return this.planCardFill(analysis, manifest.cardId, plans);
+  }
+
+  /**
+   * Check that every file the card's manifest records is on the card at its recorded size;
+   * returns the files that are missing or truncated
+   */
+  public async verifyCard(analysis: CardAnalysis): Promise<string[]> {
+    const { device } = analysis;
+    if (!device.mountPath) {
+      throw new Error(`Device ${device.devicePath} is not mounted`);
+    }
+
+    const manifest = await this.manifestStore.load(device.mountPath, analysis.identity.cardId);
+    const problems: string[] = [];
+
+    for (const [contentType, entries] of Object.entries(manifest.contentTypes)) {
+      const contentConfig = analysis.contentTypes[contentType];
+      if (!contentConfig) {
+        continue;
+      }
+
+      const cardPath = this.getCardPath(device.mountPath, contentConfig);
+      for (const [relativePath, entry] of Object.entries(entries)) {
+        const stats = await fs.stat(path.join(cardPath, relativePath)).catch(() => null);
+        if (!stats) {
+          problems.push(`${contentType}/${relativePath} is missing`);
+        } else if (stats.size !== entry.size) {
+          problems.push(
+            `${contentType}/${relativePath} is ${stats.size} bytes, expected ${entry.size}`
+          );
+        }
+      }
+    }
+
+    return problems;
+  }
+
+  /**
+   * Start sync operation for a device
+   */
+  public async startSync(
+    device: DetectedDevice,
+    analysis: CardAnalysis,
+    operationId: string = this.generateOperationId()
+  ): Promise<string> {
+    const contentTypes = this.getContentTypesToSync(analysis);
 
     const operation: SyncOperation = {
       id: operationId,
@@ -106,16 +251,48 @@ export class SyncEngine extends EventEmitter {
       direction: 'bidirectional',
       status: 'pending',
       startTime: new Date(),
-      totalFiles,
+      totalFiles: 0,
       processedFiles: 0,
-      totalSize,
+      totalSize: 0,
       processedSize: 0,
+      conflicts: 0,
+      deletedFiles: 0,
     };
 
     this.activeOperations.set(operationId, operation);
     this.emit('sync_started', operation);
 
+    let manifest: SyncManifest | null = null;
+    let progressTracker: SyncProgressTracker | undefined;
+
     try {
+      if (!device.mountPath) {
+        throw new Error(`Device ${device.devicePath} is not mounted`);
+      }
+      const mountPath = device.mountPath;
+      manifest = await this.manifestStore.load(mountPath, analysis.identity.cardId);
+      await this.purgeTrash(mountPath);
+
+      // Work out exactly what will be transferred before copying anything
+      const plans = await this.planContentTypes(analysis, manifest, true);
+      const plan = this.planCardFill(analysis, manifest.cardId, plans);
+      operation.plan = plan;
+      operation.totalFiles = plan.toCard.files + plan.fromCard.files;
+      operation.totalSize = plan.toCard.bytes + plan.fromCard.bytes;
+      this.emit('sync_planned', plan, operation);
+
+      if (this.isCancelled(operation)) {
+        return operationId;
+      }
+
+      // Create progress tracker for device sync
+      progressTracker = this.progressManager.createDeviceSyncTracker(
+        operationId,
+        device.devicePath, // Use devicePath as device identifier
+        operation.totalFiles,
+        operation.totalSize
+      );
+
       operation.status = 'in_progress';
       progressTracker.start();
       progressTracker.setPhase('detect');
@@ -126,9 +303,16 @@ export class SyncEngine extends EventEmitter {
       progressTracker.updatePhaseProgress('analyze', 100);
       progressTracker.setPhase('sync');
 
-      // Process each detected content type
-      for (const contentType of analysis.detectedContentTypes) {
-        await this.syncContentType(operation, contentType, progressTracker);
+      for (const contentTypePlan of plans) {
+        await this.executeContentType(
+          { ...contentTypePlan.context, operation, progressTracker },
+          contentTypePlan
+        );
+        await this.manifestStore.save(mountPath, manifest);
+
+        if (this.isCancelled(operation)) {
+          return operationId;
+        }
       }
 
       operation.status = 'completed';
@@ -140,6 +324,13 @@ export class SyncEngine extends EventEmitter {
       operation.endTime = new Date();
       operation.error = error instanceof Error ? error.message : String(error);
 
+      // Keep what was transferred before the failure so it is not treated as a conflict next time
+      if (manifest && device.mountPath) {
+        await this.manifestStore
+          .save(device.mountPath, manifest)
+          .catch(saveError => this.logError('Failed to save sync manifest', saveError));
+      }
+
       // Create standardized error and handle it
       const syncError = SyncErrorFactory.createDeviceError(
         `Sync operation failed: ${operation.error}`,
@@ -152,12 +343,12 @@ export class SyncEngine extends EventEmitter {
         },
         {
           cause: error instanceof Error ? error : new Error(String(error)),
-          data: { device: device.devicePath, contentTypes: analysis.detectedContentTypes },
+          data: { device: device.devicePath, contentTypes },
         }
       );
 
       await this.errorHandler.handleError(syncError);
-      progressTracker.fail(operation.error);
+      progressTracker?.fail(operation.error);
       this.emit('sync_failed', operation, error);
     }
 
@@ -188,6 +379,13 @@ export class SyncEngine extends EventEmitter {
     return true;
   }
 
+  /**
+   * Get queued and running file transfers
+   */
+  public getActiveTransfers(): FileTransfer[] {
+    return this.transferEngine.getActiveTransfers();
+  }
+
   /**
    * Get active operations
    */
@@ -203,142 +401,659 @@ export class SyncEngine extends EventEmitter {
   }
 
   /**
-   * Sync a specific content type
+   * Content types to sync: every content type of the card's profile, or without a profile the
+   * ones already present on the card
    */
-  private async syncContentType(
-    operation: SyncOperation,
-    contentType: string,
-    progressTracker?: SyncProgressTracker
-  ): Promise<void> {
-    const contentConfig = this.config.content_types[contentType];
-    if (!contentConfig || !operation.device.mountPath) {
-      return;
+  private getContentTypesToSync(analysis: CardAnalysis): string[] {
+    return analysis.identity.profile
+      ? Object.keys(analysis.contentTypes)
+      : analysis.detectedContentTypes;
+  }
+
+  /**
+   * Decide what to do with every file of the content types to sync, without changing anything
+   * but (when createDirectories is set) the content type directories
+   */
+  private async planContentTypes(
+    analysis: CardAnalysis,
+    manifest: SyncManifest,
+    createDirectories: boolean
+  ): Promise<ContentTypePlan[]> {
+    const { mountPath } = analysis.device;
+    if (!mountPath) {
+      return [];
+    }
+
+    const plans: ContentTypePlan[] = [];
+    for (const contentType of this.getContentTypesToSync(analysis)) {
+      const contentConfig = analysis.contentTypes[contentType];
+      if (!contentConfig) {
+        continue;
+      }
+
+      const context: PlanContext = {
+        contentType,
+        contentConfig,
+        cardId: manifest.cardId,
+        localPath: contentConfig.local_path,
+        cardPath: this.getCardPath(mountPath, contentConfig),
+        trashRoots: this.getTrashRoots(mountPath),
+        entries: (manifest.contentTypes[contentType] ??= {}),
+        propagateDeletions: false,
+      };
+
+      if (createDirectories) {
+        await ensureDirectory(context.localPath);
+        if (!analysis.readOnly) {
+          await ensureDirectory(context.cardPath);
+        }
+      }
+
+      plans.push(await this.planContentType(context));
+    }
+
+    return plans;
+  }
+
+  /**
+   * Plan one content type by comparing both sides with the manifest entries from the last sync
+   */
+  private async planContentType(context: PlanContext): Promise<ContentTypePlan> {
+    this.log(`Planning sync for content type: ${context.contentType}`);
+
+    const [localFiles, cardFiles] = await Promise.all([
+      this.scanFiles(context.localPath, context.contentConfig),
+      this.scanFiles(context.cardPath, context.contentConfig),
+    ]);
+    context.propagateDeletions =
+      this.config.sync.delete_after_sync &&
+      this.canPropagateDeletions(context.contentType, context.entries, localFiles, cardFiles);
+
+    const relativePaths = new Set([...localFiles.keys(), ...cardFiles.keys()]);
+    const actions: FileAction[] = [];
+
+    for (const relativePath of Array.from(relativePaths).sort()) {
+      const action = await this.planFile(
+        context,
+        relativePath,
+        localFiles.get(relativePath),
+        cardFiles.get(relativePath)
+      );
+      if (action) {
+        actions.push(action);
+      }
+    }
+
+    return {
+      context,
+      actions,
+      cardBytes: Array.from(cardFiles.values()).reduce((total, file) => total + file.size, 0),
+      // Files that are gone from both sides
+      forgotten: Object.keys(context.entries).filter(
+        relativePath => !relativePaths.has(relativePath)
+      ),
+    };
+  }
+
+  /**
+   * What to do to bring one file in line on both sides, or null when it already is
+   */
+  private async planFile(
+    context: PlanContext,
+    relativePath: string,
+    local: ScannedFile | undefined,
+    card: ScannedFile | undefined
+  ): Promise<FileAction | null> {
+    const direction = context.contentConfig.sync_direction;
+    const entry = context.entries[relativePath];
+
+    const deletionSide = context.propagateDeletions
+      ? this.getDeletionSide(context.contentConfig, entry, local, card)
+      : null;
+    const deleted = deletionSide === 'local' ? local : card;
+    if (deletionSide && deleted) {
+      return { kind: 'trash', relativePath, side: deletionSide, file: deleted };
     }
 
-    this.log(`Starting sync for content type: ${contentType}`);
+    if (!card) {
+      return local && direction !== 'from_card'
+        ? { kind: 'copy', relativePath, direction: 'to_card', source: local, replacedSize: 0 }
+        : null;
+    }
 
-    const localPath = contentConfig.local_path;
-    // Sanitize paths to prevent path traversal
-    const sanitizedCardPath = sanitizePath(contentConfig.card_path);
-    const sanitizedMountPath = sanitizePath(operation.device.mountPath);
-    const cardPath = path.join(sanitizedMountPath, sanitizedCardPath);
+    if (!local) {
+      return direction !== 'to_card'
+        ? { kind: 'copy', relativePath, direction: 'from_card', source: card, replacedSize: 0 }
+        : null;
+    }
 
-    // Ensure both directories exist
-    await ensureDirectory(localPath);
-    await ensureDirectory(cardPath);
+    const localChanged = !entry || this.hasChanged(local, entry, 'local');
+    const cardChanged = !entry || this.hasChanged(card, entry, 'card');
 
-    // Determine sync direction
-    const syncDirection = contentConfig.sync_direction;
+    if (!localChanged && !cardChanged) {
+      return null;
+    }
 
-    if (syncDirection === 'bidirectional' || syncDirection === 'to_card') {
-      await this.syncToCard(operation, contentConfig, localPath, cardPath, progressTracker);
+    // Changed on both sides (or never synced) but to the same content
+    if (localChanged && cardChanged && (await this.isSameContent(local, card))) {
+      return { kind: 'record', relativePath, local, card };
     }
 
-    if (syncDirection === 'bidirectional' || syncDirection === 'from_card') {
-      await this.syncFromCard(operation, contentConfig, cardPath, localPath, progressTracker);
+    if (direction === 'to_card' || (direction === 'bidirectional' && !cardChanged)) {
+      return {
+        kind: 'copy',
+        relativePath,
+        direction: 'to_card',
+        source: local,
+        replacedSize: card.size,
+      };
+    }
+    if (direction === 'from_card' || !localChanged) {
+      return {
+        kind: 'copy',
+        relativePath,
+        direction: 'from_card',
+        source: card,
+        replacedSize: local.size,
+      };
     }
+    return { kind: 'conflict', relativePath, local, card };
   }
 
   /**
-   * Sync files from local storage to card
+   * Fit the copies to the card into its free space and each content type's max_size
+   *
+   * Copies are given space in sync.fill_order; the ones that do not fit are dropped from the
+   * content type plans and reported as skipped. Conflicts are budgeted first at the size of the
+   * local version, since keeping both versions is the worst case. A read-only card only gets
+   * copies from it.
    */
-  private async syncToCard(
-    operation: SyncOperation,
-    contentConfig: ContentTypeConfig,
-    localPath: string,
-    cardPath: string,
-    progressTracker?: SyncProgressTracker
-  ): Promise<void> {
-    this.log(`Syncing to card: ${localPath} -> ${cardPath}`);
-
-    const localFiles = await getFilesRecursively(localPath, [...contentConfig.file_extensions]);
-    const cardFiles = await getFilesRecursively(cardPath, [...contentConfig.file_extensions]);
-
-    // Create a map of card files for quick lookup
-    const cardFileMap = new Map<string, string>();
-    for (const cardFile of cardFiles) {
-      const relativePath = path.relative(cardPath, cardFile);
-      cardFileMap.set(relativePath, cardFile);
-    }
-
-    // Copy files that don't exist on card or are newer
-    for (const localFile of localFiles) {
-      const relativePath = path.relative(localPath, localFile);
-      // Sanitize relative path to prevent path traversal
-      const sanitizedRelativePath = sanitizePath(relativePath);
-      const targetPath = path.join(cardPath, sanitizedRelativePath);
-      const existingCardFile = cardFileMap.get(relativePath);
-
-      let shouldCopy = false;
-
-      if (!existingCardFile) {
-        // File doesn't exist on card
-        shouldCopy = true;
-      } else {
-        // Check if local file is newer
-        const localStats = await fs.stat(localFile);
-        const cardStats = await fs.stat(existingCardFile);
-
-        if (localStats.mtime > cardStats.mtime) {
-          shouldCopy = true;
+  private planCardFill(analysis: CardAnalysis, cardId: string, plans: ContentTypePlan[]): SyncPlan {
+    const reserved = this.parseSizeSetting('sync.reserved_space', this.config.sync.reserved_space);
+    // Without a df result only the max_size caps apply
+    const availableBytes =
+      analysis.totalSize > 0 ? Math.max(0, analysis.freeSize - (reserved ?? 0)) : null;
+    let remaining = availableBytes ?? Number.POSITIVE_INFINITY;
+
+    const plan: SyncPlan = {
+      devicePath: analysis.device.devicePath,
+      cardId,
+      profile: analysis.identity.profile,
+      availableBytes,
+      toCard: { files: 0, bytes: 0 },
+      fromCard: { files: 0, bytes: 0 },
+      deletions: [],
+      conflicts: 0,
+      contentTypes: {},
+      skipped: [],
+    };
+    const candidates: FillCandidate[] = [];
+    const skipped = new Set<FileAction>();
+
+    for (const { context, actions, cardBytes } of plans) {
+      const { contentType } = context;
+      const fill: ContentTypeFillPlan = {
+        files: 0,
+        bytes: 0,
+        usedBytes: cardBytes,
+        maxBytes: this.parseSizeSetting(`${contentType}.max_size`, context.contentConfig.max_size),
+      };
+      plan.contentTypes[contentType] = fill;
+
+      for (const action of actions) {
+        // Nothing can be changed on a write-protected card, only copied from it
+        if (analysis.readOnly && this.writesToCard(action)) {
+          skipped.add(action);
+          if (action.kind === 'copy') {
+            plan.skipped.push({
+              contentType,
+              relativePath: action.relativePath,
+              size: action.source.size,
+              reason: 'read_only',
+            });
+          }
+          continue;
+        }
+
+        if (action.kind === 'trash') {
+          const { side, file } = action;
+          plan.deletions.push({
+            contentType,
+            relativePath: action.relativePath,
+            side,
+            path: file.path,
+            size: file.size,
+          });
+          // Card trash stays on the card until it is purged, but no longer counts as content
+          if (side === 'card') {
+            fill.usedBytes -= file.size;
+          }
+        } else if (action.kind === 'conflict') {
+          plan.conflicts++;
+          fill.usedBytes += action.local.size;
+          remaining -= action.local.size;
+        } else if (action.kind === 'copy' && action.direction === 'from_card') {
+          plan.fromCard.files++;
+          plan.fromCard.bytes += action.source.size;
+        } else if (action.kind === 'copy') {
+          candidates.push({
+            action,
+            fill,
+            contentType,
+            rank: this.getFillRank(contentType, action),
+          });
         }
       }
+    }
 
-      if (shouldCopy) {
-        await this.transferFile(operation, localFile, targetPath, progressTracker);
+    for (const { action, fill, contentType } of candidates.sort((a, b) =>
+      this.compareFillOrder(a, b)
+    )) {
+      const growth = action.source.size - action.replacedSize;
+      const reason =
+        fill.maxBytes !== null && growth > 0 && fill.usedBytes + growth > fill.maxBytes
+          ? 'max_size'
+          : growth > remaining
+            ? 'free_space'
+            : null;
+
+      if (reason) {
+        skipped.add(action);
+        plan.skipped.push({
+          contentType,
+          relativePath: action.relativePath,
+          size: action.source.size,
+          reason,
+        });
+        continue;
       }
+
+      remaining -= growth;
+      fill.usedBytes += growth;
+      fill.files++;
+      fill.bytes += action.source.size;
+      plan.toCard.files++;
+      plan.toCard.bytes += action.source.size;
+    }
+
+    for (const contentTypePlan of plans) {
+      contentTypePlan.actions = contentTypePlan.actions.filter(action => !skipped.has(action));
+    }
+
+    if (plan.skipped.length > 0) {
+      this.logger.warn(
+        `${plan.skipped.length} file(s) to ${analysis.device.devicePath} will not fit and are skipped`
+      );
+    }
+    return plan;
+  }
+
+  private writesToCard(action: FileAction): boolean {
+    switch (action.kind) {
+      case 'copy':
+        return action.direction === 'to_card';
+      case 'trash':
+        return action.side === 'card';
+      case 'conflict':
+        return true;
+      case 'record':
+        return false;
     }
   }
 
   /**
-   * Sync files from card to local storage
+   * Position of a copy in sync.fill_priority, matched by content type or
+   * "content_type/path prefix"; unlisted files come last
    */
-  private async syncFromCard(
-    operation: SyncOperation,
+  private getFillRank(contentType: string, action: CopyAction): number {
+    const { fill_priority } = this.config.sync;
+    const key = `${contentType}/${action.relativePath.split(path.sep).join('/')}`;
+    const rank = fill_priority.findIndex(
+      entry => key === entry || key.startsWith(entry.endsWith('/') ? entry : `${entry}/`)
+    );
+    return rank === -1 ? fill_priority.length : rank;
+  }
+
+  private compareFillOrder(a: FillCandidate, b: FillCandidate): number {
+    const newestFirst = b.action.source.mtimeMs - a.action.source.mtimeMs;
+
+    switch (this.config.sync.fill_order) {
+      case 'smallest_first':
+        return a.action.source.size - b.action.source.size || newestFirst;
+      case 'priority':
+        return a.rank - b.rank || newestFirst;
+      case 'newest_first':
+        return newestFirst;
+    }
+  }
+
+  /**
+   * Size setting in bytes, or null when it cannot be parsed
+   */
+  private parseSizeSetting(name: string, value: string): number | null {
+    try {
+      return parseSize(value);
+    } catch (error) {
+      this.logger.warn(`Ignoring ${name}: ${value} is not a valid size`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Carry out a content type's plan
+   */
+  private async executeContentType(
+    context: ContentSyncContext,
+    contentTypePlan: ContentTypePlan
+  ): Promise<void> {
+    this.log(`Starting sync for content type: ${context.contentType}`);
+
+    for (const action of contentTypePlan.actions) {
+      if (this.isCancelled(context.operation)) {
+        return;
+      }
+
+      switch (action.kind) {
+        case 'copy':
+          await this.copyAndRecord(context, action.relativePath, action.direction);
+          break;
+        case 'trash':
+          await this.trashFile(context, action.relativePath, action.side);
+          break;
+        case 'record':
+          await this.recordInSync(
+            context,
+            action.relativePath,
+            action.local.path,
+            action.card.path
+          );
+          break;
+        case 'conflict':
+          await this.applyConflictPolicy(context, action.relativePath, action.local, action.card);
+          break;
+      }
+    }
+
+    for (const relativePath of contentTypePlan.forgotten) {
+      delete context.entries[relativePath];
+    }
+  }
+
+  /**
+   * Side to delete a file from because it was deleted from the other side since the last sync
+   *
+   * Deletions follow the sync direction (to_card only removes from the card, from_card only
+   * locally). A file changed since the last sync is kept and copied back instead.
+   */
+  private getDeletionSide(
     contentConfig: ContentTypeConfig,
-    cardPath: string,
-    localPath: string,
-    progressTracker?: SyncProgressTracker
+    entry: ManifestEntry | undefined,
+    local: ScannedFile | undefined,
+    card: ScannedFile | undefined
+  ): PendingDeletion['side'] | null {
+    const direction = contentConfig.sync_direction;
+    if (!entry) {
+      return null;
+    }
+
+    if (local && !card && direction !== 'to_card' && !this.hasChanged(local, entry, 'local')) {
+      return 'local';
+    }
+    if (card && !local && direction !== 'from_card' && !this.hasChanged(card, entry, 'card')) {
+      return 'card';
+    }
+    return null;
+  }
+
+  /**
+   * Refuse to propagate deletions when one side has no files at all but the manifest does:
+   * an unreadable or reformatted card looks exactly like every file having been deleted
+   */
+  private canPropagateDeletions(
+    contentType: string,
+    entries: Record<string, ManifestEntry>,
+    localFiles: Map<string, ScannedFile>,
+    cardFiles: Map<string, ScannedFile>
+  ): boolean {
+    const known = Object.keys(entries).length;
+    if (known > 0 && (localFiles.size === 0 || cardFiles.size === 0)) {
+      this.logger.warn(
+        `Not propagating deletions for ${contentType}: ${localFiles.size === 0 ? 'local' : 'card'} side is empty but ${known} files were synced before`
+      );
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Move a file into its side's trash and forget it in the manifest
+   */
+  private async trashFile(
+    context: ContentSyncContext,
+    relativePath: string,
+    side: PendingDeletion['side']
   ): Promise<void> {
-    this.log(`Syncing from card: ${cardPath} -> ${localPath}`);
-
-    const cardFiles = await getFilesRecursively(cardPath, [...contentConfig.file_extensions]);
-    const localFiles = await getFilesRecursively(localPath, [...contentConfig.file_extensions]);
-
-    // Create a map of local files for quick lookup
-    const localFileMap = new Map<string, string>();
-    for (const localFile of localFiles) {
-      const relativePath = path.relative(localPath, localFile);
-      localFileMap.set(relativePath, localFile);
-    }
-
-    // Copy files that don't exist locally or are newer
-    for (const cardFile of cardFiles) {
-      const relativePath = path.relative(cardPath, cardFile);
-      // Sanitize relative path to prevent path traversal
-      const sanitizedRelativePath = sanitizePath(relativePath);
-      const targetPath = path.join(localPath, sanitizedRelativePath);
-      const existingLocalFile = localFileMap.get(relativePath);
-
-      let shouldCopy = false;
-
-      if (!existingLocalFile) {
-        // File doesn't exist locally
-        shouldCopy = true;
-      } else {
-        // Check if card file is newer
-        const cardStats = await fs.stat(cardFile);
-        const localStats = await fs.stat(existingLocalFile);
-
-        if (cardStats.mtime > localStats.mtime) {
-          shouldCopy = true;
-        }
+    const root = side === 'local' ? context.localPath : context.cardPath;
+    const trashedPath = await this.trashBin.moveToTrash(
+      context.trashRoots[side],
+      context.contentType,
+      relativePath,
+      path.join(root, sanitizePath(relativePath))
+    );
+
+    delete context.entries[relativePath];
+    context.operation.deletedFiles++;
+    this.logger.info(
+      `Deleted ${context.contentType}/${relativePath} (${side}), moved to ${trashedPath}`
+    );
+  }
+
+  /**
+   * Remove trash past its retention on the card and locally
+   */
+  private async purgeTrash(mountPath: string): Promise<void> {
+    for (const trashRoot of Object.values(this.getTrashRoots(mountPath))) {
+      await this.trashBin
+        .purge(trashRoot)
+        .catch(error => this.logError(`Failed to purge trash at ${trashRoot}`, error));
+    }
+  }
+
+  private getTrashRoots(mountPath: string): Record<PendingDeletion['side'], string> {
+    return {
+      local: path.join(
+        this.config.storage.content_directory,
+        CARD_STATE_DIRECTORY,
+        TRASH_DIRECTORY
+      ),
+      card: path.join(mountPath, CARD_STATE_DIRECTORY, TRASH_DIRECTORY),
+    };
+  }
+
+  /**
+   * Directory of a content type on the card
+   * Only the configured card path is sanitized; the mount path comes from the mount manager and
+   * must stay absolute (sanitizePath strips the leading slash)
+   */
+  private getCardPath(mountPath: string, contentConfig: ContentTypeConfig): string {
+    return path.join(mountPath, sanitizePath(contentConfig.card_path));
+  }
+
+  private hasChanged(
+    file: ScannedFile,
+    entry: ManifestEntry,
+    side: PendingDeletion['side']
+  ): boolean {
+    const mtime = side === 'local' ? entry.localMtime : entry.cardMtime;
+    return file.size !== entry.size || file.mtimeMs !== mtime;
+  }
+
+  /**
+   * Apply the content type's conflict policy to a file changed on both sides since the last sync
+   */
+  private async applyConflictPolicy(
+    context: ContentSyncContext,
+    relativePath: string,
+    local: ScannedFile,
+    card: ScannedFile
+  ): Promise<void> {
+    const { operation, contentConfig } = context;
+    const key = { cardId: context.cardId, contentType: context.contentType, relativePath };
+    const resolution =
+      contentConfig.conflict_policy === 'ask'
+        ? await this.conflictStore.getResolution(key)
+        : contentConfig.conflict_policy;
+
+    if (!resolution) {
+      const conflict = await this.conflictStore.add({
+        ...key,
+        devicePath: operation.device.devicePath,
+        local: { size: local.size, mtime: new Date(local.mtimeMs) },
+        card: { size: card.size, mtime: new Date(card.mtimeMs) },
+      });
+      operation.conflicts++;
+      this.logger.warn(`Conflict in ${context.contentType}: ${relativePath} awaits a decision`);
+      this.emit('sync_conflict', conflict, operation);
+      return;
+    }
+
+    this.log(`Resolving conflict in ${context.contentType}: ${relativePath} (${resolution})`);
+
+    switch (resolution) {
+      case 'prefer_local':
+        await this.copyAndRecord(context, relativePath, 'to_card');
+        break;
+      case 'prefer_card':
+        await this.copyAndRecord(context, relativePath, 'from_card');
+        break;
+      case 'keep_both': {
+        // Move the card's version aside, then give both sides both versions
+        const copyPath = await this.getConflictCopyPath(context, relativePath);
+        await fs.move(card.path, path.join(context.cardPath, copyPath));
+        await this.copyAndRecord(context, relativePath, 'to_card');
+        await this.copyAndRecord(context, copyPath, 'from_card');
+        break;
+      }
+    }
+  }
+
+  /**
+   * Copy a file to the other side and record the now-identical pair in the manifest
+   */
+  private async copyAndRecord(
+    context: ContentSyncContext,
+    relativePath: string,
+    direction: Exclude<SyncDirection, 'bidirectional'>
+  ): Promise<void> {
+    // Sanitize relative path to prevent path traversal
+    const sanitizedRelativePath = sanitizePath(relativePath);
+    const localFile = path.join(context.localPath, sanitizedRelativePath);
+    const cardFile = path.join(context.cardPath, sanitizedRelativePath);
+
+    if (direction === 'to_card') {
+      await this.transferFile(context.operation, localFile, cardFile, context.progressTracker);
+    } else {
+      await this.transferFile(context.operation, cardFile, localFile, context.progressTracker);
+    }
+
+    await this.recordInSync(context, relativePath, localFile, cardFile);
+  }
+
+  /**
+   * Record a file as identical on both sides, settling any conflict pending for it
+   */
+  private async recordInSync(
+    context: ContentSyncContext,
+    relativePath: string,
+    localFile: string,
+    cardFile: string
+  ): Promise<void> {
+    context.entries[relativePath] = await this.manifestStore.createEntry(localFile, cardFile);
+    await this.conflictStore.remove({
+      cardId: context.cardId,
+      contentType: context.contentType,
+      relativePath,
+    });
+  }
+
+  /**
+   * Name for the card's version of a conflicting file, free on both sides
+   * e.g. "notes.md" -> "notes (card conflict 2025-01-31).md"
+   */
+  private async getConflictCopyPath(
+    context: ContentSyncContext,
+    relativePath: string
+  ): Promise<string> {
+    const { dir, name, ext } = path.parse(relativePath);
+    const date = new Date().toISOString().slice(0, 10);
+
+    for (let attempt = 1; ; attempt++) {
+      const suffix = attempt === 1 ? '' : ` ${attempt}`;
+      const candidate = path.join(dir, `${name} (card conflict ${date}${suffix})${ext}`);
+      const [onCard, onLocal] = await Promise.all([
+        fs.pathExists(path.join(context.cardPath, candidate)),
+        fs.pathExists(path.join(context.localPath, candidate)),
+      ]);
+
+      if (!onCard && !onLocal) {
+        return candidate;
       }
+    }
+  }
+
+  /**
+   * Whether both copies hold the same bytes; the sampled fingerprint only rules copies out,
+   * since edits in the middle of a file leave it unchanged
+   */
+  private async isSameContent(local: ScannedFile, card: ScannedFile): Promise<boolean> {
+    if (local.size !== card.size) {
+      return false;
+    }
+
+    const [localFingerprint, cardFingerprint] = await Promise.all([
+      ManifestStore.fingerprint(local.path),
+      ManifestStore.fingerprint(card.path),
+    ]);
+    if (localFingerprint !== cardFingerprint) {
+      return false;
+    }
+
+    const [localHash, cardHash] = await Promise.all([
+      ManifestStore.hashFile(local.path),
+      ManifestStore.hashFile(card.path),
+    ]);
+    return localHash === cardHash;
+  }
 
-      if (shouldCopy) {
-        await this.transferFile(operation, cardFile, targetPath, progressTracker);
+  /**
+   * Files of a content type keyed by path relative to its directory
+   * Sync state on the card is never treated as content
+   */
+  private async scanFiles(
+    directory: string,
+    contentConfig: ContentTypeConfig
+  ): Promise<Map<string, ScannedFile>> {
+    const files = await getFilesRecursively(directory, [...contentConfig.file_extensions]);
+    const scanned = new Map<string, ScannedFile>();
+
+    for (const file of files) {
+      const relativePath = path.relative(directory, file);
+      if (relativePath.split(path.sep)[0] === CARD_STATE_DIRECTORY) {
+        continue;
       }
+
+      const stats = await fs.stat(file);
+      scanned.set(relativePath, { path: file, size: stats.size, mtimeMs: stats.mtimeMs });
     }
+
+    return scanned;
+  }
+
+  // Status is changed by cancelSync while a sync is awaiting transfers
+  private isCancelled(operation: SyncOperation): boolean {
+    return operation.status === 'cancelled';
   }
 
   /**
@@ -425,31 +1140,10 @@ export class SyncEngine extends EventEmitter {
 
   // File verification and completion markers are now handled by TransferEngine
 
-  /**
-   * Parse size string to bytes
-   */
-  private parseSize(sizeStr: string): number {
-    const units: Record<string, number> = {
-      B: 1,
-      KB: 1024,
-      MB: 1024 * 1024,
-      GB: 1024 * 1024 * 1024,
-      TB: 1024 * 1024 * 1024 * 1024,
-    };
-
-    const match = sizeStr.match(/^(\d+(?:\.\d+)?)\s*([A-Z]+)$/i);
-    if (!match?.[1] || !match[2]) return 1024 * 1024; // Default 1MB
-
-    const value = parseFloat(match[1]);
-    const unit = match[2].toUpperCase();
-
-    return Math.floor(value * (units[unit] ?? 1));
-  }
-
   /**
    * Generate unique operation ID
    */
-  private generateOperationId(): string {
+  public generateOperationId(): string {
     return `sync_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
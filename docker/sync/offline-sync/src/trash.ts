@@ -0,0 +1,76 @@
+import * as path from 'path';
+
+import { Logger } from '@dangerprep/logging';
+import * as fs from 'fs-extra';
+
+export const TRASH_DIRECTORY = 'trash';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_DIRECTORY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Holds files removed by deletion propagation until their retention runs out
+ *
+ * Files are kept under `<trash root>/<YYYY-MM-DD>/<content type>/<relative path>`, so a
+ * whole day can be purged at once.
+ */
+export class TrashBin {
+  constructor(
+    private readonly retentionDays: number,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Move a file into the trash; returns where it was moved to
+   */
+  async moveToTrash(
+    trashRoot: string,
+    contentType: string,
+    relativePath: string,
+    filePath: string
+  ): Promise<string> {
+    const date = new Date().toISOString().slice(0, 10);
+    let target = path.join(trashRoot, date, contentType, relativePath);
+
+    // The same file can be deleted more than once a day (restored, then deleted again)
+    if (await fs.pathExists(target)) {
+      const { dir, name, ext } = path.parse(target);
+      target = path.join(dir, `${name}.${Date.now()}${ext}`);
+    }
+
+    await fs.move(filePath, target);
+    return target;
+  }
+
+  /**
+   * Remove trash days older than the retention period; returns the number of days removed
+   */
+  async purge(trashRoot: string): Promise<number> {
+    if (!(await fs.pathExists(trashRoot))) {
+      return 0;
+    }
+
+    const cutoff = Date.now() - this.retentionDays * DAY_MS;
+    let purged = 0;
+
+    for (const day of await fs.readdir(trashRoot)) {
+      if (!DATE_DIRECTORY.test(day) || new Date(day).getTime() + DAY_MS > cutoff) {
+        continue;
+      }
+
+      try {
+        await fs.remove(path.join(trashRoot, day));
+        purged++;
+      } catch (error) {
+        this.logger.warn(`Failed to purge trash ${path.join(trashRoot, day)}`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (purged > 0) {
+      this.logger.info(`Purged ${purged} day(s) of trash from ${trashRoot}`);
+    }
+    return purged;
+  }
+}
@@ -1,6 +1,37 @@
 import { z } from '@dangerprep/configuration';
 import { StandardizedServiceConfig, StandardizedServiceConfigSchema } from '@dangerprep/sync';
 
+// How a file changed on both the card and locally since the last sync is resolved
+// keep_both keeps the card's version under a suffixed name, ask waits for a decision from the portal
+export const CONFLICT_POLICIES = ['keep_both', 'prefer_local', 'prefer_card', 'ask'] as const;
+export type ConflictPolicy = (typeof CONFLICT_POLICIES)[number];
+export type ConflictResolution = Exclude<ConflictPolicy, 'ask'>;
+
+export const ContentTypeConfigSchema = z.object({
+  local_path: z.string(),
+  card_path: z.string(),
+  sync_direction: z.enum(['bidirectional', 'to_card', 'from_card']),
+  max_size: z.string(),
+  file_extensions: z.array(z.string()),
+  conflict_policy: z.enum(CONFLICT_POLICIES).default('keep_both'),
+});
+
+// Order files are given the card's free space in; priority follows sync.fill_priority
+export const FILL_ORDERS = ['newest_first', 'smallest_first', 'priority'] as const;
+export type FillOrder = (typeof FILL_ORDERS)[number];
+
+// Content selection for a group of cards; content types override the top-level ones by name
+// (e.g. a smaller max_size) or define new ones in full
+const CardProfileSchema = z.object({
+  description: z.string().optional(),
+  serial_numbers: z.array(z.string()).default([]), // USB serials matched when no profile is assigned
+  // Without the default, an override that leaves out conflict_policy keeps the top-level one
+  content_types: z.record(
+    z.string(),
+    ContentTypeConfigSchema.extend({ conflict_policy: z.enum(CONFLICT_POLICIES) }).partial()
+  ),
+});
+
 // Service-specific configuration schema
 const OfflineSyncServiceConfigSchema = z.object({
   offline_sync: z.object({
@@ -17,22 +48,51 @@ const OfflineSyncServiceConfigSchema = z.object({
       mount_retry_attempts: z.number().nonnegative(),
       mount_retry_delay: z.number().positive(),
     }),
-    content_types: z.record(
-      z.string(),
-      z.object({
-        local_path: z.string(),
-        card_path: z.string(),
-        sync_direction: z.enum(['bidirectional', 'to_card', 'from_card']),
-        max_size: z.string(),
-        file_extensions: z.array(z.string()),
+    content_types: z.record(z.string(), ContentTypeConfigSchema),
+    card_profiles: z.record(z.string(), CardProfileSchema).default({}),
+    default_profile: z.string().optional(), // For cards with no assigned or serial-matched profile
+    // Checks run on a card before it is synced; a failed check blocks the sync
+    preflight: z
+      .object({
+        enabled: z.boolean().default(true),
+        fsck: z.boolean().default(true), // Read-only filesystem check
+        fsck_timeout: z.number().positive().default(300), // Seconds
+        capacity_probe: z.boolean().default(false), // Opt-in sampled write/read-back for fake cards
+        probe_samples: z.number().int().positive().default(16),
+        // Failed pre-flights among a card's recent ones before it is flagged
+        flag_after_failures: z.number().int().positive().default(3),
       })
-    ),
+      .default({
+        enabled: true,
+        fsck: true,
+        fsck_timeout: 300,
+        capacity_probe: false,
+        probe_samples: 16,
+        flag_after_failures: 3,
+      }),
+    // Finishing a card's sync and unmounting it so it can be pulled safely
+    eject: z
+      .object({
+        after_sync: z.boolean().default(false), // Eject cards once their sync completes
+        verify: z.boolean().default(true), // Check synced files are on the card before unmounting
+        // sysfs file (LED brightness, GPIO value) set to 1 while a card is safe to remove
+        led_path: z.string().optional(),
+      })
+      .default({ after_sync: false, verify: true }),
     sync: z.object({
       check_interval: z.number().positive(),
       max_concurrent_transfers: z.number().positive(),
       transfer_chunk_size: z.string(),
       verify_transfers: z.boolean(),
+      // Propagate deletions since the last sync in the content type's sync direction
       delete_after_sync: z.boolean(),
+      trash_retention_days: z.number().nonnegative().default(30),
+      // Order files to the card are planned in when they do not all fit
+      fill_order: z.enum(FILL_ORDERS).default('newest_first'),
+      // Content types or "content_type/path prefix" filled first with fill_order priority
+      fill_priority: z.array(z.string()).default([]),
+      // Space left free on the card after a sync
+      reserved_space: z.string().default('256MB'),
       create_completion_markers: z.boolean(),
     }),
     logging: z.object({
@@ -67,6 +127,23 @@ export type SyncDirection = (typeof SYNC_DIRECTIONS)[number];
 
 // Content type configuration derived from schema
 export type ContentTypeConfig = OfflineSyncConfig['offline_sync']['content_types'][string];
+export type CardProfileConfig = OfflineSyncConfig['offline_sync']['card_profiles'][string];
+
+// Card identity and the profile that selects its content
+export interface CardIdentity {
+  cardId: string;
+  serialNumber?: string;
+  profile: string | null;
+  profileSource: 'assigned' | 'serial' | 'default' | 'none';
+}
+
+export interface CardProfileSummary {
+  name: string;
+  description?: string;
+  contentTypes: string[];
+  serialNumbers: string[];
+  assignedCards: string[];
+}
 
 export interface USBDeviceDescriptor {
   readonly bLength: number;
@@ -128,12 +205,162 @@ export interface SyncOperation {
   status: OperationStatus;
   readonly startTime: Date;
   endTime?: Date;
-  readonly totalFiles: number;
+  totalFiles: number; // Set from the plan once it is computed
   processedFiles: number;
-  readonly totalSize: number;
+  totalSize: number;
   processedSize: number;
   currentFile?: string;
   error?: string;
+  conflicts: number;
+  deletedFiles: number;
+  plan?: SyncPlan;
+}
+
+// State of one file at the last sync; mtimes differ per side because copying resets them
+export interface ManifestEntry {
+  size: number;
+  hash: string;
+  localMtime: number;
+  cardMtime: number;
+}
+
+// Per-card sync manifest, stored on the card and in the service data directory
+export interface SyncManifest {
+  version: 1;
+  cardId: string;
+  updatedAt: string;
+  // Content type -> path relative to the content type's directory -> entry
+  contentTypes: Record<string, Record<string, ManifestEntry>>;
+}
+
+export interface SyncConflict {
+  id: string;
+  cardId: string;
+  devicePath: string;
+  contentType: string;
+  relativePath: string;
+  local: { size: number; mtime: Date };
+  card: { size: number; mtime: Date };
+  detectedAt: Date;
+  resolution?: ConflictResolution; // Chosen in the portal, applied on the card's next sync
+}
+
+// File that is gone from one side since the last sync and will be removed from the other
+export interface PendingDeletion {
+  contentType: string;
+  relativePath: string;
+  side: 'local' | 'card';
+  path: string;
+  size: number;
+}
+
+export interface DeletionReport {
+  devicePath: string;
+  cardId: string;
+  enabled: boolean; // sync.delete_after_sync
+  deletions: PendingDeletion[];
+}
+
+// File to the card left out of a sync because it does not fit
+export interface SkippedTransfer {
+  contentType: string;
+  relativePath: string;
+  size: number;
+  reason: 'free_space' | 'max_size' | 'read_only';
+}
+
+export interface ContentTypeFillPlan {
+  files: number; // Copied to the card
+  bytes: number;
+  usedBytes: number; // On the card once the sync is done
+  maxBytes: number | null; // max_size, null when it cannot be parsed
+}
+
+// Everything a sync of a card will do, computed before anything is copied
+export interface SyncPlan {
+  devicePath: string;
+  cardId: string;
+  profile: string | null;
+  availableBytes: number | null; // Card free space less sync.reserved_space, null when unknown
+  toCard: { files: number; bytes: number };
+  fromCard: { files: number; bytes: number };
+  deletions: PendingDeletion[];
+  conflicts: number;
+  contentTypes: Record<string, ContentTypeFillPlan>;
+  skipped: SkippedTransfer[];
+}
+
+export interface PreflightCheck {
+  name: 'fsck' | 'capacity' | 'write_protect';
+  status: 'passed' | 'warning' | 'failed' | 'skipped';
+  message: string;
+}
+
+// Result of the checks run on a card before it is synced
+export interface CardPreflight {
+  devicePath: string;
+  checkedAt: Date;
+  passed: boolean; // No check failed; warnings do not block a sync
+  checks: PreflightCheck[];
+}
+
+// Pre-flight and eject history of one card, stored in <data_directory>/card-health.json
+export interface CardHealthRecord {
+  cardId: string;
+  serialNumber?: string;
+  preflights: number;
+  failures: number;
+  flagged: boolean; // Failed preflight.flag_after_failures of its recent pre-flights
+  lastPreflight?: CardPreflight; // Missing for a card only seen pulled before its pre-flight
+  recent: Array<{ checkedAt: Date; passed: boolean; failedChecks: PreflightCheck['name'][] }>;
+  unsafeEjects: number; // Pulled while mounted or before it was safe to remove
+  lastUnsafeEject?: Date;
+}
+
+// Stages of ejecting a card, in order; an inserted card not being ejected is 'mounted'
+export const EJECT_STAGES = [
+  'mounted',
+  'finishing', // Waiting for the card's sync to complete
+  'flushing',
+  'verifying',
+  'unmounting',
+  'safe_to_remove',
+  'failed', // Still mounted; see error
+] as const;
+export type EjectStage = (typeof EJECT_STAGES)[number];
+
+export interface EjectState {
+  devicePath: string;
+  cardId: string;
+  stage: EjectStage;
+  updatedAt: Date;
+  error?: string;
+}
+
+// Filesystems a card can be provisioned with
+export const PROVISION_FILE_SYSTEMS = ['exfat', 'ext4'] as const;
+export type ProvisionFileSystem = (typeof PROVISION_FILE_SYSTEMS)[number];
+
+export interface ProvisionRequest {
+  fileSystem: ProvisionFileSystem;
+  label?: string;
+  force?: boolean; // Also erase a card that already has a supported filesystem
+  confirm?: string; // Confirmation code from the preview; without it nothing is changed
+}
+
+// What provisioning a card would erase, or has started erasing once confirmed
+export interface ProvisionPreview {
+  devicePath: string;
+  disk: string; // Whole disk that is repartitioned, e.g. /dev/sdb
+  size: number;
+  model?: string;
+  fileSystem: string | null; // Current filesystem, null for a blank card
+  status: 'blank' | 'unsupported' | 'supported';
+  partitions: string[];
+  refusal?: string; // Why the card cannot be provisioned
+  confirmation?: string; // Code that confirms erasing the card
+  expiresAt?: Date;
+  started: boolean;
 }
 
 export interface FileTransfer {
@@ -151,6 +378,9 @@ export interface FileTransfer {
 
 export interface CardAnalysis {
   device: DetectedDevice;
+  identity: CardIdentity;
+  // Content types for this card: its profile's, or the top-level content_types without one
+  contentTypes: Record<string, ContentTypeConfig>;
   totalSize: number;
   freeSize: number;
   usedSize: number;
@@ -158,6 +388,7 @@ export interface CardAnalysis {
   missingContentTypes: string[];
   fileSystemSupported: boolean;
   readOnly: boolean;
+  preflight?: CardPreflight;
   errors: string[];
 }
 
@@ -192,8 +423,18 @@ export interface NotificationEvent {
     | 'card_inserted'
     | 'card_removed'
     | 'sync_started'
+    | 'sync_planned'
     | 'sync_completed'
     | 'sync_failed'
+    | 'sync_conflict'
+    | 'card_preflight_failed'
+    | 'card_flagged'
+    | 'card_unsupported'
+    | 'card_safe_to_remove'
+    | 'card_eject_failed'
+    | 'card_unsafe_eject'
+    | 'card_provisioned'
+    | 'card_provision_failed'
     | 'error';
   timestamp: Date;
   device?: DetectedDevice;
@@ -208,6 +449,7 @@ export interface LsblkDevice {
   size: string;
   mountpoint?: string;
   fstype?: string;
+  model?: string;
   children?: LsblkDevice[];
 }
 
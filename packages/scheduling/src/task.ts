@@ -65,9 +65,11 @@ export class ScheduledTaskImpl implements ScheduledTask {
   }
 
   getNextExecution(): Date | null {
-    // Note: nextDates() method may not be available in all versions
-    // Return null for now - this is a nice-to-have feature
-    return null;
+    try {
+      return this.task.getNextRun();
+    } catch {
+      return null;
+    }
   }
 
   getStatus() {
@@ -162,7 +162,7 @@ export class ServiceScheduler {
       };
 
       // Create service-aware task wrapper
-      const wrappedTask = this.createServiceAwareTask(taskFunction, serviceOptions);
+      const wrappedTask = this.createServiceAwareTask(taskId, taskFunction, serviceOptions);
 
       // Schedule with base scheduler
       const scheduledTask = this.scheduler.schedule(taskId, schedule, wrappedTask, {
@@ -305,6 +305,7 @@ export class ServiceScheduler {
         executionCount: task.executionCount,
         failureCount: task.failureCount,
         lastExecution: task.lastExecution,
+        nextExecution: this.scheduler.getTask(task.id)?.getNextExecution() ?? null,
         lastError: task.lastError,
       })),
     };
@@ -314,12 +315,11 @@ export class ServiceScheduler {
    * Create a service-aware task wrapper with health monitoring and error handling
    */
   private createServiceAwareTask(
+    taskId: string,
     taskFunction: () => Promise<void> | void,
     options: ServiceScheduleOptions
   ): () => Promise<void> {
     return async () => {
-      const taskId = `${this.serviceName}-task-${Date.now()}`;
-
       try {
         // Check service health if enabled
         if (options.enableHealthCheck && this.config.pauseOnUnhealthy) {
@@ -376,22 +376,19 @@ export class ServiceScheduler {
     duration: number,
     error?: string
   ): void {
-    // Find the task by looking for a matching pattern
-    // This is a simplified approach - in a real implementation you'd want better task tracking
-    for (const [id, task] of this.serviceTasks.entries()) {
-      const taskPrefix = taskId.split('-')[0];
-      if (taskId.includes(id) || (taskPrefix && id.includes(taskPrefix))) {
-        task.executionCount++;
-        task.lastExecution = new Date();
-
-        if (!success) {
-          task.failureCount++;
-          task.lastError = error;
-        } else {
-          task.lastError = undefined;
-        }
-        break;
-      }
+    const task = this.serviceTasks.get(taskId);
+    if (!task) {
+      return;
+    }
+
+    task.executionCount++;
+    task.lastExecution = new Date();
+
+    if (!success) {
+      task.failureCount++;
+      task.lastError = error;
+    } else {
+      task.lastError = undefined;
     }
   }
 
@@ -348,6 +348,7 @@ export interface ServiceSchedulerStatus {
     executionCount: number;
     failureCount: number;
     lastExecution: Date | undefined;
+    nextExecution: Date | null;
     lastError: string | undefined;
   }>;
 }
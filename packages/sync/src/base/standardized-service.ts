@@ -26,10 +26,26 @@ import {
   ProgressStatus,
 } from '@dangerprep/types';
 
+import { ManagementApiConfig, ManagementApiServer } from '../control/management-api.js';
+import {
+  CONTROL_ERROR_CODES,
+  ControlHandler,
+  ControlOperation,
+  ControlOperationResult,
+  ControlRequestError,
+  ControlServer,
+  getControlSocketPath,
+} from '../control/socket.js';
 import { SyncErrorFactory } from '../error/factory.js';
 import { StandardSyncErrorHandler } from '../error/handler.js';
+import { PeerContentFile, PeerManifest, PeerManifestItem } from '../peer/content.js';
+import { PeerSync, PeerSyncConfig, PeerSyncResult } from '../peer/sync.js';
 import { SyncProgressManager } from '../progress/manager.js';
 import { SyncProgressTracker } from '../progress/tracker.js';
+import { FileTransfer } from '../types';
+
+// Number of finished operations kept for the `history` control method
+const OPERATION_HISTORY_LIMIT = 50;
 
 // Standardized service configuration interface
 export interface StandardizedServiceConfig {
@@ -46,6 +62,8 @@ export interface StandardizedServiceConfig {
   enable_progress_tracking: boolean;
   enable_auto_recovery: boolean;
   metadata?: Record<string, unknown>;
+  management_api?: ManagementApiConfig;
+  peer_sync?: PeerSyncConfig;
 }
 
 // Enhanced service lifecycle hooks for sync services
@@ -117,6 +135,12 @@ export abstract class StandardizedSyncService<
 
   private readonly startTime = new Date();
   private readonly lifecycleHooks: ServiceLifecycleHooks;
+  private readonly controlHandlers = new Map<string, ControlHandler>();
+  private readonly operationHistory: ControlOperationResult[] = [];
+  private controlServer: ControlServer | null = null;
+  private managementApi: ManagementApiServer | null = null;
+  private peerSync: PeerSync | null = null;
+  private peerSyncRunning = false;
 
   constructor(
     serviceName: string,
@@ -195,6 +219,8 @@ export abstract class StandardizedSyncService<
       this.components.notificationManager
     );
 
+    this.registerBaseControlMethods();
+
     // Set up global progress listener
     this.progressManager.addGlobalListener(async (update: ProgressUpdate) => {
       this.eventEmitter.emit('progress', update);
@@ -282,6 +308,11 @@ export abstract class StandardizedSyncService<
       // Register service with registry
       await this.registerWithServiceRegistry();
 
+      // Let CLI commands and the portal reach this instance
+      await this.startControlServer();
+      await this.startManagementApi();
+      this.startPeerSync();
+
       // Execute after start hook
       if (this.lifecycleHooks.afterStart) {
         await this.lifecycleHooks.afterStart();
@@ -314,6 +345,10 @@ export abstract class StandardizedSyncService<
         await this.lifecycleHooks.beforeStop();
       }
 
+      // Stop accepting control requests before tearing anything down
+      await this.stopControlServer();
+      await this.stopManagementApi();
+
       // Cancel all active operations
       await this.cancelAllOperations();
 
@@ -377,6 +412,303 @@ export abstract class StandardizedSyncService<
     return ComponentStatus.UP;
   }
 
+  /**
+   * List in-flight operations - can be overridden by services that track their own
+   */
+  public listOperations(): ControlOperation[] {
+    return Array.from(this.activeOperations.values()).map(context => {
+      const metrics = this.operationTrackers.get(context.operationId)?.metrics;
+      return {
+        id: context.operationId,
+        type: context.operationType,
+        status: this.operationTrackers.get(context.operationId)?.status ?? 'in_progress',
+        startTime: context.startTime,
+        ...(metrics && {
+          processedItems: metrics.completedItems,
+          totalItems: metrics.totalItems,
+          processedBytes: metrics.processedBytes,
+          totalBytes: metrics.totalBytes,
+        }),
+        ...(context.metadata && { metadata: context.metadata }),
+      };
+    });
+  }
+
+  /**
+   * Cancel an in-flight operation - can be overridden by services that track their own
+   */
+  public async cancelOperation(operationId: string): Promise<boolean> {
+    const tracker = this.operationTrackers.get(operationId);
+    if (!tracker || tracker.status !== ProgressStatus.IN_PROGRESS) {
+      return false;
+    }
+
+    tracker.cancel();
+    return true;
+  }
+
+  /**
+   * List recently finished operations, newest first
+   */
+  public listRecentOperations(): ControlOperationResult[] {
+    return [...this.operationHistory];
+  }
+
+  /**
+   * Record a finished operation in the recent history.
+   * executeOperation records its own runs; services that run syncs outside it call this directly.
+   */
+  protected recordOperationResult(result: ControlOperationResult): void {
+    this.operationHistory.unshift(result);
+    this.operationHistory.splice(OPERATION_HISTORY_LIMIT);
+  }
+
+  /**
+   * Expose a service-specific method on the control socket (e.g. offline-sync's `sync`)
+   * Methods the management API routes to (see control/management-api) are reachable over HTTP too.
+   */
+  protected registerControlMethod(method: string, handler: ControlHandler): void {
+    this.controlHandlers.set(method, handler);
+    this.controlServer?.register(method, handler);
+  }
+
+  /**
+   * List queued and running file transfers - can be overridden by services with a transfer engine
+   */
+  public listTransfers(): FileTransfer[] {
+    return this.peerSync?.listTransfers() ?? [];
+  }
+
+  /**
+   * Files this service shares with other units - overridden by services that support peer sync
+   */
+  protected async listPeerContent(): Promise<PeerContentFile[]> {
+    return [];
+  }
+
+  /**
+   * Where to download an item a peer has, or null to leave it (already here, or no room)
+   */
+  protected async getPeerDownloadPath(_item: PeerManifestItem): Promise<string | null> {
+    return null;
+  }
+
+  /**
+   * Put an item pulled from a peer in place once its checksum has been verified
+   */
+  protected async acceptPeerDownload(
+    _item: PeerManifestItem,
+    _downloadPath: string
+  ): Promise<void> {
+    // Services that return download paths move the file into place here
+  }
+
+  /**
+   * Pull the items other units have and this one is missing
+   * An item is only pulled once, from the first peer that delivers it intact.
+   */
+  public async syncFromPeers(): Promise<PeerSyncResult> {
+    const peerSync = this.requirePeerSync();
+    const logger = this.getLogger();
+    const attempted = new Set<string>();
+    const pulled = new Set<string>();
+    let peers = 0;
+
+    for (const peer of await peerSync.discoverPeers()) {
+      let manifest: PeerManifest;
+      try {
+        manifest = await peerSync.fetchManifest(peer);
+        peers++;
+      } catch (error) {
+        logger.debug(`Skipping peer ${peer.name} (${peer.url}): ${error}`);
+        continue;
+      }
+
+      for (const item of manifest.items) {
+        if (pulled.has(item.id)) continue;
+
+        const downloadPath = await this.getPeerDownloadPath(item);
+        if (!downloadPath) continue;
+
+        attempted.add(item.id);
+        try {
+          logger.info(`Pulling ${item.id} from ${manifest.unit}`);
+          await peerSync.pull(peer, item, downloadPath);
+          await this.acceptPeerDownload(item, downloadPath);
+          pulled.add(item.id);
+        } catch (error) {
+          logger.warn(`Failed to pull ${item.id} from ${manifest.unit}: ${error}`);
+        }
+      }
+    }
+
+    const failed = [...attempted].filter(id => !pulled.has(id));
+    logger.info(`Peer sync: ${pulled.size} pulled, ${failed.length} failed from ${peers} peers`);
+    return { peers, pulled: [...pulled], failed };
+  }
+
+  /**
+   * Start a peer sync in the background and return its operation ID
+   */
+  public triggerPeerSync(): string {
+    this.requirePeerSync();
+    if (this.peerSyncRunning) {
+      throw new ControlRequestError(
+        'A peer sync is already running',
+        CONTROL_ERROR_CODES.INVALID_REQUEST
+      );
+    }
+
+    const operationId = `peer-sync-${Date.now()}`;
+    void this.runPeerSync(operationId);
+    return operationId;
+  }
+
+  /**
+   * Get storage usage per content type - can be overridden by subclasses
+   */
+  public async getContentStorageStats(): Promise<Record<string, unknown>> {
+    return {};
+  }
+
+  /**
+   * Start a sync outside the schedule and return its operation ID without waiting for it.
+   * The meaning of target (device, content type, package) is up to the service.
+   */
+  public async triggerManualSync(_target?: string): Promise<string | null> {
+    throw new ControlRequestError(
+      `Manual sync is not supported by ${this.serviceName}`,
+      CONTROL_ERROR_CODES.METHOD_NOT_FOUND
+    );
+  }
+
+  private registerBaseControlMethods(): void {
+    this.controlHandlers.set('status', () => this.getDetailedServiceStatus());
+    this.controlHandlers.set('health', () => this.getHealthStatus());
+    this.controlHandlers.set('health-check', () => this.components.healthChecker.check());
+    this.controlHandlers.set('stats', () => this.getStatistics());
+    this.controlHandlers.set('config', () => this.getConfig());
+    this.controlHandlers.set('operations', () => this.listOperations());
+    this.controlHandlers.set('cancel', operationId => this.cancelOperation(String(operationId)));
+    this.controlHandlers.set('history', () => this.listRecentOperations());
+    this.controlHandlers.set('transfers', () => this.listTransfers());
+    this.controlHandlers.set('storage', () => this.getContentStorageStats());
+    this.controlHandlers.set('schedule', () => this.getSchedulerStatus()?.serviceTasks ?? []);
+    this.controlHandlers.set('trigger', target =>
+      this.triggerManualSync(target === undefined ? undefined : String(target))
+    );
+    this.controlHandlers.set('peers', () => this.requirePeerSync().discoverPeers());
+    this.controlHandlers.set('peer-sync', () => this.triggerPeerSync());
+    this.controlHandlers.set('peer-manifest', async () =>
+      this.requirePeerSync().buildManifest(await this.listPeerContent())
+    );
+    this.controlHandlers.set('peer-file', async id =>
+      this.requirePeerSync().resolveFile(await this.listPeerContent(), String(id))
+    );
+  }
+
+  private requirePeerSync(): PeerSync {
+    if (!this.peerSync) {
+      throw new ControlRequestError(
+        `Peer sync is not enabled for ${this.serviceName}`,
+        CONTROL_ERROR_CODES.METHOD_NOT_FOUND
+      );
+    }
+    return this.peerSync;
+  }
+
+  private startPeerSync(): void {
+    const config = this.getConfig();
+    if (this.peerSync || !config.peer_sync?.enabled) return;
+
+    // Units authenticate to each other with the shared token, which also guards all changes
+    if (!config.management_api?.enabled || !config.management_api.token) {
+      this.getLogger().error(
+        'Peer sync needs management_api enabled with a token; it stays off until both are set'
+      );
+      return;
+    }
+
+    this.peerSync = new PeerSync(
+      config.peer_sync,
+      this.serviceName,
+      config.data_directory,
+      config.management_api.token,
+      this.getLogger()
+    );
+    this.scheduleTask(
+      'peer-sync',
+      config.peer_sync.schedule,
+      async () => {
+        if (!this.peerSyncRunning) {
+          await this.runPeerSync(`peer-sync-${Date.now()}`);
+        }
+      },
+      {
+        name: 'Peer sync',
+        enableHealthCheck: true,
+        retryOnFailure: false,
+        notifyOnFailure: true,
+      }
+    );
+    this.getLogger().info(`Peer sync enabled as ${this.peerSync.unitName}`);
+  }
+
+  private async runPeerSync(operationId: string): Promise<void> {
+    this.peerSyncRunning = true;
+    try {
+      await this.executeOperation(operationId, 'peer-sync', () => this.syncFromPeers());
+    } finally {
+      this.peerSyncRunning = false;
+    }
+  }
+
+  private async startControlServer(): Promise<void> {
+    if (this.controlServer) return;
+
+    const server = new ControlServer(getControlSocketPath(this.serviceName), this.getLogger());
+    for (const [method, handler] of this.controlHandlers) {
+      server.register(method, handler);
+    }
+
+    try {
+      await server.start();
+      this.controlServer = server;
+    } catch (error) {
+      // CLI commands fall back to a local instance, so the service can run without it
+      this.getLogger().warn('Control socket unavailable', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async stopControlServer(): Promise<void> {
+    const server = this.controlServer;
+    this.controlServer = null;
+    await server?.stop();
+  }
+
+  private async startManagementApi(): Promise<void> {
+    const apiConfig = this.getConfig().management_api;
+    if (this.managementApi || !apiConfig?.enabled) return;
+
+    const server = new ManagementApiServer(apiConfig, this.controlHandlers, this.getLogger());
+    try {
+      await server.start();
+      this.managementApi = server;
+    } catch (error) {
+      this.getLogger().error('Management API failed to start', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async stopManagementApi(): Promise<void> {
+    const server = this.managementApi;
+    this.managementApi = null;
+    await server?.stop();
+  }
+
   private async cancelAllOperations(): Promise<void> {
     const cancelPromises = Array.from(this.operationTrackers.values()).map(tracker => {
       if (tracker.status === ProgressStatus.IN_PROGRESS) {
@@ -452,7 +784,9 @@ export abstract class StandardizedSyncService<
       version: this.serviceVersion,
       endpoint: {
         host: 'localhost',
-        port: parseInt(process.env.PORT || '3000', 10),
+        port: config.management_api?.enabled
+          ? config.management_api.port
+          : parseInt(process.env.PORT || '3000', 10),
         protocol: 'http' as const,
       },
       metadata: {
@@ -723,6 +1057,14 @@ export abstract class StandardizedSyncService<
       tracker.complete();
       this.statistics.successfulOperations++;
       this.updateOperationStatistics(context);
+      this.recordOperationResult({
+        id: operationId,
+        type: operationType,
+        success: true,
+        startTime: context.startTime,
+        endTime: new Date(),
+        ...(context.metadata && { metadata: context.metadata }),
+      });
 
       const operationResult: SyncOperationResult<T> = {
         success: true,
@@ -744,6 +1086,15 @@ export abstract class StandardizedSyncService<
       tracker.fail(error instanceof Error ? error.message : String(error));
       this.statistics.failedOperations++;
       this.updateOperationStatistics(context);
+      this.recordOperationResult({
+        id: operationId,
+        type: operationType,
+        success: false,
+        startTime: context.startTime,
+        endTime: new Date(),
+        error: error instanceof Error ? error.message : String(error),
+        ...(context.metadata && { metadata: context.metadata }),
+      });
 
       const syncError =
         error instanceof Error
@@ -7,6 +7,7 @@ import { LoggerFactory } from '@dangerprep/logging';
 import { Command } from 'commander';
 
 import { StandardizedSyncService } from '../base/standardized-service.js';
+import { ControlClient, ControlOperation, getControlSocketPath } from '../control/socket.js';
 
 // CLI configuration interface
 export interface StandardizedCliConfig {
@@ -20,13 +21,17 @@ export interface StandardizedCliConfig {
 }
 
 // Custom CLI command interface
+// remoteAction runs against the live daemon when it is reachable; action runs against a freshly
+// created instance otherwise. Commands with only a remoteAction fail when the daemon is down.
 export interface CliCommand {
   name: string;
   description: string;
   arguments?: CliArgument[];
   options?: CliOption[];
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  action: (args: any[], options: any, service: StandardizedSyncService<any>) => Promise<void>;
+  action?: (args: any[], options: any, service: StandardizedSyncService<any>) => Promise<void>;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  remoteAction?: (args: any[], options: any, daemon: ControlClient) => Promise<void>;
 }
 
 export interface CliArgument {
@@ -185,6 +190,25 @@ export class StandardizedCli<TService extends StandardizedSyncService<any>> {
         await this.handleStats(options);
       });
 
+    // Operations command
+    this.program
+      .command('operations')
+      .description('List in-flight operations of the running service')
+      .option('-c, --config <path>', 'Configuration file path', this.config.defaultConfigPath)
+      .option('--json', 'Output as JSON')
+      .action(async options => {
+        await this.handleOperations(options);
+      });
+
+    // Cancel command
+    this.program
+      .command('cancel')
+      .description('Cancel an in-flight operation of the running service')
+      .argument('<operationId>', 'Operation ID to cancel')
+      .action(async operationId => {
+        await this.handleCancel(operationId);
+      });
+
     // Config command
     this.program
       .command('config')
@@ -230,13 +254,22 @@ export class StandardizedCli<TService extends StandardizedSyncService<any>> {
       );
 
       command.action(async (...args) => {
+        // Commander passes the arguments, then the parsed options, then the command itself
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const options = args[args.length - 1] as any;
-        const commandArgs = args.slice(0, -1);
+        const options = (args[args.length - 1] as Command).opts() as any;
+        const commandArgs = args.slice(0, -2);
 
         try {
-          const service = this.serviceFactory(options.config);
-          await customCommand.action(commandArgs, options, service);
+          const daemon = customCommand.remoteAction ? await this.connectToDaemon() : null;
+
+          if (daemon && customCommand.remoteAction) {
+            await customCommand.remoteAction(commandArgs, options, daemon);
+          } else if (customCommand.action) {
+            const service = this.serviceFactory(options.config);
+            await customCommand.action(commandArgs, options, service);
+          } else {
+            throw new Error(`${this.config.serviceName} is not running`);
+          }
         } catch (error) {
           CliOutput.error(
             `Command failed: ${error instanceof Error ? error.message : String(error)}`
@@ -297,25 +330,22 @@ export class StandardizedCli<TService extends StandardizedSyncService<any>> {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private async handleStatus(options: any): Promise<void> {
     try {
-      const service = this.serviceFactory(options.config);
-
-      const initResult = await service.initialize();
-      if (!initResult.success) {
-        throw initResult.error || new Error('Service initialization failed');
-      }
-
-      const stats = service.getStatistics();
-      const health = await service.getHealthStatus();
+      const status = await this.query(options, 'status', service =>
+        service.getDetailedServiceStatus()
+      );
+      const { health, statistics: stats } = status;
 
       if (options.json) {
         CliOutput.json({
           service: this.config.serviceName,
-          version: this.config.version,
+          version: status.version,
+          state: status.state,
           health,
           statistics: stats,
         });
       } else {
-        CliOutput.info(`${this.config.serviceName} v${this.config.version}`);
+        CliOutput.info(`${this.config.serviceName} v${status.version}`);
+        CliOutput.info(`State: ${status.state}`);
         CliOutput.info(`Health: ${this.formatHealthStatus(health)}`);
         CliOutput.info(`Uptime: ${this.formatDuration(stats.uptime)}`);
         CliOutput.info(`Total Operations: ${stats.totalOperations}`);
@@ -333,14 +363,7 @@ export class StandardizedCli<TService extends StandardizedSyncService<any>> {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private async handleHealth(options: any): Promise<void> {
     try {
-      const service = this.serviceFactory(options.config);
-
-      const initResult = await service.initialize();
-      if (!initResult.success) {
-        throw initResult.error || new Error('Service initialization failed');
-      }
-
-      const health = await service.getHealthStatus();
+      const health = await this.query(options, 'health', service => service.getHealthStatus());
 
       if (options.json) {
         CliOutput.json({ health });
@@ -361,14 +384,7 @@ export class StandardizedCli<TService extends StandardizedSyncService<any>> {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private async handleStats(options: any): Promise<void> {
     try {
-      const service = this.serviceFactory(options.config);
-
-      const initResult = await service.initialize();
-      if (!initResult.success) {
-        throw initResult.error || new Error('Service initialization failed');
-      }
-
-      const stats = service.getStatistics();
+      const stats = await this.query(options, 'stats', service => service.getStatistics());
 
       if (options.json) {
         CliOutput.json(stats);
@@ -383,7 +399,11 @@ export class StandardizedCli<TService extends StandardizedSyncService<any>> {
             ['Success Rate', `${((1 - stats.errorRate) * 100).toFixed(1)}%`],
             ['Average Operation Time', `${stats.averageOperationTime.toFixed(0)}ms`],
             ['Uptime', this.formatDuration(stats.uptime)],
-            ['Last Operation', stats.lastOperationTime?.toISOString() || 'Never'],
+            [
+              'Last Operation',
+              // Dates arrive as ISO strings when the stats come from the daemon
+              stats.lastOperationTime ? new Date(stats.lastOperationTime).toISOString() : 'Never',
+            ],
           ]
         );
       }
@@ -398,16 +418,13 @@ export class StandardizedCli<TService extends StandardizedSyncService<any>> {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private async handleConfig(options: any): Promise<void> {
     try {
-      const service = this.serviceFactory(options.config);
-
-      const initResult = await service.initialize();
-      if (!initResult.success) {
-        throw initResult.error || new Error('Service initialization failed');
-      }
-
-      // Get config through a public method or property
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const config = (service as any).getConfig();
+      const config = await this.query(
+        options,
+        'config',
+        // Get config through a public method or property
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        service => (service as any).getConfig() as unknown
+      );
 
       if (options.json) {
         CliOutput.json(config);
@@ -423,6 +440,108 @@ export class StandardizedCli<TService extends StandardizedSyncService<any>> {
     }
   }
 
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private async handleOperations(options: any): Promise<void> {
+    try {
+      const operations = await this.query(options, 'operations', service =>
+        service.listOperations()
+      );
+
+      if (options.json) {
+        CliOutput.json(operations);
+      } else if (operations.length === 0) {
+        CliOutput.info('No active operations');
+      } else {
+        CliOutput.table(
+          ['ID', 'Type', 'Status', 'Progress', 'Started', 'Current Item'],
+          operations.map(operation => [
+            operation.id,
+            operation.type,
+            operation.status,
+            this.formatOperationProgress(operation),
+            new Date(operation.startTime).toISOString(),
+            operation.currentItem || '',
+          ])
+        );
+      }
+    } catch (error) {
+      CliOutput.error(
+        `Failed to list operations: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
+    }
+  }
+
+  private async handleCancel(operationId: string): Promise<void> {
+    try {
+      // A fresh instance has nothing in flight, so cancelling only makes sense on the daemon
+      const daemon = await this.connectToDaemon();
+      if (!daemon) {
+        throw new Error(`${this.config.serviceName} is not running`);
+      }
+
+      if (await daemon.call<boolean>('cancel', operationId)) {
+        CliOutput.success(`Operation ${operationId} cancelled`);
+      } else {
+        CliOutput.warning(`Operation ${operationId} not found or cannot be cancelled`);
+        process.exit(1);
+      }
+    } catch (error) {
+      CliOutput.error(
+        `Failed to cancel operation: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Connect to the running service's control socket, or null if it is not running
+   */
+  private async connectToDaemon(): Promise<ControlClient | null> {
+    const client = new ControlClient(getControlSocketPath(this.config.serviceName));
+    return (await client.isAvailable()) ? client : null;
+  }
+
+  /**
+   * Ask the running service, falling back to a freshly initialized instance when it is not
+   * running (e.g. to inspect configuration before the first start)
+   */
+  private async query<T>(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    options: any,
+    method: string,
+    local: (service: TService) => Promise<T> | T
+  ): Promise<T> {
+    const daemon = await this.connectToDaemon();
+    if (daemon) {
+      return daemon.call<T>(method);
+    }
+
+    if (!options.json) {
+      CliOutput.warning(
+        `${this.config.serviceName} is not running; showing a freshly loaded instance`
+      );
+    }
+
+    const service = this.serviceFactory(options.config);
+    const initResult = await service.initialize();
+    if (!initResult.success) {
+      throw initResult.error || new Error('Service initialization failed');
+    }
+
+    return local(service);
+  }
+
+  private formatOperationProgress(operation: ControlOperation): string {
+    if (operation.totalBytes) {
+      return `${(((operation.processedBytes ?? 0) / operation.totalBytes) * 100).toFixed(1)}%`;
+    }
+    if (operation.totalItems) {
+      return `${operation.processedItems ?? 0}/${operation.totalItems}`;
+    }
+    return '';
+  }
+
   private formatHealthStatus(status: ComponentStatus): string {
     switch (status) {
       case ComponentStatus.UP:
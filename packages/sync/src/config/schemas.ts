@@ -95,6 +95,54 @@ export const PriorityRuleSchema = z.object({
   weight: z.number().describe('Priority weight (higher = more important)'),
 });
 
+/**
+ * Embedded HTTP management API configuration schema
+ */
+export const ManagementApiConfigSchema = z.object({
+  enabled: z.boolean().default(false).describe('Serve the management API'),
+  host: z.string().default('0.0.0.0').describe('Address to listen on'),
+  port: z.number().int().min(1).max(65535).default(8080).describe('Port to listen on'),
+  token: z
+    .string()
+    .min(16, 'Management API token must be at least 16 characters')
+    .optional()
+    .describe('Bearer token for changes (trigger, cancel, eject, provision); read-only without it'),
+});
+
+/**
+ * Peer sync configuration schema (sharing content with other DangerPrep units)
+ */
+export const PeerSyncConfigSchema = z.object({
+  enabled: z.boolean().default(false).describe('Share content with and pull from other units'),
+  unit_name: z
+    .string()
+    .optional()
+    .describe('Name this unit advertises to its peers (defaults to the hostname)'),
+  schedule: z.string().default('0 */6 * * *').describe('Cron schedule for pulling from peers'),
+  peers: z
+    .array(z.string().url())
+    .default([])
+    .describe('Management API base URLs of other units, e.g. http://10.0.0.12:8081'),
+  tailscale_peers_url: z
+    .string()
+    .url()
+    .optional()
+    .describe('Portal Tailscale peers endpoint (/api/tailscale/peers) used to find other units'),
+  port: z
+    .number()
+    .int()
+    .min(1)
+    .max(65535)
+    .default(8080)
+    .describe('Port this service is reachable on at the units found through Tailscale'),
+  timeout: z.number().positive().default(10000).describe('Peer request timeout (ms)'),
+  transfer_timeout: z
+    .number()
+    .positive()
+    .default(6 * 60 * 60 * 1000)
+    .describe('Longest a single file may take to pull before it is resumed next time (ms)'),
+});
+
 /**
  * Standardized service configuration schema
  */
@@ -127,6 +175,8 @@ export const StandardizedServiceConfigSchema = z.object({
   enable_progress_tracking: z.boolean().default(true).describe('Enable progress tracking'),
   enable_auto_recovery: z.boolean().default(true).describe('Enable automatic error recovery'),
   metadata: z.record(z.string(), z.unknown()).optional().describe('Additional metadata'),
+  management_api: ManagementApiConfigSchema.optional().describe('Embedded HTTP management API'),
+  peer_sync: PeerSyncConfigSchema.optional().describe('Content sharing between units'),
 });
 
 /**
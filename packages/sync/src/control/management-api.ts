@@ -0,0 +1,337 @@
+/**
+ * Embedded HTTP management API for DangerPrep sync services
+ *
+ * Serves the same methods as the control socket as REST endpoints so the portal can show
+ * and drive sync services running in other containers.
+ */
+
+import { createReadStream } from 'fs';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { pipeline } from 'stream/promises';
+
+import { Logger } from '@dangerprep/logging';
+
+import { CONTROL_ERROR_CODES, ControlHandler, ControlRequestError } from './socket.js';
+
+export interface ManagementApiConfig {
+  enabled: boolean;
+  host: string;
+  port: number;
+  token?: string; // Bearer token for POST/DELETE requests, which are refused while it is unset
+}
+
+// Returned by control methods whose route serves a file instead of JSON
+export interface ManagementApiFile {
+  path: string;
+  size: number;
+}
+
+interface ManagementApiRoute {
+  method: 'GET' | 'POST' | 'DELETE';
+  pattern: RegExp;
+  handler: string; // Control method name
+  params?: (match: RegExpMatchArray, body: Record<string, unknown>) => unknown[];
+  file?: boolean; // The handler returns a ManagementApiFile (or null) to send with Range support
+  authorized?: boolean; // Needs the bearer token even for GET
+}
+
+const ROUTES: ManagementApiRoute[] = [
+  { method: 'GET', pattern: /^\/api\/status$/, handler: 'status' },
+  { method: 'GET', pattern: /^\/api\/health$/, handler: 'health-check' },
+  { method: 'GET', pattern: /^\/api\/stats$/, handler: 'stats' },
+  { method: 'GET', pattern: /^\/api\/operations$/, handler: 'operations' },
+  {
+    method: 'DELETE',
+    pattern: /^\/api\/operations\/([^/]+)$/,
+    handler: 'cancel',
+    params: match => [decodeURIComponent(match[1] ?? '')],
+  },
+  { method: 'GET', pattern: /^\/api\/history$/, handler: 'history' },
+  { method: 'GET', pattern: /^\/api\/transfers$/, handler: 'transfers' },
+  { method: 'GET', pattern: /^\/api\/storage$/, handler: 'storage' },
+  { method: 'GET', pattern: /^\/api\/schedule$/, handler: 'schedule' },
+  {
+    method: 'POST',
+    pattern: /^\/api\/sync$/,
+    handler: 'trigger',
+    params: (_match, body) => (typeof body.target === 'string' ? [body.target] : []),
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/plan\/([^/]+)$/,
+    handler: 'plan',
+    params: match => [decodeURIComponent(match[1] ?? '')],
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/deletions\/([^/]+)$/,
+    handler: 'deletions',
+    params: match => [decodeURIComponent(match[1] ?? '')],
+  },
+  { method: 'GET', pattern: /^\/api\/profiles$/, handler: 'profiles' },
+  { method: 'GET', pattern: /^\/api\/cards$/, handler: 'cards' },
+  {
+    method: 'POST',
+    pattern: /^\/api\/cards\/([^/]+)\/preflight$/,
+    handler: 'preflight',
+    params: match => [decodeURIComponent(match[1] ?? '')],
+  },
+  { method: 'GET', pattern: /^\/api\/ejects$/, handler: 'ejects' },
+  {
+    method: 'POST',
+    pattern: /^\/api\/cards\/([^/]+)\/eject$/,
+    handler: 'eject',
+    params: match => [decodeURIComponent(match[1] ?? '')],
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/cards\/([^/]+)\/provision$/,
+    handler: 'provision',
+    params: (match, body) => [decodeURIComponent(match[1] ?? ''), body],
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/cards\/([^/]+)\/profile$/,
+    handler: 'assign-profile',
+    params: (match, body) => [decodeURIComponent(match[1] ?? ''), body.profile ?? null],
+  },
+  { method: 'GET', pattern: /^\/api\/conflicts$/, handler: 'conflicts' },
+  {
+    method: 'POST',
+    pattern: /^\/api\/conflicts\/([^/]+)\/resolve$/,
+    handler: 'resolve-conflict',
+    params: (match, body) => [decodeURIComponent(match[1] ?? ''), body.resolution],
+  },
+  { method: 'GET', pattern: /^\/api\/peers$/, handler: 'peers' },
+  { method: 'POST', pattern: /^\/api\/peers\/sync$/, handler: 'peer-sync' },
+  // Shared content is only for other units, which send the same token
+  {
+    method: 'GET',
+    pattern: /^\/api\/peer\/manifest$/,
+    handler: 'peer-manifest',
+    authorized: true,
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/peer\/files\/(.+)$/,
+    handler: 'peer-file',
+    params: match => [decodeURIComponent(match[1] ?? '')],
+    file: true,
+    authorized: true,
+  },
+];
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+/**
+ * HTTP server that maps REST routes onto control methods
+ */
+export class ManagementApiServer {
+  private server: Server | null = null;
+
+  constructor(
+    private readonly config: ManagementApiConfig,
+    private readonly handlers: ReadonlyMap<string, ControlHandler>,
+    private readonly logger: Logger
+  ) {}
+
+  async start(): Promise<void> {
+    if (this.server) return;
+
+    const server = createServer((req, res) => {
+      void this.handleRequest(req, res);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.config.port, this.config.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    server.on('error', error =>
+      this.logger.error('Management API error', { error: error.message })
+    );
+    this.server = server;
+
+    this.logger.info(`Management API listening on ${this.config.host}:${this.config.port}`);
+    if (!this.config.token) {
+      this.logger.warn('Management API is read-only because management_api.token is not set');
+    }
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    const routes = ROUTES.filter(route => route.pattern.test(path));
+
+    if (routes.length === 0) {
+      this.sendError(res, 404, 'Not found', `No endpoint at ${path}`);
+      return;
+    }
+
+    const route = routes.find(candidate => candidate.method === req.method);
+    if (!route) {
+      res.setHeader('Allow', routes.map(candidate => candidate.method).join(', '));
+      this.sendError(res, 405, 'Method not allowed', `${req.method} is not allowed on ${path}`);
+      return;
+    }
+
+    // Anything that reaches the API could otherwise start syncs, erase cards or copy content
+    const needsToken = route.method !== 'GET' || route.authorized === true;
+    if (needsToken && !this.config.token) {
+      this.sendError(
+        res,
+        403,
+        'Forbidden',
+        `Set management_api.token to allow ${route.method === 'GET' ? 'access to' : 'changes through'} ${path}`
+      );
+      return;
+    }
+
+    if (needsToken && !this.isAuthorized(req)) {
+      this.sendError(res, 401, 'Unauthorized', 'A valid bearer token is required');
+      return;
+    }
+
+    const handler = this.handlers.get(route.handler);
+    if (!handler) {
+      this.sendError(res, 404, 'Not supported', `This service does not support ${path}`);
+      return;
+    }
+
+    try {
+      const body = route.method === 'POST' ? await this.readBody(req) : {};
+      const match = path.match(route.pattern) as RegExpMatchArray;
+      const data = await handler(...(route.params?.(match, body) ?? []));
+
+      if (route.file) {
+        await this.sendFile(req, res, data as ManagementApiFile | null);
+        return;
+      }
+
+      if (route.handler === 'cancel' && data === false) {
+        this.sendError(
+          res,
+          404,
+          'Operation not found',
+          'The operation does not exist or cannot be cancelled'
+        );
+        return;
+      }
+
+      if (route.handler === 'resolve-conflict' && data === null) {
+        this.sendError(res, 404, 'Conflict not found', 'The conflict does not exist');
+        return;
+      }
+
+      this.send(res, 200, {
+        success: true,
+        data: data ?? null,
+        metadata: {
+          timestamp: new Date().toISOString(),
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (error instanceof ControlRequestError) {
+        this.sendError(res, 400, 'Request failed', message);
+        return;
+      }
+
+      this.logger.warn(`Management API ${req.method} ${path} failed`, { error: message });
+      this.sendError(res, 500, 'Request failed', message);
+    }
+  }
+
+  private isAuthorized(req: IncomingMessage): boolean {
+    return req.headers.authorization === `Bearer ${this.config.token}`;
+  }
+
+  private async readBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+    let raw = '';
+    for await (const chunk of req) {
+      raw += String(chunk);
+      if (raw.length > MAX_BODY_BYTES) {
+        throw new ControlRequestError(
+          'Request body too large',
+          CONTROL_ERROR_CODES.INVALID_REQUEST
+        );
+      }
+    }
+
+    if (!raw.trim()) return {};
+
+    try {
+      const body = JSON.parse(raw) as unknown;
+      return body && typeof body === 'object' ? (body as Record<string, unknown>) : {};
+    } catch {
+      throw new ControlRequestError(
+        'Request body is not valid JSON',
+        CONTROL_ERROR_CODES.PARSE_ERROR
+      );
+    }
+  }
+
+  /**
+   * Send a file, or the single byte range requested, so interrupted downloads can resume
+   */
+  private async sendFile(
+    req: IncomingMessage,
+    res: ServerResponse,
+    file: ManagementApiFile | null
+  ): Promise<void> {
+    if (!file) {
+      this.sendError(res, 404, 'File not found', 'The file does not exist or is not shared');
+      return;
+    }
+
+    const range = req.headers.range?.match(/^bytes=(\d+)-(\d*)$/);
+    const start = range ? parseInt(range[1] ?? '0', 10) : 0;
+    const end = range?.[2] ? Math.min(parseInt(range[2], 10), file.size - 1) : file.size - 1;
+
+    if (req.headers.range && (!range || start > end || start >= file.size)) {
+      res.setHeader('Content-Range', `bytes */${file.size}`);
+      this.sendError(res, 416, 'Range not satisfiable', `The file is ${file.size} bytes`);
+      return;
+    }
+
+    res.writeHead(range ? 206 : 200, {
+      'Content-Type': 'application/octet-stream',
+      'Content-Length': String(end - start + 1),
+      'Accept-Ranges': 'bytes',
+      ...(range && { 'Content-Range': `bytes ${start}-${end}/${file.size}` }),
+    });
+    if (file.size === 0) {
+      res.end();
+      return;
+    }
+
+    try {
+      await pipeline(createReadStream(file.path, { start, end }), res);
+    } catch (error) {
+      // Usually the peer going away mid-transfer; it resumes from what it received
+      this.logger.debug(`Stopped sending ${file.path}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      res.destroy();
+    }
+  }
+
+  private sendError(res: ServerResponse, status: number, error: string, message: string): void {
+    this.send(res, status, { success: false, error, message });
+  }
+
+  private send(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
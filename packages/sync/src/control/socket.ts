@@ -0,0 +1,292 @@
+/**
+ * Local control channel for DangerPrep sync services
+ *
+ * A running service listens on a Unix socket and answers newline-delimited JSON-RPC 2.0
+ * requests, so CLI commands run next to it (e.g. via `docker exec`) act on the live daemon
+ * instead of a freshly constructed instance.
+ */
+
+import { existsSync, promises as fs } from 'fs';
+import { createConnection, createServer, Server, Socket } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { Logger } from '@dangerprep/logging';
+
+// JSON-RPC 2.0 error codes
+export const CONTROL_ERROR_CODES = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  HANDLER_ERROR: -32000,
+} as const;
+
+export interface ControlRequest {
+  jsonrpc: '2.0';
+  id: number | string;
+  method: string;
+  params?: unknown[];
+}
+
+export interface ControlResponse {
+  jsonrpc: '2.0';
+  id: number | string | null;
+  result?: unknown;
+  error?: {
+    code: number;
+    message: string;
+  };
+}
+
+export type ControlHandler = (...params: unknown[]) => Promise<unknown> | unknown;
+
+// Summary of an in-flight operation as reported over the control channel
+export interface ControlOperation {
+  id: string;
+  type: string;
+  status: string;
+  startTime: Date | string;
+  processedItems?: number;
+  totalItems?: number;
+  processedBytes?: number;
+  totalBytes?: number;
+  currentItem?: string;
+  metadata?: Record<string, unknown>;
+}
+
+// Outcome of a finished operation, kept in the service's recent history
+export interface ControlOperationResult {
+  id: string;
+  type: string;
+  success: boolean;
+  startTime: Date | string;
+  endTime: Date | string;
+  error?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Error returned by the daemon for a control request
+ */
+export class ControlRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly code: number
+  ) {
+    super(message);
+    this.name = 'ControlRequestError';
+  }
+}
+
+/**
+ * Resolve the control socket path for a service.
+ * SYNC_CONTROL_SOCKET overrides the default of `<tmpdir>/<serviceName>.sock`.
+ */
+export function getControlSocketPath(serviceName: string): string {
+  return process.env.SYNC_CONTROL_SOCKET || join(tmpdir(), `${serviceName}.sock`);
+}
+
+/**
+ * Unix socket server that dispatches JSON-RPC requests to registered handlers
+ */
+export class ControlServer {
+  private readonly handlers = new Map<string, ControlHandler>();
+  private server: Server | null = null;
+
+  constructor(
+    private readonly socketPath: string,
+    private readonly logger: Logger
+  ) {
+    this.handlers.set('ping', () => 'pong');
+  }
+
+  /**
+   * Register a method; replaces any handler already registered under the same name
+   */
+  register(method: string, handler: ControlHandler): void {
+    this.handlers.set(method, handler);
+  }
+
+  getMethods(): string[] {
+    return Array.from(this.handlers.keys());
+  }
+
+  async start(): Promise<void> {
+    if (this.server) return;
+
+    if (existsSync(this.socketPath)) {
+      if (await new ControlClient(this.socketPath).isAvailable()) {
+        throw new Error(`Another daemon is already listening on ${this.socketPath}`);
+      }
+      // Left behind by a daemon that did not shut down cleanly
+      await fs.unlink(this.socketPath);
+    }
+
+    const server = createServer(socket => this.handleConnection(socket));
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.socketPath, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    // The socket drives the daemon, so keep it private to the service user
+    await fs.chmod(this.socketPath, 0o600);
+    server.on('error', error => this.logger.error('Control socket error:', error));
+    this.server = server;
+
+    this.logger.info(`Control socket listening on ${this.socketPath}`);
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    await fs.rm(this.socketPath, { force: true });
+  }
+
+  private handleConnection(socket: Socket): void {
+    let buffer = '';
+
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+
+      let newline = buffer.indexOf('\n');
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (line) {
+          void this.handleLine(line).then(response => {
+            if (!socket.destroyed) {
+              socket.write(`${JSON.stringify(response)}\n`);
+            }
+          });
+        }
+        newline = buffer.indexOf('\n');
+      }
+    });
+    socket.on('error', error =>
+      this.logger.debug('Control connection error', { error: error.message })
+    );
+  }
+
+  private async handleLine(line: string): Promise<ControlResponse> {
+    let request: Partial<ControlRequest>;
+    try {
+      request = JSON.parse(line) as Partial<ControlRequest>;
+    } catch {
+      return this.errorResponse(null, CONTROL_ERROR_CODES.PARSE_ERROR, 'Invalid JSON');
+    }
+
+    const id = request.id ?? null;
+    if (typeof request.method !== 'string' || (request.params && !Array.isArray(request.params))) {
+      return this.errorResponse(id, CONTROL_ERROR_CODES.INVALID_REQUEST, 'Invalid request');
+    }
+
+    const handler = this.handlers.get(request.method);
+    if (!handler) {
+      return this.errorResponse(
+        id,
+        CONTROL_ERROR_CODES.METHOD_NOT_FOUND,
+        `Unknown method: ${request.method}`
+      );
+    }
+
+    try {
+      const result = await handler(...(request.params ?? []));
+      return { jsonrpc: '2.0', id, result: result ?? null };
+    } catch (error) {
+      this.logger.warn(`Control method ${request.method} failed`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return this.errorResponse(
+        id,
+        CONTROL_ERROR_CODES.HANDLER_ERROR,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+
+  private errorResponse(
+    id: number | string | null,
+    code: number,
+    message: string
+  ): ControlResponse {
+    return { jsonrpc: '2.0', id, error: { code, message } };
+  }
+}
+
+/**
+ * Client side of the control channel, used by the CLI
+ */
+export class ControlClient {
+  private nextId = 1;
+
+  constructor(
+    private readonly socketPath: string,
+    private readonly timeoutMs: number = 10000
+  ) {}
+
+  /**
+   * Check whether a daemon is answering on the socket
+   */
+  async isAvailable(): Promise<boolean> {
+    if (!existsSync(this.socketPath)) return false;
+
+    try {
+      return (await this.call('ping')) === 'pong';
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Call a method on the daemon and resolve with its result
+   */
+  call<T = unknown>(method: string, ...params: unknown[]): Promise<T> {
+    const request: ControlRequest = { jsonrpc: '2.0', id: this.nextId++, method, params };
+
+    return new Promise<T>((resolve, reject) => {
+      const socket = createConnection(this.socketPath);
+      let buffer = '';
+
+      const finish = (error: Error | null, result?: unknown) => {
+        socket.destroy();
+        if (error) {
+          reject(error);
+        } else {
+          resolve(result as T);
+        }
+      };
+
+      socket.setEncoding('utf8');
+      socket.setTimeout(this.timeoutMs, () =>
+        finish(new Error(`Control request ${method} timed out after ${this.timeoutMs}ms`))
+      );
+      socket.on('connect', () => socket.write(`${JSON.stringify(request)}\n`));
+      socket.on('error', error => finish(error));
+      socket.on('close', () => finish(new Error(`Control socket closed before ${method} replied`)));
+      socket.on('data', (chunk: string) => {
+        buffer += chunk;
+        const newline = buffer.indexOf('\n');
+        if (newline === -1) return;
+
+        try {
+          const response = JSON.parse(buffer.slice(0, newline)) as ControlResponse;
+          if (response.error) {
+            finish(new ControlRequestError(response.error.message, response.error.code));
+          } else {
+            finish(null, response.result);
+          }
+        } catch (error) {
+          finish(error instanceof Error ? error : new Error(String(error)));
+        }
+      });
+    });
+  }
+}
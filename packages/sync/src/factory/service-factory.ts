@@ -9,8 +9,15 @@ import {
   StandardizedServiceConfig,
   ServiceLifecycleHooks,
 } from '../base/standardized-service.js';
-import { StandardizedCli, StandardizedCliConfig, CliCommand } from '../cli/standardized-cli.js';
+import {
+  StandardizedCli,
+  StandardizedCliConfig,
+  CliCommand,
+  CliOutput,
+} from '../cli/standardized-cli.js';
 import { StandardizedServiceConfigSchema } from '../config/schemas.js';
+import type { ControlClient } from '../control/socket.js';
+import type { Peer } from '../peer/discovery.js';
 
 // Service factory configuration
 export interface ServiceFactoryConfig<TConfig extends StandardizedServiceConfig> {
@@ -238,6 +245,33 @@ export class ServicePatterns {
           console.log('Log viewing not implemented - check service logs directly');
         },
       },
+      {
+        name: 'peers',
+        description: 'List the other units the running service can pull content from',
+        options: [{ flags: '--json', description: 'Output as JSON' }],
+        remoteAction: async (_args, options, daemon: ControlClient) => {
+          const peers = await daemon.call<Peer[]>('peers');
+
+          if (options.json) {
+            // eslint-disable-next-line no-console
+            console.log(JSON.stringify(peers, null, 2));
+            return;
+          }
+          if (peers.length === 0) {
+            CliOutput.info('No peers found (peer_sync.peers, peer_sync.tailscale_peers_url)');
+            return;
+          }
+          peers.forEach(peer => CliOutput.info(`${peer.name} - ${peer.url} (${peer.source})`));
+        },
+      },
+      {
+        name: 'peer-sync',
+        description: 'Pull missing content from other units in the running service',
+        remoteAction: async (_args, _options, daemon: ControlClient) => {
+          const operationId = await daemon.call<string>('peer-sync');
+          CliOutput.success(`Peer sync started with operation ID: ${operationId}`);
+        },
+      },
     ];
   }
 
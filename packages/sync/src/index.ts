@@ -8,6 +8,15 @@ export * from './base/standardized-service';
 // Export transfer engine
 export * from './transfer/engine';
 
+// Export peer sync
+export * from './peer/content';
+export * from './peer/discovery';
+export * from './peer/sync';
+
+// Export control socket
+export * from './control/socket';
+export * from './control/management-api';
+
 // Export CLI framework
 export * from './cli/base-cli';
 export * from './cli/standardized-cli';
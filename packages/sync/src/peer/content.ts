@@ -0,0 +1,158 @@
+/**
+ * Content a DangerPrep unit shares with its peers
+ *
+ * Peers only pull files whose SHA-256 is known, so it can be verified after the transfer.
+ * Checksums are computed in the background, one file at a time, and cached by size and
+ * modification time; a file is advertised once its checksum is ready.
+ */
+
+import { createHash } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+
+import { ensureDirectory } from '@dangerprep/files';
+import type { Logger } from '@dangerprep/logging';
+
+import type { ManagementApiFile } from '../control/management-api.js';
+
+// A local file a service offers to its peers
+export interface PeerContentFile {
+  id: string; // Stable across units, e.g. "movies/Alien (1979)/Alien.mkv"
+  contentType: string;
+  path: string;
+}
+
+export interface PeerManifestItem {
+  id: string;
+  contentType: string;
+  size: number;
+  modified: string;
+  sha256: string;
+}
+
+export interface PeerManifest {
+  unit: string;
+  service: string;
+  items: PeerManifestItem[];
+  pending: number; // Files not advertised yet because their checksum is being computed
+  generatedAt: string;
+}
+
+interface CachedChecksum {
+  size: number;
+  mtimeMs: number;
+  sha256: string;
+}
+
+/**
+ * Builds the manifest of shared files and resolves the files peers request
+ */
+export class PeerContentIndex {
+  private checksums = new Map<string, CachedChecksum>();
+  private loaded: Promise<void> | null = null;
+  private queue = new Set<string>();
+  private hashing = false;
+
+  constructor(
+    private readonly cacheFile: string,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Manifest items for the files whose checksum is known; the rest are queued for hashing
+   */
+  async build(files: PeerContentFile[]): Promise<{ items: PeerManifestItem[]; pending: number }> {
+    await this.load();
+
+    const items: PeerManifestItem[] = [];
+    for (const file of files) {
+      const stats = await fs.stat(file.path).catch(() => null);
+      if (!stats?.isFile()) continue;
+
+      const cached = this.checksums.get(file.path);
+      if (cached && cached.size === stats.size && cached.mtimeMs === stats.mtimeMs) {
+        items.push({
+          id: file.id,
+          contentType: file.contentType,
+          size: stats.size,
+          modified: stats.mtime.toISOString(),
+          sha256: cached.sha256,
+        });
+      } else {
+        this.queue.add(file.path);
+      }
+    }
+
+    // Forget files that are no longer shared
+    const shared = new Set(files.map(file => file.path));
+    for (const filePath of this.checksums.keys()) {
+      if (!shared.has(filePath)) this.checksums.delete(filePath);
+    }
+
+    const pending = this.queue.size;
+    void this.hashQueued();
+    return { items, pending };
+  }
+
+  /**
+   * The shared file with this id, or null when it is not shared
+   */
+  async resolve(files: PeerContentFile[], id: string): Promise<ManagementApiFile | null> {
+    const file = files.find(candidate => candidate.id === id);
+    if (!file) return null;
+
+    const stats = await fs.stat(file.path).catch(() => null);
+    return stats?.isFile() ? { path: file.path, size: stats.size } : null;
+  }
+
+  private async load(): Promise<void> {
+    this.loaded ??= fs
+      .readFile(this.cacheFile, 'utf8')
+      .then(data => {
+        this.checksums = new Map(
+          Object.entries(JSON.parse(data) as Record<string, CachedChecksum>)
+        );
+      })
+      .catch(error => {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          this.logger.warn(`Failed to read peer checksum cache: ${error}`);
+        }
+      });
+    await this.loaded;
+  }
+
+  private async save(): Promise<void> {
+    await ensureDirectory(path.dirname(this.cacheFile));
+    await fs.writeFile(this.cacheFile, JSON.stringify(Object.fromEntries(this.checksums)));
+  }
+
+  private async hashQueued(): Promise<void> {
+    if (this.hashing) return;
+    this.hashing = true;
+
+    try {
+      for (const filePath of this.queue) {
+        try {
+          const stats = await fs.stat(filePath);
+          const hash = createHash('sha256');
+          await pipeline(createReadStream(filePath), hash);
+
+          this.checksums.set(filePath, {
+            size: stats.size,
+            mtimeMs: stats.mtimeMs,
+            sha256: hash.digest('hex'),
+          });
+          await this.save();
+          this.logger.debug(`Computed the checksum of ${filePath} for peers`);
+        } catch (error) {
+          this.logger.warn(`Failed to checksum ${filePath} for peers: ${error}`);
+        } finally {
+          this.queue.delete(filePath);
+        }
+      }
+    } finally {
+      this.hashing = false;
+    }
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Finds other DangerPrep units to share content with
+ *
+ * Units are the configured peer URLs plus the online Tailscale peers the portal reports. A
+ * Tailscale peer that is not a DangerPrep unit simply fails its manifest request and is skipped.
+ */
+
+import type { Logger } from '@dangerprep/logging';
+
+import { getJson } from './http.js';
+import type { PeerSyncConfig } from './sync.js';
+
+export interface Peer {
+  name: string;
+  url: string; // Base URL of the peer's management API
+  source: 'static' | 'tailscale';
+}
+
+// Fields of the portal's /api/tailscale/peers entries that discovery uses
+interface TailscalePeerSummary {
+  hostname: string;
+  tailscaleIPs?: string[];
+  online?: boolean;
+}
+
+export class PeerDiscovery {
+  constructor(
+    private readonly config: PeerSyncConfig,
+    private readonly logger: Logger
+  ) {}
+
+  async discover(): Promise<Peer[]> {
+    const peers: Peer[] = this.config.peers.map(url => ({
+      name: new URL(url).hostname,
+      url: url.replace(/\/+$/, ''),
+      source: 'static',
+    }));
+
+    for (const peer of await this.discoverTailscale()) {
+      if (!peers.some(known => known.url === peer.url)) {
+        peers.push(peer);
+      }
+    }
+    return peers;
+  }
+
+  private async discoverTailscale(): Promise<Peer[]> {
+    const { tailscale_peers_url, port, timeout } = this.config;
+    if (!tailscale_peers_url) return [];
+
+    try {
+      const response = await getJson<{ data?: TailscalePeerSummary[] }>(
+        tailscale_peers_url,
+        timeout
+      );
+
+      return (response.data ?? []).flatMap(peer => {
+        const ips = peer.tailscaleIPs ?? [];
+        const ip = ips.find(candidate => !candidate.includes(':')) ?? ips[0];
+        if (!peer.online || !ip) return [];
+
+        const host = ip.includes(':') ? `[${ip}]` : ip;
+        return [
+          { name: peer.hostname, url: `http://${host}:${port}`, source: 'tailscale' as const },
+        ];
+      });
+    } catch (error) {
+      this.logger.warn(`Failed to list Tailscale peers from ${tailscale_peers_url}: ${error}`);
+      return [];
+    }
+  }
+}
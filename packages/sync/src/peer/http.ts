@@ -0,0 +1,51 @@
+/**
+ * Minimal HTTP client for talking to peers and the portal
+ */
+
+import http, { IncomingMessage } from 'http';
+import https from 'https';
+
+/**
+ * Start a GET request and resolve with the response once its headers arrive; the timeout only
+ * covers waiting for them, so large bodies can take as long as they need
+ */
+export function get(
+  url: string,
+  timeout: number,
+  headers: Record<string, string> = {}
+): Promise<IncomingMessage> {
+  const client = url.startsWith('https:') ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const req = client.get(url, { headers }, res => {
+      req.setTimeout(0);
+      resolve(res);
+    });
+    req.setTimeout(timeout, () =>
+      req.destroy(new Error(`No response from ${url} in ${timeout}ms`))
+    );
+    req.on('error', reject);
+  });
+}
+
+/**
+ * GET a JSON document, failing on any status other than 200
+ */
+export async function getJson<T>(
+  url: string,
+  timeout: number,
+  headers: Record<string, string> = {}
+): Promise<T> {
+  const res = await get(url, timeout, { ...headers, Accept: 'application/json' });
+
+  let body = '';
+  res.setEncoding('utf8');
+  for await (const chunk of res) {
+    body += chunk;
+  }
+
+  if (res.statusCode !== 200) {
+    throw new Error(`${url} returned ${res.statusCode}`);
+  }
+  return JSON.parse(body) as T;
+}
@@ -0,0 +1,172 @@
+/**
+ * Peer sync between DangerPrep units
+ *
+ * Each unit advertises the content its sync services hold through their management API
+ * (/api/peer/manifest) and serves those files with Range support (/api/peer/files/<id>).
+ * Missing files are pulled from a peer through the TransferEngine, which resumes interrupted
+ * pulls and checks the SHA-256 from the peer's manifest before the file is used.
+ */
+
+import { hostname } from 'os';
+import path from 'path';
+
+import type { Logger } from '@dangerprep/logging';
+
+import type { ManagementApiFile } from '../control/management-api.js';
+import { TransferEngine, TransferSource } from '../transfer/engine.js';
+import { FileTransfer } from '../types';
+
+import { PeerContentFile, PeerContentIndex, PeerManifest, PeerManifestItem } from './content.js';
+import { Peer, PeerDiscovery } from './discovery.js';
+import { get, getJson } from './http.js';
+
+export interface PeerSyncConfig {
+  enabled: boolean;
+  unit_name?: string;
+  schedule: string;
+  peers: string[];
+  tailscale_peers_url?: string;
+  port: number;
+  timeout: number;
+  transfer_timeout: number;
+}
+
+export interface PeerSyncResult {
+  peers: number; // Peers whose manifest could be read
+  pulled: string[];
+  failed: string[];
+}
+
+export class PeerSync {
+  private readonly discovery: PeerDiscovery;
+  private readonly index: PeerContentIndex;
+  private readonly transferEngine: TransferEngine;
+
+  /**
+   * @param token - management_api.token, which every unit shares to read each other's content
+   */
+  constructor(
+    private readonly config: PeerSyncConfig,
+    private readonly serviceName: string,
+    dataDirectory: string,
+    private readonly token: string,
+    private readonly logger: Logger
+  ) {
+    this.discovery = new PeerDiscovery(config, logger);
+    this.index = new PeerContentIndex(path.join(dataDirectory, 'peer-checksums.json'), logger);
+    this.transferEngine = TransferEngine.createDefault(logger, {
+      maxConcurrentTransfers: 1,
+      defaultTimeout: config.transfer_timeout,
+      defaultRetryAttempts: 0,
+      resumeDataPath: path.join(dataDirectory, 'peer-transfers.json'),
+    });
+  }
+
+  get unitName(): string {
+    return this.config.unit_name ?? hostname();
+  }
+
+  async discoverPeers(): Promise<Peer[]> {
+    return await this.discovery.discover();
+  }
+
+  /**
+   * This unit's manifest of the given shared files
+   */
+  async buildManifest(files: PeerContentFile[]): Promise<PeerManifest> {
+    const { items, pending } = await this.index.build(files);
+    return {
+      unit: this.unitName,
+      service: this.serviceName,
+      items,
+      pending,
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  async resolveFile(files: PeerContentFile[], id: string): Promise<ManagementApiFile | null> {
+    return await this.index.resolve(files, id);
+  }
+
+  /**
+   * Read a peer's manifest; fails for anything that is not this service on another unit
+   */
+  async fetchManifest(peer: Peer): Promise<PeerManifest> {
+    const response = await getJson<{ data?: PeerManifest }>(
+      `${peer.url}/api/peer/manifest`,
+      this.config.timeout,
+      this.authorization
+    );
+
+    const manifest = response.data;
+    if (!manifest || !Array.isArray(manifest.items)) {
+      throw new Error(`${peer.url} did not return a peer manifest`);
+    }
+    if (manifest.service !== this.serviceName) {
+      throw new Error(`${peer.url} is ${manifest.service}, not ${this.serviceName}`);
+    }
+    if (manifest.unit === this.unitName) {
+      throw new Error(`${peer.url} is this unit`);
+    }
+    return manifest;
+  }
+
+  /**
+   * Pull one item from a peer to destinationPath, resuming an earlier partial pull from the
+   * same peer; rejects when the transfer fails or does not match the manifest
+   */
+  async pull(peer: Peer, item: PeerManifestItem, destinationPath: string): Promise<void> {
+    const url = `${peer.url}/api/peer/files/${item.id.split('/').map(encodeURIComponent).join('/')}`;
+    const source: TransferSource = {
+      size: item.size,
+      checksum: item.sha256,
+      open: async start => {
+        const res = await get(url, this.config.timeout, {
+          ...this.authorization,
+          ...(start > 0 && { Range: `bytes=${start}-` }),
+        });
+        if (res.statusCode !== (start > 0 ? 206 : 200)) {
+          res.resume();
+          throw new Error(`${url} returned ${res.statusCode}`);
+        }
+        return res;
+      },
+    };
+
+    const transferId = await this.transferEngine.queueTransfer(url, destinationPath, {
+      source,
+      resumeTransfer: true,
+      verifyTransfer: true,
+      checksumAlgorithm: 'sha256',
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      const onCompleted = (transfer: FileTransfer) => {
+        if (transfer.id === transferId) {
+          this.transferEngine.off('transfer_completed', onCompleted);
+          this.transferEngine.off('transfer_failed', onFailed);
+          resolve();
+        }
+      };
+
+      const onFailed = (transfer: FileTransfer) => {
+        if (transfer.id === transferId) {
+          this.transferEngine.off('transfer_completed', onCompleted);
+          this.transferEngine.off('transfer_failed', onFailed);
+          reject(new Error(transfer.error || 'Transfer failed'));
+        }
+      };
+
+      this.transferEngine.on('transfer_completed', onCompleted);
+      this.transferEngine.on('transfer_failed', onFailed);
+    });
+  }
+
+  private get authorization(): Record<string, string> {
+    return { Authorization: `Bearer ${this.token}` };
+  }
+
+  listTransfers(): FileTransfer[] {
+    return this.transferEngine.getActiveTransfers();
+  }
+}
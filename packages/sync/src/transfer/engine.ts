@@ -2,6 +2,7 @@ import { createHash } from 'crypto';
 import { EventEmitter } from 'events';
 import { createReadStream, createWriteStream, promises as fs } from 'fs';
 import path from 'path';
+import type { Readable } from 'stream';
 import { pipeline } from 'stream/promises';
 
 import { ErrorFactory, runWithErrorContext } from '@dangerprep/errors';
@@ -28,6 +29,17 @@ export interface TransferOptions {
   bandwidth?: number; // bytes per second limit
   onProgress?: (progress: ProgressInfo) => void;
   signal?: AbortSignal;
+  source?: TransferSource; // read from here instead of the file at sourcePath
+}
+
+/**
+ * Content a transfer reads from when it is not a local file, e.g. a file served by another unit.
+ * The transfer's sourcePath is then only used to label it and to match resume data.
+ */
+export interface TransferSource {
+  size: number;
+  checksum?: string; // of the whole content, in the transfer's checksum algorithm
+  open(start: number): Promise<Readable>;
 }
 
 export interface TransferEngineConfig {
@@ -160,7 +172,7 @@ export class TransferEngine extends EventEmitter {
     const transferId = this.generateTransferId();
 
     try {
-      const sourceStats = await fs.stat(sourcePath);
+      const size = options.source?.size ?? (await fs.stat(sourcePath)).size;
       let transferred = 0;
       let resumeData: ResumeData | undefined;
 
@@ -171,8 +183,14 @@ export class TransferEngine extends EventEmitter {
           data => `${data.sourcePath}:${data.destinationPath}` === existingResumeKey
         );
 
-        if (resumeData && resumeData.totalSize === sourceStats.size) {
-          transferred = resumeData.transferred;
+        if (resumeData && resumeData.totalSize === size) {
+          // Progress is saved as data is read, so it can be ahead of what reached the disk
+          const written = await fs
+            .stat(destinationPath)
+            .then(stats => stats.size)
+            .catch(() => 0);
+          transferred = Math.min(resumeData.transferred, written);
+          this.resumeData.delete(resumeData.transferId);
           this.logger.info(`Resuming transfer from ${transferred} bytes: ${sourcePath}`);
         }
       }
@@ -181,7 +199,7 @@ export class TransferEngine extends EventEmitter {
         id: transferId,
         sourcePath,
         destinationPath,
-        size: sourceStats.size,
+        size,
         transferred,
         status: 'pending',
         startTime: new Date(),
@@ -394,7 +412,8 @@ export class TransferEngine extends EventEmitter {
         transfer.transferred,
         progressCallback,
         options.signal,
-        options.bandwidth
+        options.bandwidth,
+        options.source
       );
 
       const timeoutPromise = new Promise<never>((_, reject) => {
@@ -412,7 +431,13 @@ export class TransferEngine extends EventEmitter {
 
       // Verify transfer if enabled
       if (options.verifyTransfer ?? this.config.verifyTransfers) {
-        await this.verifyTransferWithChecksum(transfer, checksumAlgorithm);
+        try {
+          await this.verifyTransferWithChecksum(transfer, checksumAlgorithm, options.source);
+        } catch (error) {
+          // The copy is complete but wrong, so resuming it would only fail again
+          this.resumeData.delete(resumeDataKey);
+          throw error;
+        }
       }
 
       // Create completion marker if enabled
@@ -450,9 +475,12 @@ export class TransferEngine extends EventEmitter {
     startOffset: number,
     onProgress: (bytes: number) => void,
     signal?: AbortSignal,
-    bandwidthLimit?: number
+    bandwidthLimit?: number,
+    source?: TransferSource
   ): Promise<void> {
-    const sourceStream = createReadStream(sourcePath, { start: startOffset });
+    const sourceStream: Readable = source
+      ? await source.open(startOffset)
+      : createReadStream(sourcePath, { start: startOffset });
     const destinationStream = createWriteStream(destinationPath, {
       flags: startOffset > 0 ? 'r+' : 'w',
       start: startOffset,
@@ -534,8 +562,14 @@ export class TransferEngine extends EventEmitter {
    */
   private async verifyTransferWithChecksum(
     transfer: FileTransfer,
-    algorithm: 'md5' | 'sha1' | 'sha256'
+    algorithm: 'md5' | 'sha1' | 'sha256',
+    source?: TransferSource
   ): Promise<void> {
+    if (source) {
+      await this.verifySourceTransfer(transfer, algorithm, source);
+      return;
+    }
+
     const [sourceStats, destStats] = await Promise.all([
       fs.stat(transfer.sourcePath),
       fs.stat(transfer.destinationPath),
@@ -560,6 +594,34 @@ export class TransferEngine extends EventEmitter {
     this.logger.debug(`Transfer verified successfully: ${algorithm} checksum ${sourceChecksum}`);
   }
 
+  /**
+   * Verify a transfer from a TransferSource against the size and checksum it reported
+   */
+  private async verifySourceTransfer(
+    transfer: FileTransfer,
+    algorithm: 'md5' | 'sha1' | 'sha256',
+    source: TransferSource
+  ): Promise<void> {
+    const destStats = await fs.stat(transfer.destinationPath);
+    if (destStats.size !== source.size) {
+      throw new Error(
+        `Size mismatch: source ${source.size} bytes, destination ${destStats.size} bytes`
+      );
+    }
+
+    if (!source.checksum) {
+      this.logger.debug('Transfer verified by size only, the source has no checksum');
+      return;
+    }
+
+    const destChecksum = await this.calculateFileChecksum(transfer.destinationPath, algorithm);
+    if (destChecksum !== source.checksum) {
+      throw new Error(`Checksum mismatch: source ${source.checksum}, destination ${destChecksum}`);
+    }
+
+    this.logger.debug(`Transfer verified successfully: ${algorithm} checksum ${destChecksum}`);
+  }
+
   /**
    * Calculate file checksum
    */